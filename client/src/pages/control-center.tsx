@@ -6,7 +6,11 @@ import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
 
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
@@ -26,22 +30,317 @@ import {
   MapPin,
   FileText,
   Eye,
-  Settings
+  Settings,
+  XCircle,
+  AlertTriangle,
+  Trash2,
+  History,
+  Download
 } from "lucide-react";
 
 interface PipelineStatus {
   id: number;
-  status: 'idle' | 'running' | 'completed' | 'failed';
+  status: 'idle' | 'running' | 'completed' | 'failed' | 'cancelled';
   startTime: string;
   endTime?: string;
   totalJobs: number;
   processedJobs: number;
   newJobs: number;
+  updatedJobs?: number;
   removedJobs: number;
   currentStep: string;
   errorMessage?: string;
 }
 
+interface ExecutionSummary extends PipelineStatus {
+  pendingRemovals?: number;
+  triggerSource: string;
+  durationMs: number | null;
+}
+
+interface ExecutionPage {
+  executions: ExecutionSummary[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+interface ExecutionDetail {
+  execution: ExecutionSummary;
+  logs: ActivityLog[];
+  changeset: {
+    total: number;
+    byAction: Record<string, number>;
+    byStatus: Record<string, number>;
+  };
+}
+
+interface ChangelogEntry {
+  id: number;
+  jobId: string;
+  action: 'add' | 'update' | 'remove';
+  status: string;
+  title: string | null;
+  companyName: string | null;
+  location: string | null;
+  appliedAt: string | null;
+  rolledBackAt: string | null;
+  fields: { field: string; before: string | null; after: string | null }[];
+}
+
+interface Changelog {
+  executionId: number;
+  entries: ChangelogEntry[];
+}
+
+const CHANGE_ACTION_STYLES: Record<ChangelogEntry['action'], { label: string; className: string }> = {
+  add: { label: 'Added', className: 'bg-green-100 text-green-700' },
+  update: { label: 'Updated', className: 'bg-blue-100 text-blue-700' },
+  remove: { label: 'Removed', className: 'bg-red-100 text-red-700' },
+};
+
+const HISTORY_PAGE_SIZE = 20;
+
+const TRIGGER_LABELS: Record<string, string> = {
+  manual: 'Manual',
+  scheduled: 'Scheduled',
+  webhook: 'Webhook',
+  test: 'Schedule test',
+};
+
+const executionBadgeVariant = (status: string) =>
+  status === 'completed' ? 'default' as const :
+  status === 'running' || status === 'cancelled' ? 'secondary' as const : 'destructive' as const;
+
+const formatDuration = (ms: number | null) => {
+  if (ms === null) return '—';
+  const seconds = Math.round(ms / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+interface FacetCount {
+  value: string;
+  count: number;
+}
+
+interface JobFacets {
+  total: number;
+  bucket: 'day' | 'week' | 'month';
+  state: FacetCount[];
+  city: FacetCount[];
+  company: FacetCount[];
+  country: FacetCount[];
+  source: FacetCount[];
+  created: FacetCount[];
+}
+
+const FACET_CHART_CONFIG = {
+  count: { label: 'Jobs', color: 'var(--azure-blue)' },
+} satisfies ChartConfig;
+
+const FACET_BREAKDOWNS: { key: Exclude<keyof JobFacets, 'total' | 'bucket' | 'created'>; title: string }[] = [
+  { key: 'state', title: 'By State' },
+  { key: 'city', title: 'By City' },
+  { key: 'company', title: 'By Company' },
+  { key: 'country', title: 'By Country' },
+  { key: 'source', title: 'By Source' },
+];
+
+// Horizontal bars, most common value on top
+const FacetBarChart = ({ data }: { data: FacetCount[] }) => (
+  <ChartContainer config={FACET_CHART_CONFIG} className="w-full" style={{ height: Math.max(data.length, 1) * 32 + 16 }}>
+    <BarChart data={data} layout="vertical" margin={{ left: 8, right: 16 }}>
+      <CartesianGrid horizontal={false} />
+      <XAxis type="number" allowDecimals={false} hide />
+      <YAxis type="category" dataKey="value" width={140} tickLine={false} axisLine={false} />
+      <ChartTooltip content={<ChartTooltipContent />} />
+      <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+    </BarChart>
+  </ChartContainer>
+);
+
+interface CheckpointSummary {
+  executionId: number;
+  total: number;
+  unfinished: number;
+  fetched: number;
+  enriched: number;
+  saved: number;
+  failed: number;
+}
+
+interface PendingRemovals {
+  total: number;
+  executionId: number | null;
+  policy: {
+    maxPercent: number;
+    maxCount: number;
+    mode: 'hold' | 'abort';
+  };
+  removals: Array<{
+    id: number;
+    executionId: number;
+    jobId: string;
+    title?: string;
+    createdAt: string;
+  }>;
+}
+
+interface AlgoliaQueryProfile {
+  name: string;
+  index: string;
+  filters: string;
+  countries: string[];
+  countryAttribute: string;
+  attributesToRetrieve: string[];
+  hitsPerPage: number;
+  splitBy: Array<{ type: 'facet' | 'range'; attribute: string }>;
+}
+
+interface AlgoliaProfiles {
+  defaultProfile: string;
+  profiles: AlgoliaQueryProfile[];
+}
+
+// Editable form of a profile; lists are comma-separated and splits are written as "facet:data.city"
+interface ProfileForm {
+  name: string;
+  index: string;
+  filters: string;
+  countries: string;
+  countryAttribute: string;
+  attributesToRetrieve: string;
+  hitsPerPage: number;
+  splitBy: string;
+}
+
+const EMPTY_PROFILE_FORM: ProfileForm = {
+  name: '',
+  index: '',
+  filters: '',
+  countries: '',
+  countryAttribute: 'data.country',
+  attributesToRetrieve: '',
+  hitsPerPage: 1000,
+  splitBy: 'facet:data.city',
+};
+
+const splitList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+const toProfileForm = (profile: AlgoliaQueryProfile): ProfileForm => ({
+  name: profile.name,
+  index: profile.index,
+  filters: profile.filters,
+  countries: profile.countries.join(', '),
+  countryAttribute: profile.countryAttribute,
+  attributesToRetrieve: profile.attributesToRetrieve.join(', '),
+  hitsPerPage: profile.hitsPerPage,
+  splitBy: profile.splitBy.map(split => `${split.type}:${split.attribute}`).join(', '),
+});
+
+const fromProfileForm = (form: ProfileForm): AlgoliaQueryProfile => ({
+  name: form.name.trim(),
+  index: form.index.trim(),
+  filters: form.filters.trim(),
+  countries: splitList(form.countries),
+  countryAttribute: form.countryAttribute.trim() || 'data.country',
+  attributesToRetrieve: splitList(form.attributesToRetrieve),
+  hitsPerPage: form.hitsPerPage,
+  splitBy: splitList(form.splitBy).map(split => {
+    const [type, ...attribute] = split.split(':');
+    return type === 'range' || type === 'facet'
+      ? { type, attribute: attribute.join(':') }
+      : { type: 'facet' as const, attribute: split };
+  }),
+});
+
+type MisfirePolicy = 'run-once' | 'skip' | 'run-all';
+
+const MISFIRE_POLICY_LABELS: Record<MisfirePolicy, string> = {
+  'run-once': 'Run once on startup',
+  skip: 'Skip and advance',
+  'run-all': 'Run all missed (up to 24)',
+};
+
+interface PipelineSchedule {
+  id: number;
+  name: string;
+  cron: string;
+  timezone: string;
+  batchSize: number;
+  sources: string[];
+  profile?: string;
+  enabled: boolean;
+  oneTime: boolean;
+  misfirePolicy: MisfirePolicy;
+  nextRun: string | null;
+  lastRun: string | null;
+  version: number;
+}
+
+// Editable form of a schedule; sources are comma-separated, and id and version are null until it's created
+interface ScheduleForm {
+  id: number | null;
+  version: number | null; // Sent back on save, so an edit made elsewhere meanwhile isn't overwritten
+  name: string;
+  cron: string;
+  timezone: string;
+  batchSize: number;
+  sources: string;
+  profile: string;
+  enabled: boolean;
+  oneTime: boolean;
+  misfirePolicy: MisfirePolicy;
+}
+
+const EMPTY_SCHEDULE_FORM: ScheduleForm = {
+  id: null,
+  version: null,
+  name: '',
+  cron: '0 2 * * *',
+  timezone: 'America/New_York',
+  batchSize: 1000,
+  sources: '',
+  profile: 'default',
+  enabled: true,
+  oneTime: false,
+  misfirePolicy: 'run-once',
+};
+
+const CRON_PRESETS = [
+  { label: 'Daily at 02:00', cron: '0 2 * * *' },
+  { label: 'Weekdays at 09:30', cron: '30 9 * * 1-5' },
+  { label: 'Every 6 hours', cron: '0 */6 * * *' },
+  { label: 'Mondays at 06:00', cron: '0 6 * * 1' },
+];
+
+const toScheduleForm = (schedule: PipelineSchedule): ScheduleForm => ({
+  id: schedule.id,
+  version: schedule.version,
+  name: schedule.name,
+  cron: schedule.cron,
+  timezone: schedule.timezone,
+  batchSize: schedule.batchSize,
+  sources: schedule.sources.join(', '),
+  profile: schedule.profile || 'default',
+  enabled: schedule.enabled,
+  oneTime: schedule.oneTime,
+  misfirePolicy: schedule.misfirePolicy,
+});
+
+const fromScheduleForm = (form: ScheduleForm) => ({
+  name: form.name.trim(),
+  cron: form.cron.trim(),
+  timezone: form.timezone.trim(),
+  batchSize: form.batchSize,
+  sources: splitList(form.sources),
+  profile: form.profile === 'default' ? null : form.profile,
+  enabled: form.enabled,
+  oneTime: form.oneTime,
+  misfirePolicy: form.misfirePolicy,
+  version: form.version ?? undefined,
+});
+
 interface ActivityLog {
   id: number;
   message: string;
@@ -62,6 +361,7 @@ interface JobPosting {
   longitude?: string;
   description?: string;
   companyName?: string;
+  source?: string;
   createdAt: string;
 }
 
@@ -74,13 +374,14 @@ interface SystemStatus {
 }
 
 interface PipelineProgress {
-  type: 'status' | 'complete' | 'error';
+  type: 'status' | 'complete' | 'error' | 'cancelled';
   status?: string;
   step?: string;
   progress?: number;
   totalJobs?: number;
   processedJobs?: number;
   newJobs?: number;
+  updatedJobs?: number;
   removedJobs?: number;
   message?: string;
 }
@@ -90,11 +391,20 @@ export default function ControlCenter() {
   const [pipelineProgress, setPipelineProgress] = useState<PipelineProgress | null>(null);
   const [showProgress, setShowProgress] = useState(false);
   const [batchSize, setBatchSize] = useState(50);
+  const [queueIfBusy, setQueueIfBusy] = useState(false);
+  const [runProfile, setRunProfile] = useState('default');
+  const [runSources, setRunSources] = useState('');
+  const [profileForm, setProfileForm] = useState<ProfileForm>(EMPTY_PROFILE_FORM);
   const [activeTab, setActiveTab] = useState('control');
   const [processedJobs, setProcessedJobs] = useState<any[]>([]);
-  const [scheduleTime, setScheduleTime] = useState('02:00');
-  const [scheduleDate, setScheduleDate] = useState(new Date().toISOString().split('T')[0]);
-  const [scheduleEnabled, setScheduleEnabled] = useState(false);
+  const [scheduleForm, setScheduleForm] = useState<ScheduleForm>(EMPTY_SCHEDULE_FORM);
+  const [historyStatus, setHistoryStatus] = useState('all');
+  const [historyFrom, setHistoryFrom] = useState('');
+  const [historyTo, setHistoryTo] = useState('');
+  const [historyPage, setHistoryPage] = useState(0);
+  const [selectedExecutionId, setSelectedExecutionId] = useState<number | null>(null);
+  const [changelogAction, setChangelogAction] = useState('all');
+  const [facetBucket, setFacetBucket] = useState<JobFacets['bucket']>('day');
 
   // Queries
   const { data: pipelineStatus, refetch: refetchStatus } = useQuery<PipelineStatus>({
@@ -102,6 +412,21 @@ export default function ControlCenter() {
     refetchInterval: 5000,
   });
 
+  const { data: checkpointSummary } = useQuery<CheckpointSummary>({
+    queryKey: [`/api/pipeline/${pipelineStatus?.id}/checkpoints`],
+    enabled: !!pipelineStatus && pipelineStatus.status !== 'completed',
+    refetchInterval: 10000,
+  });
+
+  const { data: pendingRemovals } = useQuery<PendingRemovals>({
+    queryKey: ['/api/removals/pending'],
+    refetchInterval: 30000,
+  });
+
+  const { data: algoliaProfiles } = useQuery<AlgoliaProfiles>({
+    queryKey: ['/api/algolia-profiles'],
+  });
+
   const { data: activityLogs } = useQuery<ActivityLog[]>({
     queryKey: ['/api/activity-logs'],
     refetchInterval: 10000,
@@ -117,36 +442,83 @@ export default function ControlCenter() {
     refetchInterval: 30000,
   });
 
-  const { data: scheduleStatus } = useQuery<any>({
-    queryKey: ['/api/schedule/status'],
+  // Date filters cover whole local days, so the end date is exclusive from the next midnight
+  const historyParams = new URLSearchParams({
+    limit: String(HISTORY_PAGE_SIZE),
+    offset: String(historyPage * HISTORY_PAGE_SIZE),
+  });
+  if (historyStatus !== 'all') historyParams.set('status', historyStatus);
+  if (historyFrom) historyParams.set('from', new Date(`${historyFrom}T00:00`).toISOString());
+  if (historyTo) {
+    const end = new Date(`${historyTo}T00:00`);
+    end.setDate(end.getDate() + 1);
+    historyParams.set('to', end.toISOString());
+  }
+
+  const { data: executionPage, isLoading: executionsLoading } = useQuery<ExecutionPage>({
+    queryKey: [`/api/pipeline/executions?${historyParams}`],
+    enabled: activeTab === 'history',
+    refetchInterval: 10000,
+  });
+
+  const { data: executionDetail } = useQuery<ExecutionDetail>({
+    queryKey: [`/api/pipeline/executions/${selectedExecutionId}`],
+    enabled: activeTab === 'history' && selectedExecutionId !== null,
+    refetchInterval: 10000,
+  });
+
+  const changelogUrl = `/api/pipeline/executions/${selectedExecutionId}/changelog`;
+  const changelogQuery = changelogAction !== 'all' ? `action=${changelogAction}` : '';
+  const { data: changelog } = useQuery<Changelog>({
+    queryKey: [changelogQuery ? `${changelogUrl}?${changelogQuery}` : changelogUrl],
+    enabled: activeTab === 'history' && selectedExecutionId !== null,
+  });
+
+  const { data: jobFacets, isLoading: jobFacetsLoading } = useQuery<JobFacets>({
+    queryKey: [`/api/jobs/facets?top=8&bucket=${facetBucket}`],
+    enabled: activeTab === 'system',
     refetchInterval: 30000,
   });
 
-  // Update local state when schedule status loads
-  useEffect(() => {
-    if (scheduleStatus) {
-      setScheduleTime(scheduleStatus.time || '02:00');
-      setScheduleEnabled(scheduleStatus.enabled || false);
-    }
-  }, [scheduleStatus]);
+  const { data: schedules } = useQuery<PipelineSchedule[]>({
+    queryKey: ['/api/schedules'],
+    refetchInterval: 30000,
+  });
 
   // Mutations
   const startPipelineMutation = useMutation({
     mutationFn: async () => {
       const response = await fetch('/api/pipeline/start', {
         method: 'POST',
-        body: JSON.stringify({ batchSize }),
+        body: JSON.stringify({
+          batchSize,
+          queueIfBusy,
+          profile: runProfile === 'default' ? undefined : runProfile,
+          sources: splitList(runSources),
+        }),
         headers: { 'Content-Type': 'application/json' }
       });
+      if (response.status === 409) {
+        const body = await response.json();
+        throw new Error(`${body.message}. Wait for it to finish or enable "Queue if busy".`);
+      }
       if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.message || `HTTP error! status: ${response.status}`);
       }
       return await response.json();
     },
-    onSuccess: () => {
+    onSuccess: (data) => {
+      if (data.activeExecutionId !== undefined) {
+        toast({
+          title: "Pipeline Queued",
+          description: `Run will start when execution #${data.activeExecutionId} finishes`,
+        });
+        return;
+      }
       toast({
         title: "Pipeline Started",
-        description: `Processing ${batchSize} jobs from Algolia`,
+        description: `Processing ${batchSize} jobs` + (data.profile ? ` using profile "${data.profile}"` : ''),
       });
       setShowProgress(true);
       queryClient.invalidateQueries({ queryKey: ['/api/pipeline/status'] });
@@ -160,6 +532,214 @@ export default function ControlCenter() {
     },
   });
 
+  const cancelPipelineMutation = useMutation({
+    mutationFn: async (executionId: number) => {
+      const response = await fetch(`/api/pipeline/${executionId}/cancel`, {
+        method: 'POST',
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      return await response.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Cancelling Pipeline",
+        description: data.message,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/pipeline/status'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Cancel Error",
+        description: error.message || "Failed to cancel pipeline",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resumePipelineMutation = useMutation({
+    mutationFn: async (executionId: number) => {
+      const response = await fetch(`/api/pipeline/${executionId}/resume`, {
+        method: 'POST',
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      return await response.json();
+    },
+    onSuccess: (_data, executionId) => {
+      toast({
+        title: "Pipeline Resumed",
+        description: `Resuming execution #${executionId} from its last checkpoint`,
+      });
+      setShowProgress(true);
+      queryClient.invalidateQueries({ queryKey: ['/api/pipeline/status'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Resume Error",
+        description: error.message || "Failed to resume pipeline",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resolveRemovalsMutation = useMutation({
+    mutationFn: async ({ executionId, decision }: { executionId: number; decision: 'approve' | 'reject' }) => {
+      const response = await fetch(`/api/removals/${executionId}/${decision}`, {
+        method: 'POST',
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.message || `HTTP error! status: ${response.status}`);
+      }
+      return await response.json();
+    },
+    onSuccess: (data, { decision }) => {
+      toast({
+        title: decision === 'approve' ? "Removals Approved" : "Removals Rejected",
+        description: data.message,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/removals/pending'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/job-postings'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/activity-logs'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Removal Review Error",
+        description: error.message || "Failed to resolve pending removals",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const saveScheduleMutation = useMutation({
+    mutationFn: async (form: ScheduleForm) => {
+      const response = await fetch(form.id === null ? '/api/schedules' : `/api/schedules/${form.id}`, {
+        method: form.id === null ? 'POST' : 'PUT',
+        body: JSON.stringify(fromScheduleForm(form)),
+        headers: { 'Content-Type': 'application/json' }
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        const details = body.errors?.map((error: any) => `${error.path.join('.')}: ${error.message}`).join('; ');
+        throw new Error(details || body.message || `HTTP error! status: ${response.status}`);
+      }
+      return await response.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Schedule Saved",
+        description: data.schedule.nextRun
+          ? `${data.message}; next run ${new Date(data.schedule.nextRun).toLocaleString()}`
+          : data.message,
+      });
+      setScheduleForm(toScheduleForm(data.schedule));
+      queryClient.invalidateQueries({ queryKey: ['/api/schedules'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Schedule Error",
+        description: error.message || "Failed to save schedule",
+        variant: "destructive",
+      });
+      // Shows the latest version when someone else saved the schedule first
+      queryClient.invalidateQueries({ queryKey: ['/api/schedules'] });
+    },
+  });
+
+  const deleteScheduleMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await fetch(`/api/schedules/${id}`, {
+        method: 'DELETE',
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.message || `HTTP error! status: ${response.status}`);
+      }
+      return await response.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Schedule Deleted",
+        description: data.message,
+      });
+      setScheduleForm(EMPTY_SCHEDULE_FORM);
+      queryClient.invalidateQueries({ queryKey: ['/api/schedules'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Schedule Error",
+        description: error.message || "Failed to delete schedule",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const saveProfileMutation = useMutation({
+    mutationFn: async ({ form, makeDefault }: { form: ProfileForm; makeDefault: boolean }) => {
+      const profile = fromProfileForm(form);
+      const response = await fetch(`/api/algolia-profiles/${encodeURIComponent(profile.name)}`, {
+        method: 'PUT',
+        body: JSON.stringify({ ...profile, makeDefault }),
+        headers: { 'Content-Type': 'application/json' }
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        const details = body.errors?.map((error: any) => `${error.path.join('.')}: ${error.message}`).join('; ');
+        throw new Error(details || body.message || `HTTP error! status: ${response.status}`);
+      }
+      return await response.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Profile Saved",
+        description: data.message,
+      });
+      setProfileForm(toProfileForm(data.profile));
+      queryClient.invalidateQueries({ queryKey: ['/api/algolia-profiles'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Profile Error",
+        description: error.message || "Failed to save profile",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteProfileMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const response = await fetch(`/api/algolia-profiles/${encodeURIComponent(name)}`, {
+        method: 'DELETE',
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.message || `HTTP error! status: ${response.status}`);
+      }
+      return await response.json();
+    },
+    onSuccess: (data, name) => {
+      toast({
+        title: "Profile Deleted",
+        description: data.message,
+      });
+      if (runProfile === name) {
+        setRunProfile('default');
+      }
+      setProfileForm(EMPTY_PROFILE_FORM);
+      queryClient.invalidateQueries({ queryKey: ['/api/algolia-profiles'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Profile Error",
+        description: error.message || "Failed to delete profile",
+        variant: "destructive",
+      });
+    },
+  });
+
   const clearLogsMutation = useMutation({
     mutationFn: async () => {
       const response = await fetch('/api/activity-logs', {
@@ -190,6 +770,7 @@ export default function ControlCenter() {
         setShowProgress(false);
         queryClient.invalidateQueries({ queryKey: ['/api/pipeline/status'] });
         queryClient.invalidateQueries({ queryKey: ['/api/activity-logs'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/removals/pending'] });
         
         // Fetch processed jobs data
         fetch('/api/pipeline/processed-jobs')
@@ -198,6 +779,16 @@ export default function ControlCenter() {
           .catch(console.error);
       }
       
+      if (data.type === 'cancelled') {
+        setShowProgress(false);
+        queryClient.invalidateQueries({ queryKey: ['/api/pipeline/status'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/activity-logs'] });
+        toast({
+          title: "Pipeline Cancelled",
+          description: data.message || "Pipeline execution was cancelled",
+        });
+      }
+      
       if (data.type === 'error') {
         setShowProgress(false);
         toast({
@@ -279,6 +870,16 @@ export default function ControlCenter() {
               >
                 Pipeline Control
               </button>
+              <button
+                onClick={() => setActiveTab('history')}
+                className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                  activeTab === 'history'
+                    ? 'border-azure-blue text-azure-blue'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                }`}
+              >
+                Run History
+              </button>
               <button
                 onClick={() => setActiveTab('data')}
                 className={`py-2 px-1 border-b-2 font-medium text-sm ${
@@ -309,6 +910,16 @@ export default function ControlCenter() {
               >
                 Schedule
               </button>
+              <button
+                onClick={() => setActiveTab('profiles')}
+                className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                  activeTab === 'profiles'
+                    ? 'border-azure-blue text-azure-blue'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                }`}
+              >
+                Query Profiles ({algoliaProfiles?.profiles.length || 0})
+              </button>
               <button
                 onClick={() => setActiveTab('system')}
                 className={`py-2 px-1 border-b-2 font-medium text-sm ${
@@ -363,13 +974,64 @@ export default function ControlCenter() {
                         <span className="block">Max: 1000 jobs per run</span>
                       </div>
                     </div>
+                    <div className="flex items-center space-x-2 mt-3">
+                      <Checkbox
+                        id="queue-if-busy"
+                        checked={queueIfBusy}
+                        onCheckedChange={(checked) => setQueueIfBusy(checked === true)}
+                      />
+                      <Label htmlFor="queue-if-busy" className="text-xs text-gray-600">
+                        Queue if busy (start this run after the active execution finishes)
+                      </Label>
+                    </div>
+                  </div>
+
+                  {/* Algolia Query Profile */}
+                  <div className="mb-6">
+                    <Label htmlFor="run-profile" className="text-sm font-medium text-gray-700 mb-2 block">
+                      Algolia Query Profile
+                    </Label>
+                    <Select value={runProfile} onValueChange={setRunProfile}>
+                      <SelectTrigger id="run-profile" className="w-64">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="default">
+                          Configured per source{algoliaProfiles ? ` (default: ${algoliaProfiles.defaultProfile})` : ''}
+                        </SelectItem>
+                        {algoliaProfiles?.profiles.map((profile) => (
+                          <SelectItem key={profile.name} value={profile.name}>
+                            {profile.name} ({profile.index})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {runProfile !== 'default' && (
+                      <p className="text-xs text-gray-500 mt-2">
+                        Jobs missing from a one-off profile run are not removed
+                      </p>
+                    )}
+                  </div>
+
+                  {/* Job Sources */}
+                  <div className="mb-6">
+                    <Label htmlFor="run-sources" className="text-sm font-medium text-gray-700 mb-2 block">
+                      Job Sources (comma-separated, blank for all)
+                    </Label>
+                    <Input
+                      id="run-sources"
+                      value={runSources}
+                      onChange={(e) => setRunSources(e.target.value)}
+                      placeholder="algolia, greenhouse-acme"
+                      className="w-64"
+                    />
                   </div>
 
                   {/* Control Buttons */}
                   <div className="flex space-x-4">
                     <Button
                       onClick={() => startPipelineMutation.mutate()}
-                      disabled={pipelineStatus?.status === 'running' || startPipelineMutation.isPending}
+                      disabled={(pipelineStatus?.status === 'running' && !queueIfBusy) || startPipelineMutation.isPending}
                       className="bg-azure-blue hover:bg-azure-blue/90 text-white px-6"
                     >
                       {startPipelineMutation.isPending ? (
@@ -385,6 +1047,18 @@ export default function ControlCenter() {
                       )}
                     </Button>
                     
+                    {pipelineStatus?.status === 'running' && (
+                      <Button
+                        variant="outline"
+                        onClick={() => cancelPipelineMutation.mutate(pipelineStatus.id)}
+                        disabled={cancelPipelineMutation.isPending}
+                        className="border-error-red text-error-red hover:bg-error-red/10"
+                      >
+                        <XCircle className="w-4 h-4 mr-2" />
+                        {cancelPipelineMutation.isPending ? 'Cancelling...' : 'Cancel'}
+                      </Button>
+                    )}
+                    
                     <Button
                       variant="outline"
                       onClick={() => refetchStatus()}
@@ -421,13 +1095,19 @@ export default function ControlCenter() {
                         </div>
 
                         {(pipelineProgress?.newJobs !== undefined || pipelineStatus?.newJobs !== undefined) && (
-                          <div className="grid grid-cols-2 gap-4 text-sm">
+                          <div className="grid grid-cols-3 gap-4 text-sm">
                             <div className="flex justify-between">
                               <span className="text-gray-600">New Jobs:</span>
                               <span className="font-medium text-success-green">
                                 +{pipelineProgress?.newJobs || pipelineStatus?.newJobs || 0}
                               </span>
                             </div>
+                            <div className="flex justify-between">
+                              <span className="text-gray-600">Updated Jobs:</span>
+                              <span className="font-medium text-blue-600">
+                                ~{pipelineProgress?.updatedJobs || pipelineStatus?.updatedJobs || 0}
+                              </span>
+                            </div>
                             <div className="flex justify-between">
                               <span className="text-gray-600">Removed Jobs:</span>
                               <span className="font-medium text-error-red">
@@ -443,11 +1123,28 @@ export default function ControlCenter() {
                   {/* Last Execution Summary */}
                   {pipelineStatus && pipelineStatus.status !== 'running' && (
                     <div className="mt-6 p-4 bg-gray-50 rounded-lg">
-                      <h3 className="text-sm font-medium text-gray-700 mb-3">Last Execution Summary</h3>
+                      <div className="flex items-center justify-between mb-3">
+                        <h3 className="text-sm font-medium text-gray-700">Last Execution Summary</h3>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => {
+                            setSelectedExecutionId(pipelineStatus.id);
+                            setActiveTab('history');
+                          }}
+                          className="text-xs text-azure-blue"
+                        >
+                          <History className="w-3 h-3 mr-1" />
+                          View details
+                        </Button>
+                      </div>
                       <div className="grid grid-cols-2 gap-4 text-sm">
                         <div className="flex justify-between">
                           <span className="text-gray-600">Status:</span>
-                          <Badge variant={pipelineStatus.status === 'completed' ? 'default' : 'destructive'}>
+                          <Badge variant={
+                            pipelineStatus.status === 'completed' ? 'default' :
+                            pipelineStatus.status === 'cancelled' ? 'secondary' : 'destructive'
+                          }>
                             {pipelineStatus.status}
                           </Badge>
                         </div>
@@ -469,10 +1166,77 @@ export default function ControlCenter() {
                           <span className="font-medium">{formatDate(pipelineStatus.startTime)}</span>
                         </div>
                       </div>
+
+                      {pipelineStatus.status !== 'completed' && checkpointSummary && checkpointSummary.unfinished > 0 && (
+                        <div className="mt-4 flex items-center justify-between">
+                          <span className="text-sm text-gray-600">
+                            {checkpointSummary.saved} of {checkpointSummary.total} jobs saved, {checkpointSummary.unfinished} unfinished
+                          </span>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => resumePipelineMutation.mutate(pipelineStatus.id)}
+                            disabled={resumePipelineMutation.isPending}
+                            className="border-azure-blue text-azure-blue hover:bg-azure-blue/10"
+                          >
+                            <RefreshCw className="w-4 h-4 mr-2" />
+                            Resume Execution #{pipelineStatus.id}
+                          </Button>
+                        </div>
+                      )}
                     </div>
                   )}
                 </CardContent>
               </Card>
+
+              {/* Pending Removals Card */}
+              {pendingRemovals && pendingRemovals.total > 0 && pendingRemovals.executionId !== null && (
+                <Card>
+                  <CardHeader>
+                    <div className="flex items-center justify-between">
+                      <CardTitle className="flex items-center space-x-2">
+                        <AlertTriangle className="h-5 w-5 text-warning-orange" />
+                        <span>Pending Removals ({pendingRemovals.total})</span>
+                      </CardTitle>
+                      <div className="flex space-x-2">
+                        <Button
+                          size="sm"
+                          onClick={() => resolveRemovalsMutation.mutate({ executionId: pendingRemovals.executionId!, decision: 'approve' })}
+                          disabled={resolveRemovalsMutation.isPending}
+                          className="bg-error-red hover:bg-error-red/90 text-white"
+                        >
+                          Approve Removals
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => resolveRemovalsMutation.mutate({ executionId: pendingRemovals.executionId!, decision: 'reject' })}
+                          disabled={resolveRemovalsMutation.isPending}
+                        >
+                          Keep Jobs
+                        </Button>
+                      </div>
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    <p className="text-sm text-gray-600 mb-3">
+                      Execution #{pendingRemovals.executionId} would remove more jobs than the safeguard allows
+                      (max {pendingRemovals.policy.maxPercent}% or {pendingRemovals.policy.maxCount} jobs per run).
+                      This often means the Algolia fetch was incomplete. Review the list before approving.
+                    </p>
+                    <ScrollArea className="h-48 border rounded-lg">
+                      <div className="divide-y">
+                        {pendingRemovals.removals.map((removal) => (
+                          <div key={removal.id} className="flex justify-between px-3 py-2 text-sm">
+                            <span className="truncate">{removal.title || 'Untitled job'}</span>
+                            <span className="text-gray-500 font-mono text-xs ml-4">{removal.jobId}</span>
+                          </div>
+                        ))}
+                      </div>
+                    </ScrollArea>
+                  </CardContent>
+                </Card>
+              )}
             </div>
 
             {/* Sidebar */}
@@ -586,10 +1350,322 @@ export default function ControlCenter() {
           </div>
         )}
 
-        {activeTab === 'data' && (
-          <div className="space-y-6">
-            <Card>
-              <CardHeader>
+        {activeTab === 'history' && (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+            <div className="lg:col-span-2 space-y-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center space-x-2">
+                    <History className="h-5 w-5 text-azure-blue" />
+                    <span>Run History</span>
+                    <Badge variant="outline" className="ml-2">
+                      {executionPage?.total || 0} runs
+                    </Badge>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+                    <div>
+                      <Label htmlFor="history-status" className="text-xs text-gray-600">Status</Label>
+                      <Select value={historyStatus} onValueChange={(value) => { setHistoryStatus(value); setHistoryPage(0); }}>
+                        <SelectTrigger id="history-status" className="mt-1">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="all">All statuses</SelectItem>
+                          <SelectItem value="running">Running</SelectItem>
+                          <SelectItem value="completed">Completed</SelectItem>
+                          <SelectItem value="failed">Failed</SelectItem>
+                          <SelectItem value="cancelled">Cancelled</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label htmlFor="history-from" className="text-xs text-gray-600">Started from</Label>
+                      <Input
+                        id="history-from"
+                        type="date"
+                        value={historyFrom}
+                        onChange={(e) => { setHistoryFrom(e.target.value); setHistoryPage(0); }}
+                        className="mt-1"
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="history-to" className="text-xs text-gray-600">Started until</Label>
+                      <Input
+                        id="history-to"
+                        type="date"
+                        value={historyTo}
+                        onChange={(e) => { setHistoryTo(e.target.value); setHistoryPage(0); }}
+                        className="mt-1"
+                      />
+                    </div>
+                  </div>
+
+                  {executionsLoading ? (
+                    <div className="flex items-center justify-center py-8">
+                      <RefreshCw className="h-6 w-6 animate-spin text-azure-blue" />
+                      <span className="ml-2 text-gray-600">Loading runs...</span>
+                    </div>
+                  ) : executionPage && executionPage.executions.length > 0 ? (
+                    <div className="border rounded-lg divide-y">
+                      {executionPage.executions.map((execution) => (
+                        <button
+                          key={execution.id}
+                          onClick={() => setSelectedExecutionId(execution.id)}
+                          className={`w-full text-left px-4 py-3 text-sm hover:bg-gray-50 transition-colors ${
+                            selectedExecutionId === execution.id ? 'bg-azure-blue/5' : ''
+                          }`}
+                        >
+                          <div className="flex items-center justify-between">
+                            <div className="flex items-center space-x-3">
+                              <span className="font-mono text-gray-500">#{execution.id}</span>
+                              <Badge variant={executionBadgeVariant(execution.status)}>{execution.status}</Badge>
+                              <span className="text-gray-600">{TRIGGER_LABELS[execution.triggerSource] || execution.triggerSource}</span>
+                            </div>
+                            <span className="text-gray-500">{formatDate(execution.startTime)}</span>
+                          </div>
+                          <div className="flex items-center space-x-4 mt-1 text-xs text-gray-600">
+                            <span>{formatDuration(execution.durationMs)}</span>
+                            <span>{execution.newJobs} new</span>
+                            <span>{execution.updatedJobs || 0} updated</span>
+                            <span>{execution.removedJobs} removed</span>
+                            {execution.errorMessage && (
+                              <span className="text-error-red truncate">{execution.errorMessage}</span>
+                            )}
+                          </div>
+                        </button>
+                      ))}
+                    </div>
+                  ) : (
+                    <div className="text-center py-8 text-gray-500">
+                      <Clock className="h-8 w-8 mx-auto mb-2 text-gray-400" />
+                      <p className="text-sm">No runs match these filters</p>
+                    </div>
+                  )}
+
+                  {executionPage && executionPage.total > HISTORY_PAGE_SIZE && (
+                    <div className="flex items-center justify-between mt-4 text-sm text-gray-600">
+                      <span>
+                        {executionPage.offset + 1}–{executionPage.offset + executionPage.executions.length} of {executionPage.total}
+                      </span>
+                      <div className="flex space-x-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setHistoryPage(historyPage - 1)}
+                          disabled={historyPage === 0}
+                        >
+                          Previous
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setHistoryPage(historyPage + 1)}
+                          disabled={executionPage.offset + executionPage.executions.length >= executionPage.total}
+                        >
+                          Next
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              {selectedExecutionId && (
+                <Card>
+                  <CardHeader>
+                    <div className="flex items-center justify-between">
+                      <CardTitle className="flex items-center space-x-2">
+                        <FileText className="h-5 w-5 text-azure-blue" />
+                        <span>Changes in Execution #{selectedExecutionId}</span>
+                      </CardTitle>
+                      <div className="flex items-center space-x-2">
+                        <Select value={changelogAction} onValueChange={setChangelogAction}>
+                          <SelectTrigger className="w-36">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="all">All changes</SelectItem>
+                            <SelectItem value="add">Added</SelectItem>
+                            <SelectItem value="update">Updated</SelectItem>
+                            <SelectItem value="remove">Removed</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <Button asChild variant="outline" size="sm">
+                          <a href={`${changelogUrl}?format=csv${changelogQuery ? `&${changelogQuery}` : ''}`} download>
+                            <Download className="w-4 h-4 mr-2" />
+                            Export CSV
+                          </a>
+                        </Button>
+                      </div>
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    {changelog && changelog.entries.length > 0 ? (
+                      <ScrollArea className="h-96 border rounded-lg">
+                        <div className="divide-y">
+                          {changelog.entries.map((entry) => (
+                            <div key={entry.id} className="p-3 text-sm">
+                              <div className="flex items-center justify-between">
+                                <div className="flex items-center space-x-2 min-w-0">
+                                  <span className={`px-2 py-0.5 rounded text-xs font-medium ${CHANGE_ACTION_STYLES[entry.action].className}`}>
+                                    {CHANGE_ACTION_STYLES[entry.action].label}
+                                  </span>
+                                  <span className="font-medium truncate">{entry.title || 'Untitled job'}</span>
+                                  {entry.status !== 'applied' && (
+                                    <Badge variant="outline" className="text-xs">{entry.status.replace('_', ' ')}</Badge>
+                                  )}
+                                </div>
+                                <span className="text-gray-500 font-mono text-xs ml-4">{entry.jobId}</span>
+                              </div>
+                              {(entry.companyName || entry.location) && (
+                                <div className="text-xs text-gray-500 mt-1">
+                                  {[entry.companyName, entry.location].filter(Boolean).join(' · ')}
+                                </div>
+                              )}
+                              {entry.action === 'update' && entry.fields.length > 0 && (
+                                <div className="mt-2 space-y-1">
+                                  {entry.fields.map((change) => (
+                                    <div key={change.field} className="grid grid-cols-[8rem_1fr_1fr] gap-2 text-xs">
+                                      <span className="text-gray-600">{change.field}</span>
+                                      <span className="text-red-600 line-through truncate" title={change.before ?? ''}>
+                                        {change.before ?? '(empty)'}
+                                      </span>
+                                      <span className="text-green-700 truncate" title={change.after ?? ''}>
+                                        {change.after ?? '(empty)'}
+                                      </span>
+                                    </div>
+                                  ))}
+                                </div>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      </ScrollArea>
+                    ) : (
+                      <div className="text-center py-8 text-gray-500">
+                        <FileText className="h-8 w-8 mx-auto mb-2 text-gray-400" />
+                        <p className="text-sm">{changelog ? 'No changes recorded for this run' : 'Loading changes...'}</p>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              )}
+            </div>
+
+            <div>
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center space-x-2">
+                    <Eye className="h-5 w-5 text-azure-blue" />
+                    <span>{selectedExecutionId ? `Execution #${selectedExecutionId}` : 'Run Details'}</span>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {!selectedExecutionId ? (
+                    <p className="text-sm text-gray-500">Select a run to see its timings, counts and logs.</p>
+                  ) : !executionDetail ? (
+                    <div className="flex items-center justify-center py-8">
+                      <RefreshCw className="h-6 w-6 animate-spin text-azure-blue" />
+                    </div>
+                  ) : (
+                    <div className="space-y-4 text-sm">
+                      <div className="space-y-2">
+                        <div className="flex justify-between">
+                          <span className="text-gray-600">Status:</span>
+                          <Badge variant={executionBadgeVariant(executionDetail.execution.status)}>
+                            {executionDetail.execution.status}
+                          </Badge>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-gray-600">Trigger:</span>
+                          <span className="font-medium">
+                            {TRIGGER_LABELS[executionDetail.execution.triggerSource] || executionDetail.execution.triggerSource}
+                          </span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-gray-600">Started:</span>
+                          <span className="font-medium">{formatDate(executionDetail.execution.startTime)}</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-gray-600">Ended:</span>
+                          <span className="font-medium">
+                            {executionDetail.execution.endTime ? formatDate(executionDetail.execution.endTime) : 'In progress'}
+                          </span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-gray-600">Duration:</span>
+                          <span className="font-medium">{formatDuration(executionDetail.execution.durationMs)}</span>
+                        </div>
+                        {executionDetail.execution.currentStep && (
+                          <div className="flex justify-between">
+                            <span className="text-gray-600">Last step:</span>
+                            <span className="font-medium">{executionDetail.execution.currentStep}</span>
+                          </div>
+                        )}
+                      </div>
+
+                      <div className="grid grid-cols-2 gap-2">
+                        {[
+                          ['Fetched', executionDetail.execution.totalJobs],
+                          ['Processed', executionDetail.execution.processedJobs],
+                          ['New', executionDetail.execution.newJobs],
+                          ['Updated', executionDetail.execution.updatedJobs || 0],
+                          ['Removed', executionDetail.execution.removedJobs],
+                          ['Held for approval', executionDetail.execution.pendingRemovals || 0],
+                        ].map(([label, value]) => (
+                          <div key={label} className="bg-gray-50 rounded p-2">
+                            <div className="text-lg font-semibold text-neutral-dark">{value}</div>
+                            <div className="text-xs text-gray-600">{label}</div>
+                          </div>
+                        ))}
+                      </div>
+
+                      {executionDetail.changeset.total > 0 && (
+                        <p className="text-xs text-gray-600">
+                          Changeset: {executionDetail.changeset.byStatus.applied} of {executionDetail.changeset.total} changes applied
+                          {executionDetail.changeset.byStatus.rolled_back > 0 && `, ${executionDetail.changeset.byStatus.rolled_back} rolled back`}
+                        </p>
+                      )}
+
+                      {executionDetail.execution.errorMessage && (
+                        <div className="p-3 bg-red-50 border border-red-200 rounded text-red-700 text-xs">
+                          {executionDetail.execution.errorMessage}
+                        </div>
+                      )}
+
+                      <div>
+                        <h4 className="text-xs font-medium text-gray-700 mb-2">Logs ({executionDetail.logs.length})</h4>
+                        <ScrollArea className="h-64 border rounded">
+                          <div className="p-2 space-y-1">
+                            {executionDetail.logs.map((log) => (
+                              <div key={log.id} className="text-xs">
+                                <span className="text-gray-500">{new Date(log.timestamp).toLocaleTimeString()}</span>{' '}
+                                <span className={
+                                  log.level === 'error' ? 'text-red-600' :
+                                  log.level === 'warning' ? 'text-yellow-600' :
+                                  log.level === 'success' ? 'text-green-600' : 'text-gray-700'
+                                }>
+                                  {log.message}
+                                </span>
+                              </div>
+                            ))}
+                          </div>
+                        </ScrollArea>
+                      </div>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          </div>
+        )}
+
+        {activeTab === 'data' && (
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
                 <CardTitle className="flex items-center space-x-2">
                   <FileText className="h-5 w-5 text-azure-blue" />
                   <span>Processed Job Data</span>
@@ -656,186 +1732,89 @@ export default function ControlCenter() {
         {activeTab === 'schedule' && (
           <div className="space-y-6">
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-              {/* Schedule Configuration */}
+              {/* Schedules */}
               <Card>
                 <CardHeader>
                   <CardTitle className="flex items-center space-x-2">
                     <Clock className="h-5 w-5 text-azure-blue" />
-                    <span>Automated Schedule</span>
+                    <span>Schedules</span>
                   </CardTitle>
                 </CardHeader>
                 <CardContent>
-                  <div className="space-y-4">
-                    <div className="border rounded-lg p-4 bg-blue-50">
-                      <div className="flex items-center justify-between mb-3">
-                        <div>
-                          <h3 className="font-medium text-neutral-dark">Daily Pipeline Execution</h3>
-                          <p className="text-sm text-gray-600">Automatically fetch and process all Algolia job listings</p>
-                        </div>
-                        <Badge variant="outline" className="bg-success-green/10 text-success-green border-success-green/20">
-                          <CheckCircle className="w-3 h-3 mr-1" />
-                          Ready
-                        </Badge>
-                      </div>
-                      
-                      <div className="space-y-3">
-                        <div className="grid grid-cols-3 gap-4">
-                          <div>
-                            <Label htmlFor="schedule-date" className="text-xs text-gray-600">Execution Date</Label>
-                            <Input
-                              id="schedule-date"
-                              type="date"
-                              value={scheduleDate}
-                              onChange={(e) => setScheduleDate(e.target.value)}
-                              className="mt-1"
-                            />
-                          </div>
-                          <div>
-                            <Label htmlFor="schedule-time" className="text-xs text-gray-600">Execution Time (Eastern)</Label>
-                            <Input
-                              id="schedule-time"
-                              type="time"
-                              value={scheduleTime}
-                              onChange={(e) => setScheduleTime(e.target.value)}
-                              className="mt-1"
-                            />
-                          </div>
-                          <div className="flex items-end">
-                            <div className="text-sm">
-                              <div className="text-gray-600">Status:</div>
-                              <div className="font-medium text-success-green">
-                                {scheduleEnabled ? 'Active' : 'Ready'}
-                              </div>
-                            </div>
+                  <div className="space-y-3">
+                    {schedules?.map((schedule) => (
+                      <div
+                        key={schedule.id}
+                        className={`border rounded-lg p-3 cursor-pointer hover:bg-gray-50 ${
+                          scheduleForm.id === schedule.id ? 'border-azure-blue' : 'border-gray-200'
+                        }`}
+                        onClick={() => setScheduleForm(toScheduleForm(schedule))}
+                      >
+                        <div className="flex items-center justify-between">
+                          <span className="font-medium text-neutral-dark">{schedule.name}</span>
+                          <div className="flex items-center space-x-2">
+                            {schedule.oneTime && (
+                              <Badge variant="outline" className="text-xs">One-time</Badge>
+                            )}
+                            <Badge
+                              variant="outline"
+                              className={schedule.enabled
+                                ? 'bg-success-green/10 text-success-green border-success-green/20'
+                                : 'bg-gray-100 text-gray-600'}
+                            >
+                              {schedule.enabled ? 'Active' : 'Disabled'}
+                            </Badge>
                           </div>
                         </div>
-                        
-                        <div className="flex justify-between text-sm">
-                          <span className="text-gray-600">Next Run:</span>
-                          <span className="font-medium">
-                            {(() => {
-                              const [hours, minutes] = scheduleTime.split(':').map(Number);
-                              const nextRun = new Date(scheduleDate);
-                              nextRun.setHours(hours, minutes, 0, 0);
-                              
-                              // If the selected date/time is in the past, show it in red
-                              const isPast = nextRun <= new Date();
-                              return (
-                                <span className={isPast ? 'text-red-500' : ''}>
-                                  {nextRun.toLocaleString('en-US', {
-                                    weekday: 'short',
-                                    month: 'short', 
-                                    day: 'numeric',
-                                    hour: 'numeric',
-                                    minute: '2-digit',
-                                    timeZoneName: 'short'
-                                  })}
-                                  {isPast && ' (Past)'}
-                                </span>
-                              );
-                            })()}
-                          </span>
-                        </div>
-                        <div className="flex justify-between text-sm">
-                          <span className="text-gray-600">Batch Size:</span>
-                          <span className="font-medium">1000 jobs per batch</span>
-                        </div>
+                        <p className="text-xs text-gray-500 mt-1">
+                          <span className="font-mono">{schedule.cron}</span> ({schedule.timezone}) · {schedule.batchSize} jobs per batch
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          Next run: {schedule.nextRun ? new Date(schedule.nextRun).toLocaleString() : 'None'}
+                          {schedule.lastRun && ` · Last run: ${new Date(schedule.lastRun).toLocaleString()}`}
+                        </p>
                       </div>
-                    </div>
-
-                    <div className="space-y-3">
-                      <Button 
-                        className="w-full bg-azure-blue hover:bg-azure-blue/90 text-white"
-                        onClick={async () => {
-                          try {
-                            const [hours, minutes] = scheduleTime.split(':').map(Number);
-                            const selectedDateTime = new Date(scheduleDate);
-                            selectedDateTime.setHours(hours, minutes, 0, 0);
-                            
-                            // Determine if this is a one-time or recurring schedule
-                            const isOneTime = selectedDateTime.toDateString() !== new Date().toDateString();
-                            
-                            const response = await fetch('/api/schedule/activate', {
-                              method: 'POST',
-                              body: JSON.stringify({ 
-                                enabled: true, 
-                                time: scheduleTime, 
-                                date: scheduleDate,
-                                timezone: "America/New_York",
-                                oneTime: isOneTime
-                              }),
-                              headers: { 'Content-Type': 'application/json' }
-                            });
-                            
-                            if (!response.ok) throw new Error('Failed to activate schedule');
-                            
-                            setScheduleEnabled(true);
-                            
-                            // Refresh schedule status
-                            queryClient.invalidateQueries({ queryKey: ['/api/schedule/status'] });
-                            
-                            toast({
-                              title: "Schedule Activated",
-                              description: isOneTime 
-                                ? `One-time pipeline execution scheduled for ${selectedDateTime.toLocaleString()} with 1000 job batches.`
-                                : `Daily pipeline execution scheduled for ${scheduleTime} Eastern time with 1000 job batches.`,
-                            });
-                          } catch (error) {
-                            toast({
-                              title: "Error",
-                              description: "Failed to activate schedule. Please try again.",
-                              variant: "destructive"
-                            });
-                          }
-                        }}
-                      >
-                        <Play className="w-4 h-4 mr-2" />
-                        {(() => {
-                          const [hours, minutes] = scheduleTime.split(':').map(Number);
-                          const selectedDateTime = new Date(scheduleDate);
-                          selectedDateTime.setHours(hours, minutes, 0, 0);
-                          const isOneTime = selectedDateTime.toDateString() !== new Date().toDateString();
+                    ))}
+                    {schedules?.length === 0 && (
+                      <p className="text-sm text-gray-500 text-center py-2">No schedules yet</p>
+                    )}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="w-full"
+                      onClick={() => setScheduleForm(EMPTY_SCHEDULE_FORM)}
+                    >
+                      New Schedule
+                    </Button>
+                    <Button 
+                      variant="outline" 
+                      className="w-full"
+                      onClick={async () => {
+                        try {
+                          const response = await fetch('/api/schedule/test', {
+                            method: 'POST',
+                            headers: { 'Content-Type': 'application/json' }
+                          });
                           
-                          if (scheduleEnabled) {
-                            return 'Update Schedule';
-                          } else if (isOneTime) {
-                            return 'Schedule One-Time Run';
-                          } else {
-                            return 'Activate Daily Schedule';
-                          }
-                        })()}
-                      </Button>
-                      
-                      <Button 
-                        variant="outline" 
-                        className="w-full"
-                        onClick={async () => {
-                          try {
-                            const response = await fetch('/api/schedule/test', {
-                              method: 'POST',
-                              headers: { 'Content-Type': 'application/json' }
-                            });
-                            
-                            if (!response.ok) throw new Error('Failed to start test execution');
-                            
-                            toast({
-                              title: "Test Run Started",
-                              description: "Running pipeline with 1000 job batches to verify schedule configuration.",
-                            });
-                            setActiveTab('control');
-                          } catch (error) {
-                            toast({
-                              title: "Error",
-                              description: "Failed to start test execution. Please try again.",
-                              variant: "destructive"
-                            });
-                          }
-                        }}
-                      >
-                        <RefreshCw className="w-4 h-4 mr-2" />
-                        Test Schedule (Run Now)
-                      </Button>
-                    </div>
+                          if (!response.ok) throw new Error('Failed to start test execution');
+                          
+                          toast({
+                            title: "Test Run Started",
+                            description: "Running pipeline with 1000 job batches to verify schedule configuration.",
+                          });
+                          setActiveTab('control');
+                        } catch (error) {
+                          toast({
+                            title: "Error",
+                            description: "Failed to start test execution. Please try again.",
+                            variant: "destructive"
+                          });
+                        }
+                      }}
+                    >
+                      <RefreshCw className="w-4 h-4 mr-2" />
+                      Test Schedule (Run Now)
+                    </Button>
                   </div>
                 </CardContent>
               </Card>
@@ -870,13 +1849,157 @@ export default function ControlCenter() {
                     <div className="text-center py-4 text-gray-500">
                       <Clock className="h-8 w-8 mx-auto mb-2 text-gray-400" />
                       <p className="text-sm">No scheduled executions yet</p>
-                      <p className="text-xs mt-1">Activate the daily schedule to see automated runs here</p>
+                      <p className="text-xs mt-1">Enable a schedule to see automated runs here</p>
                     </div>
                   </div>
                 </CardContent>
               </Card>
             </div>
 
+            {/* Schedule Editor */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <Settings className="h-5 w-5 text-azure-blue" />
+                  <span>{scheduleForm.id !== null ? `Edit Schedule: ${scheduleForm.name}` : 'New Schedule'}</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="schedule-name" className="text-xs text-gray-600">Name</Label>
+                    <Input
+                      id="schedule-name"
+                      value={scheduleForm.name}
+                      onChange={(e) => setScheduleForm({ ...scheduleForm, name: e.target.value })}
+                      placeholder="Weekday morning run"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="schedule-timezone" className="text-xs text-gray-600">Timezone (IANA name)</Label>
+                    <Input
+                      id="schedule-timezone"
+                      value={scheduleForm.timezone}
+                      onChange={(e) => setScheduleForm({ ...scheduleForm, timezone: e.target.value })}
+                      placeholder="America/New_York"
+                    />
+                  </div>
+                  <div className="md:col-span-2">
+                    <Label htmlFor="schedule-cron" className="text-xs text-gray-600">Cron Expression (minute hour day-of-month month day-of-week)</Label>
+                    <Input
+                      id="schedule-cron"
+                      value={scheduleForm.cron}
+                      onChange={(e) => setScheduleForm({ ...scheduleForm, cron: e.target.value })}
+                      placeholder="30 9 * * 1-5"
+                      className="font-mono"
+                    />
+                    <div className="flex flex-wrap gap-2 mt-2">
+                      {CRON_PRESETS.map((preset) => (
+                        <Button
+                          key={preset.cron}
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setScheduleForm({ ...scheduleForm, cron: preset.cron })}
+                        >
+                          {preset.label}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                  <div>
+                    <Label htmlFor="schedule-batch-size" className="text-xs text-gray-600">Batch Size</Label>
+                    <Input
+                      id="schedule-batch-size"
+                      type="number"
+                      min="1"
+                      max="10000"
+                      value={scheduleForm.batchSize}
+                      onChange={(e) => setScheduleForm({ ...scheduleForm, batchSize: Math.max(1, Math.min(10000, parseInt(e.target.value) || 1)) })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="schedule-sources" className="text-xs text-gray-600">Sources (comma-separated, blank for all)</Label>
+                    <Input
+                      id="schedule-sources"
+                      value={scheduleForm.sources}
+                      onChange={(e) => setScheduleForm({ ...scheduleForm, sources: e.target.value })}
+                      placeholder="algolia, greenhouse-acme"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="schedule-profile" className="text-xs text-gray-600">Algolia Query Profile</Label>
+                    <Select value={scheduleForm.profile} onValueChange={(profile) => setScheduleForm({ ...scheduleForm, profile })}>
+                      <SelectTrigger id="schedule-profile">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="default">Configured per source</SelectItem>
+                        {algoliaProfiles?.profiles.map((profile) => (
+                          <SelectItem key={profile.name} value={profile.name}>
+                            {profile.name} ({profile.index})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor="schedule-misfire" className="text-xs text-gray-600">Missed Runs (while the server was down)</Label>
+                    <Select
+                      value={scheduleForm.misfirePolicy}
+                      onValueChange={(misfirePolicy) => setScheduleForm({ ...scheduleForm, misfirePolicy: misfirePolicy as MisfirePolicy })}
+                    >
+                      <SelectTrigger id="schedule-misfire">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(MISFIRE_POLICY_LABELS) as MisfirePolicy[]).map((policy) => (
+                          <SelectItem key={policy} value={policy}>
+                            {MISFIRE_POLICY_LABELS[policy]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="flex items-end space-x-6 pb-2">
+                    <div className="flex items-center space-x-2">
+                      <Checkbox
+                        id="schedule-enabled"
+                        checked={scheduleForm.enabled}
+                        onCheckedChange={(checked) => setScheduleForm({ ...scheduleForm, enabled: checked === true })}
+                      />
+                      <Label htmlFor="schedule-enabled" className="text-xs text-gray-600">Enabled</Label>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <Checkbox
+                        id="schedule-one-time"
+                        checked={scheduleForm.oneTime}
+                        onCheckedChange={(checked) => setScheduleForm({ ...scheduleForm, oneTime: checked === true })}
+                      />
+                      <Label htmlFor="schedule-one-time" className="text-xs text-gray-600">One-time (disable after the next run)</Label>
+                    </div>
+                  </div>
+                </div>
+
+                <div className="flex space-x-3 mt-6">
+                  <Button
+                    onClick={() => saveScheduleMutation.mutate(scheduleForm)}
+                    disabled={!scheduleForm.name || !scheduleForm.cron || saveScheduleMutation.isPending}
+                    className="bg-azure-blue hover:bg-azure-blue/90 text-white"
+                  >
+                    Save Schedule
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => scheduleForm.id !== null && deleteScheduleMutation.mutate(scheduleForm.id)}
+                    disabled={scheduleForm.id === null || deleteScheduleMutation.isPending}
+                  >
+                    <Trash2 className="w-4 h-4 mr-2" />
+                    Delete
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+
             {/* Schedule Configuration Details */}
             <Card>
               <CardHeader>
@@ -891,20 +2014,23 @@ export default function ControlCenter() {
                     <h4 className="font-medium text-sm text-azure-blue mb-3">Execution Details</h4>
                     <div className="space-y-2 text-sm">
                       <div className="flex justify-between">
-                        <span className="text-gray-600">Frequency:</span>
-                        <span>Daily</span>
+                        <span className="text-gray-600">Schedules:</span>
+                        <span>{schedules?.filter(schedule => schedule.enabled).length ?? 0} active</span>
                       </div>
                       <div className="flex justify-between">
-                        <span className="text-gray-600">Time:</span>
-                        <span>{scheduleTime} UTC</span>
+                        <span className="text-gray-600">Next Run:</span>
+                        <span>
+                          {(() => {
+                            const nextRuns = (schedules || []).flatMap(schedule => schedule.nextRun ? [new Date(schedule.nextRun)] : []);
+                            return nextRuns.length > 0
+                              ? new Date(Math.min(...nextRuns.map(run => run.getTime()))).toLocaleString()
+                              : 'None';
+                          })()}
+                        </span>
                       </div>
                       <div className="flex justify-between">
-                        <span className="text-gray-600">Batch Size:</span>
-                        <span>1000 jobs</span>
-                      </div>
-                      <div className="flex justify-between">
-                        <span className="text-gray-600">Timezone:</span>
-                        <span>UTC</span>
+                        <span className="text-gray-600">Overlapping Runs:</span>
+                        <span>Queued</span>
                       </div>
                       <div className="flex justify-between">
                         <span className="text-gray-600">Timeout:</span>
@@ -962,6 +2088,171 @@ export default function ControlCenter() {
           </div>
         )}
 
+        {activeTab === 'profiles' && (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+            {/* Saved Profiles */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <Search className="h-5 w-5 text-azure-blue" />
+                  <span>Saved Profiles</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-3">
+                  {algoliaProfiles?.profiles.map((profile) => (
+                    <div
+                      key={profile.name}
+                      className={`border rounded-lg p-3 cursor-pointer hover:bg-gray-50 ${
+                        profileForm.name === profile.name ? 'border-azure-blue' : 'border-gray-200'
+                      }`}
+                      onClick={() => setProfileForm(toProfileForm(profile))}
+                    >
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium text-neutral-dark">{profile.name}</span>
+                        {algoliaProfiles.defaultProfile === profile.name && (
+                          <Badge variant="outline" className="text-xs">Default</Badge>
+                        )}
+                      </div>
+                      <p className="text-xs text-gray-500 mt-1">{profile.index}</p>
+                      {profile.countries.length > 0 && (
+                        <p className="text-xs text-gray-500">{profile.countries.join(', ')}</p>
+                      )}
+                    </div>
+                  ))}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="w-full"
+                    onClick={() => setProfileForm(EMPTY_PROFILE_FORM)}
+                  >
+                    New Profile
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Profile Editor */}
+            <Card className="lg:col-span-2">
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <Settings className="h-5 w-5 text-azure-blue" />
+                  <span>{profileForm.name ? `Edit Profile: ${profileForm.name}` : 'New Profile'}</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="profile-name" className="text-xs text-gray-600">Name</Label>
+                    <Input
+                      id="profile-name"
+                      value={profileForm.name}
+                      onChange={(e) => setProfileForm({ ...profileForm, name: e.target.value })}
+                      placeholder="us-jobs"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="profile-index" className="text-xs text-gray-600">Index</Label>
+                    <Input
+                      id="profile-index"
+                      value={profileForm.index}
+                      onChange={(e) => setProfileForm({ ...profileForm, index: e.target.value })}
+                      placeholder="GROUP_EN_dateDesc"
+                    />
+                  </div>
+                  <div className="md:col-span-2">
+                    <Label htmlFor="profile-filters" className="text-xs text-gray-600">Filter Expression</Label>
+                    <Input
+                      id="profile-filters"
+                      value={profileForm.filters}
+                      onChange={(e) => setProfileForm({ ...profileForm, filters: e.target.value })}
+                      placeholder='data.brand:"Acme" AND NOT data.type:"Internal"'
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="profile-countries" className="text-xs text-gray-600">Countries (comma-separated)</Label>
+                    <Input
+                      id="profile-countries"
+                      value={profileForm.countries}
+                      onChange={(e) => setProfileForm({ ...profileForm, countries: e.target.value })}
+                      placeholder="United States, Canada"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="profile-country-attribute" className="text-xs text-gray-600">Country Attribute</Label>
+                    <Input
+                      id="profile-country-attribute"
+                      value={profileForm.countryAttribute}
+                      onChange={(e) => setProfileForm({ ...profileForm, countryAttribute: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="profile-attributes" className="text-xs text-gray-600">Attributes to Retrieve (comma-separated, blank for all)</Label>
+                    <Input
+                      id="profile-attributes"
+                      value={profileForm.attributesToRetrieve}
+                      onChange={(e) => setProfileForm({ ...profileForm, attributesToRetrieve: e.target.value })}
+                      placeholder="data.jobID, data.title, data.city"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="profile-page-size" className="text-xs text-gray-600">Page Size</Label>
+                    <Input
+                      id="profile-page-size"
+                      type="number"
+                      min="1"
+                      max="1000"
+                      value={profileForm.hitsPerPage}
+                      onChange={(e) => setProfileForm({ ...profileForm, hitsPerPage: Math.max(1, Math.min(1000, parseInt(e.target.value) || 1)) })}
+                    />
+                  </div>
+                  <div className="md:col-span-2">
+                    <Label htmlFor="profile-split" className="text-xs text-gray-600">Split Strategy (applied in order when a query exceeds 1000 hits)</Label>
+                    <Input
+                      id="profile-split"
+                      value={profileForm.splitBy}
+                      onChange={(e) => setProfileForm({ ...profileForm, splitBy: e.target.value })}
+                      placeholder="facet:data.city, range:data.postedTimestamp"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      facet:&lt;attribute&gt; queries each facet value; range:&lt;attribute&gt; bisects a numeric attribute such as a date timestamp
+                    </p>
+                  </div>
+                </div>
+
+                <div className="flex space-x-3 mt-6">
+                  <Button
+                    onClick={() => saveProfileMutation.mutate({ form: profileForm, makeDefault: false })}
+                    disabled={!profileForm.name || !profileForm.index || saveProfileMutation.isPending}
+                    className="bg-azure-blue hover:bg-azure-blue/90 text-white"
+                  >
+                    Save Profile
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => saveProfileMutation.mutate({ form: profileForm, makeDefault: true })}
+                    disabled={!profileForm.name || !profileForm.index || saveProfileMutation.isPending}
+                  >
+                    Save as Default
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => deleteProfileMutation.mutate(profileForm.name)}
+                    disabled={
+                      !algoliaProfiles?.profiles.some(profile => profile.name === profileForm.name) ||
+                      algoliaProfiles?.defaultProfile === profileForm.name ||
+                      deleteProfileMutation.isPending
+                    }
+                  >
+                    <Trash2 className="w-4 h-4 mr-2" />
+                    Delete
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
         {activeTab === 'system' && (
           <div className="space-y-6">
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -1072,6 +2363,10 @@ export default function ControlCenter() {
                       <span className="text-gray-600">New Jobs Added</span>
                       <span className="font-medium text-success-green">{pipelineStatus?.newJobs || 0}</span>
                     </div>
+                    <div className="flex justify-between items-center p-3 border rounded-lg">
+                      <span className="text-gray-600">Jobs Updated</span>
+                      <span className="font-medium text-blue-600">{pipelineStatus?.updatedJobs || 0}</span>
+                    </div>
                     <div className="flex justify-between items-center p-3 border rounded-lg">
                       <span className="text-gray-600">Jobs Removed</span>
                       <span className="font-medium text-error-red">{pipelineStatus?.removedJobs || 0}</span>
@@ -1084,6 +2379,64 @@ export default function ControlCenter() {
                 </CardContent>
               </Card>
             </div>
+
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <CardTitle className="flex items-center space-x-2">
+                    <BarChart3 className="h-5 w-5 text-azure-blue" />
+                    <span>Job Breakdown</span>
+                    {jobFacets && (
+                      <span className="text-sm font-normal text-gray-500">({jobFacets.total} active jobs)</span>
+                    )}
+                  </CardTitle>
+                  <Select value={facetBucket} onValueChange={(value) => setFacetBucket(value as JobFacets['bucket'])}>
+                    <SelectTrigger className="w-36">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="day">Daily</SelectItem>
+                      <SelectItem value="week">Weekly</SelectItem>
+                      <SelectItem value="month">Monthly</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {jobFacetsLoading ? (
+                  <div className="text-center py-8 text-gray-500">Loading job breakdown...</div>
+                ) : !jobFacets || jobFacets.total === 0 ? (
+                  <div className="text-center py-8 text-gray-500">No active jobs to break down yet</div>
+                ) : (
+                  <div className="space-y-6">
+                    <div>
+                      <h4 className="font-medium mb-2">Jobs Created</h4>
+                      <ChartContainer config={FACET_CHART_CONFIG} className="h-56 w-full">
+                        <BarChart data={jobFacets.created} margin={{ left: 8, right: 16 }}>
+                          <CartesianGrid vertical={false} />
+                          <XAxis dataKey="value" tickLine={false} axisLine={false} />
+                          <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={40} />
+                          <ChartTooltip content={<ChartTooltipContent />} />
+                          <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+                        </BarChart>
+                      </ChartContainer>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                      {FACET_BREAKDOWNS.map(({ key, title }) => (
+                        <div key={key}>
+                          <h4 className="font-medium mb-2">{title}</h4>
+                          {jobFacets[key].length > 0 ? (
+                            <FacetBarChart data={jobFacets[key]} />
+                          ) : (
+                            <p className="text-sm text-gray-500">No values recorded</p>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
           </div>
         )}
 
@@ -1151,7 +2504,12 @@ export default function ControlCenter() {
                                   )}
                                 </div>
                               </div>
-                              <div className="text-right">
+                              <div className="text-right space-x-1">
+                                {job.source && (
+                                  <Badge variant="secondary" className="text-xs">
+                                    {job.source}
+                                  </Badge>
+                                )}
                                 {job.latitude && job.longitude && (
                                   <Badge variant="outline" className="text-xs">
                                     <MapPin className="h-2 w-2 mr-1" />
@@ -0,0 +1,89 @@
+CREATE TABLE "activity_logs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"message" text NOT NULL,
+	"level" text NOT NULL,
+	"timestamp" timestamp DEFAULT now() NOT NULL,
+	"executionId" integer
+);
+--> statement-breakpoint
+CREATE TABLE "job_posting_listings" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"job_id" text NOT NULL,
+	"job_url" text NOT NULL,
+	"title" text NOT NULL,
+	"city" text,
+	"state" text,
+	"country" text,
+	"zipcode" text,
+	"latitude" numeric(10, 8),
+	"longitude" numeric(11, 8),
+	"location_point" text,
+	"description" text,
+	"company_name" text,
+	"source" text DEFAULT 'algolia' NOT NULL,
+	"last_day_to_apply" text,
+	"content_hash" text,
+	"location_hash" text,
+	"status" text DEFAULT 'active' NOT NULL,
+	"is_expired" boolean DEFAULT false NOT NULL,
+	"first_seen" timestamp DEFAULT now(),
+	"last_seen" timestamp DEFAULT now(),
+	"removed_at" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp,
+	CONSTRAINT "job_posting_listings_job_id_unique" UNIQUE("job_id")
+);
+--> statement-breakpoint
+CREATE TABLE "pending_job_removals" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"executionId" integer NOT NULL,
+	"jobId" text NOT NULL,
+	"title" text,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"resolvedAt" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "pipeline_executions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"status" text NOT NULL,
+	"startTime" timestamp NOT NULL,
+	"endTime" timestamp,
+	"totalJobs" integer DEFAULT 0,
+	"processedJobs" integer DEFAULT 0,
+	"newJobs" integer DEFAULT 0,
+	"updatedJobs" integer DEFAULT 0,
+	"removedJobs" integer DEFAULT 0,
+	"pendingRemovals" integer DEFAULT 0,
+	"errorMessage" text,
+	"currentStep" text
+);
+--> statement-breakpoint
+CREATE TABLE "pipeline_job_checkpoints" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"executionId" integer NOT NULL,
+	"jobId" text NOT NULL,
+	"stage" text NOT NULL,
+	"action" text DEFAULT 'create' NOT NULL,
+	"sourceData" text NOT NULL,
+	"enrichedData" text,
+	"errorMessage" text,
+	"updatedAt" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "pipeline_run_locks" (
+	"name" text PRIMARY KEY NOT NULL,
+	"ownerId" text NOT NULL,
+	"executionId" integer,
+	"acquiredAt" timestamp NOT NULL,
+	"heartbeatAt" timestamp NOT NULL,
+	"expiresAt" timestamp NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "activity_logs" ADD CONSTRAINT "activity_logs_executionId_pipeline_executions_id_fk" FOREIGN KEY ("executionId") REFERENCES "public"."pipeline_executions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "pending_job_removals" ADD CONSTRAINT "pending_job_removals_executionId_pipeline_executions_id_fk" FOREIGN KEY ("executionId") REFERENCES "public"."pipeline_executions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "pipeline_job_checkpoints" ADD CONSTRAINT "pipeline_job_checkpoints_executionId_pipeline_executions_id_fk" FOREIGN KEY ("executionId") REFERENCES "public"."pipeline_executions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "activity_logs_execution" ON "activity_logs" USING btree ("executionId","id");--> statement-breakpoint
+CREATE INDEX "job_posting_listings_status" ON "job_posting_listings" USING btree ("status","removed_at");--> statement-breakpoint
+CREATE INDEX "pending_job_removals_status" ON "pending_job_removals" USING btree ("status","executionId");--> statement-breakpoint
+CREATE UNIQUE INDEX "pipeline_job_checkpoints_execution_job" ON "pipeline_job_checkpoints" USING btree ("executionId","jobId");
\ No newline at end of file
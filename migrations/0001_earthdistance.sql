@@ -0,0 +1,4 @@
+-- Nearest-job queries use earthdistance (cube is its prerequisite); both are trusted extensions on PostgreSQL 13+
+CREATE EXTENSION IF NOT EXISTS cube;--> statement-breakpoint
+CREATE EXTENSION IF NOT EXISTS earthdistance;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "job_posting_listings_earth" ON "job_posting_listings" USING gist (ll_to_earth("latitude"::float8, "longitude"::float8)) WHERE "latitude" IS NOT NULL AND "longitude" IS NOT NULL;
@@ -0,0 +1,14 @@
+CREATE TABLE "pipeline_changes" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"executionId" integer NOT NULL,
+	"jobId" text NOT NULL,
+	"action" text NOT NULL,
+	"status" text DEFAULT 'planned' NOT NULL,
+	"before" text,
+	"after" text,
+	"appliedAt" timestamp,
+	"rolledBackAt" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "pipeline_changes" ADD CONSTRAINT "pipeline_changes_executionId_pipeline_executions_id_fk" FOREIGN KEY ("executionId") REFERENCES "public"."pipeline_executions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "pipeline_changes_execution_job" ON "pipeline_changes" USING btree ("executionId","jobId");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "pipeline_executions" ADD COLUMN "triggerSource" text DEFAULT 'manual' NOT NULL;--> statement-breakpoint
+CREATE INDEX "pipeline_executions_start" ON "pipeline_executions" USING btree ("startTime");
\ No newline at end of file
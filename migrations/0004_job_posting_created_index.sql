@@ -0,0 +1 @@
+CREATE INDEX "job_posting_listings_created" ON "job_posting_listings" USING btree ("created_at");
\ No newline at end of file
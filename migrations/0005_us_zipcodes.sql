@@ -0,0 +1,8 @@
+CREATE TABLE "us_zipcodes" (
+	"postal_code" text PRIMARY KEY NOT NULL,
+	"city" text NOT NULL,
+	"state" text NOT NULL,
+	"state_abbrev" text NOT NULL,
+	"latitude" numeric(10, 8) NOT NULL,
+	"longitude" numeric(11, 8) NOT NULL
+);
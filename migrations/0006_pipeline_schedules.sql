@@ -0,0 +1,17 @@
+CREATE TABLE "pipeline_schedules" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"cron" text NOT NULL,
+	"timezone" text NOT NULL,
+	"batchSize" integer NOT NULL,
+	"sources" text DEFAULT '[]' NOT NULL,
+	"profile" text,
+	"enabled" boolean NOT NULL,
+	"oneTime" boolean DEFAULT false NOT NULL,
+	"misfirePolicy" text DEFAULT 'run-once' NOT NULL,
+	"nextRun" timestamp,
+	"lastRun" timestamp,
+	"version" integer DEFAULT 1 NOT NULL,
+	"createdAt" timestamp DEFAULT now() NOT NULL,
+	"updatedAt" timestamp DEFAULT now() NOT NULL
+);
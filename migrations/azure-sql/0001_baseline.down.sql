@@ -0,0 +1,7 @@
+DROP TABLE IF EXISTS schedule_config;
+DROP TABLE IF EXISTS pending_job_removals;
+DROP TABLE IF EXISTS pipeline_run_locks;
+DROP TABLE IF EXISTS pipeline_job_checkpoints;
+DROP TABLE IF EXISTS activity_logs;
+DROP TABLE IF EXISTS pipeline_executions;
+DROP TABLE IF EXISTS job_posting_listings;
@@ -0,0 +1,173 @@
+-- Every table the app uses. Each step is guarded so databases created by the
+-- old on-demand table checks adopt this migration without losing data.
+
+IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.TABLES WHERE TABLE_NAME = 'job_posting_listings')
+BEGIN
+    CREATE TABLE job_posting_listings (
+        id INT IDENTITY(1,1) PRIMARY KEY,
+        job_id NVARCHAR(255) NOT NULL UNIQUE,
+        job_url NVARCHAR(1000) NOT NULL,
+        title NVARCHAR(500) NOT NULL,
+        city NVARCHAR(100),
+        state NVARCHAR(100),
+        country NVARCHAR(100),
+        zipcode NVARCHAR(20),
+        latitude DECIMAL(10, 8),
+        longitude DECIMAL(11, 8),
+        location_point GEOGRAPHY,
+        description NVARCHAR(MAX),
+        company_name NVARCHAR(255),
+        source NVARCHAR(100) NOT NULL DEFAULT 'algolia',
+        last_day_to_apply NVARCHAR(50),
+        content_hash CHAR(64),
+        location_hash CHAR(64),
+        status NVARCHAR(20) NOT NULL DEFAULT 'active',
+        is_expired BIT NOT NULL DEFAULT 0,
+        first_seen DATETIME2 DEFAULT GETDATE(),
+        last_seen DATETIME2 DEFAULT GETDATE(),
+        removed_at DATETIME2,
+        created_at DATETIME2 DEFAULT GETDATE(),
+        updated_at DATETIME2
+    );
+
+    CREATE INDEX IX_job_posting_listings_job_id ON job_posting_listings(job_id);
+
+    CREATE SPATIAL INDEX IX_job_posting_listings_location_point
+    ON job_posting_listings(location_point)
+    USING GEOGRAPHY_GRID
+    WITH (GRIDS =(LEVEL_1 = MEDIUM, LEVEL_2 = MEDIUM, LEVEL_3 = MEDIUM, LEVEL_4 = MEDIUM));
+END
+GO
+
+-- Columns added to job_posting_listings after it was first created
+IF COL_LENGTH('job_posting_listings', 'zipcode') IS NULL
+    ALTER TABLE job_posting_listings ADD zipcode NVARCHAR(20);
+IF COL_LENGTH('job_posting_listings', 'last_day_to_apply') IS NULL
+    ALTER TABLE job_posting_listings ADD last_day_to_apply NVARCHAR(50);
+IF COL_LENGTH('job_posting_listings', 'content_hash') IS NULL
+    ALTER TABLE job_posting_listings ADD content_hash CHAR(64);
+IF COL_LENGTH('job_posting_listings', 'location_hash') IS NULL
+    ALTER TABLE job_posting_listings ADD location_hash CHAR(64);
+IF COL_LENGTH('job_posting_listings', 'updated_at') IS NULL
+    ALTER TABLE job_posting_listings ADD updated_at DATETIME2;
+IF COL_LENGTH('job_posting_listings', 'status') IS NULL
+    ALTER TABLE job_posting_listings ADD status NVARCHAR(20) NOT NULL DEFAULT 'active';
+IF COL_LENGTH('job_posting_listings', 'is_expired') IS NULL
+    ALTER TABLE job_posting_listings ADD is_expired BIT NOT NULL DEFAULT 0;
+IF COL_LENGTH('job_posting_listings', 'source') IS NULL
+    ALTER TABLE job_posting_listings ADD source NVARCHAR(100) NOT NULL DEFAULT 'algolia';
+IF COL_LENGTH('job_posting_listings', 'removed_at') IS NULL
+    ALTER TABLE job_posting_listings ADD removed_at DATETIME2;
+IF COL_LENGTH('job_posting_listings', 'first_seen') IS NULL
+BEGIN
+    -- Existing rows count as first seen when they were created
+    ALTER TABLE job_posting_listings ADD first_seen DATETIME2 DEFAULT GETDATE(), last_seen DATETIME2 DEFAULT GETDATE();
+    EXEC('UPDATE job_posting_listings SET first_seen = created_at, last_seen = created_at');
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'IX_job_posting_listings_status')
+    CREATE INDEX IX_job_posting_listings_status ON job_posting_listings(status, removed_at);
+GO
+
+IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.TABLES WHERE TABLE_NAME = 'pipeline_executions')
+BEGIN
+    CREATE TABLE pipeline_executions (
+        id INT IDENTITY(1,1) PRIMARY KEY,
+        status NVARCHAR(50),
+        startTime DATETIME2 DEFAULT GETDATE(),
+        endTime DATETIME2,
+        totalJobs INT DEFAULT 0,
+        processedJobs INT DEFAULT 0,
+        newJobs INT DEFAULT 0,
+        updatedJobs INT DEFAULT 0,
+        removedJobs INT DEFAULT 0,
+        pendingRemovals INT DEFAULT 0,
+        currentStep NVARCHAR(500),
+        errorMessage NVARCHAR(MAX)
+    );
+END
+
+-- Tables created by /api/database/initialize before these columns existed
+IF COL_LENGTH('pipeline_executions', 'updatedJobs') IS NULL
+    ALTER TABLE pipeline_executions ADD updatedJobs INT DEFAULT 0;
+IF COL_LENGTH('pipeline_executions', 'pendingRemovals') IS NULL
+    ALTER TABLE pipeline_executions ADD pendingRemovals INT DEFAULT 0;
+GO
+
+IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.TABLES WHERE TABLE_NAME = 'activity_logs')
+BEGIN
+    CREATE TABLE activity_logs (
+        id INT IDENTITY(1,1) PRIMARY KEY,
+        message NVARCHAR(MAX),
+        level NVARCHAR(50),
+        timestamp DATETIME2 DEFAULT GETDATE(),
+        executionId INT
+    );
+END
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'IX_activity_logs_executionId')
+    CREATE INDEX IX_activity_logs_executionId ON activity_logs(executionId, id);
+GO
+
+IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.TABLES WHERE TABLE_NAME = 'pipeline_job_checkpoints')
+BEGIN
+    CREATE TABLE pipeline_job_checkpoints (
+        id INT IDENTITY(1,1) PRIMARY KEY,
+        executionId INT NOT NULL,
+        jobId NVARCHAR(255) NOT NULL,
+        stage NVARCHAR(20) NOT NULL,
+        action NVARCHAR(10) NOT NULL DEFAULT 'create',
+        sourceData NVARCHAR(MAX) NOT NULL,
+        enrichedData NVARCHAR(MAX),
+        errorMessage NVARCHAR(MAX),
+        updatedAt DATETIME2 NOT NULL DEFAULT GETDATE(),
+        CONSTRAINT UQ_pipeline_job_checkpoints_execution_job UNIQUE (executionId, jobId)
+    );
+END
+
+IF COL_LENGTH('pipeline_job_checkpoints', 'action') IS NULL
+    ALTER TABLE pipeline_job_checkpoints ADD action NVARCHAR(10) NOT NULL DEFAULT 'create';
+GO
+
+IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.TABLES WHERE TABLE_NAME = 'pipeline_run_locks')
+BEGIN
+    CREATE TABLE pipeline_run_locks (
+        name NVARCHAR(100) NOT NULL PRIMARY KEY,
+        ownerId NVARCHAR(255) NOT NULL,
+        executionId INT,
+        acquiredAt DATETIME2 NOT NULL,
+        heartbeatAt DATETIME2 NOT NULL,
+        expiresAt DATETIME2 NOT NULL
+    );
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.TABLES WHERE TABLE_NAME = 'pending_job_removals')
+BEGIN
+    CREATE TABLE pending_job_removals (
+        id INT IDENTITY(1,1) PRIMARY KEY,
+        executionId INT NOT NULL,
+        jobId NVARCHAR(255) NOT NULL,
+        title NVARCHAR(500),
+        status NVARCHAR(20) NOT NULL DEFAULT 'pending',
+        createdAt DATETIME2 NOT NULL DEFAULT GETDATE(),
+        resolvedAt DATETIME2
+    );
+
+    CREATE INDEX IX_pending_job_removals_status ON pending_job_removals(status, executionId);
+END
+GO
+
+IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.TABLES WHERE TABLE_NAME = 'schedule_config')
+BEGIN
+    CREATE TABLE schedule_config (
+        id INT IDENTITY(1,1) PRIMARY KEY,
+        enabled BIT NOT NULL,
+        time NVARCHAR(10) NOT NULL,
+        timezone NVARCHAR(50) NOT NULL,
+        nextRun DATETIME2 NOT NULL,
+        activated DATETIME2 NOT NULL,
+        created_at DATETIME2 DEFAULT GETDATE()
+    );
+END
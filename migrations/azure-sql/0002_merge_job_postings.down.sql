@@ -0,0 +1,30 @@
+-- Restores the empty legacy table. Merged postings stay in job_posting_listings.
+IF OBJECT_ID('job_postings', 'U') IS NULL
+CREATE TABLE job_postings (
+    id INT IDENTITY(1,1) PRIMARY KEY,
+    jobID NVARCHAR(50) UNIQUE,
+    title NVARCHAR(500),
+    description NVARCHAR(MAX),
+    full_text NVARCHAR(MAX),
+    url NVARCHAR(500),
+    company_name NVARCHAR(200),
+    brand NVARCHAR(200),
+    functional_area NVARCHAR(200),
+    work_type NVARCHAR(100),
+    location_city NVARCHAR(200),
+    location_state NVARCHAR(200),
+    state_abbrev NVARCHAR(10),
+    zip_code NVARCHAR(20),
+    country NVARCHAR(100),
+    latitude NVARCHAR(50),
+    longitude NVARCHAR(50),
+    location_point NVARCHAR(100),
+    job_details_json NVARCHAR(MAX),
+    status NVARCHAR(50),
+    is_expired BIT,
+    record_created_on DATETIME2 DEFAULT GETDATE(),
+    created_at DATETIME2 DEFAULT GETDATE(),
+    last_seen DATETIME2 DEFAULT GETDATE(),
+    lastDayToApply DATETIME2,
+    businessArea NVARCHAR(200)
+);
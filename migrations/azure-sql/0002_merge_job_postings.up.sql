@@ -0,0 +1,40 @@
+-- /api/database/initialize used to create a separate job_postings table that
+-- nothing reads. Copy any postings it holds into job_posting_listings, which
+-- the app actually uses, then drop it so only one job table remains.
+
+IF OBJECT_ID('job_postings', 'U') IS NOT NULL
+BEGIN
+    INSERT INTO job_posting_listings (
+        job_id, job_url, title, city, state, country, zipcode, latitude, longitude, location_point,
+        description, company_name, last_day_to_apply, status, is_expired, removed_at, first_seen, last_seen, created_at
+    )
+    SELECT
+        legacy.jobID,
+        legacy.url,
+        ISNULL(legacy.title, ''),
+        legacy.location_city,
+        legacy.location_state,
+        legacy.country,
+        legacy.zip_code,
+        TRY_CAST(legacy.latitude AS DECIMAL(10, 8)),
+        TRY_CAST(legacy.longitude AS DECIMAL(11, 8)),
+        CASE
+            WHEN TRY_CAST(legacy.latitude AS FLOAT) BETWEEN -90 AND 90 AND TRY_CAST(legacy.longitude AS FLOAT) BETWEEN -180 AND 180
+            THEN geography::Point(TRY_CAST(legacy.latitude AS FLOAT), TRY_CAST(legacy.longitude AS FLOAT), 4326)
+        END,
+        legacy.description,
+        legacy.company_name,
+        CONVERT(NVARCHAR(50), legacy.lastDayToApply, 23),
+        CASE WHEN legacy.is_expired = 1 THEN 'removed' ELSE 'active' END,
+        ISNULL(legacy.is_expired, 0),
+        CASE WHEN legacy.is_expired = 1 THEN legacy.last_seen END,
+        ISNULL(legacy.record_created_on, legacy.created_at),
+        legacy.last_seen,
+        legacy.created_at
+    FROM job_postings legacy
+    WHERE legacy.jobID IS NOT NULL
+      AND legacy.url IS NOT NULL
+      AND NOT EXISTS (SELECT 1 FROM job_posting_listings current_job WHERE current_job.job_id = legacy.jobID);
+
+    DROP TABLE job_postings;
+END
@@ -0,0 +1,21 @@
+-- Table-valued parameter for AzureSQLStorage.upsertJobPostings, which MERGEs a
+-- whole chunk of postings into job_posting_listings in one statement.
+CREATE TYPE JobPostingUpsertRows AS TABLE (
+    row_index INT NOT NULL PRIMARY KEY,
+    job_id NVARCHAR(255) NOT NULL,
+    job_url NVARCHAR(1000) NOT NULL,
+    title NVARCHAR(500) NOT NULL,
+    city NVARCHAR(100),
+    state NVARCHAR(100),
+    country NVARCHAR(100),
+    zipcode NVARCHAR(20),
+    latitude DECIMAL(10, 8),
+    longitude DECIMAL(11, 8),
+    location_point NVARCHAR(100),
+    description NVARCHAR(MAX),
+    company_name NVARCHAR(255),
+    source NVARCHAR(100) NOT NULL,
+    last_day_to_apply NVARCHAR(50),
+    content_hash CHAR(64),
+    location_hash CHAR(64)
+);
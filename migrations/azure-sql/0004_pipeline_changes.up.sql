@@ -0,0 +1,13 @@
+-- Changesets: the adds, updates and removals each run plans and applies together
+CREATE TABLE pipeline_changes (
+    id INT IDENTITY(1,1) PRIMARY KEY,
+    executionId INT NOT NULL,
+    jobId NVARCHAR(255) NOT NULL,
+    action NVARCHAR(10) NOT NULL,
+    status NVARCHAR(20) NOT NULL DEFAULT 'planned',
+    [before] NVARCHAR(MAX),
+    [after] NVARCHAR(MAX),
+    appliedAt DATETIME2,
+    rolledBackAt DATETIME2,
+    CONSTRAINT UQ_pipeline_changes_execution_job UNIQUE (executionId, jobId)
+);
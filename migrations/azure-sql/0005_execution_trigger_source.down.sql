@@ -0,0 +1,3 @@
+DROP INDEX IF EXISTS IX_pipeline_executions_startTime ON pipeline_executions;
+ALTER TABLE pipeline_executions DROP CONSTRAINT IF EXISTS DF_pipeline_executions_triggerSource;
+ALTER TABLE pipeline_executions DROP COLUMN IF EXISTS triggerSource;
@@ -0,0 +1,7 @@
+-- What started each run, shown in the execution history
+ALTER TABLE pipeline_executions
+    ADD triggerSource NVARCHAR(20) NOT NULL
+    CONSTRAINT DF_pipeline_executions_triggerSource DEFAULT 'manual';
+GO
+
+CREATE INDEX IX_pipeline_executions_startTime ON pipeline_executions (startTime);
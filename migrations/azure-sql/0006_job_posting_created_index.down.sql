@@ -0,0 +1 @@
+DROP INDEX IF EXISTS IX_job_posting_listings_created_at ON job_posting_listings;
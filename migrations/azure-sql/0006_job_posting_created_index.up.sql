@@ -0,0 +1,2 @@
+-- Backs the created date filter on job searches
+CREATE INDEX IX_job_posting_listings_created_at ON job_posting_listings (created_at);
@@ -0,0 +1,11 @@
+DROP TABLE IF EXISTS pipeline_schedules;
+
+CREATE TABLE schedule_config (
+    id INT IDENTITY(1,1) PRIMARY KEY,
+    enabled BIT NOT NULL,
+    time NVARCHAR(10) NOT NULL,
+    timezone NVARCHAR(50) NOT NULL,
+    nextRun DATETIME2 NOT NULL,
+    activated DATETIME2 NOT NULL,
+    created_at DATETIME2 DEFAULT GETDATE()
+);
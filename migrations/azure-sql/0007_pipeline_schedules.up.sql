@@ -0,0 +1,36 @@
+-- Named schedules with every field the scheduler needs, replacing the single-row schedule_config
+CREATE TABLE pipeline_schedules (
+    id INT IDENTITY(1,1) PRIMARY KEY,
+    name NVARCHAR(100) NOT NULL,
+    cron NVARCHAR(100) NOT NULL,
+    timezone NVARCHAR(50) NOT NULL,
+    batchSize INT NOT NULL,
+    sources NVARCHAR(MAX) NOT NULL DEFAULT '[]',
+    profile NVARCHAR(255),
+    enabled BIT NOT NULL,
+    oneTime BIT NOT NULL DEFAULT 0,
+    misfirePolicy NVARCHAR(20) NOT NULL DEFAULT 'run-once',
+    nextRun DATETIME2,
+    lastRun DATETIME2,
+    version INT NOT NULL DEFAULT 1,
+    createdAt DATETIME2 NOT NULL DEFAULT GETUTCDATE(),
+    updatedAt DATETIME2 NOT NULL DEFAULT GETUTCDATE()
+);
+GO
+
+-- schedule_config only ever held a daily time, so its newest row becomes a daily schedule.
+-- Its nextRun is usually long past and would fire as a missed run, so the scheduler
+-- computes a fresh one on startup instead
+INSERT INTO pipeline_schedules (name, cron, timezone, batchSize, enabled)
+SELECT TOP 1
+    'Daily pipeline run',
+    CONCAT(CAST(RIGHT(time, 2) AS INT), ' ', CAST(LEFT(time, CHARINDEX(':', time) - 1) AS INT), ' * * *'),
+    timezone,
+    1000,
+    enabled
+FROM schedule_config
+WHERE time LIKE '%:[0-5][0-9]'
+ORDER BY created_at DESC;
+GO
+
+DROP TABLE schedule_config;
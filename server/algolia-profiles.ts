@@ -0,0 +1,96 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { algoliaQueryProfileSchema, type AlgoliaQueryProfile } from '@shared/schema';
+
+const PROFILES_FILE = path.join(process.cwd(), 'algolia-profiles.json');
+
+export interface AlgoliaProfilesConfig {
+  defaultProfile: string;
+  profiles: AlgoliaQueryProfile[];
+}
+
+// Used when algolia-profiles.json doesn't exist; matches the original hard-coded query
+export const DEFAULT_ALGOLIA_PROFILE: AlgoliaQueryProfile = {
+  name: 'us-jobs',
+  index: 'GROUP_EN_dateDesc',
+  filters: '',
+  countries: ['United States'],
+  countryAttribute: 'data.country',
+  attributesToRetrieve: [],
+  hitsPerPage: 1000,
+  splitBy: [{ type: 'facet', attribute: 'data.city' }],
+};
+
+export class ProfileNotFoundError extends Error {
+  constructor(public profileName: string) {
+    super(`Algolia query profile "${profileName}" not found`);
+    this.name = 'ProfileNotFoundError';
+  }
+}
+
+export async function loadAlgoliaProfiles(): Promise<AlgoliaProfilesConfig> {
+  try {
+    const data = await fs.readFile(PROFILES_FILE, 'utf8');
+    const parsed = JSON.parse(data);
+    return {
+      defaultProfile: parsed.defaultProfile,
+      profiles: (parsed.profiles || []).map((profile: unknown) => algoliaQueryProfileSchema.parse(profile)),
+    };
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return { defaultProfile: DEFAULT_ALGOLIA_PROFILE.name, profiles: [DEFAULT_ALGOLIA_PROFILE] };
+    }
+    throw new Error(`Failed to load algolia-profiles.json: ${error.message}`);
+  }
+}
+
+async function saveAlgoliaProfiles(config: AlgoliaProfilesConfig): Promise<void> {
+  await fs.writeFile(PROFILES_FILE, JSON.stringify(config, null, 2));
+  console.log(`💾 Saved ${config.profiles.length} Algolia query profiles`);
+}
+
+export function findAlgoliaProfile(config: AlgoliaProfilesConfig, name?: string): AlgoliaQueryProfile {
+  const profileName = name || config.defaultProfile;
+  const profile = config.profiles.find(candidate => candidate.name === profileName);
+  if (!profile) {
+    throw new ProfileNotFoundError(profileName);
+  }
+  return profile;
+}
+
+export async function getAlgoliaProfile(name?: string): Promise<AlgoliaQueryProfile> {
+  return findAlgoliaProfile(await loadAlgoliaProfiles(), name);
+}
+
+/**
+ * Creates or replaces a profile by name. The first profile saved becomes
+ * the default, as does any profile saved with makeDefault.
+ */
+export async function saveAlgoliaProfile(input: unknown, makeDefault = false): Promise<AlgoliaQueryProfile> {
+  const profile = algoliaQueryProfileSchema.parse(input);
+  const config = await loadAlgoliaProfiles();
+
+  const index = config.profiles.findIndex(candidate => candidate.name === profile.name);
+  if (index >= 0) {
+    config.profiles[index] = profile;
+  } else {
+    config.profiles.push(profile);
+  }
+  if (makeDefault || config.profiles.length === 1) {
+    config.defaultProfile = profile.name;
+  }
+
+  await saveAlgoliaProfiles(config);
+  return profile;
+}
+
+export async function deleteAlgoliaProfile(name: string): Promise<void> {
+  const config = await loadAlgoliaProfiles();
+  findAlgoliaProfile(config, name);
+  if (config.defaultProfile === name) {
+    throw new Error(`Profile "${name}" is the default; choose another default before deleting it`);
+  }
+
+  config.profiles = config.profiles.filter(profile => profile.name !== name);
+  await saveAlgoliaProfiles(config);
+}
@@ -0,0 +1,234 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AlgoliaQueryProfile } from '@shared/schema';
+import { getPath } from './job-source';
+import { AlgoliaJobSource } from './algolia-source';
+
+interface Hit {
+  objectID: string;
+  data: Record<string, string | number | undefined>;
+}
+
+const PAGINATION_LIMIT = 1000;
+
+// Matches one clause of the filters this source builds
+function matches(hit: Hit, clause: string): boolean {
+  if (clause.startsWith('(') && clause.endsWith(')')) {
+    return clause.slice(1, -1).split(' OR ').some(part => matches(hit, part));
+  }
+  if (clause.startsWith('NOT ')) {
+    return !matches(hit, clause.slice(4));
+  }
+  const range = clause.match(/^([\w.]+):(-?\d+) TO (-?\d+)$/);
+  if (range) {
+    const value = getPath(hit, range[1]);
+    return typeof value === 'number' && value >= Number(range[2]) && value <= Number(range[3]);
+  }
+  const facet = clause.match(/^([\w.]+):"(.*)"$/);
+  if (facet) {
+    return getPath(hit, facet[1]) === facet[2].replace(/\\(.)/g, '$1');
+  }
+  throw new Error(`Unsupported filter: ${clause}`);
+}
+
+/**
+ * Stands in for the Algolia query endpoint: filters, pages up to the 1000-hit
+ * limit, and lists at most maxValuesPerFacet values, most frequent first.
+ */
+function fakeAlgolia(index: Hit[]) {
+  const queries: string[] = [];
+  const fetch = mock.method(globalThis, 'fetch', async (_url: string, init: RequestInit) => {
+    const params = new URLSearchParams(JSON.parse(String(init.body)).params);
+    const filters = params.get('filters') || '';
+    queries.push(filters);
+
+    const found = index.filter(hit => !filters || filters.split(' AND ').every(clause => matches(hit, clause)));
+    const hitsPerPage = Number(params.get('hitsPerPage'));
+    const page = Number(params.get('page'));
+    const reachable = found.slice(0, PAGINATION_LIMIT);
+    const body: any = {
+      hits: hitsPerPage > 0 ? reachable.slice(page * hitsPerPage, (page + 1) * hitsPerPage) : [],
+      page,
+      nbHits: found.length,
+      nbPages: hitsPerPage > 0 ? Math.ceil(reachable.length / hitsPerPage) : 0,
+    };
+
+    if (params.get('facets')) {
+      const [attribute] = JSON.parse(params.get('facets')!);
+      const counts = new Map<string, number>();
+      let min = Infinity;
+      let max = -Infinity;
+      for (const hit of found) {
+        const value = getPath(hit, attribute);
+        if (typeof value === 'number') {
+          min = Math.min(min, value);
+          max = Math.max(max, value);
+        } else if (value !== undefined) {
+          counts.set(value, (counts.get(value) || 0) + 1);
+        }
+      }
+      const listed = Array.from(counts.entries())
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, Number(params.get('maxValuesPerFacet')));
+      body.facets = { [attribute]: Object.fromEntries(listed) };
+      if (min <= max) {
+        body.facets_stats = { [attribute]: { min, max } };
+      }
+    }
+    return new Response(JSON.stringify(body), { status: 200 });
+  });
+  return { fetch, queries };
+}
+
+function hits(count: number, data: (index: number) => Hit['data'], prefix = 'job'): Hit[] {
+  return Array.from({ length: count }, (_, index) => ({
+    objectID: `${prefix}-${index}`,
+    data: {
+      jobID: `${prefix}-${index}`,
+      title: `Job ${index}`,
+      externalPath: `/jobs/${prefix}-${index}`,
+      country: 'United States',
+      ...data(index),
+    },
+  }));
+}
+
+function profile(overrides: Partial<AlgoliaQueryProfile> = {}): AlgoliaQueryProfile {
+  return {
+    name: 'test',
+    index: 'jobs',
+    filters: '',
+    countries: ['United States'],
+    countryAttribute: 'data.country',
+    attributesToRetrieve: [],
+    hitsPerPage: 500,
+    splitBy: [{ type: 'facet', attribute: 'data.city' }],
+    ...overrides,
+  };
+}
+
+function source(queryProfile: AlgoliaQueryProfile) {
+  return new AlgoliaJobSource({ name: 'algolia', type: 'algolia', applicationId: 'app', apiKey: 'key' }, queryProfile);
+}
+
+describe('Algolia job source', () => {
+  beforeEach(() => {
+    // Progress messages are expected on every query
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'warn', () => {});
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('pages through a query under the hit limit', async () => {
+    const { queries } = fakeAlgolia(hits(900, index => ({ city: `City ${index % 3}` })));
+    const algolia = source(profile());
+
+    const jobs = await algolia.fetchJobs();
+    assert.equal(jobs.length, 900);
+    assert.equal(algolia.partial, false);
+    assert.equal(queries.length, 2);
+    assert.deepEqual(jobs[0], {
+      jobId: 'algolia:job-0',
+      source: 'algolia',
+      title: 'Job 0',
+      url: '/jobs/job-0',
+      city: 'City 0',
+      state: null,
+      country: 'United States',
+      description: null,
+      companyName: null,
+      lastDayToApply: null,
+    });
+  });
+
+  it('splits a large query by facet value', async () => {
+    const { queries } = fakeAlgolia(hits(2500, index => ({ city: `City ${index % 5}` })));
+    const algolia = source(profile());
+
+    const jobs = await algolia.fetchJobs();
+    assert.equal(jobs.length, 2500);
+    assert.equal(algolia.partial, false);
+    assert.ok(queries.includes('(data.country:"United States") AND data.city:"City 3"'));
+  });
+
+  it('fetches the hits a facet split misses', async () => {
+    const index = [
+      ...hits(1500, index => ({ city: `City ${index % 3}` })),
+      ...hits(300, () => ({}), 'no-city'),
+    ];
+    fakeAlgolia(index);
+    const algolia = source(profile());
+
+    const jobs = await algolia.fetchJobs();
+    assert.equal(jobs.length, 1800);
+    assert.equal(algolia.partial, false);
+    assert.equal(jobs.filter(job => job.city === null).length, 300);
+  });
+
+  it('asks again for facet values past the first 1000', async () => {
+    const { queries } = fakeAlgolia(hits(1200, index => ({ city: `City ${index}` })));
+    const algolia = source(profile());
+
+    const jobs = await algolia.fetchJobs();
+    assert.equal(jobs.length, 1200);
+    assert.equal(algolia.partial, false);
+    assert.ok(queries.some(filters => filters.includes('NOT data.city:"City 0"')));
+  });
+
+  it('splits by numeric range, halving until each range fits', async () => {
+    fakeAlgolia(hits(2600, index => ({ postedAt: 1_700_000_000 + index * 60 })));
+    const algolia = source(profile({ splitBy: [{ type: 'range', attribute: 'data.postedAt' }] }));
+
+    const jobs = await algolia.fetchJobs();
+    assert.equal(jobs.length, 2600);
+    assert.equal(algolia.partial, false);
+  });
+
+  it('falls through to the next split for one value over the limit', async () => {
+    const index = [
+      ...hits(1200, index => ({ city: 'Houston', postedAt: 1_700_000_000 + index })),
+      ...hits(200, () => ({ city: 'Austin', postedAt: 1_700_000_000 }), 'austin'),
+    ];
+    fakeAlgolia(index);
+    const algolia = source(profile({
+      splitBy: [{ type: 'facet', attribute: 'data.city' }, { type: 'range', attribute: 'data.postedAt' }],
+    }));
+
+    const jobs = await algolia.fetchJobs();
+    assert.equal(jobs.length, 1400);
+    assert.equal(algolia.partial, false);
+  });
+
+  it('stops at the 1000-hit ceiling and marks the result partial', async () => {
+    fakeAlgolia(hits(1500, () => ({})));
+    const algolia = source(profile({ splitBy: [] }));
+
+    const jobs = await algolia.fetchJobs();
+    assert.equal(jobs.length, PAGINATION_LIMIT);
+    assert.equal(algolia.partial, true);
+  });
+
+  it('marks the result partial when hits without a facet value are still over the limit', async () => {
+    const index = [
+      ...hits(500, index => ({ city: `City ${index % 2}` })),
+      ...hits(1200, () => ({}), 'no-city'),
+    ];
+    fakeAlgolia(index);
+    const algolia = source(profile());
+
+    const jobs = await algolia.fetchJobs();
+    assert.equal(jobs.length, 500 + PAGINATION_LIMIT);
+    assert.equal(algolia.partial, true);
+  });
+
+  it('marks a run with an override profile partial', async () => {
+    fakeAlgolia(hits(10, () => ({ city: 'Houston' })));
+    const algolia = new AlgoliaJobSource({ name: 'algolia', type: 'algolia' }, profile(), true);
+
+    await algolia.fetchJobs();
+    assert.equal(algolia.partial, true);
+  });
+});
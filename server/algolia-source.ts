@@ -0,0 +1,228 @@
+import { type JobSource, type NormalizedJob, type AlgoliaSourceConfig, type FieldMap, mapFields } from './job-source';
+import type { AlgoliaQueryProfile, AlgoliaSplit } from '@shared/schema';
+
+interface AlgoliaResponse {
+  hits: any[];
+  page: number;
+  nbPages: number;
+  nbHits: number;
+  facets?: Record<string, Record<string, number>>;
+  facets_stats?: Record<string, { min: number; max: number }>;
+}
+
+interface QueryOptions {
+  page?: number;
+  hitsPerPage?: number;
+  facets?: string[];
+}
+
+// Algolia never pages past this many hits for one query (paginationLimitedTo)
+const PAGINATION_LIMIT = 1000;
+
+// Field mapping for the original GROUP_EN_dateDesc index
+export const DEFAULT_ALGOLIA_FIELD_MAP: FieldMap = {
+  id: 'data.jobID',
+  title: 'data.title',
+  url: 'data.externalPath',
+  city: 'data.city',
+  country: 'data.country',
+  description: 'data.businessArea',
+  companyName: ['data.brand', 'data.company'],
+  lastDayToApply: 'data.lastDayToApply',
+};
+
+function quote(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Fetches every hit matching a query profile. Queries over Algolia's 1000-hit
+ * ceiling are split by the profile's splitBy strategies (facet values, then
+ * numeric ranges) until each piece can be paged in full.
+ */
+export class AlgoliaJobSource implements JobSource {
+  readonly type = 'algolia';
+  partial = false;
+  private fieldMap: FieldMap;
+
+  /**
+   * @param isOverride The run uses a different profile than the source is
+   *   configured with, so the result doesn't represent the source's listing.
+   */
+  constructor(private config: AlgoliaSourceConfig, private profile: AlgoliaQueryProfile, private isOverride = false) {
+    this.fieldMap = { ...DEFAULT_ALGOLIA_FIELD_MAP, ...config.fieldMap };
+  }
+
+  get name() {
+    return this.config.name;
+  }
+
+  async fetchJobs(): Promise<NormalizedJob[]> {
+    this.partial = this.isOverride;
+    console.log(`🔎 [${this.name}] Querying Algolia index ${this.profile.index} with profile "${this.profile.name}"`);
+
+    const hits = new Map<string, any>();
+    await this.collect(this.baseFilters(), this.profile.splitBy, hits);
+
+    return Array.from(hits.values())
+      .map(hit => mapFields(this.config, hit, this.fieldMap))
+      .filter((job): job is NormalizedJob => job !== null);
+  }
+
+  private baseFilters(): string[] {
+    const filters: string[] = [];
+    if (this.profile.filters.trim()) {
+      filters.push(`(${this.profile.filters})`);
+    }
+    if (this.profile.countries.length > 0) {
+      const attribute = this.profile.countryAttribute;
+      filters.push(`(${this.profile.countries.map(country => `${attribute}:${quote(country)}`).join(' OR ')})`);
+    }
+    return filters;
+  }
+
+  private async collect(filters: string[], splits: AlgoliaSplit[], hits: Map<string, any>): Promise<void> {
+    const first = await this.query(filters);
+    if (first.nbHits <= PAGINATION_LIMIT) {
+      await this.collectPages(filters, first, hits);
+      return;
+    }
+
+    const [split, ...remaining] = splits;
+    if (!split) {
+      this.markPartial(`${first.nbHits} hits for [${filters.join(' AND ')}] exceed the ${PAGINATION_LIMIT}-hit limit and no split is left`);
+      await this.collectPages(filters, first, hits);
+      return;
+    }
+
+    if (split.type === 'facet') {
+      await this.collectByFacet(filters, split.attribute, first.nbHits, remaining, hits);
+    } else {
+      const stats = (await this.query(filters, { hitsPerPage: 0, facets: [split.attribute] })).facets_stats?.[split.attribute];
+      if (!stats) {
+        this.markPartial(`range split attribute ${split.attribute} is not a numeric facet`);
+        await this.collect(filters, remaining, hits);
+        return;
+      }
+      await this.collectByRange(filters, split.attribute, Math.floor(stats.min), Math.ceil(stats.max), remaining, hits);
+    }
+  }
+
+  /**
+   * Queries each facet value separately. Algolia lists at most 1000 values per
+   * facet, so it asks again with the values already split out excluded until no
+   * new values come back. The hits left after that have no value, and are
+   * fetched with the remaining splits; only if they are still out of reach is
+   * the source marked partial.
+   */
+  private async collectByFacet(filters: string[], attribute: string, total: number, remaining: AlgoliaSplit[], hits: Map<string, any>): Promise<void> {
+    const seen = new Set<string>();
+    let remainderFilters = filters;
+
+    while (true) {
+      const response = await this.query(remainderFilters, { hitsPerPage: 0, facets: [attribute] });
+      const counts = response.facets?.[attribute] || {};
+      const values = Object.keys(counts).filter(value => !seen.has(value));
+      if (response.nbHits === 0) {
+        return;
+      }
+      if (values.length === 0) {
+        break;
+      }
+
+      console.log(`🧩 [${this.name}] Splitting ${response.nbHits} of ${total} hits by ${attribute} into ${values.length} queries`);
+      for (const value of values) {
+        await this.collect([...filters, `${attribute}:${quote(value)}`], remaining, hits);
+        seen.add(value);
+      }
+
+      const covered = values.reduce((sum, value) => sum + counts[value], 0);
+      if (covered >= response.nbHits) {
+        return;
+      }
+      remainderFilters = [...filters, ...Array.from(seen, value => `NOT ${attribute}:${quote(value)}`)];
+    }
+
+    if (seen.size === 0) {
+      console.warn(`⚠️ [${this.name}] Split attribute ${attribute} is not a facet`);
+    } else {
+      console.log(`🧩 [${this.name}] Fetching the hits with no ${attribute}`);
+    }
+    await this.collect(remainderFilters, remaining, hits);
+  }
+
+  private async collectByRange(filters: string[], attribute: string, min: number, max: number, remaining: AlgoliaSplit[], hits: Map<string, any>): Promise<void> {
+    const rangeFilters = [...filters, `${attribute}:${min} TO ${max}`];
+    const first = await this.query(rangeFilters);
+    if (first.nbHits === 0) return;
+
+    if (first.nbHits <= PAGINATION_LIMIT || min >= max) {
+      // A single value that is still too large falls through to the remaining splits
+      await (first.nbHits <= PAGINATION_LIMIT
+        ? this.collectPages(rangeFilters, first, hits)
+        : this.collect(rangeFilters, remaining, hits));
+      return;
+    }
+
+    const mid = Math.floor((min + max) / 2);
+    await this.collectByRange(filters, attribute, min, mid, remaining, hits);
+    await this.collectByRange(filters, attribute, mid + 1, max, remaining, hits);
+  }
+
+  private async collectPages(filters: string[], first: AlgoliaResponse, hits: Map<string, any>): Promise<void> {
+    this.addHits(first.hits, hits);
+    for (let page = 1; page < first.nbPages; page++) {
+      const response = await this.query(filters, { page });
+      this.addHits(response.hits, hits);
+    }
+    console.log(`📄 [${this.name}] Fetched ${first.nbHits} hits for ${filters.join(' AND ') || 'all jobs'} (Total: ${hits.size})`);
+  }
+
+  private addHits(batch: any[], hits: Map<string, any>) {
+    for (const hit of batch) {
+      hits.set(hit.objectID ?? JSON.stringify(hit), hit);
+    }
+  }
+
+  private markPartial(reason: string) {
+    this.partial = true;
+    console.warn(`⚠️ [${this.name}] Incomplete Algolia coverage: ${reason}`);
+  }
+
+  private async query(filters: string[], options: QueryOptions = {}): Promise<AlgoliaResponse> {
+    const applicationId = this.config.applicationId || process.env.ALGOLIA_APPLICATION_ID;
+    const url = `https://${applicationId}.algolia.net/1/indexes/${encodeURIComponent(this.profile.index)}/query`;
+
+    const params = new URLSearchParams({
+      query: '',
+      hitsPerPage: String(options.hitsPerPage ?? this.profile.hitsPerPage),
+      page: String(options.page ?? 0),
+    });
+    if (filters.length > 0) {
+      params.set('filters', filters.join(' AND '));
+    }
+    if (this.profile.attributesToRetrieve.length > 0) {
+      params.set('attributesToRetrieve', JSON.stringify(this.profile.attributesToRetrieve));
+    }
+    if (options.facets) {
+      params.set('facets', JSON.stringify(options.facets));
+      params.set('maxValuesPerFacet', '1000');
+    }
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'X-Algolia-API-Key': this.config.apiKey || process.env.ALGOLIA_API_KEY!,
+        'X-Algolia-Application-Id': applicationId!,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ params: params.toString() }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Algolia API error: ${response.status} ${response.statusText}`);
+    }
+
+    return await response.json() as AlgoliaResponse;
+  }
+}
@@ -0,0 +1,64 @@
+import type sql from 'mssql';
+import { getAzureSqlPool } from './azure-sql-storage';
+import { getMigrationStatus, migrateUp, migrateDown } from './azure-migrations';
+
+const USAGE = `Usage: npm run db:azure -- <command>
+
+Commands:
+  status            List migrations and whether each one is applied
+  up [version]      Apply pending migrations, optionally only up to <version>
+  down <version>    Revert applied migrations newer than <version> (0 reverts all)`;
+
+function parseVersion(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const version = Number(value);
+  if (!Number.isInteger(version) || version < 0) {
+    throw new Error(`Invalid migration version: ${value}`);
+  }
+  return version;
+}
+
+let pool: sql.ConnectionPool | null = null;
+
+async function main() {
+  const [command, versionArg] = process.argv.slice(2);
+  if (!['status', 'up', 'down'].includes(command)) {
+    console.log(USAGE);
+    process.exitCode = command ? 1 : 0;
+    return;
+  }
+  pool = await getAzureSqlPool();
+
+  switch (command) {
+    case 'status': {
+      const report = await getMigrationStatus(pool);
+      console.log(`Current version: ${report.currentVersion} (latest ${report.latestVersion})`);
+      for (const migration of report.migrations) {
+        const appliedAt = migration.appliedAt ? ` at ${migration.appliedAt.toISOString()}` : '';
+        console.log(`  ${String(migration.version).padStart(4, '0')}_${migration.name}  ${migration.state}${appliedAt}`);
+      }
+      break;
+    }
+    case 'up': {
+      const applied = await migrateUp(pool, parseVersion(versionArg));
+      console.log(applied.length > 0 ? `Applied ${applied.length} migration(s)` : 'Schema is already up to date');
+      break;
+    }
+    case 'down': {
+      const target = parseVersion(versionArg);
+      if (target === undefined) {
+        throw new Error('down needs a target version; use 0 to revert every migration');
+      }
+      const reverted = await migrateDown(pool, target);
+      console.log(reverted.length > 0 ? `Reverted ${reverted.length} migration(s)` : 'Nothing to revert');
+      break;
+    }
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error(`❌ ${error.message}`);
+    process.exitCode = 1;
+  })
+  .finally(() => pool?.close());
@@ -0,0 +1,59 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { loadAzureMigrations, splitBatches, MigrationError } from './azure-migrations';
+
+async function withMigrationFolder(files: Record<string, string>, run: (folder: string) => Promise<void>) {
+  const folder = await fs.mkdtemp(path.join(os.tmpdir(), 'azure-migrations-'));
+  try {
+    for (const [name, contents] of Object.entries(files)) {
+      await fs.writeFile(path.join(folder, name), contents);
+    }
+    await run(folder);
+  } finally {
+    await fs.rm(folder, { recursive: true, force: true });
+  }
+}
+
+describe('Azure SQL migrations', () => {
+  it('ships reversible migrations with sequential versions', async () => {
+    const migrations = await loadAzureMigrations();
+
+    assert.deepEqual(migrations.map(migration => migration.version), migrations.map((_, index) => index + 1));
+    for (const migration of migrations) {
+      assert.ok(migration.down, `${migration.version}_${migration.name} has no down script`);
+      assert.match(migration.checksum, /^[0-9a-f]{64}$/);
+    }
+  });
+
+  it('orders migrations by version and ignores other files', async () => {
+    await withMigrationFolder({
+      '10_later.up.sql': 'SELECT 10',
+      '2_earlier.up.sql': 'SELECT 2',
+      '2_earlier.down.sql': 'SELECT -2',
+      'README.md': 'notes',
+    }, async (folder) => {
+      const migrations = await loadAzureMigrations(folder);
+      assert.deepEqual(migrations.map(migration => [migration.version, migration.name, migration.down]), [
+        [2, 'earlier', 'SELECT -2'],
+        [10, 'later', null],
+      ]);
+    });
+  });
+
+  it('rejects duplicate versions and missing up scripts', async () => {
+    await withMigrationFolder({ '1_a.up.sql': 'SELECT 1', '1_b.up.sql': 'SELECT 1' }, async (folder) => {
+      await assert.rejects(loadAzureMigrations(folder), MigrationError);
+    });
+    await withMigrationFolder({ '1_a.down.sql': 'SELECT 1' }, async (folder) => {
+      await assert.rejects(loadAzureMigrations(folder), /no \.up\.sql script/);
+    });
+  });
+
+  it('splits scripts into batches on GO lines', () => {
+    const script = 'CREATE TABLE a (id INT);\nGO\n  go  \nSELECT category FROM a;\nGO';
+    assert.deepEqual(splitBatches(script), ['CREATE TABLE a (id INT);', 'SELECT category FROM a;']);
+  });
+});
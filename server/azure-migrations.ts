@@ -0,0 +1,246 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import sql from 'mssql';
+
+export const AZURE_MIGRATIONS_FOLDER = path.join(process.cwd(), 'migrations', 'azure-sql');
+
+// Files are named <version>_<name>.up.sql with an optional matching .down.sql
+const MIGRATION_FILE = /^(\d+)_([\w-]+)\.(up|down)\.sql$/;
+
+// A line containing only GO ends a batch, as in sqlcmd and SSMS
+const BATCH_SEPARATOR = /^\s*GO\s*$/im;
+
+export interface AzureMigration {
+  version: number;
+  name: string;
+  up: string;
+  down: string | null;
+  checksum: string; // SHA-256 of the up script, to spot scripts edited after they were applied
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  checksum: string;
+  appliedAt: Date;
+}
+
+export type MigrationState = 'applied' | 'pending' | 'modified' | 'missing';
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  state: MigrationState; // 'missing' is applied to the database but has no script here
+  appliedAt: Date | null;
+  reversible: boolean;
+}
+
+export interface MigrationReport {
+  currentVersion: number;
+  latestVersion: number;
+  migrations: MigrationStatus[];
+}
+
+export class MigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MigrationError';
+  }
+}
+
+function checksum(script: string): string {
+  return crypto.createHash('sha256').update(script.replace(/\r\n/g, '\n')).digest('hex');
+}
+
+export function splitBatches(script: string): string[] {
+  return script.split(BATCH_SEPARATOR).map(batch => batch.trim()).filter(Boolean);
+}
+
+export async function loadAzureMigrations(folder = AZURE_MIGRATIONS_FOLDER): Promise<AzureMigration[]> {
+  const scripts = new Map<number, { name: string; up?: string; down?: string }>();
+
+  for (const file of (await fs.readdir(folder)).sort()) {
+    const match = MIGRATION_FILE.exec(file);
+    if (!match) continue;
+
+    const [, version, name, direction] = match;
+    const entry = scripts.get(Number(version)) ?? { name };
+    if (entry.name !== name) {
+      throw new MigrationError(`Migration version ${version} is used by both "${entry.name}" and "${name}"`);
+    }
+    entry[direction as 'up' | 'down'] = await fs.readFile(path.join(folder, file), 'utf8');
+    scripts.set(Number(version), entry);
+  }
+
+  return Array.from(scripts.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([version, entry]) => {
+      if (!entry.up) {
+        throw new MigrationError(`Migration ${version}_${entry.name} has no .up.sql script`);
+      }
+      return { version, name: entry.name, up: entry.up, down: entry.down ?? null, checksum: checksum(entry.up) };
+    });
+}
+
+async function ensureMigrationsTable(pool: sql.ConnectionPool): Promise<void> {
+  await pool.request().query(`
+    IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.TABLES WHERE TABLE_NAME = 'schema_migrations')
+    BEGIN
+        CREATE TABLE schema_migrations (
+            version INT NOT NULL PRIMARY KEY,
+            name NVARCHAR(255) NOT NULL,
+            checksum CHAR(64) NOT NULL,
+            applied_at DATETIME2 NOT NULL DEFAULT GETDATE()
+        );
+    END
+  `);
+}
+
+export async function getAppliedMigrations(pool: sql.ConnectionPool): Promise<AppliedMigration[]> {
+  await ensureMigrationsTable(pool);
+  const result = await pool.request().query('SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version');
+  return result.recordset.map((row: any) => ({
+    version: row.version,
+    name: row.name,
+    checksum: row.checksum,
+    appliedAt: row.applied_at,
+  }));
+}
+
+export async function getMigrationStatus(pool: sql.ConnectionPool): Promise<MigrationReport> {
+  const migrations = await loadAzureMigrations();
+  const applied = new Map((await getAppliedMigrations(pool)).map(row => [row.version, row]));
+
+  const statuses: MigrationStatus[] = migrations.map(migration => {
+    const row = applied.get(migration.version);
+    return {
+      version: migration.version,
+      name: migration.name,
+      state: !row ? 'pending' : row.checksum === migration.checksum ? 'applied' : 'modified',
+      appliedAt: row?.appliedAt ?? null,
+      reversible: migration.down !== null,
+    };
+  });
+  for (const row of Array.from(applied.values())) {
+    if (!migrations.some(migration => migration.version === row.version)) {
+      statuses.push({ version: row.version, name: row.name, state: 'missing', appliedAt: row.appliedAt, reversible: false });
+    }
+  }
+  statuses.sort((a, b) => a.version - b.version);
+
+  return {
+    currentVersion: Math.max(0, ...Array.from(applied.keys())),
+    latestVersion: migrations.length > 0 ? migrations[migrations.length - 1].version : 0,
+    migrations: statuses,
+  };
+}
+
+/**
+ * Runs one script and records the result in schema_migrations inside a single
+ * transaction. The app lock serializes migrators across processes, and the
+ * re-check under the lock makes a second process skip work already done.
+ */
+async function runMigration(pool: sql.ConnectionPool, migration: AzureMigration, direction: 'up' | 'down'): Promise<boolean> {
+  const transaction = new sql.Transaction(pool);
+  await transaction.begin();
+
+  try {
+    await new sql.Request(transaction).query(`
+      DECLARE @lockResult INT;
+      EXEC @lockResult = sp_getapplock @Resource = 'schema_migrations', @LockMode = 'Exclusive', @LockOwner = 'Transaction', @LockTimeout = 60000;
+      IF @lockResult < 0 THROW 50000, 'Timed out waiting for another schema migration to finish', 1;
+    `);
+
+    const existing = await new sql.Request(transaction)
+      .input('version', sql.Int, migration.version)
+      .query('SELECT version FROM schema_migrations WHERE version = @version');
+    const isApplied = existing.recordset.length > 0;
+    if (isApplied === (direction === 'up')) {
+      await transaction.rollback();
+      return false;
+    }
+
+    for (const batch of splitBatches(direction === 'up' ? migration.up : migration.down!)) {
+      await new sql.Request(transaction).batch(batch);
+    }
+
+    const record = new sql.Request(transaction).input('version', sql.Int, migration.version);
+    if (direction === 'up') {
+      await record
+        .input('name', sql.NVarChar, migration.name)
+        .input('checksum', sql.Char(64), migration.checksum)
+        .query('INSERT INTO schema_migrations (version, name, checksum) VALUES (@version, @name, @checksum)');
+    } else {
+      await record.query('DELETE FROM schema_migrations WHERE version = @version');
+    }
+
+    await transaction.commit();
+    return true;
+  } catch (error: any) {
+    try {
+      await transaction.rollback();
+    } catch {
+      // SQL Server already rolled back the transaction when the batch failed
+    }
+    throw new MigrationError(`Migration ${migration.version}_${migration.name} (${direction}) failed: ${error.message}`);
+  }
+}
+
+/**
+ * Applies pending migrations in version order, up to targetVersion when given.
+ * Refuses to run when an applied script has since been edited, since the
+ * database would no longer match what the scripts describe.
+ */
+export async function migrateUp(pool: sql.ConnectionPool, targetVersion?: number): Promise<AzureMigration[]> {
+  const migrations = await loadAzureMigrations();
+  const applied = new Map((await getAppliedMigrations(pool)).map(row => [row.version, row]));
+
+  const modified = migrations.filter(migration => applied.has(migration.version) && applied.get(migration.version)!.checksum !== migration.checksum);
+  if (modified.length > 0) {
+    throw new MigrationError(`Applied migrations were edited afterwards: ${modified.map(m => `${m.version}_${m.name}`).join(', ')}. Add a new migration instead.`);
+  }
+
+  const ran: AzureMigration[] = [];
+  for (const migration of migrations) {
+    if (applied.has(migration.version) || (targetVersion !== undefined && migration.version > targetVersion)) {
+      continue;
+    }
+    if (await runMigration(pool, migration, 'up')) {
+      console.log(`✅ Applied Azure SQL migration ${migration.version}_${migration.name}`);
+      ran.push(migration);
+    }
+  }
+  return ran;
+}
+
+/**
+ * Reverts applied migrations newest first until targetVersion is the latest
+ * one left; 0 reverts everything. Stops before changing anything if one of
+ * them has no down script.
+ */
+export async function migrateDown(pool: sql.ConnectionPool, targetVersion: number): Promise<AzureMigration[]> {
+  const migrations = await loadAzureMigrations();
+  const applied = new Set((await getAppliedMigrations(pool)).map(row => row.version));
+
+  const toRevert = migrations
+    .filter(migration => applied.has(migration.version) && migration.version > targetVersion)
+    .reverse();
+  const unknown = Array.from(applied).filter(version => version > targetVersion && !migrations.some(m => m.version === version));
+  if (unknown.length > 0) {
+    throw new MigrationError(`No scripts found for applied migration versions ${unknown.join(', ')}`);
+  }
+  const irreversible = toRevert.filter(migration => migration.down === null);
+  if (irreversible.length > 0) {
+    throw new MigrationError(`Migrations have no .down.sql script: ${irreversible.map(m => `${m.version}_${m.name}`).join(', ')}`);
+  }
+
+  const ran: AzureMigration[] = [];
+  for (const migration of toRevert) {
+    if (await runMigration(pool, migration, 'down')) {
+      console.log(`↩️ Reverted Azure SQL migration ${migration.version}_${migration.name}`);
+      ran.push(migration);
+    }
+  }
+  return ran;
+}
@@ -1,26 +1,16 @@
 import { storage } from './storage';
 import { WebSocket } from 'ws';
-
-interface AlgoliaJob {
-  data: {
-    jobID: string;
-    city: string;
-    country: string;
-    externalPath: string;
-    lastDayToApply: string;
-    title: string;
-    businessArea: string;
-    [key: string]: any;
-  };
-  [key: string]: any;
-}
-
-interface AlgoliaResponse {
-  hits: AlgoliaJob[];
-  page: number;
-  nbPages: number;
-  nbHits: number;
-}
+import { pipelineRunLock, PipelineBusyError } from './run-lock';
+import { getAiProvider, getGeocodingProvider, getEnrichmentConcurrency } from './rate-limit';
+import { runWithConcurrency } from './worker-pool';
+import { hashValues } from './content-hash';
+import { getRemovalPolicy, checkRemovalPolicy, RemovalSafeguardError } from './removal-safeguard';
+import { planChangesetApply, planChangesetRollback } from './changeset';
+import { getJobSources } from './job-source-config';
+import { getAlgoliaProfile } from './algolia-profiles';
+import { DEFAULT_ALGOLIA_FIELD_MAP } from './algolia-source';
+import { mapFields, type NormalizedJob } from './job-source';
+import type { InsertJobPosting, JobPosting, PipelineExecution, CheckpointAction, TriggerSource } from '@shared/schema';
 
 interface AILocationResponse {
   city: string;
@@ -28,6 +18,42 @@ interface AILocationResponse {
   country: string;
 }
 
+interface PendingJob {
+  job: NormalizedJob;
+  action: CheckpointAction;
+  enriched: InsertJobPosting | null; // Null until the job has been enriched
+}
+
+interface AppliedChanges {
+  created: InsertJobPosting[];
+  updated: InsertJobPosting[];
+  removed: number;
+}
+
+type JobLocation = Pick<InsertJobPosting, 'city' | 'state' | 'country' | 'zipcode' | 'latitude' | 'longitude' | 'locationPoint'>;
+
+export interface PipelineStartOptions {
+  queueIfBusy?: boolean;
+  profile?: string; // Algolia query profile for this run; each source's configured profile when omitted
+  sources?: string[]; // Job source names to fetch; every enabled source when omitted or empty
+  trigger?: TriggerSource; // Recorded on the execution; 'manual' when omitted
+}
+
+interface QueuedRun {
+  batchSize: number;
+  profile?: string;
+  sources?: string[];
+  trigger?: TriggerSource;
+  queuedAt: string;
+}
+
+export type PipelineStartResult =
+  | { status: 'started'; executionId: number; completion: Promise<void> }
+  | { status: 'queued'; activeExecutionId: number | null };
+
+const QUEUE_POLL_MS = 60 * 1000;
+const DEFAULT_JOB_RETENTION_DAYS = 90;
+
 interface GeocodingResponse {
   results: Array<{
     geometry: {
@@ -45,10 +71,20 @@ interface GeocodingResponse {
   status: string;
 }
 
+export class PipelineCancelledError extends Error {
+  constructor(public executionId: number) {
+    super(`Pipeline execution ${executionId} was cancelled`);
+    this.name = 'PipelineCancelledError';
+  }
+}
+
 export class AzurePipelineService {
   private ws: WebSocket | null = null;
   private currentExecutionId: number | null = null;
-  private processedJobs: any[] = [];
+  private activeExecutionId: number | null = null;
+  private cancelRequests = new Set<number>();
+  private queuedRun: QueuedRun | null = null;
+  private queuePollTimer: NodeJS.Timeout | null = null;
 
   setWebSocket(ws: WebSocket) {
     this.ws = ws;
@@ -73,16 +109,53 @@ export class AzurePipelineService {
     }
   }
 
-  async executePipeline(batchSize: number = 100): Promise<void> {
+  /**
+   * Takes the run lock and starts a new execution in the background. Throws
+   * PipelineBusyError while another run holds the lock, unless queueIfBusy is
+   * set, in which case the run starts as soon as the lock is free.
+   */
+  async startPipeline(batchSize: number = 100, options: PipelineStartOptions = {}): Promise<PipelineStartResult> {
+    if (options.profile) {
+      // Fail fast with ProfileNotFoundError rather than inside the background run
+      await getAlgoliaProfile(options.profile);
+    }
+    if (options.sources?.length) {
+      await getJobSources({ sources: options.sources });
+    }
+
+    try {
+      await this.acquireRunLock();
+    } catch (error) {
+      if (error instanceof PipelineBusyError && options.queueIfBusy) {
+        await this.queueRun(batchSize, options, error.activeExecutionId);
+        return { status: 'queued', activeExecutionId: error.activeExecutionId };
+      }
+      throw error;
+    }
+
+    try {
+      const execution = await storage.createPipelineExecution({
+        status: 'running',
+        startTime: new Date(),
+        currentStep: 'Initializing',
+        triggerSource: options.trigger ?? 'manual',
+      });
+      await pipelineRunLock.attachExecution(execution.id);
+
+      const completion = this.executePipeline(execution, batchSize, options.profile, options.sources)
+        .finally(() => this.releaseRunLock());
+      return { status: 'started', executionId: execution.id, completion };
+    } catch (error) {
+      await pipelineRunLock.release();
+      throw error;
+    }
+  }
+
+  private async executePipeline(execution: PipelineExecution, batchSize: number, profile?: string, sources?: string[]): Promise<void> {
     console.log(`🚀 Starting Azure pipeline execution with batch size: ${batchSize}`);
-    
-    const execution = await storage.createPipelineExecution({
-      status: 'running',
-      startTime: new Date(),
-      currentStep: 'Initializing',
-    });
 
     this.currentExecutionId = execution.id;
+    this.activeExecutionId = execution.id;
 
     try {
       await this.sendProgress({
@@ -92,19 +165,22 @@ export class AzurePipelineService {
         progress: 0,
       });
 
-      await this.logActivity(`Pipeline execution started with batch size: ${batchSize}`, 'info');
+      await this.logActivity(`Pipeline execution started with batch size: ${batchSize}` +
+        (profile ? ` using Algolia profile "${profile}"` : '') +
+        (sources?.length ? ` from sources ${sources.join(', ')}` : ''), 'info');
 
-      // Step 1: Fetch jobs from Algolia
+      // Step 1: Fetch jobs from every configured source
       await this.sendProgress({ 
         type: 'status',
-        status: 'Fetching jobs from Algolia',
-        step: 'Fetching jobs from Algolia', 
+        status: 'Fetching jobs from sources',
+        step: 'Fetching jobs from sources', 
         progress: 10 
       });
       
-      const allJobs = await this.fetchJobsFromAlgolia();
+      const { jobs: allJobs, fetchedSources } = await this.fetchJobsFromSources(profile, sources);
+      this.throwIfCancelled(execution.id);
       
-      // Apply batch size limit immediately
+      // Apply batch size limit to enrichment work; removals are still computed against the full fetch
       const jobsToProcess = allJobs.slice(0, batchSize);
       console.log(`📊 Limited to ${jobsToProcess.length} jobs (batch size: ${batchSize} of ${allJobs.length} total)`);
 
@@ -113,7 +189,7 @@ export class AzurePipelineService {
         currentStep: 'Comparing with existing data',
       });
 
-      // Step 2: Compare Algolia job IDs with existing SQL table records
+      // Step 2: Compare source job IDs with existing SQL table records
       await this.sendProgress({ 
         type: 'status',
         status: 'Comparing with existing database records',
@@ -122,228 +198,751 @@ export class AzurePipelineService {
         totalJobs: jobsToProcess.length,
       });
 
-      const existingJobs = await storage.getAllJobPostings();
-      const existingJobIds = new Set(existingJobs.map(job => job.jobId));
-      const algoliaJobIds = new Set(jobsToProcess.map(job => String(job.data.jobID)));
+      // Include removed postings so a job that reappears is reactivated rather than duplicated
+      const existingJobs = await storage.getAllJobPostings({ includeRemoved: true });
+      const existingJobsById = new Map(existingJobs.map(job => [job.jobId, job]));
+      const sourceJobIds = new Set(allJobs.map(job => job.jobId));
 
-      // Step 3: Identify new jobs that need processing
-      const newJobs = jobsToProcess.filter(job => !existingJobIds.has(String(job.data.jobID)));
+      // Postings saved before hashes were recorded can't be compared, so their
+      // current source hashes become the baseline instead of counting as updates
+      const unhashed = allJobs.filter(job => {
+        const existing = existingJobsById.get(job.jobId);
+        return existing && !existing.contentHash;
+      });
+      if (unhashed.length > 0) {
+        await storage.backfillJobPostingHashes(unhashed.map(job => ({
+          jobId: job.jobId,
+          contentHash: this.getContentHash(job),
+          locationHash: this.getLocationHash(job),
+        })));
+        console.log(`🔑 Recorded content hashes for ${unhashed.length} postings saved before change detection`);
+      }
+
+      // Step 3: Identify new jobs, and existing jobs whose source fields changed
+      const newJobs: PendingJob[] = [];
+      const updatedJobs: PendingJob[] = [];
+      for (const job of jobsToProcess) {
+        const existing = existingJobsById.get(job.jobId);
+        if (!existing) {
+          newJobs.push({ job, action: 'create', enriched: null });
+        } else if (existing.contentHash && existing.contentHash !== this.getContentHash(job)) {
+          updatedJobs.push(this.planUpdate(job, existing));
+        }
+      }
       
-      // Step 4: Identify obsolete jobs that need deletion
-      const jobsToDelete = existingJobs.filter(job => !algoliaJobIds.has(job.jobId));
+      // Step 4: Identify obsolete jobs that are still active but no longer listed.
+      // Only sources that were fetched successfully can prove a job is gone.
+      const activeJobs = existingJobs.filter(job => job.status === 'active' && fetchedSources.has(job.source));
+      const jobsToRemove = activeJobs.filter(job => !sourceJobIds.has(job.jobId));
+
+      console.log(`📋 Found ${newJobs.length} new jobs to process, ${updatedJobs.length} updated jobs, ${jobsToRemove.length} obsolete jobs to remove`);
+      await this.logActivity(`Found ${newJobs.length} new jobs, ${updatedJobs.length} updated jobs, ${jobsToRemove.length} obsolete jobs`, 'info');
+
+      // A removal spike usually means a truncated or failed fetch, not real delistings
+      const removalPolicy = getRemovalPolicy();
+      const violation = checkRemovalPolicy(removalPolicy, activeJobs.length, jobsToRemove.length);
+      if (violation && removalPolicy.mode === 'abort') {
+        throw new RemovalSafeguardError(`Mass-removal safeguard: ${violation}`);
+      }
 
-      console.log(`📋 Found ${newJobs.length} new jobs to process, ${jobsToDelete.length} obsolete jobs to delete`);
-      await this.logActivity(`Found ${newJobs.length} new jobs, ${jobsToDelete.length} obsolete jobs`, 'info');
+      // Step 5: Plan the changeset. Nothing is written to job_posting_listings until it is applied.
+      // This run's diff replaces any removals an earlier run left waiting for approval.
+      this.throwIfCancelled(execution.id);
+      await storage.resolvePendingRemovals('superseded');
+
+      if (violation) {
+        await storage.createPendingRemovals(jobsToRemove.map(job => ({
+          executionId: execution.id,
+          jobId: job.jobId,
+          title: job.title,
+        })));
+        await storage.updatePipelineExecution(execution.id, { pendingRemovals: jobsToRemove.length });
+        await this.logActivity(`Holding ${jobsToRemove.length} removals for approval: ${violation}`, 'warning');
+      }
 
-      // Step 5: Delete obsolete jobs from SQL table
-      if (jobsToDelete.length > 0) {
-        await this.sendProgress({ 
-          type: 'status',
-          status: `Removing ${jobsToDelete.length} obsolete jobs`,
-          step: 'Removing obsolete jobs', 
-          progress: 30,
-          totalJobs: jobsToProcess.length,
+      await storage.createPipelineChanges([
+        ...newJobs.map(({ job }) => ({ executionId: execution.id, jobId: job.jobId, action: 'add', before: null })),
+        ...updatedJobs.map(({ job }) => ({
+          executionId: execution.id,
+          jobId: job.jobId,
+          action: 'update',
+          before: JSON.stringify(existingJobsById.get(job.jobId)),
+        })),
+        ...(violation ? [] : jobsToRemove).map(job => ({
+          executionId: execution.id,
+          jobId: job.jobId,
+          action: 'remove',
+          before: JSON.stringify(job),
+        })),
+      ]);
+
+      // Checkpoint every new and updated job before enrichment so an interrupted run can be resumed
+      const pendingJobs = [...newJobs, ...updatedJobs];
+      await storage.createJobCheckpoints(pendingJobs.map(({ job, action, enriched }) => ({
+        executionId: execution.id,
+        jobId: job.jobId,
+        stage: enriched ? 'enriched' : 'fetched',
+        action,
+        sourceData: JSON.stringify(job),
+        enrichedData: enriched ? JSON.stringify(enriched) : null,
+      })));
+
+      // Step 6: Enrich new and relocated jobs
+      await this.enrichPendingJobs(execution.id, pendingJobs);
+
+      // Step 7: Apply the whole changeset in one transaction
+      const savedJobs = await this.applyChangeset(execution.id);
+
+      // Refresh last_seen for every listed job and bring back any that had been removed
+      const reactivated = await storage.markJobPostingsSeen(Array.from(sourceJobIds));
+      if (reactivated > 0) {
+        await this.logActivity(`Reactivated ${reactivated} previously removed jobs that are listed again`, 'info');
+      }
+
+      await this.completeExecution(execution.id, jobsToProcess.length, savedJobs);
+      await this.purgeRemovedJobs();
+
+    } catch (error) {
+      await this.handleExecutionError(execution.id, error);
+      throw error;
+    } finally {
+      this.finishRun(execution.id);
+    }
+  }
+
+  async resumePipeline(executionId: number): Promise<PipelineStartResult> {
+    const execution = await storage.getPipelineExecution(executionId);
+    if (!execution) {
+      throw new Error(`Pipeline execution ${executionId} not found`);
+    }
+    if (execution.status === 'completed') {
+      throw new Error(`Pipeline execution ${executionId} has already completed`);
+    }
+
+    await this.acquireRunLock();
+    try {
+      await pipelineRunLock.attachExecution(executionId);
+      const completion = this.executeResume(execution)
+        .finally(() => this.releaseRunLock());
+      return { status: 'started', executionId, completion };
+    } catch (error) {
+      await pipelineRunLock.release();
+      throw error;
+    }
+  }
+
+  private async executeResume(execution: PipelineExecution): Promise<void> {
+    const executionId = execution.id;
+    const checkpoints = await storage.getJobCheckpoints(executionId);
+    const unfinished = checkpoints.filter(checkpoint => checkpoint.stage !== 'saved');
+
+    console.log(`🔁 Resuming pipeline execution ${executionId} with ${unfinished.length} unfinished jobs`);
+    this.currentExecutionId = executionId;
+    this.activeExecutionId = executionId;
+
+    await storage.updatePipelineExecution(executionId, {
+      status: 'running',
+      endTime: null,
+      errorMessage: null,
+      currentStep: 'Resuming',
+    });
+
+    try {
+      await this.logActivity(`Resuming pipeline execution ${executionId}: ${unfinished.length} of ${checkpoints.length} jobs unfinished`, 'info');
+
+      // Runs from before changesets existed have checkpoints but no planned changes
+      const planned = new Set((await storage.getPipelineChanges(executionId)).map(change => change.jobId));
+      await storage.createPipelineChanges(checkpoints
+        .filter(checkpoint => !planned.has(checkpoint.jobId))
+        .map(checkpoint => ({
+          executionId,
+          jobId: checkpoint.jobId,
+          action: checkpoint.action === 'update' ? 'update' : 'add',
+          before: null,
+        })));
+
+      await this.enrichPendingJobs(
+        executionId,
+        unfinished.map(checkpoint => ({
+          job: this.parseCheckpointJob(checkpoint.sourceData),
+          action: checkpoint.action as CheckpointAction,
+          enriched: checkpoint.stage === 'enriched' && checkpoint.enrichedData
+            ? JSON.parse(checkpoint.enrichedData) as InsertJobPosting
+            : null,
+        })),
+      );
+
+      // Applying again only writes the changes the interrupted run had not applied.
+      // Totals cover the whole execution, including changes applied before the interruption.
+      const appliedChanges = await this.applyChangeset(executionId);
+      await this.completeExecution(executionId, execution.totalJobs || checkpoints.length, appliedChanges);
+
+    } catch (error) {
+      await this.handleExecutionError(executionId, error);
+      throw error;
+    } finally {
+      this.finishRun(executionId);
+    }
+  }
+
+  /**
+   * Requests cancellation of an execution. A run active in this process stops
+   * before its next job; a stale 'running' row with no active run is marked
+   * cancelled immediately.
+   */
+  async cancelPipeline(executionId: number): Promise<'requested' | 'cancelled'> {
+    if (this.activeExecutionId === executionId) {
+      this.cancelRequests.add(executionId);
+      console.log(`⏹️ Cancellation requested for pipeline execution ${executionId}`);
+      return 'requested';
+    }
+
+    await this.markCancelled(executionId);
+    return 'cancelled';
+  }
+
+  /**
+   * Applies removals held by the mass-removal safeguard as remove changes of
+   * the execution that held them, so they show in its changelog and can be
+   * rolled back. Jobs listed again since the removals were held are skipped.
+   * Returns null if the execution has nothing pending.
+   */
+  async approvePendingRemovals(executionId: number): Promise<{ removed: number; skipped: number } | null> {
+    // Held for the whole approval so a run can't start between reading postings and writing removals
+    await this.acquireRunLock();
+    try {
+      return await this.applyPendingRemovals(executionId);
+    } finally {
+      await this.releaseRunLock();
+    }
+  }
+
+  private async applyPendingRemovals(executionId: number): Promise<{ removed: number; skipped: number } | null> {
+    const pending = (await storage.getPendingRemovals()).filter(removal => removal.executionId === executionId);
+    if (pending.length === 0) {
+      return null;
+    }
+
+    const jobsById = new Map((await storage.getAllJobPostings({ includeRemoved: true })).map(job => [job.jobId, job]));
+    const heldAt = pending[0].createdAt;
+    const jobs = pending
+      .map(removal => jobsById.get(removal.jobId))
+      .filter((job): job is JobPosting => !!job && job.status === 'active' && (!job.lastSeen || job.lastSeen <= heldAt));
+
+    // A change planned by an earlier attempt that failed to commit is applied rather than planned again
+    const planned = new Set((await storage.getPipelineChanges(executionId)).map(change => change.jobId));
+    await storage.createPipelineChanges(jobs
+      .filter(job => !planned.has(job.jobId))
+      .map(job => ({ executionId, jobId: job.jobId, action: 'remove', before: JSON.stringify(job) })));
+    const jobIds = new Set(jobs.map(job => job.jobId));
+    const removals = (await storage.getPipelineChanges(executionId))
+      .filter(change => change.action === 'remove' && jobIds.has(change.jobId));
+    await storage.commitChangeset(executionId, planChangesetApply(removals, [], jobsById));
+
+    await storage.resolvePendingRemovals('approved', executionId);
+    await this.updateHeldExecution(executionId, jobs.length);
+
+    const skipped = pending.length - jobs.length;
+    await storage.createActivityLog({
+      message: `Approved ${pending.length} held removals from execution ${executionId}: removed ${jobs.length} jobs` +
+        (skipped > 0 ? `, skipped ${skipped} listed again since` : ''),
+      level: 'success',
+      executionId,
+    });
+    return { removed: jobs.length, skipped };
+  }
+
+  async rejectPendingRemovals(executionId: number): Promise<number | null> {
+    const rejected = await storage.resolvePendingRemovals('rejected', executionId);
+    if (rejected.length === 0) {
+      return null;
+    }
+
+    await this.updateHeldExecution(executionId, 0);
+    await storage.createActivityLog({
+      message: `Rejected ${rejected.length} held removals from execution ${executionId}`,
+      level: 'info',
+      executionId,
+    });
+    return rejected.length;
+  }
+
+  /**
+   * Undoes the changes an execution applied, newest first. Postings changed
+   * again since then are reported as conflicts and left alone. Returns null
+   * if the execution has no applied changes.
+   */
+  async rollbackChangeset(executionId: number): Promise<{ rolledBack: number; conflicts: number } | null> {
+    await this.acquireRunLock();
+    try {
+      return await this.rollbackAppliedChanges(executionId);
+    } finally {
+      await this.releaseRunLock();
+    }
+  }
+
+  private async rollbackAppliedChanges(executionId: number): Promise<{ rolledBack: number; conflicts: number } | null> {
+    const changes = await storage.getPipelineChanges(executionId);
+    if (!changes.some(change => change.status === 'applied')) {
+      return null;
+    }
+
+    const current = new Map((await storage.getAllJobPostings({ includeRemoved: true })).map(job => [job.jobId, job]));
+    const write = planChangesetRollback(changes, current);
+    await storage.commitChangeset(executionId, write);
+
+    const rolledBack = write.changes.filter(change => change.status === 'rolled_back').length;
+    const conflicts = write.changes.length - rolledBack;
+    await storage.createActivityLog({
+      message: `Rolled back ${rolledBack} changes from execution ${executionId}` +
+        (conflicts > 0 ? `; ${conflicts} postings changed since and were left as they are` : ''),
+      level: conflicts > 0 ? 'warning' : 'success',
+      executionId,
+    });
+    return { rolledBack, conflicts };
+  }
+
+  private async updateHeldExecution(executionId: number, removedJobs: number): Promise<void> {
+    // Executions may not outlive a restart, while held removals do
+    if (await storage.getPipelineExecution(executionId)) {
+      await storage.updatePipelineExecution(executionId, { removedJobs, pendingRemovals: 0 });
+    }
+  }
+
+  getQueuedRun(): QueuedRun | null {
+    return this.queuedRun;
+  }
+
+  private async acquireRunLock(): Promise<void> {
+    // If another process takes the lease from us, stop this run between jobs
+    const previous = await pipelineRunLock.acquire(executionId => {
+      if (executionId) {
+        this.cancelRequests.add(executionId);
+      }
+    });
+
+    // A lapsed lease means the previous holder died mid-run
+    if (previous?.executionId) {
+      const stale = await storage.getPipelineExecution(previous.executionId);
+      if (stale?.status === 'running') {
+        await storage.updatePipelineExecution(stale.id, {
+          status: 'failed',
+          endTime: new Date(),
+          errorMessage: 'Run lock lease expired; the execution was interrupted and can be resumed',
         });
+        await storage.createActivityLog({
+          message: `Pipeline execution ${stale.id} was interrupted (run lock lease expired)`,
+          level: 'warning',
+          executionId: stale.id,
+        });
+      }
+    }
+  }
 
-        for (const jobToDelete of jobsToDelete) {
-          try {
-            await storage.deleteJobPosting(jobToDelete.jobId);
-            console.log(`🗑️ Deleted obsolete job: ${jobToDelete.title} (${jobToDelete.jobId})`);
-          } catch (error) {
-            const errorMessage = error instanceof Error ? error.message : String(error);
-            console.warn(`Failed to delete job ${jobToDelete.jobId}:`, error);
-            await this.logActivity(`Failed to delete obsolete job ${jobToDelete.title}: ${errorMessage}`, 'warning');
-          }
+  private async releaseRunLock(): Promise<void> {
+    await pipelineRunLock.release();
+    await this.startQueuedRun();
+  }
+
+  private async queueRun(batchSize: number, options: PipelineStartOptions, activeExecutionId: number | null): Promise<void> {
+    this.queuedRun = { batchSize, profile: options.profile, sources: options.sources, trigger: options.trigger, queuedAt: new Date().toISOString() };
+
+    // The active run may belong to another process, so keep polling for the lock
+    if (!this.queuePollTimer) {
+      this.queuePollTimer = setInterval(() => {
+        this.startQueuedRun();
+      }, QUEUE_POLL_MS);
+    }
+
+    await storage.createActivityLog({
+      message: activeExecutionId
+        ? `Pipeline run queued with batch size ${batchSize} until execution ${activeExecutionId} finishes`
+        : `Pipeline run queued with batch size ${batchSize}`,
+      level: 'info',
+    });
+  }
+
+  private async startQueuedRun(): Promise<void> {
+    if (!this.queuedRun || pipelineRunLock.isHeld()) return;
+
+    try {
+      const { batchSize, profile, sources, trigger } = this.queuedRun;
+      const run = await this.startPipeline(batchSize, { profile, sources, trigger });
+      if (run.status === 'started') {
+        console.log(`▶️ Started queued pipeline run as execution ${run.executionId}`);
+        this.queuedRun = null;
+        if (this.queuePollTimer) {
+          clearInterval(this.queuePollTimer);
+          this.queuePollTimer = null;
         }
-        await this.logActivity(`Removed ${jobsToDelete.length} obsolete jobs from database`, 'success');
+        run.completion.catch(error => {
+          console.error('Queued pipeline execution failed:', error);
+        });
+      }
+    } catch (error) {
+      if (!(error instanceof PipelineBusyError)) {
+        console.error('Failed to start queued pipeline run:', error);
       }
+    }
+  }
 
-      // Step 6: Process new jobs with Azure OpenAI and Google Geocoding
-      const enrichedJobs = [];
-      let processedCount = 0;
+  private throwIfCancelled(executionId: number) {
+    if (this.cancelRequests.has(executionId)) {
+      throw new PipelineCancelledError(executionId);
+    }
+  }
 
-      if (newJobs.length > 0) {
-        await this.sendProgress({ 
-          type: 'status',
-          status: `Processing ${newJobs.length} new jobs with AI`,
-          step: 'Processing new jobs with AI', 
-          progress: 40,
-          totalJobs: newJobs.length,
-        });
+  private finishRun(executionId: number) {
+    this.cancelRequests.delete(executionId);
+    if (this.activeExecutionId === executionId) {
+      this.activeExecutionId = null;
+    }
+  }
 
-        for (const job of newJobs) {
-          try {
-            // Process location with Azure OpenAI
-            const aiLocation = await this.processLocationWithAI(job);
-            
-            // Get coordinates from Google Geocoding
-            const coordinates = await this.getCoordinates(aiLocation);
-
-            // Create enriched job object
-            const enrichedJob = {
-              jobId: String(job.data.jobID),
-              jobUrl: job.data.externalPath,
-              title: job.data.title,
-              city: aiLocation.city,
-              state: aiLocation.state,
-              country: aiLocation.country,
-              zipcode: coordinates.zipcode,
-              latitude: coordinates.latitude,
-              longitude: coordinates.longitude,
-              locationPoint: coordinates.latitude && coordinates.longitude 
-                ? `POINT(${coordinates.longitude} ${coordinates.latitude})` 
-                : null,
-              description: job.data.businessArea || null,
-              companyName: job.data.brand || job.data.company || null,
-            };
-
-            enrichedJobs.push(enrichedJob);
-            processedCount++;
-
-            // Send progress update
-            const progress = 40 + (processedCount / newJobs.length) * 40;
-            await this.sendProgress({
-              type: 'status',
-              status: `Processed ${processedCount}/${newJobs.length} new jobs`,
-              step: 'Processing new jobs with AI',
-              progress: Math.round(progress),
-              processedJobs: processedCount,
-              totalJobs: newJobs.length,
-            });
-
-          } catch (error) {
-            const errorMessage = error instanceof Error ? error.message : String(error);
-            console.error(`Failed to process job ${job.data.jobID}:`, error);
-            await this.logActivity(`Failed to process job ${job.data.title}: ${errorMessage}`, 'error');
-            processedCount++;
-          }
+  /**
+   * Enriches any pending jobs that have not been enriched yet, storing each
+   * result in the job's checkpoint for the changeset apply to pick up.
+   */
+  private async enrichPendingJobs(executionId: number, pendingJobs: PendingJob[]): Promise<void> {
+    const jobsToEnrich = pendingJobs.filter(pending => !pending.enriched);
+
+    // Process new and relocated jobs with Azure OpenAI and Google Geocoding
+    let processedCount = 0;
+
+    if (jobsToEnrich.length > 0) {
+      await this.sendProgress({ 
+        type: 'status',
+        status: `Processing ${jobsToEnrich.length} jobs with AI`,
+        step: 'Processing new jobs with AI', 
+        progress: 40,
+        totalJobs: jobsToEnrich.length,
+      });
+      await storage.updatePipelineExecution(executionId, { currentStep: 'Processing new jobs with AI' });
+
+      // Enrich jobs in parallel; provider limits in rate-limit.ts keep AI and geocoding calls within quota
+      await runWithConcurrency(jobsToEnrich, getEnrichmentConcurrency(), async ({ job }) => {
+        this.throwIfCancelled(executionId);
+        const jobId = job.jobId;
+        try {
+          const enrichedJob = await this.enrichJob(job);
+          await storage.updateJobCheckpoint(executionId, jobId, {
+            stage: 'enriched',
+            enrichedData: JSON.stringify(enrichedJob),
+          });
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          console.error(`Failed to process job ${job.jobId}:`, error);
+          await this.logActivity(`Failed to process job ${job.title}: ${errorMessage}`, 'error');
+          await storage.updateJobCheckpoint(executionId, jobId, { stage: 'failed', errorMessage })
+            .catch(checkpointError => console.error('Failed to update job checkpoint:', checkpointError));
         }
+        processedCount++;
 
-        // Step 7: Add new enriched jobs to SQL table
-        await this.sendProgress({ 
+        // Send progress update
+        const progress = 40 + (processedCount / jobsToEnrich.length) * 40;
+        await this.sendProgress({
           type: 'status',
-          status: `Adding ${enrichedJobs.length} new jobs to database`,
-          step: 'Adding new jobs to database', 
-          progress: 85,
-          totalJobs: enrichedJobs.length,
+          status: `Processed ${processedCount}/${jobsToEnrich.length} jobs`,
+          step: 'Processing new jobs with AI',
+          progress: Math.round(progress),
+          processedJobs: processedCount,
+          totalJobs: jobsToEnrich.length,
         });
+      });
+    }
+  }
 
-        let addedCount = 0;
-        for (const enrichedJob of enrichedJobs) {
-          try {
-            await storage.createJobPosting(enrichedJob);
-            addedCount++;
-          } catch (error) {
-            const errorMessage = error instanceof Error ? error.message : String(error);
-            console.warn(`Failed to save job ${enrichedJob.jobId}:`, error);
-            await this.logActivity(`Failed to save job ${enrichedJob.title}: ${errorMessage}`, 'warning');
-          }
-        }
-        await this.logActivity(`Added ${addedCount} new job postings to database`, 'success');
+  /**
+   * Applies the execution's outstanding changes in one transaction, using the
+   * enriched posting stored in each job's checkpoint. Returns every change of
+   * the execution that is applied, including ones an earlier attempt applied.
+   */
+  private async applyChangeset(executionId: number): Promise<AppliedChanges> {
+    this.throwIfCancelled(executionId);
+    const postings = (await storage.getJobCheckpoints(executionId))
+      .filter(checkpoint => checkpoint.enrichedData)
+      .map(checkpoint => JSON.parse(checkpoint.enrichedData!) as InsertJobPosting);
+    const current = new Map((await storage.getAllJobPostings({ includeRemoved: true })).map(job => [job.jobId, job]));
+    const write = planChangesetApply(await storage.getPipelineChanges(executionId), postings, current);
+
+    if (write.changes.length > 0) {
+      await this.sendProgress({
+        type: 'status',
+        status: `Applying ${write.changes.length} changes to database`,
+        step: 'Applying changes to database',
+        progress: 85,
+      });
+      await storage.updatePipelineExecution(executionId, { currentStep: 'Applying changes to database' });
+      await storage.commitChangeset(executionId, write);
+    }
+
+    const applied: AppliedChanges = { created: [], updated: [], removed: 0 };
+    for (const change of await storage.getPipelineChanges(executionId)) {
+      if (change.status !== 'applied') continue;
+      if (change.action === 'remove') {
+        applied.removed++;
+      } else {
+        (change.action === 'add' ? applied.created : applied.updated).push(JSON.parse(change.after!));
       }
+    }
 
-      // Store processed jobs for API access
-      this.processedJobs = enrichedJobs;
+    if (write.changes.length > 0) {
+      const skipped = write.changes.filter(change => change.status === 'skipped').length;
+      const conflicts = write.changes.filter(change => change.status === 'conflict').length;
+      await this.logActivity(
+        `Applied changeset: added ${applied.created.length} new job postings, updated ${applied.updated.length} and removed ${applied.removed}` +
+          (skipped > 0 ? `; skipped ${skipped} jobs that could not be enriched` : '') +
+          (conflicts > 0 ? `; left ${conflicts} postings a later run changed since as they are` : ''),
+        skipped > 0 || conflicts > 0 ? 'warning' : 'success',
+      );
+    }
+    return applied;
+  }
 
-      // Complete execution
-      await storage.updatePipelineExecution(execution.id, {
-        status: 'completed',
-        endTime: new Date(),
-        processedJobs: enrichedJobs.length,
-        newJobs: enrichedJobs.length,
-        removedJobs: jobsToDelete.length,
-        currentStep: 'Completed',
-      });
+  // Source fields copied into job_posting_listings; any change makes the posting an update
+  private getContentHash(job: NormalizedJob): string {
+    return hashValues([
+      job.title,
+      job.url,
+      job.lastDayToApply,
+      job.city,
+      job.country,
+      job.description,
+      job.companyName,
+      ...(job.state ? [job.state] : []),
+    ]);
+  }
 
-      await this.sendProgress({
-        type: 'complete',
-        message: `Pipeline completed successfully. Added ${enrichedJobs.length} new jobs, removed ${jobsToDelete.length} obsolete jobs.`,
-        totalJobs: jobsToProcess.length,
-        processedJobs: enrichedJobs.length,
-        newJobs: enrichedJobs.length,
-        removedJobs: jobsToDelete.length,
-      });
+  // Inputs to location enrichment; only a change here is worth new AI and geocoding calls
+  // State is only hashed when a source provides it, so hashes of existing Algolia postings stay valid
+  private getLocationHash(job: NormalizedJob): string {
+    return hashValues([job.city, job.country, ...(job.state ? [job.state] : [])]);
+  }
 
-      await this.logActivity(`Pipeline execution completed successfully. Added ${enrichedJobs.length} new jobs, removed ${jobsToDelete.length} obsolete jobs.`, 'success');
+  /**
+   * Hard-deletes postings that have been removed for longer than
+   * JOB_RETENTION_DAYS (default 90). A value of 0 keeps them indefinitely.
+   */
+  private async purgeRemovedJobs(): Promise<void> {
+    const retentionDays = Number(process.env.JOB_RETENTION_DAYS ?? DEFAULT_JOB_RETENTION_DAYS);
+    if (!(retentionDays > 0)) return;
 
+    try {
+      const removedBefore = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+      const purged = await storage.purgeRemovedJobPostings(removedBefore);
+      if (purged > 0) {
+        await this.logActivity(`Purged ${purged} jobs removed more than ${retentionDays} days ago`, 'info');
+      }
     } catch (error) {
-      console.error('Pipeline execution failed:', error);
+      // The run itself succeeded; the purge is retried after the next one
       const errorMessage = error instanceof Error ? error.message : String(error);
-      
-      await storage.updatePipelineExecution(execution.id, {
-        status: 'failed',
-        endTime: new Date(),
-        errorMessage,
-      });
+      await this.logActivity(`Failed to purge removed jobs: ${errorMessage}`, 'warning');
+    }
+  }
 
-      await this.logActivity(`Pipeline execution failed: ${errorMessage}`, 'error');
+  /**
+   * Builds the pending update for a changed posting. The stored location is
+   * reused unless the location inputs changed. Rows saved before hashes were
+   * recorded have no location hash and keep their location too.
+   */
+  private planUpdate(job: NormalizedJob, existing: JobPosting): PendingJob {
+    if (existing.locationHash && existing.locationHash !== this.getLocationHash(job)) {
+      return { job, action: 'update', enriched: null };
+    }
 
-      await this.sendProgress({
-        type: 'error',
-        message: `Pipeline failed: ${errorMessage}`,
-      });
+    return {
+      job,
+      action: 'update',
+      enriched: this.toJobPosting(job, {
+        city: existing.city,
+        state: existing.state,
+        country: existing.country,
+        zipcode: existing.zipcode,
+        latitude: existing.latitude,
+        longitude: existing.longitude,
+        locationPoint: existing.locationPoint,
+      }),
+    };
+  }
 
-      throw error;
+  private async enrichJob(job: NormalizedJob): Promise<InsertJobPosting> {
+    // Process location with Azure OpenAI
+    const aiLocation = await this.processLocationWithAI(job);
+    
+    // Get coordinates from Google Geocoding
+    const coordinates = await this.getCoordinates(aiLocation);
+
+    return this.toJobPosting(job, {
+      city: aiLocation.city,
+      state: aiLocation.state,
+      country: aiLocation.country,
+      zipcode: coordinates.zipcode,
+      latitude: coordinates.latitude,
+      longitude: coordinates.longitude,
+      locationPoint: coordinates.latitude && coordinates.longitude 
+        ? `POINT(${coordinates.longitude} ${coordinates.latitude})` 
+        : null,
+    });
+  }
+
+  private toJobPosting(job: NormalizedJob, location: JobLocation): InsertJobPosting {
+    return {
+      jobId: job.jobId,
+      jobUrl: job.url,
+      title: job.title,
+      ...location,
+      description: job.description,
+      companyName: job.companyName,
+      lastDayToApply: job.lastDayToApply,
+      source: job.source,
+      contentHash: this.getContentHash(job),
+      locationHash: this.getLocationHash(job),
+    };
+  }
+
+  private async completeExecution(executionId: number, totalJobs: number, applied: AppliedChanges): Promise<void> {
+    const newJobs = applied.created.length;
+    const updatedJobs = applied.updated.length;
+    const removedJobs = applied.removed;
+
+    await storage.updatePipelineExecution(executionId, {
+      status: 'completed',
+      endTime: new Date(),
+      processedJobs: newJobs + updatedJobs,
+      newJobs,
+      updatedJobs,
+      removedJobs,
+      currentStep: 'Completed',
+    });
+
+    const summary = `Added ${newJobs} new jobs, updated ${updatedJobs} jobs, removed ${removedJobs} obsolete jobs.`;
+
+    await this.sendProgress({
+      type: 'complete',
+      message: `Pipeline completed successfully. ${summary}`,
+      totalJobs,
+      processedJobs: newJobs + updatedJobs,
+      newJobs,
+      updatedJobs,
+      removedJobs,
+    });
+
+    await this.logActivity(`Pipeline execution completed successfully. ${summary}`, 'success');
+  }
+
+  private async handleExecutionError(executionId: number, error: unknown): Promise<void> {
+    if (error instanceof PipelineCancelledError) {
+      await this.markCancelled(executionId);
+    } else {
+      await this.failExecution(executionId, error);
     }
   }
 
-  private async fetchJobsFromAlgolia(): Promise<AlgoliaJob[]> {
-    // Fetch all available jobs with pagination
-    const url = `https://${process.env.ALGOLIA_APPLICATION_ID}.algolia.net/1/indexes/GROUP_EN_dateDesc/query`;
-    let allJobs: AlgoliaJob[] = [];
-    let page = 0;
-    let totalPages = 1;
+  private async markCancelled(executionId: number): Promise<void> {
+    const message = `Pipeline execution ${executionId} cancelled`;
+    console.log(`⏹️ ${message}`);
 
-    while (page < totalPages) {
-      const body = {
-        params: `filters=data.country:"United States"&hitsPerPage=1000&page=${page}&query=`
-      };
+    await storage.updatePipelineExecution(executionId, {
+      status: 'cancelled',
+      endTime: new Date(),
+      currentStep: 'Cancelled',
+    });
 
-      try {
-        const response = await fetch(url, {
-          method: 'POST',
-          headers: {
-            'X-Algolia-API-Key': process.env.ALGOLIA_API_KEY!,
-            'X-Algolia-Application-Id': process.env.ALGOLIA_APPLICATION_ID!,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(body),
-        });
+    await storage.createActivityLog({
+      message: `${message}. Unfinished jobs can be resumed later.`,
+      level: 'warning',
+      executionId,
+    });
 
-        if (!response.ok) {
-          throw new Error(`Algolia API error: ${response.status} ${response.statusText}`);
-        }
+    await this.sendProgress({
+      type: 'cancelled',
+      executionId,
+      message,
+    });
+  }
+
+  private async failExecution(executionId: number, error: unknown): Promise<void> {
+    console.error('Pipeline execution failed:', error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    
+    await storage.updatePipelineExecution(executionId, {
+      status: 'failed',
+      endTime: new Date(),
+      errorMessage,
+    });
 
-        const data = await response.json() as AlgoliaResponse;
-        allJobs.push(...data.hits);
-        totalPages = data.nbPages;
-        page++;
+    await this.logActivity(`Pipeline execution failed: ${errorMessage}`, 'error');
 
-        console.log(`📄 Fetched page ${page}/${totalPages} with ${data.hits.length} jobs (Total: ${allJobs.length})`);
-        
+    await this.sendProgress({
+      type: 'error',
+      message: `Pipeline failed: ${errorMessage}`,
+    });
+  }
+
+  /**
+   * Fetches from every enabled source, or only the named ones. A failing
+   * source is logged and skipped rather than failing the run, and its postings
+   * are left untouched. Only sources that returned their complete listing are
+   * in fetchedSources.
+   */
+  private async fetchJobsFromSources(profile?: string, sourceNames?: string[]): Promise<{ jobs: NormalizedJob[]; fetchedSources: Set<string> }> {
+    const sources = await getJobSources({ algoliaProfile: profile, sources: sourceNames });
+    let fetchedAny = false;
+    const jobsById = new Map<string, NormalizedJob>();
+    const fetchedSources = new Set<string>();
+
+    for (const source of sources) {
+      try {
+        const jobs = await source.fetchJobs();
+        for (const job of jobs) {
+          if (!jobsById.has(job.jobId)) {
+            jobsById.set(job.jobId, job);
+          }
+        }
+        fetchedAny = true;
+        console.log(`📥 Fetched ${jobs.length} jobs from ${source.type} source "${source.name}"`);
+        if (source.partial) {
+          await this.logActivity(`Source "${source.name}" returned a partial listing; its missing jobs won't be removed this run`, 'warning');
+        } else {
+          fetchedSources.add(source.name);
+        }
       } catch (error) {
-        console.error(`Failed to fetch jobs:`, error);
-        throw error;
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.error(`Failed to fetch jobs from source "${source.name}":`, error);
+        await this.logActivity(`Failed to fetch jobs from source "${source.name}": ${errorMessage}`, 'error');
       }
     }
 
-    console.log(`📥 Fetched ${allJobs.length} jobs from Algolia`);
-    return allJobs;
+    if (!fetchedAny) {
+      throw new Error('No job source could be fetched');
+    }
+
+    return { jobs: Array.from(jobsById.values()), fetchedSources };
+  }
+
+  // Checkpoints written before job sources existed hold raw Algolia hits
+  private parseCheckpointJob(sourceData: string): NormalizedJob {
+    const parsed = JSON.parse(sourceData);
+    if (parsed.data && !parsed.jobId) {
+      return mapFields({ name: 'algolia', idPrefix: '' }, parsed, DEFAULT_ALGOLIA_FIELD_MAP)!;
+    }
+    return parsed as NormalizedJob;
   }
 
-  private async processLocationWithAI(job: AlgoliaJob): Promise<AILocationResponse> {
+  private async processLocationWithAI(job: NormalizedJob): Promise<AILocationResponse> {
     // Build comprehensive job context using all available information
-    const jobTitle = job.data.title || '';
-    const jobUrl = job.data.externalPath || '';
-    const city = job.data.city || '';
-    const country = job.data.country || '';
-    const description = job.data.businessArea || '';
+    const jobTitle = job.title || '';
+    const jobUrl = job.url || '';
+    const city = job.city || '';
+    const country = job.country || '';
+    const description = job.description || '';
+    const location = [city, job.state, country].filter(Boolean).join(', ');
     
     const prompt = `Analyze this job posting and extract the complete location information:
 
 Job Title: ${jobTitle}
 Job URL: ${jobUrl}
-Location: ${city}, ${country}
+Location: ${location}
 Description: ${description}
 
 Based on this job information, determine the full standardized location. Use the job title, URL domain, and description context to help identify the specific state/province for "${city}" in ${country}.
@@ -361,7 +960,7 @@ For US locations, always include the state. Examples:
 Use the job context and URL to determine the most accurate location.`;
 
     try {
-      const response = await fetch(
+      const response = await getAiProvider().fetch(
         `https://${process.env.AZURE_OPENAI_ENDPOINT}/openai/deployments/${process.env.AZURE_OPENAI_DEPLOYMENT}/chat/completions?api-version=2024-02-15-preview`,
         {
           method: 'POST',
@@ -399,11 +998,11 @@ Use the job context and URL to determine the most accurate location.`;
         }
         
         const parsed = JSON.parse(cleanContent);
-        console.log(`✅ Successfully parsed AI response for ${job.data.city}: city=${parsed.city}, state=${parsed.state}, country=${parsed.country}`);
+        console.log(`✅ Successfully parsed AI response for ${city}: city=${parsed.city}, state=${parsed.state}, country=${parsed.country}`);
         return {
-          city: parsed.city || job.data.city,
+          city: parsed.city || city,
           state: parsed.state || null,
-          country: parsed.country || job.data.country,
+          country: parsed.country || country,
         };
       } catch (parseError) {
         console.warn('⚠️ JSON parse failed, extracting with regex from:', content.substring(0, 200));
@@ -413,11 +1012,11 @@ Use the job context and URL to determine the most accurate location.`;
         const stateMatch = content.match(/"state":\s*"([^"]+)"/i) || content.match(/state.*?:\s*"?([^",\n]+)"?/i);
         const countryMatch = content.match(/"country":\s*"([^"]+)"/i) || content.match(/country.*?:\s*"?([^",\n]+)"?/i);
         
-        const extractedCity = cityMatch?.[1]?.trim() || job.data.city;
+        const extractedCity = cityMatch?.[1]?.trim() || city;
         const extractedState = stateMatch?.[1]?.trim() || null;
-        const extractedCountry = countryMatch?.[1]?.trim() || job.data.country;
+        const extractedCountry = countryMatch?.[1]?.trim() || country;
         
-        console.log(`🔍 Regex extracted for ${job.data.city}: city=${extractedCity}, state=${extractedState}, country=${extractedCountry}`);
+        console.log(`🔍 Regex extracted for ${city}: city=${extractedCity}, state=${extractedState}, country=${extractedCountry}`);
         
         return {
           city: extractedCity,
@@ -428,9 +1027,9 @@ Use the job context and URL to determine the most accurate location.`;
     } catch (error) {
       console.warn('AI processing failed, using original location:', error);
       return {
-        city: job.data.city,
-        state: '',
-        country: job.data.country,
+        city,
+        state: job.state || '',
+        country,
       };
     }
   }
@@ -458,7 +1057,7 @@ Use the job context and URL to determine the most accurate location.`;
       try {
         const url = `https://maps.googleapis.com/maps/api/geocode/json?address=${encodeURIComponent(address)}&key=${process.env.GOOGLE_GEOCODING_API_KEY}`;
         
-        const response = await fetch(url);
+        const response = await getGeocodingProvider().fetch(url);
         
         if (!response.ok) {
           console.warn(`Geocoding API error for ${address}: ${response.status}`);
@@ -621,7 +1220,7 @@ Use the job context and URL to determine the most accurate location.`;
       for (const address of addressPatterns) {
         try {
           const url = `https://maps.googleapis.com/maps/api/geocode/json?address=${encodeURIComponent(address)}&key=${process.env.GOOGLE_GEOCODING_API_KEY}`;
-          const response = await fetch(url);
+          const response = await getGeocodingProvider().fetch(url);
           
           if (!response.ok) continue;
           
@@ -654,7 +1253,7 @@ Use the job context and URL to determine the most accurate location.`;
     try {
       const address = `${city}, ${this.getStateAbbreviation(state)}, USA`;
       const url = `https://maps.googleapis.com/maps/api/geocode/json?address=${encodeURIComponent(address)}&key=${process.env.GOOGLE_GEOCODING_API_KEY}`;
-      const response = await fetch(url);
+      const response = await getGeocodingProvider().fetch(url);
       
       if (!response.ok) throw new Error(`HTTP ${response.status}`);
       
@@ -690,7 +1289,7 @@ Use the job context and URL to determine the most accurate location.`;
           const testLng = lng + offset.lng;
           const url = `https://maps.googleapis.com/maps/api/geocode/json?latlng=${testLat},${testLng}&key=${process.env.GOOGLE_GEOCODING_API_KEY}`;
           
-          const response = await fetch(url);
+          const response = await getGeocodingProvider().fetch(url);
           if (!response.ok) continue;
           
           const result: GeocodingResponse = await response.json();
@@ -718,37 +1317,14 @@ Use the job context and URL to determine the most accurate location.`;
     }
   }
 
-  private async synchronizeDatabase(enrichedJobs: any[]): Promise<{ newJobs: number; removedJobs: number }> {
-    await this.sendProgress({ step: 'Synchronizing with database', progress: 90 });
-
-    // For initial data load, directly insert all jobs
-    let newJobsCount = 0;
-    const jobsToRemove: any[] = []; // Initialize for future sync operations
-
-    for (const job of enrichedJobs) {
-      try {
-        await storage.createJobPosting(job);
-        newJobsCount++;
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        // Handle duplicate key errors gracefully (job already exists)
-        if (!errorMessage.includes('UNIQUE KEY constraint')) {
-          console.error(`Failed to create job posting for ${job.jobId}:`, error);
-          await this.logActivity(`Failed to save job: ${job.title} - ${errorMessage}`, 'error');
-        }
-      }
-    }
-
-    await this.logActivity(`Added ${newJobsCount} new job postings to database`, 'success');
-
-    return {
-      newJobs: newJobsCount,
-      removedJobs: jobsToRemove.length,
-    };
-  }
+  // Postings an execution added or updated, read back from its changeset; the latest execution by default
+  async getProcessedJobs(executionId?: number): Promise<InsertJobPosting[]> {
+    const id = executionId ?? (await storage.getLatestPipelineExecution())?.id;
+    if (id === undefined) return [];
 
-  getProcessedJobs(): any[] {
-    return this.processedJobs;
+    return (await storage.getPipelineChanges(id))
+      .filter(change => change.status === 'applied' && change.action !== 'remove')
+      .map(change => JSON.parse(change.after!) as InsertJobPosting);
   }
 
   private getStateAbbreviation(stateName: string): string {
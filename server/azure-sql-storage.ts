@@ -1,6 +1,32 @@
 import sql from 'mssql';
-import { IStorage } from './storage';
-import { JobPosting, InsertJobPosting, PipelineExecution, InsertPipelineExecution, ActivityLog, InsertActivityLog } from '@shared/schema';
+import { migrateUp } from './azure-migrations';
+import { IStorage, JobPostingHashes, RunLockAcquisition, JobPostingListOptions, JobPostingUpsertResult, ChangesetWrite, PipelineExecutionListOptions, PipelineExecutionPage, JobPostingFilters, JobPostingQuery, JobPostingPage, JobPostingFacets, JobPostingFacetOptions, NearestJobOptions, JobPostingWithDistance, GeoBounds, GeoPoint, chunkUpsertBatch, groupLifecycleUpdates, cityFacetLabel, decodeJobCursor, escapeLikePattern, toJobPostingPage, toPipelineSchedule, toPipelineScheduleRow, ScheduleVersionConflictError } from './storage';
+import { JobPosting, InsertJobPosting, JobSortField, PipelineExecution, InsertPipelineExecution, ActivityLog, InsertActivityLog, PipelineJobCheckpoint, InsertPipelineJobCheckpoint, PipelineRunLock, PendingJobRemoval, InsertPendingJobRemoval, PendingRemovalStatus, PipelineChange, InsertPipelineChange, PipelineSchedule, InsertPipelineSchedule } from '@shared/schema';
+
+// Sort expressions for queryJobPostings. created_at is truncated to the
+// milliseconds a cursor carries, and text nulls sort as ''
+const AZURE_SORT_KEYS: Record<JobSortField, string> = {
+  createdAt: 'DATEADD(NANOSECOND, -(DATEPART(NANOSECOND, created_at) % 1000000), created_at)',
+  title: 'title',
+  companyName: "ISNULL(company_name, N'')",
+  city: "ISNULL(city, N'')",
+  state: "ISNULL(state, N'')",
+};
+
+// pipeline_schedules column types; the column names match the schedule fields
+const AZURE_SCHEDULE_COLUMNS: Record<string, any> = {
+  name: sql.NVarChar(100),
+  cron: sql.NVarChar(100),
+  timezone: sql.NVarChar(50),
+  batchSize: sql.Int,
+  sources: sql.NVarChar(sql.MAX),
+  profile: sql.NVarChar(255),
+  enabled: sql.Bit,
+  oneTime: sql.Bit,
+  misfirePolicy: sql.NVarChar(20),
+  nextRun: sql.DateTime2,
+  lastRun: sql.DateTime2,
+};
 
 interface AzureJobPosting {
   id: number;
@@ -16,7 +42,17 @@ interface AzureJobPosting {
   location_point?: string;
   description?: string;
   company_name?: string;
+  source: string;
+  last_day_to_apply?: string;
+  content_hash?: string;
+  location_hash?: string;
+  status: string;
+  is_expired: boolean;
+  first_seen?: Date;
+  last_seen?: Date;
+  removed_at?: Date;
   created_at: Date;
+  updated_at?: Date;
 }
 
 function parseJdbcConnectionString(jdbcUrl: string) {
@@ -58,7 +94,12 @@ function parseJdbcConnectionString(jdbcUrl: string) {
 
 let globalPool: sql.ConnectionPool | null = null;
 
-async function initializeConnection(): Promise<sql.ConnectionPool> {
+// Rows sent per MERGE; each chunk is saved in its own transaction
+const UPSERT_CHUNK_SIZE = 500;
+
+type IndexedJobPosting = InsertJobPosting & { rowIndex: number };
+
+export async function getAzureSqlPool(): Promise<sql.ConnectionPool> {
   if (globalPool && globalPool.connected) {
     return globalPool;
   }
@@ -76,68 +117,30 @@ async function initializeConnection(): Promise<sql.ConnectionPool> {
 }
 
 export class AzureSQLStorage implements IStorage {
+  private schemaReady: Promise<void> | null = null;
+
   private async getPool(): Promise<sql.ConnectionPool> {
     try {
-      return await initializeConnection();
+      return await getAzureSqlPool();
     } catch (error) {
       console.error('Failed to connect to Azure SQL:', error);
       throw error;
     }
   }
 
-  private async ensureTableExists(): Promise<void> {
-    const pool = await this.getPool();
-    const request = pool.request();
-    
-    const createTableSQL = `
-      IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.TABLES WHERE TABLE_NAME = 'job_posting_listings')
-      BEGIN
-          CREATE TABLE job_posting_listings (
-              id INT IDENTITY(1,1) PRIMARY KEY,
-              job_id NVARCHAR(255) NOT NULL UNIQUE,
-              job_url NVARCHAR(1000) NOT NULL,
-              title NVARCHAR(500) NOT NULL,
-              city NVARCHAR(100),
-              state NVARCHAR(100),
-              country NVARCHAR(100),
-              zipcode NVARCHAR(20),
-              latitude DECIMAL(10, 8),
-              longitude DECIMAL(11, 8),
-              location_point GEOGRAPHY,
-              description NVARCHAR(MAX),
-              company_name NVARCHAR(255),
-              created_at DATETIME2 DEFAULT GETDATE()
-          );
-
-          CREATE INDEX IX_job_posting_listings_job_id ON job_posting_listings(job_id);
-          
-          CREATE SPATIAL INDEX IX_job_posting_listings_location_point 
-          ON job_posting_listings(location_point)
-          USING GEOGRAPHY_GRID 
-          WITH (GRIDS =(LEVEL_1 = MEDIUM, LEVEL_2 = MEDIUM, LEVEL_3 = MEDIUM, LEVEL_4 = MEDIUM));
-      END
-    `;
-
-    // Add zipcode column to existing table if it doesn't exist
-    const addZipcodeColumnSQL = `
-      IF NOT EXISTS (
-          SELECT * FROM INFORMATION_SCHEMA.COLUMNS 
-          WHERE TABLE_NAME = 'job_posting_listings' AND COLUMN_NAME = 'zipcode'
-      )
-      BEGIN
-          ALTER TABLE job_posting_listings 
-          ADD zipcode NVARCHAR(20);
-      END
-    `;
-
-    try {
-      await request.query(createTableSQL);
-      await request.query(addZipcodeColumnSQL);
-      console.log('✅ Azure SQL table job_posting_listings ready');
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      console.log('Table creation skipped or already exists:', errorMessage);
+  // Applies pending migrations from migrations/azure-sql once per process, before the first query
+  private async ensureSchema(): Promise<void> {
+    if (!this.schemaReady) {
+      this.schemaReady = this.getPool()
+        .then(pool => migrateUp(pool))
+        .then(() => console.log('✅ Azure SQL schema is up to date'))
+        .catch((error) => {
+          this.schemaReady = null;
+          console.error('❌ Azure SQL migration failed:', error);
+          throw error;
+        });
     }
+    await this.schemaReady;
   }
 
   private convertAzureToJobPosting(azure: AzureJobPosting): JobPosting {
@@ -155,17 +158,28 @@ export class AzureSQLStorage implements IStorage {
       locationPoint: azure.location_point || null,
       description: azure.description || null,
       companyName: azure.company_name || null,
+      source: azure.source,
+      lastDayToApply: azure.last_day_to_apply || null,
+      contentHash: azure.content_hash || null,
+      locationHash: azure.location_hash || null,
+      status: azure.status,
+      isExpired: azure.is_expired,
+      firstSeen: azure.first_seen || null,
+      lastSeen: azure.last_seen || null,
+      removedAt: azure.removed_at || null,
       createdAt: azure.created_at,
+      updatedAt: azure.updated_at || null,
     };
   }
 
-  async getAllJobPostings(): Promise<JobPosting[]> {
-    await this.ensureTableExists();
+  async getAllJobPostings(options: JobPostingListOptions = {}): Promise<JobPosting[]> {
+    await this.ensureSchema();
     const pool = await this.getPool();
     const request = pool.request();
     
     try {
-      const result = await request.query('SELECT * FROM job_posting_listings ORDER BY id DESC');
+      const where = options.includeRemoved ? '' : "WHERE status = 'active'";
+      const result = await request.query(`SELECT * FROM job_posting_listings ${where} ORDER BY id DESC`);
       return result.recordset.map(this.convertAzureToJobPosting);
     } catch (error) {
       console.error('Failed to get job postings:', error);
@@ -173,8 +187,131 @@ export class AzureSQLStorage implements IStorage {
     }
   }
 
+  // WHERE conditions shared by job queries and facets; binds their parameters on the request
+  private jobFilterConditions(request: sql.Request, filters: JobPostingFilters): string[] {
+    // The default collation ignores case, so plain LIKE and = match the other backends
+    const conditions: string[] = [];
+    if (!filters.includeRemoved) {
+      conditions.push("status = 'active'");
+    }
+    for (const [field, column] of [['title', 'title'], ['company', 'company_name']] as const) {
+      if (filters[field]) {
+        request.input(field, sql.NVarChar(sql.MAX), `%${escapeLikePattern(filters[field]!)}%`);
+        conditions.push(`${column} LIKE @${field} ESCAPE '\\'`);
+      }
+    }
+    for (const field of ['city', 'state', 'country', 'zipcode', 'source'] as const) {
+      if (filters[field]) {
+        request.input(field, sql.NVarChar(255), filters[field]);
+        conditions.push(`${field} = @${field}`);
+      }
+    }
+    if (filters.createdAfter) {
+      request.input('createdAfter', sql.DateTime2, filters.createdAfter);
+      conditions.push('created_at >= @createdAfter');
+    }
+    if (filters.createdBefore) {
+      request.input('createdBefore', sql.DateTime2, filters.createdBefore);
+      conditions.push('created_at < @createdBefore');
+    }
+    return conditions;
+  }
+
+  async queryJobPostings(query: JobPostingQuery): Promise<JobPostingPage> {
+    await this.ensureSchema();
+    const pool = await this.getPool();
+    const request = pool.request();
+
+    const conditions = this.jobFilterConditions(request, query);
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const sort = query.sort ?? 'createdAt';
+    const sortKey = AZURE_SORT_KEYS[sort];
+    const direction = query.order === 'asc' ? 'ASC' : 'DESC';
+    const pageConditions = [...conditions];
+    if (query.cursor) {
+      const cursor = decodeJobCursor(query.cursor);
+      const comparison = direction === 'ASC' ? '>' : '<';
+      if (sort === 'createdAt') {
+        request.input('cursorValue', sql.DateTime2, new Date(cursor.value));
+      } else {
+        request.input('cursorValue', sql.NVarChar(sql.MAX), cursor.value);
+      }
+      request.input('cursorId', sql.Int, cursor.id);
+      pageConditions.push(`(${sortKey} ${comparison} @cursorValue OR (${sortKey} = @cursorValue AND id ${comparison} @cursorId))`);
+    }
+    const pageWhere = pageConditions.length > 0 ? `WHERE ${pageConditions.join(' AND ')}` : '';
+
+    request.input('limit', sql.Int, (query.limit ?? 50) + 1);
+    request.input('offset', sql.Int, query.cursor ? 0 : query.offset ?? 0);
+    const result = await request.query(`
+      SELECT COUNT(*) AS total FROM job_posting_listings ${where};
+
+      SELECT * FROM job_posting_listings ${pageWhere}
+      ORDER BY ${sortKey} ${direction}, id ${direction}
+      OFFSET @offset ROWS FETCH NEXT @limit ROWS ONLY;
+    `);
+    const [[count], rows] = result.recordsets as any[][];
+    return toJobPostingPage(rows.map(this.convertAzureToJobPosting), count.total, query);
+  }
+
+  /**
+   * Runs every facet as a GROUP BY in one batch, so the counts come from the
+   * database in a single round trip instead of loading the postings.
+   */
+  async getJobPostingFacets(filters: JobPostingFilters, options: JobPostingFacetOptions = {}): Promise<JobPostingFacets> {
+    await this.ensureSchema();
+    const pool = await this.getPool();
+    const request = pool.request();
+
+    const conditions = this.jobFilterConditions(request, filters);
+    const where = (...extra: string[]) => {
+      const all = [...conditions, ...extra];
+      return all.length > 0 ? `WHERE ${all.join(' AND ')}` : '';
+    };
+    const top = (column: string) => `
+      SELECT TOP (@top) ${column} AS value, COUNT(*) AS count FROM job_posting_listings
+      ${where(`${column} <> ''`)}
+      GROUP BY ${column}
+      ORDER BY count DESC, value;
+    `;
+    // Style 23 formats a date as YYYY-MM-DD; weeks step back to Monday whatever DATEFIRST is
+    const bucket = {
+      day: 'CONVERT(CHAR(10), created_at, 23)',
+      week: 'CONVERT(CHAR(10), DATEADD(DAY, -((DATEPART(WEEKDAY, created_at) + @@DATEFIRST - 2) % 7), CAST(created_at AS DATE)), 23)',
+      month: 'CONVERT(CHAR(7), created_at, 23)',
+    }[options.bucket ?? 'day'];
+
+    request.input('top', sql.Int, options.top ?? 10);
+    const result = await request.query(`
+      SELECT COUNT(*) AS total FROM job_posting_listings ${where()};
+      ${top('state')}
+      SELECT TOP (@top) city, state, COUNT(*) AS count FROM job_posting_listings
+      ${where("city <> ''")}
+      GROUP BY city, state
+      ORDER BY count DESC, city, state;
+      ${top('company_name')}
+      ${top('country')}
+      ${top('source')}
+      SELECT ${bucket} AS value, COUNT(*) AS count FROM job_posting_listings
+      ${where('created_at IS NOT NULL')}
+      GROUP BY ${bucket}
+      ORDER BY value;
+    `);
+    const [[{ total }], state, cities, company, country, source, created] = result.recordsets as any[][];
+    return {
+      total,
+      state,
+      city: cities.map(({ city, state, count }) => ({ value: cityFacetLabel(city, state), count })),
+      company,
+      country,
+      source,
+      created,
+    };
+  }
+
   async getJobPostingByJobID(jobID: string): Promise<JobPosting | undefined> {
-    await this.ensureTableExists();
+    await this.ensureSchema();
     const pool = await this.getPool();
     const request = pool.request();
     
@@ -199,7 +336,7 @@ export class AzureSQLStorage implements IStorage {
   }
 
   async createJobPosting(job: InsertJobPosting): Promise<JobPosting> {
-    await this.ensureTableExists();
+    await this.ensureSchema();
     const pool = await this.getPool();
     const request = pool.request();
 
@@ -216,7 +353,9 @@ export class AzureSQLStorage implements IStorage {
         latitude: job.latitude ? parseFloat(String(job.latitude)) : null,
         longitude: job.longitude ? parseFloat(String(job.longitude)) : null,
         description: job.description ? String(job.description).trim() : null,
-        companyName: job.companyName ? String(job.companyName).trim() : null
+        companyName: job.companyName ? String(job.companyName).trim() : null,
+        lastDayToApply: job.lastDayToApply ? String(job.lastDayToApply).trim() : null,
+        source: job.source || 'algolia',
       };
 
       // Validate required fields
@@ -235,6 +374,10 @@ export class AzureSQLStorage implements IStorage {
       request.input('longitude', sql.Decimal(11, 8), validatedJob.longitude);
       request.input('description', sql.NVarChar, validatedJob.description);
       request.input('companyName', sql.NVarChar, validatedJob.companyName);
+      request.input('lastDayToApply', sql.NVarChar, validatedJob.lastDayToApply);
+      request.input('source', sql.NVarChar, validatedJob.source);
+      request.input('contentHash', sql.Char(64), job.contentHash || null);
+      request.input('locationHash', sql.Char(64), job.locationHash || null);
 
       // Create location point if coordinates exist - store as text
       if (validatedJob.latitude && validatedJob.longitude) {
@@ -246,9 +389,9 @@ export class AzureSQLStorage implements IStorage {
 
       const insertSQL = `
         INSERT INTO job_posting_listings 
-        (job_id, job_url, title, city, state, country, zipcode, latitude, longitude, location_point, description, company_name)
+        (job_id, job_url, title, city, state, country, zipcode, latitude, longitude, location_point, description, company_name, source, last_day_to_apply, content_hash, location_hash)
         OUTPUT INSERTED.*
-        VALUES (@jobId, @jobUrl, @title, @city, @state, @country, @zipcode, @latitude, @longitude, @locationPoint, @description, @companyName)
+        VALUES (@jobId, @jobUrl, @title, @city, @state, @country, @zipcode, @latitude, @longitude, @locationPoint, @description, @companyName, @source, @lastDayToApply, @contentHash, @locationHash)
       `;
 
       const result = await request.query(insertSQL);
@@ -259,8 +402,187 @@ export class AzureSQLStorage implements IStorage {
     }
   }
 
+  async updateJobPosting(jobID: string, updates: Partial<InsertJobPosting>): Promise<JobPosting> {
+    await this.ensureSchema();
+    const pool = await this.getPool();
+    const request = pool.request();
+
+    // Map of camelCase field to column name and SQL type
+    const columns: Record<string, [string, any]> = {
+      jobUrl: ['job_url', sql.NVarChar],
+      title: ['title', sql.NVarChar],
+      city: ['city', sql.NVarChar],
+      state: ['state', sql.NVarChar],
+      country: ['country', sql.NVarChar],
+      zipcode: ['zipcode', sql.NVarChar],
+      latitude: ['latitude', sql.Decimal(10, 8)],
+      longitude: ['longitude', sql.Decimal(11, 8)],
+      locationPoint: ['location_point', sql.NVarChar],
+      description: ['description', sql.NVarChar],
+      companyName: ['company_name', sql.NVarChar],
+      source: ['source', sql.NVarChar],
+      lastDayToApply: ['last_day_to_apply', sql.NVarChar],
+      contentHash: ['content_hash', sql.Char(64)],
+      locationHash: ['location_hash', sql.Char(64)],
+    };
+
+    try {
+      const assignments = ['updated_at = GETDATE()'];
+      for (const [field, [column, type]] of Object.entries(columns)) {
+        const value = updates[field as keyof InsertJobPosting];
+        if (value === undefined) continue;
+        request.input(field, type, field === 'latitude' || field === 'longitude'
+          ? (value ? parseFloat(String(value)) : null)
+          : value);
+        assignments.push(`${column} = @${field}`);
+      }
+
+      request.input('jobId', sql.NVarChar, jobID);
+      const result = await request.query(`
+        UPDATE job_posting_listings
+        SET ${assignments.join(', ')}
+        OUTPUT INSERTED.*
+        WHERE job_id = @jobId
+      `);
+
+      if (result.recordset.length === 0) {
+        throw new Error(`Job posting ${jobID} not found`);
+      }
+      return this.convertAzureToJobPosting(result.recordset[0]);
+    } catch (error) {
+      console.error('Failed to update job posting:', error);
+      throw error;
+    }
+  }
+
+  async upsertJobPostings(jobs: InsertJobPosting[]): Promise<JobPostingUpsertResult[]> {
+    await this.ensureSchema();
+    const pool = await this.getPool();
+    const results: JobPostingUpsertResult[] = new Array(jobs.length);
+
+    const valid: IndexedJobPosting[] = [];
+    jobs.forEach((job, rowIndex) => {
+      if (String(job.jobId || '').trim() && String(job.jobUrl || '').trim() && String(job.title || '').trim()) {
+        valid.push({ ...job, rowIndex });
+      } else {
+        results[rowIndex] = { jobId: job.jobId, outcome: 'failed', error: 'Missing required fields: jobId, jobUrl, or title' };
+      }
+    });
+
+    for (const chunk of chunkUpsertBatch(valid, UPSERT_CHUNK_SIZE)) {
+      try {
+        await this.mergeJobPostings(pool, chunk, results);
+      } catch (error) {
+        // Retry the chunk row by row so one bad row only fails itself
+        console.warn(`Bulk upsert of ${chunk.length} job postings failed, retrying row by row:`, error);
+        for (const job of chunk) {
+          try {
+            await this.mergeJobPostings(pool, [job], results);
+          } catch (rowError: any) {
+            results[job.rowIndex] = { jobId: job.jobId, outcome: 'failed', error: rowError.message };
+          }
+        }
+      }
+    }
+    return results;
+  }
+
+  // MERGEs one chunk through the JobPostingUpsertRows table type and records each row's outcome
+  private async mergeJobPostings(pool: sql.ConnectionPool, chunk: IndexedJobPosting[], results: JobPostingUpsertResult[]): Promise<void> {
+    const transaction = new sql.Transaction(pool);
+    await transaction.begin();
+    try {
+      const merged = await this.runJobPostingMerge(transaction, chunk);
+      await transaction.commit();
+
+      for (const row of merged) {
+        results[row.rowIndex] = {
+          jobId: chunk.find(job => job.rowIndex === row.rowIndex)!.jobId,
+          outcome: row.outcome,
+        };
+      }
+    } catch (error) {
+      try {
+        await transaction.rollback();
+      } catch {
+        // SQL Server already rolled back the transaction when the statement failed
+      }
+      throw error;
+    }
+  }
+
+  // Runs the MERGE inside the caller's transaction, so a changeset commit can include it
+  private async runJobPostingMerge(
+    transaction: sql.Transaction,
+    chunk: IndexedJobPosting[],
+  ): Promise<{ rowIndex: number; outcome: 'inserted' | 'updated' }[]> {
+    const rows = new sql.Table('JobPostingUpsertRows');
+    rows.columns.add('row_index', sql.Int, { nullable: false });
+    rows.columns.add('job_id', sql.NVarChar(255), { nullable: false });
+    rows.columns.add('job_url', sql.NVarChar(1000), { nullable: false });
+    rows.columns.add('title', sql.NVarChar(500), { nullable: false });
+    rows.columns.add('city', sql.NVarChar(100), { nullable: true });
+    rows.columns.add('state', sql.NVarChar(100), { nullable: true });
+    rows.columns.add('country', sql.NVarChar(100), { nullable: true });
+    rows.columns.add('zipcode', sql.NVarChar(20), { nullable: true });
+    rows.columns.add('latitude', sql.Decimal(10, 8), { nullable: true });
+    rows.columns.add('longitude', sql.Decimal(11, 8), { nullable: true });
+    rows.columns.add('location_point', sql.NVarChar(100), { nullable: true });
+    rows.columns.add('description', sql.NVarChar(sql.MAX), { nullable: true });
+    rows.columns.add('company_name', sql.NVarChar(255), { nullable: true });
+    rows.columns.add('source', sql.NVarChar(100), { nullable: false });
+    rows.columns.add('last_day_to_apply', sql.NVarChar(50), { nullable: true });
+    rows.columns.add('content_hash', sql.Char(64), { nullable: true });
+    rows.columns.add('location_hash', sql.Char(64), { nullable: true });
+
+    for (const job of chunk) {
+      const latitude = job.latitude ? parseFloat(String(job.latitude)) : null;
+      const longitude = job.longitude ? parseFloat(String(job.longitude)) : null;
+      rows.rows.add(
+        job.rowIndex,
+        String(job.jobId).trim(),
+        String(job.jobUrl).trim(),
+        String(job.title).trim(),
+        job.city ? String(job.city).trim() : null,
+        job.state ? String(job.state).trim() : null,
+        job.country ? String(job.country).trim() : null,
+        job.zipcode ? String(job.zipcode).trim() : null,
+        latitude,
+        longitude,
+        latitude && longitude ? `POINT(${longitude} ${latitude})` : null,
+        job.description ? String(job.description).trim() : null,
+        job.companyName ? String(job.companyName).trim() : null,
+        job.source || 'algolia',
+        job.lastDayToApply ? String(job.lastDayToApply).trim() : null,
+        job.contentHash || null,
+        job.locationHash || null,
+      );
+    }
+
+    const result = await new sql.Request(transaction).input('rows', rows).query(`
+      MERGE job_posting_listings WITH (HOLDLOCK) AS target
+      USING @rows AS incoming
+      ON target.job_id = incoming.job_id
+      WHEN MATCHED THEN UPDATE SET
+        job_url = incoming.job_url, title = incoming.title, city = incoming.city, state = incoming.state,
+        country = incoming.country, zipcode = incoming.zipcode, latitude = incoming.latitude,
+        longitude = incoming.longitude, location_point = incoming.location_point,
+        description = incoming.description, company_name = incoming.company_name, source = incoming.source,
+        last_day_to_apply = incoming.last_day_to_apply, content_hash = incoming.content_hash,
+        location_hash = incoming.location_hash, updated_at = GETDATE()
+      WHEN NOT MATCHED THEN
+        INSERT (job_id, job_url, title, city, state, country, zipcode, latitude, longitude, location_point, description, company_name, source, last_day_to_apply, content_hash, location_hash)
+        VALUES (incoming.job_id, incoming.job_url, incoming.title, incoming.city, incoming.state, incoming.country, incoming.zipcode, incoming.latitude, incoming.longitude, incoming.location_point, incoming.description, incoming.company_name, incoming.source, incoming.last_day_to_apply, incoming.content_hash, incoming.location_hash)
+      OUTPUT incoming.row_index, $action AS merge_action;
+    `);
+    return result.recordset.map((row: any) => ({
+      rowIndex: row.row_index,
+      outcome: row.merge_action === 'INSERT' ? 'inserted' : 'updated',
+    }));
+  }
+
   async deleteJobPosting(jobID: string): Promise<void> {
-    await this.ensureTableExists();
+    await this.ensureSchema();
     const pool = await this.getPool();
     const request = pool.request();
 
@@ -276,7 +598,7 @@ export class AzureSQLStorage implements IStorage {
   async deleteJobPostingsByJobIDs(jobIDs: string[]): Promise<void> {
     if (jobIDs.length === 0) return;
     
-    await this.ensureTableExists();
+    await this.ensureSchema();
     const pool = await this.getPool();
     const request = pool.request();
 
@@ -293,139 +615,798 @@ export class AzureSQLStorage implements IStorage {
     }
   }
 
-  // Pipeline execution methods - using in-memory storage for simplicity
-  private pipelineExecutions: Map<number, PipelineExecution> = new Map();
-  private currentExecutionId = 1;
+  // Job IDs are passed as a JSON array so a full Algolia fetch doesn't hit the 2100 parameter limit
+  async markJobPostingsSeen(jobIDs: string[]): Promise<number> {
+    if (jobIDs.length === 0) return 0;
 
-  async createPipelineExecution(execution: InsertPipelineExecution): Promise<PipelineExecution> {
-    const newExecution: PipelineExecution = {
-      id: this.currentExecutionId++,
-      ...execution,
+    await this.ensureSchema();
+    const pool = await this.getPool();
+    const request = pool.request();
+
+    try {
+      request.input('jobIds', sql.NVarChar(sql.MAX), JSON.stringify(jobIDs));
+      const result = await request.query(`
+        DECLARE @seen TABLE (job_id NVARCHAR(255) PRIMARY KEY);
+        INSERT INTO @seen SELECT DISTINCT value FROM OPENJSON(@jobIds);
+
+        UPDATE job_posting_listings
+        SET status = 'active', is_expired = 0, removed_at = NULL
+        WHERE status = 'removed' AND job_id IN (SELECT job_id FROM @seen);
+
+        SELECT @@ROWCOUNT AS reactivated;
+
+        UPDATE job_posting_listings
+        SET last_seen = GETDATE()
+        WHERE job_id IN (SELECT job_id FROM @seen);
+      `);
+      return result.recordset[0]?.reactivated || 0;
+    } catch (error) {
+      console.error('Failed to mark job postings as seen:', error);
+      throw error;
+    }
+  }
+
+  async backfillJobPostingHashes(hashes: JobPostingHashes[]): Promise<void> {
+    if (hashes.length === 0) return;
+
+    await this.ensureSchema();
+    const pool = await this.getPool();
+    const request = pool.request();
+
+    request.input('hashes', sql.NVarChar(sql.MAX), JSON.stringify(hashes));
+    await request.query(`
+      UPDATE listings
+      SET content_hash = h.contentHash, location_hash = ISNULL(listings.location_hash, h.locationHash)
+      FROM job_posting_listings listings
+      JOIN OPENJSON(@hashes) WITH (
+        jobId NVARCHAR(255), contentHash NVARCHAR(64), locationHash NVARCHAR(64)
+      ) h ON listings.job_id = h.jobId
+      WHERE listings.content_hash IS NULL
+    `);
+  }
+
+  async markJobPostingsRemoved(jobIDs: string[]): Promise<void> {
+    if (jobIDs.length === 0) return;
+
+    await this.ensureSchema();
+    const pool = await this.getPool();
+    const request = pool.request();
+
+    try {
+      request.input('jobIds', sql.NVarChar(sql.MAX), JSON.stringify(jobIDs));
+      await request.query(`
+        UPDATE job_posting_listings
+        SET status = 'removed', is_expired = 1, removed_at = GETDATE()
+        WHERE status <> 'removed' AND job_id IN (SELECT value FROM OPENJSON(@jobIds))
+      `);
+    } catch (error) {
+      console.error('Failed to mark job postings as removed:', error);
+      throw error;
+    }
+  }
+
+  async purgeRemovedJobPostings(removedBefore: Date): Promise<number> {
+    await this.ensureSchema();
+    const pool = await this.getPool();
+    const request = pool.request();
+
+    try {
+      request.input('removedBefore', sql.DateTime2, removedBefore);
+      const result = await request.query(`
+        DELETE FROM job_posting_listings
+        WHERE status = 'removed' AND removed_at < @removedBefore
+      `);
+      return result.rowsAffected[0] || 0;
+    } catch (error) {
+      console.error('Failed to purge removed job postings:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Orders postings by distance over the location_point GEOGRAPHY column.
+   * The STDistance filter and ORDER BY with TOP let SQL Server answer the
+   * query from the spatial index instead of measuring every row.
+   */
+  async findNearestJobPostings(latitude: number, longitude: number, options: NearestJobOptions = {}): Promise<JobPostingWithDistance[]> {
+    await this.ensureSchema();
+    const pool = await this.getPool();
+    const request = pool.request();
+
+    request.input('latitude', sql.Float, latitude);
+    request.input('longitude', sql.Float, longitude);
+    request.input('limit', sql.Int, options.limit ?? 20);
+    let radiusCondition = 'location_point.STDistance(@origin) IS NOT NULL';
+    if (options.radiusKm !== undefined) {
+      request.input('radiusMeters', sql.Float, options.radiusKm * 1000);
+      radiusCondition = 'location_point.STDistance(@origin) <= @radiusMeters';
+    }
+    const result = await request.query(`
+      DECLARE @origin GEOGRAPHY = geography::Point(@latitude, @longitude, 4326);
+      SELECT TOP (@limit) *, location_point.STDistance(@origin) / 1000 AS distance_km
+      FROM job_posting_listings
+      WHERE status = 'active' AND ${radiusCondition}
+      ORDER BY location_point.STDistance(@origin);
+    `);
+    return result.recordset.map((row: any) => ({ ...this.convertAzureToJobPosting(row), distanceKm: row.distance_km }));
+  }
+
+  async findJobPostingsInBounds(bounds: GeoBounds, limit = 500): Promise<JobPosting[]> {
+    await this.ensureSchema();
+    const pool = await this.getPool();
+    const request = pool.request();
+
+    for (const [name, value] of Object.entries(bounds)) {
+      request.input(name, sql.Float, value);
+    }
+    request.input('limit', sql.Int, limit);
+    const longitudeCondition = bounds.west <= bounds.east
+      ? 'longitude BETWEEN @west AND @east'
+      : '(longitude >= @west OR longitude <= @east)';
+    const result = await request.query(`
+      SELECT TOP (@limit) * FROM job_posting_listings
+      WHERE status = 'active' AND latitude BETWEEN @south AND @north AND ${longitudeCondition}
+      ORDER BY id DESC
+    `);
+    return result.recordset.map(this.convertAzureToJobPosting);
+  }
+
+  // us_zipcodes is loaded by hand and may be missing on a fresh database
+  async getZipcodeLocation(zipcode: string): Promise<GeoPoint | undefined> {
+    const pool = await this.getPool();
+    const result = await pool.request()
+      .input('zipcode', sql.NVarChar(10), zipcode)
+      .query(`
+        IF OBJECT_ID(N'us_zipcodes', N'U') IS NOT NULL
+          SELECT TOP 1 latitude, longitude FROM us_zipcodes WHERE postal_code = @zipcode
+      `);
+    const row = result.recordset?.[0];
+    return row && { latitude: Number(row.latitude), longitude: Number(row.longitude) };
+  }
+
+  // Pending removal methods - held removals must survive restarts until someone reviews them
+  async createPendingRemovals(removals: InsertPendingJobRemoval[]): Promise<void> {
+    if (removals.length === 0) return;
+
+    await this.ensureSchema();
+    const pool = await this.getPool();
+
+    try {
+      const table = new sql.Table('pending_job_removals');
+      table.create = false;
+      table.columns.add('executionId', sql.Int, { nullable: false });
+      table.columns.add('jobId', sql.NVarChar(255), { nullable: false });
+      table.columns.add('title', sql.NVarChar(500), { nullable: true });
+      table.columns.add('status', sql.NVarChar(20), { nullable: false });
+      table.columns.add('createdAt', sql.DateTime2, { nullable: false });
+
+      const now = new Date();
+      for (const removal of removals) {
+        table.rows.add(removal.executionId, removal.jobId, removal.title || null, 'pending', now);
+      }
+
+      await pool.request().bulk(table);
+    } catch (error) {
+      console.error('Failed to create pending removals:', error);
+      throw error;
+    }
+  }
+
+  async getPendingRemovals(): Promise<PendingJobRemoval[]> {
+    await this.ensureSchema();
+    const pool = await this.getPool();
+
+    const result = await pool.request().query(
+      "SELECT * FROM pending_job_removals WHERE status = 'pending' ORDER BY id"
+    );
+    return result.recordset.map(this.convertPendingRemoval);
+  }
+
+  async resolvePendingRemovals(status: Exclude<PendingRemovalStatus, 'pending'>, executionId?: number): Promise<PendingJobRemoval[]> {
+    await this.ensureSchema();
+    const pool = await this.getPool();
+    const request = pool.request();
+
+    try {
+      request.input('status', sql.NVarChar(20), status);
+      let where = "status = 'pending'";
+      if (executionId !== undefined) {
+        request.input('executionId', sql.Int, executionId);
+        where += ' AND executionId = @executionId';
+      }
+
+      const result = await request.query(`
+        UPDATE pending_job_removals
+        SET status = @status, resolvedAt = GETDATE()
+        OUTPUT INSERTED.*
+        WHERE ${where}
+      `);
+      return result.recordset.map(this.convertPendingRemoval);
+    } catch (error) {
+      console.error('Failed to resolve pending removals:', error);
+      throw error;
+    }
+  }
+
+  private convertPendingRemoval(row: any): PendingJobRemoval {
+    return {
+      id: row.id,
+      executionId: row.executionId,
+      jobId: row.jobId,
+      title: row.title || null,
+      status: row.status,
+      createdAt: row.createdAt,
+      resolvedAt: row.resolvedAt || null,
     };
-    this.pipelineExecutions.set(newExecution.id, newExecution);
-    return newExecution;
+  }
+
+  // Pipeline execution and activity log methods - persisted so run history survives restarts
+  async createPipelineExecution(execution: InsertPipelineExecution): Promise<PipelineExecution> {
+    await this.ensureSchema();
+    const pool = await this.getPool();
+    const request = pool.request();
+
+    try {
+      request.input('status', sql.NVarChar(50), execution.status);
+      request.input('startTime', sql.DateTime2, execution.startTime);
+      request.input('endTime', sql.DateTime2, execution.endTime || null);
+      request.input('totalJobs', sql.Int, execution.totalJobs ?? 0);
+      request.input('processedJobs', sql.Int, execution.processedJobs ?? 0);
+      request.input('newJobs', sql.Int, execution.newJobs ?? 0);
+      request.input('updatedJobs', sql.Int, execution.updatedJobs ?? 0);
+      request.input('removedJobs', sql.Int, execution.removedJobs ?? 0);
+      request.input('pendingRemovals', sql.Int, execution.pendingRemovals ?? 0);
+      request.input('currentStep', sql.NVarChar(500), execution.currentStep || null);
+      request.input('errorMessage', sql.NVarChar(sql.MAX), execution.errorMessage || null);
+      request.input('triggerSource', sql.NVarChar(20), execution.triggerSource || 'manual');
+
+      const result = await request.query(`
+        INSERT INTO pipeline_executions (
+          status, startTime, endTime, totalJobs, processedJobs, newJobs, updatedJobs,
+          removedJobs, pendingRemovals, currentStep, errorMessage, triggerSource
+        )
+        OUTPUT INSERTED.*
+        VALUES (
+          @status, @startTime, @endTime, @totalJobs, @processedJobs, @newJobs, @updatedJobs,
+          @removedJobs, @pendingRemovals, @currentStep, @errorMessage, @triggerSource
+        )
+      `);
+      return this.convertPipelineExecution(result.recordset[0]);
+    } catch (error) {
+      console.error('Failed to create pipeline execution:', error);
+      throw error;
+    }
   }
 
   async updatePipelineExecution(id: number, updates: Partial<PipelineExecution>): Promise<PipelineExecution> {
-    const existing = this.pipelineExecutions.get(id);
-    if (!existing) {
-      throw new Error(`Pipeline execution with id ${id} not found`);
+    await this.ensureSchema();
+    const pool = await this.getPool();
+    const request = pool.request();
+
+    // Column names match the field names; the value is the SQL type
+    const columns: Record<string, any> = {
+      status: sql.NVarChar(50),
+      startTime: sql.DateTime2,
+      endTime: sql.DateTime2,
+      totalJobs: sql.Int,
+      processedJobs: sql.Int,
+      newJobs: sql.Int,
+      updatedJobs: sql.Int,
+      removedJobs: sql.Int,
+      pendingRemovals: sql.Int,
+      currentStep: sql.NVarChar(500),
+      errorMessage: sql.NVarChar(sql.MAX),
+      triggerSource: sql.NVarChar(20),
+    };
+
+    try {
+      const assignments: string[] = [];
+      for (const [field, type] of Object.entries(columns)) {
+        const value = updates[field as keyof PipelineExecution];
+        if (value === undefined) continue;
+        request.input(field, type, value);
+        assignments.push(`${field} = @${field}`);
+      }
+
+      request.input('id', sql.Int, id);
+      const result = await request.query(
+        assignments.length > 0
+          ? `UPDATE pipeline_executions SET ${assignments.join(', ')} OUTPUT INSERTED.* WHERE id = @id`
+          : 'SELECT * FROM pipeline_executions WHERE id = @id'
+      );
+
+      if (result.recordset.length === 0) {
+        throw new Error(`Pipeline execution with id ${id} not found`);
+      }
+      return this.convertPipelineExecution(result.recordset[0]);
+    } catch (error) {
+      console.error('Failed to update pipeline execution:', error);
+      throw error;
     }
-    const updated = { ...existing, ...updates };
-    this.pipelineExecutions.set(id, updated);
-    return updated;
   }
 
   async getLatestPipelineExecution(): Promise<PipelineExecution | undefined> {
-    const executions = Array.from(this.pipelineExecutions.values());
-    return executions.sort((a, b) => b.id - a.id)[0];
+    await this.ensureSchema();
+    const pool = await this.getPool();
+
+    const result = await pool.request().query('SELECT TOP 1 * FROM pipeline_executions ORDER BY id DESC');
+    return result.recordset[0] ? this.convertPipelineExecution(result.recordset[0]) : undefined;
   }
 
-  // Activity log methods - using in-memory storage for simplicity
-  private activityLogs: ActivityLog[] = [];
-  private currentLogId = 1;
+  async getPipelineExecution(id: number): Promise<PipelineExecution | undefined> {
+    await this.ensureSchema();
+    const pool = await this.getPool();
+    const request = pool.request();
 
-  async createActivityLog(log: InsertActivityLog): Promise<ActivityLog> {
-    const newLog: ActivityLog = {
-      id: this.currentLogId++,
-      timestamp: new Date(),
-      message: log.message,
-      level: log.level,
-      executionId: log.executionId || null,
-    };
-    this.activityLogs.push(newLog);
-    return newLog;
+    request.input('id', sql.Int, id);
+    const result = await request.query('SELECT * FROM pipeline_executions WHERE id = @id');
+    return result.recordset[0] ? this.convertPipelineExecution(result.recordset[0]) : undefined;
   }
 
-  async getRecentActivityLogs(limit = 20): Promise<ActivityLog[]> {
-    return this.activityLogs
-      .sort((a, b) => b.id - a.id)
-      .slice(0, limit);
+  async listPipelineExecutions(options: PipelineExecutionListOptions = {}): Promise<PipelineExecutionPage> {
+    await this.ensureSchema();
+    const pool = await this.getPool();
+    const request = pool.request();
+
+    const conditions: string[] = [];
+    if (options.status) {
+      request.input('status', sql.NVarChar(50), options.status);
+      conditions.push('status = @status');
+    }
+    if (options.startedAfter) {
+      request.input('startedAfter', sql.DateTime2, options.startedAfter);
+      conditions.push('startTime >= @startedAfter');
+    }
+    if (options.startedBefore) {
+      request.input('startedBefore', sql.DateTime2, options.startedBefore);
+      conditions.push('startTime < @startedBefore');
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    request.input('limit', sql.Int, options.limit ?? 20);
+    request.input('offset', sql.Int, options.offset ?? 0);
+    const result = await request.query(`
+      SELECT COUNT(*) AS total FROM pipeline_executions ${where};
+
+      SELECT * FROM pipeline_executions ${where}
+      ORDER BY id DESC
+      OFFSET @offset ROWS FETCH NEXT @limit ROWS ONLY;
+    `);
+    const [[count], rows] = result.recordsets as any[][];
+    return {
+      executions: rows.map((row: any) => this.convertPipelineExecution(row)),
+      total: count.total,
+    };
   }
 
-  async clearActivityLogs(): Promise<void> {
-    this.activityLogs = [];
+  private convertPipelineExecution(row: any): PipelineExecution {
+    return {
+      id: row.id,
+      status: row.status,
+      startTime: row.startTime,
+      endTime: row.endTime || null,
+      totalJobs: row.totalJobs ?? 0,
+      processedJobs: row.processedJobs ?? 0,
+      newJobs: row.newJobs ?? 0,
+      updatedJobs: row.updatedJobs ?? 0,
+      removedJobs: row.removedJobs ?? 0,
+      pendingRemovals: row.pendingRemovals ?? 0,
+      errorMessage: row.errorMessage || null,
+      currentStep: row.currentStep || null,
+      triggerSource: row.triggerSource || 'manual',
+    };
   }
 
-  // Schedule configuration methods
-  private scheduleConfig: any = null;
+  // Job checkpoint methods - persisted so interrupted executions can be resumed
+  async createJobCheckpoints(checkpoints: InsertPipelineJobCheckpoint[]): Promise<void> {
+    if (checkpoints.length === 0) return;
+
+    await this.ensureSchema();
+    const pool = await this.getPool();
+
+    try {
+      const table = new sql.Table('pipeline_job_checkpoints');
+      table.create = false;
+      table.columns.add('executionId', sql.Int, { nullable: false });
+      table.columns.add('jobId', sql.NVarChar(255), { nullable: false });
+      table.columns.add('stage', sql.NVarChar(20), { nullable: false });
+      table.columns.add('action', sql.NVarChar(10), { nullable: false });
+      table.columns.add('sourceData', sql.NVarChar(sql.MAX), { nullable: false });
+      table.columns.add('enrichedData', sql.NVarChar(sql.MAX), { nullable: true });
+      table.columns.add('errorMessage', sql.NVarChar(sql.MAX), { nullable: true });
+      table.columns.add('updatedAt', sql.DateTime2, { nullable: false });
+
+      const now = new Date();
+      for (const checkpoint of checkpoints) {
+        table.rows.add(
+          checkpoint.executionId,
+          checkpoint.jobId,
+          checkpoint.stage,
+          checkpoint.action || 'create',
+          checkpoint.sourceData,
+          checkpoint.enrichedData || null,
+          checkpoint.errorMessage || null,
+          now,
+        );
+      }
+
+      await pool.request().bulk(table);
+    } catch (error) {
+      console.error('Failed to create job checkpoints:', error);
+      throw error;
+    }
+  }
 
-  async saveScheduleConfig(config: any): Promise<void> {
-    await this.ensureTableExists();
+  async updateJobCheckpoint(executionId: number, jobId: string, updates: Partial<InsertPipelineJobCheckpoint>): Promise<void> {
+    await this.ensureSchema();
     const pool = await this.getPool();
     const request = pool.request();
 
     try {
-      // Create schedule_config table if it doesn't exist and insert/update config
+      const assignments = ['updatedAt = GETDATE()'];
+      if (updates.stage !== undefined) {
+        request.input('stage', sql.NVarChar, updates.stage);
+        assignments.push('stage = @stage');
+      }
+      if (updates.enrichedData !== undefined) {
+        request.input('enrichedData', sql.NVarChar(sql.MAX), updates.enrichedData);
+        assignments.push('enrichedData = @enrichedData');
+      }
+      if (updates.errorMessage !== undefined) {
+        request.input('errorMessage', sql.NVarChar(sql.MAX), updates.errorMessage);
+        assignments.push('errorMessage = @errorMessage');
+      }
+
+      request.input('executionId', sql.Int, executionId);
+      request.input('jobId', sql.NVarChar, jobId);
       await request.query(`
-        IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='schedule_config' and xtype='U')
-        CREATE TABLE schedule_config (
-          id INT IDENTITY(1,1) PRIMARY KEY,
-          enabled BIT NOT NULL,
-          time NVARCHAR(10) NOT NULL,
-          timezone NVARCHAR(50) NOT NULL,
-          nextRun DATETIME2 NOT NULL,
-          activated DATETIME2 NOT NULL,
-          created_at DATETIME2 DEFAULT GETDATE()
-        );
-        
-        DELETE FROM schedule_config;
+        UPDATE pipeline_job_checkpoints
+        SET ${assignments.join(', ')}
+        WHERE executionId = @executionId AND jobId = @jobId
       `);
+    } catch (error) {
+      console.error('Failed to update job checkpoint:', error);
+      throw error;
+    }
+  }
 
-      // Insert the new schedule config
-      const newRequest = pool.request();
-      newRequest.input('enabled', sql.Bit, config.enabled);
-      newRequest.input('time', sql.NVarChar, config.time);
-      newRequest.input('timezone', sql.NVarChar, config.timezone);
-      newRequest.input('nextRun', sql.DateTime2, new Date(config.nextRun));
-      newRequest.input('activated', sql.DateTime2, new Date(config.activated));
-      
-      await newRequest.query(`
-        INSERT INTO schedule_config (enabled, time, timezone, nextRun, activated)
-        VALUES (@enabled, @time, @timezone, @nextRun, @activated)
-      `);
-      
-      this.scheduleConfig = config;
-      console.log('💾 Schedule configuration saved to database:', config);
+  async getJobCheckpoints(executionId: number): Promise<PipelineJobCheckpoint[]> {
+    await this.ensureSchema();
+    const pool = await this.getPool();
+    const request = pool.request();
+
+    request.input('executionId', sql.Int, executionId);
+    const result = await request.query(
+      'SELECT * FROM pipeline_job_checkpoints WHERE executionId = @executionId ORDER BY id'
+    );
+    return result.recordset.map((row: any) => ({
+      id: row.id,
+      executionId: row.executionId,
+      jobId: row.jobId,
+      stage: row.stage,
+      action: row.action,
+      sourceData: row.sourceData,
+      enrichedData: row.enrichedData || null,
+      errorMessage: row.errorMessage || null,
+      updatedAt: row.updatedAt,
+    }));
+  }
+
+  // Changeset methods - planned changes are stored with the execution so they can be reviewed and rolled back
+  async createPipelineChanges(changes: InsertPipelineChange[]): Promise<void> {
+    if (changes.length === 0) return;
+
+    await this.ensureSchema();
+    const pool = await this.getPool();
+
+    try {
+      const table = new sql.Table('pipeline_changes');
+      table.create = false;
+      table.columns.add('executionId', sql.Int, { nullable: false });
+      table.columns.add('jobId', sql.NVarChar(255), { nullable: false });
+      table.columns.add('action', sql.NVarChar(10), { nullable: false });
+      table.columns.add('status', sql.NVarChar(20), { nullable: false });
+      table.columns.add('before', sql.NVarChar(sql.MAX), { nullable: true });
+
+      for (const change of changes) {
+        table.rows.add(change.executionId, change.jobId, change.action, 'planned', change.before || null);
+      }
+
+      await pool.request().bulk(table);
     } catch (error) {
-      console.error('❌ Failed to save schedule config to database:', error);
-      // Fallback to memory storage
-      this.scheduleConfig = config;
+      console.error('Failed to create pipeline changes:', error);
+      throw error;
     }
   }
 
-  async loadScheduleConfig(): Promise<any> {
-    await this.ensureTableExists();
+  async getPipelineChanges(executionId: number): Promise<PipelineChange[]> {
+    await this.ensureSchema();
     const pool = await this.getPool();
     const request = pool.request();
 
+    request.input('executionId', sql.Int, executionId);
+    const result = await request.query(
+      'SELECT * FROM pipeline_changes WHERE executionId = @executionId ORDER BY id'
+    );
+    return result.recordset.map((row: any) => ({
+      id: row.id,
+      executionId: row.executionId,
+      jobId: row.jobId,
+      action: row.action,
+      status: row.status,
+      before: row.before || null,
+      after: row.after || null,
+      appliedAt: row.appliedAt || null,
+      rolledBackAt: row.rolledBackAt || null,
+    }));
+  }
+
+  async commitChangeset(executionId: number, write: ChangesetWrite): Promise<void> {
+    await this.ensureSchema();
+    const pool = await this.getPool();
+    const transaction = new sql.Transaction(pool);
+    await transaction.begin();
+
     try {
-      const result = await request.query(`
-        IF EXISTS (SELECT * FROM sysobjects WHERE name='schedule_config' and xtype='U')
-        SELECT TOP 1 * FROM schedule_config ORDER BY created_at DESC
-      `);
+      if (write.deletes.length > 0) {
+        await new sql.Request(transaction)
+          .input('jobIds', sql.NVarChar(sql.MAX), JSON.stringify(write.deletes))
+          .query('DELETE FROM job_posting_listings WHERE job_id IN (SELECT value FROM OPENJSON(@jobIds))');
+      }
 
-      if (result.recordset && result.recordset.length > 0) {
-        const row = result.recordset[0];
-        this.scheduleConfig = {
-          enabled: row.enabled,
-          time: row.time,
-          timezone: row.timezone,
-          nextRun: row.nextRun.toISOString(),
-          activated: row.activated.toISOString()
-        };
-        console.log('📋 Loaded schedule configuration from database:', this.scheduleConfig);
-        return this.scheduleConfig;
+      const upserts = write.upserts.map((job, rowIndex) => ({ ...job, rowIndex }));
+      for (const chunk of chunkUpsertBatch(upserts, UPSERT_CHUNK_SIZE)) {
+        await this.runJobPostingMerge(transaction, chunk);
+      }
+
+      for (const group of groupLifecycleUpdates(write.lifecycle)) {
+        await new sql.Request(transaction)
+          .input('status', sql.NVarChar(20), group.status)
+          .input('isExpired', sql.Bit, group.status === 'removed')
+          .input('removedAt', sql.DateTime2, group.removedAt)
+          .input('jobIds', sql.NVarChar(sql.MAX), JSON.stringify(group.jobIds))
+          .query(`
+            UPDATE job_posting_listings
+            SET status = @status, is_expired = @isExpired, removed_at = @removedAt, updated_at = GETDATE()
+            WHERE job_id IN (SELECT value FROM OPENJSON(@jobIds))
+          `);
+      }
+
+      if (write.changes.length > 0) {
+        // Timestamps travel as ISO strings, which DATETIMEOFFSET parses including the Z suffix
+        await new sql.Request(transaction)
+          .input('changes', sql.NVarChar(sql.MAX), JSON.stringify(write.changes))
+          .query(`
+            UPDATE c
+            SET status = u.status,
+                [after] = COALESCE(u.[after], c.[after]),
+                appliedAt = COALESCE(u.appliedAt, c.appliedAt),
+                rolledBackAt = COALESCE(u.rolledBackAt, c.rolledBackAt)
+            FROM pipeline_changes c
+            JOIN OPENJSON(@changes) WITH (
+              id INT,
+              status NVARCHAR(20),
+              [after] NVARCHAR(MAX),
+              appliedAt DATETIMEOFFSET,
+              rolledBackAt DATETIMEOFFSET
+            ) u ON c.id = u.id
+          `);
+      }
+
+      if (write.savedCheckpoints.length > 0) {
+        await new sql.Request(transaction)
+          .input('executionId', sql.Int, executionId)
+          .input('jobIds', sql.NVarChar(sql.MAX), JSON.stringify(write.savedCheckpoints))
+          .query(`
+            UPDATE pipeline_job_checkpoints
+            SET stage = 'saved', updatedAt = GETDATE()
+            WHERE executionId = @executionId AND jobId IN (SELECT value FROM OPENJSON(@jobIds))
+          `);
       }
+
+      await transaction.commit();
     } catch (error) {
-      console.error('❌ Failed to load schedule config from database:', error);
+      try {
+        await transaction.rollback();
+      } catch {
+        // SQL Server already rolled back the transaction when the statement failed
+      }
+      console.error('Failed to commit changeset:', error);
+      throw error;
+    }
+  }
+
+  // Run lock methods - the lease row lives in SQL so it is shared across processes and restarts
+  async acquireRunLock(name: string, ownerId: string, leaseMs: number): Promise<RunLockAcquisition> {
+    await this.ensureSchema();
+    const pool = await this.getPool();
+    const request = pool.request();
+
+    const now = new Date();
+    request.input('name', sql.NVarChar, name);
+    request.input('ownerId', sql.NVarChar, ownerId);
+    request.input('now', sql.DateTime2, now);
+    request.input('expiresAt', sql.DateTime2, new Date(now.getTime() + leaseMs));
+
+    // Take the lock if it is free, expired or already ours; HOLDLOCK makes the check-and-set atomic
+    const result = await request.query(`
+      MERGE pipeline_run_locks WITH (HOLDLOCK) AS target
+      USING (SELECT @name AS name) AS source
+      ON target.name = source.name
+      WHEN MATCHED AND (target.expiresAt < @now OR target.ownerId = @ownerId) THEN
+          UPDATE SET ownerId = @ownerId, executionId = NULL, acquiredAt = @now, heartbeatAt = @now, expiresAt = @expiresAt
+      WHEN NOT MATCHED THEN
+          INSERT (name, ownerId, executionId, acquiredAt, heartbeatAt, expiresAt)
+          VALUES (@name, @ownerId, NULL, @now, @now, @expiresAt);
+
+      SELECT * FROM pipeline_run_locks WHERE name = @name;
+    `);
+
+    const lock = result.recordset[0] as PipelineRunLock;
+    return { acquired: lock.ownerId === ownerId, lock };
+  }
+
+  async heartbeatRunLock(name: string, ownerId: string, leaseMs: number, executionId?: number): Promise<boolean> {
+    await this.ensureSchema();
+    const pool = await this.getPool();
+    const request = pool.request();
+
+    const now = new Date();
+    request.input('name', sql.NVarChar, name);
+    request.input('ownerId', sql.NVarChar, ownerId);
+    request.input('now', sql.DateTime2, now);
+    request.input('expiresAt', sql.DateTime2, new Date(now.getTime() + leaseMs));
+    request.input('executionId', sql.Int, executionId ?? null);
+
+    const result = await request.query(`
+      UPDATE pipeline_run_locks
+      SET heartbeatAt = @now, expiresAt = @expiresAt, executionId = COALESCE(@executionId, executionId)
+      WHERE name = @name AND ownerId = @ownerId
+    `);
+    return result.rowsAffected[0] > 0;
+  }
+
+  async releaseRunLock(name: string, ownerId: string): Promise<void> {
+    await this.ensureSchema();
+    const pool = await this.getPool();
+    const request = pool.request();
+
+    request.input('name', sql.NVarChar, name);
+    request.input('ownerId', sql.NVarChar, ownerId);
+    await request.query('DELETE FROM pipeline_run_locks WHERE name = @name AND ownerId = @ownerId');
+  }
+
+  async getRunLock(name: string): Promise<PipelineRunLock | undefined> {
+    await this.ensureSchema();
+    const pool = await this.getPool();
+    const request = pool.request();
+
+    request.input('name', sql.NVarChar, name);
+    const result = await request.query('SELECT * FROM pipeline_run_locks WHERE name = @name');
+    return result.recordset[0];
+  }
+
+  // Activity log methods - stored alongside pipeline_executions
+  async createActivityLog(log: InsertActivityLog): Promise<ActivityLog> {
+    await this.ensureSchema();
+    const pool = await this.getPool();
+    const request = pool.request();
+
+    request.input('message', sql.NVarChar(sql.MAX), log.message);
+    request.input('level', sql.NVarChar(50), log.level);
+    request.input('executionId', sql.Int, log.executionId || null);
+    const result = await request.query(`
+      INSERT INTO activity_logs (message, level, timestamp, executionId)
+      OUTPUT INSERTED.*
+      VALUES (@message, @level, GETDATE(), @executionId)
+    `);
+    return this.convertActivityLog(result.recordset[0]);
+  }
+
+  async getRecentActivityLogs(limit = 20, executionId?: number): Promise<ActivityLog[]> {
+    await this.ensureSchema();
+    const pool = await this.getPool();
+    const request = pool.request();
+
+    request.input('limit', sql.Int, limit);
+    let where = '';
+    if (executionId !== undefined) {
+      request.input('executionId', sql.Int, executionId);
+      where = 'WHERE executionId = @executionId';
+    }
+
+    const result = await request.query(`SELECT TOP (@limit) * FROM activity_logs ${where} ORDER BY id DESC`);
+    return result.recordset.map(this.convertActivityLog);
+  }
+
+  async clearActivityLogs(): Promise<void> {
+    await this.ensureSchema();
+    const pool = await this.getPool();
+    await pool.request().query('DELETE FROM activity_logs');
+  }
+
+  private convertActivityLog(row: any): ActivityLog {
+    return {
+      id: row.id,
+      message: row.message,
+      level: row.level,
+      timestamp: row.timestamp,
+      executionId: row.executionId ?? null,
+    };
+  }
+
+  async getPipelineSchedules(): Promise<PipelineSchedule[]> {
+    await this.ensureSchema();
+    const pool = await this.getPool();
+
+    const result = await pool.request().query('SELECT * FROM pipeline_schedules ORDER BY id');
+    return result.recordset.map(row => toPipelineSchedule(row));
+  }
+
+  async getPipelineSchedule(id: number): Promise<PipelineSchedule | undefined> {
+    await this.ensureSchema();
+    const pool = await this.getPool();
+    const request = pool.request();
+
+    request.input('id', sql.Int, id);
+    const result = await request.query('SELECT * FROM pipeline_schedules WHERE id = @id');
+    return result.recordset[0] ? toPipelineSchedule(result.recordset[0]) : undefined;
+  }
+
+  async createPipelineSchedule(schedule: InsertPipelineSchedule): Promise<PipelineSchedule> {
+    await this.ensureSchema();
+    const pool = await this.getPool();
+    const request = pool.request();
+
+    const row = toPipelineScheduleRow(schedule);
+    for (const [column, value] of Object.entries(row)) {
+      request.input(column, AZURE_SCHEDULE_COLUMNS[column], value);
+    }
+    const columns = Object.keys(row);
+    const result = await request.query(`
+      INSERT INTO pipeline_schedules (${columns.join(', ')}, createdAt, updatedAt)
+      OUTPUT INSERTED.*
+      VALUES (${columns.map(column => `@${column}`).join(', ')}, GETUTCDATE(), GETUTCDATE())
+    `);
+    return toPipelineSchedule(result.recordset[0]);
+  }
+
+  async updatePipelineSchedule(id: number, updates: Partial<InsertPipelineSchedule>, expectedVersion?: number): Promise<PipelineSchedule | undefined> {
+    await this.ensureSchema();
+    const pool = await this.getPool();
+    const request = pool.request();
+
+    const assignments = ['version = version + 1', 'updatedAt = GETUTCDATE()'];
+    for (const [column, value] of Object.entries(toPipelineScheduleRow(updates))) {
+      request.input(column, AZURE_SCHEDULE_COLUMNS[column], value);
+      assignments.push(`${column} = @${column}`);
+    }
+    request.input('id', sql.Int, id);
+    request.input('expectedVersion', sql.Int, expectedVersion ?? null);
+
+    const result = await request.query(`
+      UPDATE pipeline_schedules SET ${assignments.join(', ')}
+      OUTPUT INSERTED.*
+      WHERE id = @id AND (@expectedVersion IS NULL OR version = @expectedVersion)
+    `);
+    if (result.recordset.length > 0) {
+      return toPipelineSchedule(result.recordset[0]);
     }
 
-    console.log('📋 No existing schedule configuration found in database');
-    return null;
+    const current = await this.getPipelineSchedule(id);
+    if (current) {
+      throw new ScheduleVersionConflictError(id, current.version);
+    }
+    return undefined;
   }
 
-  getScheduleConfig(): any {
-    return this.scheduleConfig;
+  async deletePipelineSchedule(id: number): Promise<boolean> {
+    await this.ensureSchema();
+    const pool = await this.getPool();
+    const request = pool.request();
+
+    request.input('id', sql.Int, id);
+    const result = await request.query('DELETE FROM pipeline_schedules WHERE id = @id');
+    return result.rowsAffected[0] > 0;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,151 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { JobPosting, PipelineChange } from '@shared/schema';
+import { planChangesetApply, planChangesetRollback, toChangelogEntry, changelogToCsv } from './changeset';
+
+const now = new Date('2026-01-02T03:04:05Z');
+
+function change(id: number, jobId: string, action: string, overrides: Partial<PipelineChange> = {}): PipelineChange {
+  return {
+    id,
+    executionId: 1,
+    jobId,
+    action,
+    status: 'planned',
+    before: null,
+    after: null,
+    appliedAt: null,
+    rolledBackAt: null,
+    ...overrides,
+  };
+}
+
+function posting(jobId: string, overrides: Partial<JobPosting> = {}): JobPosting {
+  return {
+    id: 1,
+    jobId,
+    jobUrl: `https://jobs.example.com/${jobId}`,
+    title: `Job ${jobId}`,
+    city: null,
+    state: null,
+    country: null,
+    zipcode: null,
+    latitude: null,
+    longitude: null,
+    locationPoint: null,
+    description: null,
+    companyName: null,
+    source: 'algolia',
+    lastDayToApply: null,
+    contentHash: `hash-${jobId}`,
+    locationHash: null,
+    status: 'active',
+    isExpired: false,
+    firstSeen: now,
+    lastSeen: now,
+    removedAt: null,
+    createdAt: now,
+    updatedAt: null,
+    ...overrides,
+  };
+}
+
+describe('changeset planning', () => {
+  it('applies enriched jobs and removals, and skips jobs without a posting', () => {
+    const write = planChangesetApply([
+      change(1, 'new', 'add'),
+      change(2, 'failed', 'update'),
+      change(3, 'gone', 'remove', { before: JSON.stringify(posting('gone')) }),
+      change(4, 'done', 'add', { status: 'applied' }),
+    ], [{ jobId: 'new', jobUrl: 'https://jobs.example.com/new', title: 'New' }], new Map([['gone', posting('gone')]]), now);
+
+    assert.deepEqual(write.upserts.map(job => job.jobId), ['new']);
+    assert.deepEqual(write.savedCheckpoints, ['new']);
+    assert.deepEqual(write.lifecycle, [{ jobId: 'gone', status: 'removed', removedAt: now }]);
+    assert.deepEqual(write.changes.map(update => [update.id, update.status]), [[1, 'applied'], [2, 'skipped'], [3, 'applied']]);
+    assert.equal(JSON.parse(write.changes[2].after!).status, 'removed');
+  });
+
+  it('leaves postings a later run wrote alone when an old execution is applied', () => {
+    const later = new Date('2026-01-05T00:00:00Z');
+    const write = planChangesetApply([
+      change(1, 'rewritten', 'update', { before: JSON.stringify(posting('rewritten')) }),
+      change(2, 'unchanged', 'update', { before: JSON.stringify(posting('unchanged')) }),
+      change(3, 'seen-again', 'remove', { before: JSON.stringify(posting('seen-again')) }),
+      change(4, 'already-removed', 'remove', { before: JSON.stringify(posting('already-removed')) }),
+      change(5, 'still-gone', 'remove', { before: JSON.stringify(posting('still-gone')) }),
+    ], [
+      { jobId: 'rewritten', jobUrl: 'https://jobs.example.com/rewritten', title: 'Stale' },
+      { jobId: 'unchanged', jobUrl: 'https://jobs.example.com/unchanged', title: 'Renamed' },
+    ], new Map([
+      ['rewritten', posting('rewritten', { contentHash: 'newer' })],
+      ['unchanged', posting('unchanged')],
+      ['seen-again', posting('seen-again', { lastSeen: later })],
+      ['already-removed', posting('already-removed', { status: 'removed', removedAt: later })],
+      ['still-gone', posting('still-gone')],
+    ]), later);
+
+    assert.deepEqual(write.upserts.map(job => job.jobId), ['unchanged']);
+    assert.deepEqual(write.lifecycle, [{ jobId: 'still-gone', status: 'removed', removedAt: later }]);
+    assert.deepEqual(
+      write.changes.map(update => [update.id, update.status]),
+      [[1, 'conflict'], [2, 'applied'], [3, 'conflict'], [4, 'conflict'], [5, 'applied']],
+    );
+  });
+
+  it('undoes applied changes newest first unless the posting changed since', () => {
+    const applied = { status: 'applied', appliedAt: now };
+    const write = planChangesetRollback([
+      change(1, 'added', 'add', { ...applied, after: JSON.stringify({ contentHash: 'hash-added' }) }),
+      change(2, 'updated', 'update', {
+        ...applied,
+        before: JSON.stringify(posting('updated', { title: 'Old title' })),
+        after: JSON.stringify({ contentHash: 'hash-updated' }),
+      }),
+      change(3, 'edited', 'update', { ...applied, before: '{}', after: JSON.stringify({ contentHash: 'older' }) }),
+      change(4, 'removed', 'remove', applied),
+      change(5, 'skipped', 'add', { status: 'skipped' }),
+    ], new Map([
+      ['added', posting('added')],
+      ['updated', posting('updated')],
+      ['edited', posting('edited')],
+      ['removed', posting('removed', { status: 'removed', isExpired: true, removedAt: now })],
+    ]), now);
+
+    assert.deepEqual(write.deletes, ['added']);
+    assert.deepEqual(write.upserts.map(job => [job.jobId, job.title]), [['updated', 'Old title']]);
+    assert.equal('status' in write.upserts[0], false);
+    assert.deepEqual(write.lifecycle, [{ jobId: 'removed', status: 'active', removedAt: null }]);
+    assert.deepEqual(
+      write.changes.map(update => [update.id, update.status]),
+      [[4, 'rolled_back'], [3, 'conflict'], [2, 'rolled_back'], [1, 'rolled_back']],
+    );
+  });
+
+  it('lists changed fields and exports one CSV row per job', () => {
+    const entry = toChangelogEntry(change(1, 'updated', 'update', {
+      status: 'applied',
+      appliedAt: now,
+      before: JSON.stringify(posting('updated', { title: 'Welder', city: 'Houston' })),
+      after: JSON.stringify({ ...posting('updated', { title: 'Senior Welder, "Night"', city: 'Houston' }), contentHash: 'new' }),
+    }));
+
+    assert.equal(entry.title, 'Senior Welder, "Night"');
+    assert.equal(entry.location, 'Houston');
+    assert.deepEqual(entry.fields, [{ field: 'title', before: 'Welder', after: 'Senior Welder, "Night"' }]);
+
+    const [header, row] = changelogToCsv([entry]).trimEnd().split('\r\n');
+    assert.equal(header, 'Action,Status,Job ID,Title,Company,Location,Applied At,Rolled Back At,Changes');
+    assert.equal(row, 'update,applied,updated,"Senior Welder, ""Night""",,Houston,2026-01-02T03:04:05.000Z,,"title: Welder -> Senior Welder, ""Night"""');
+  });
+
+  it('keeps scraped text that looks like a formula from running in a spreadsheet', () => {
+    const entry = toChangelogEntry(change(1, '@job', 'create', {
+      after: JSON.stringify(posting('@job', { title: '=HYPERLINK("https://evil.example.com")', companyName: '+Acme', city: '-Houston' })),
+    }));
+
+    const [, row] = changelogToCsv([entry]).trimEnd().split('\r\n');
+    assert.equal(row, 'create,planned,\'@job,"\'=HYPERLINK(""https://evil.example.com"")",\'+Acme,\'-Houston,,,');
+    assert.equal(changelogToCsv([{ ...entry, title: '\tcmd' }]).split('\r\n')[1].split(',')[3], "'\tcmd");
+  });
+});
@@ -0,0 +1,235 @@
+import type { ChangesetWrite, PipelineChangeUpdate } from './storage';
+import type { InsertJobPosting, JobPosting, PipelineChange, ChangeAction, ChangeStatus } from '@shared/schema';
+
+export interface ChangesetSummary {
+  total: number;
+  byAction: Record<ChangeAction, number>;
+  byStatus: Record<ChangeStatus, number>;
+}
+
+// Changes an apply may still write; skipped ones had no enriched posting last time
+const APPLICABLE: ChangeStatus[] = ['planned', 'skipped'];
+
+function emptyWrite(): ChangesetWrite {
+  return { deletes: [], upserts: [], lifecycle: [], changes: [], savedCheckpoints: [] };
+}
+
+// Only the fields upsertJobPostings writes; lifecycle columns are restored separately
+function toInsertJobPosting(posting: JobPosting): InsertJobPosting {
+  const { id, status, isExpired, firstSeen, lastSeen, removedAt, createdAt, updatedAt, ...content } = posting;
+  return content;
+}
+
+// Whether a later run has written the posting since the change was planned
+function changedSincePlanned(change: PipelineChange, posting: JobPosting | undefined): boolean {
+  const before = change.before ? JSON.parse(change.before) : null;
+  if (change.action === 'update') {
+    // Runs from before changesets existed recorded no snapshot to compare with
+    return before !== null && posting?.contentHash !== before.contentHash;
+  }
+  if (change.action === 'remove') {
+    const seenAt = before?.lastSeen ? new Date(before.lastSeen).getTime() : 0;
+    return posting?.status !== 'active' || (posting.lastSeen !== null && posting.lastSeen.getTime() > seenAt);
+  }
+  return false;
+}
+
+/**
+ * Plans the writes that apply a run's changeset. Adds and updates write the
+ * enriched posting for their job, or are skipped when enrichment failed;
+ * removals mark the posting removed. Changes already applied are left alone,
+ * so applying again after an interruption only writes what is left. An update
+ * or removal of a posting a later run has written since, as when an old
+ * execution is resumed, is marked as a conflict instead of overwriting it.
+ */
+export function planChangesetApply(
+  changes: PipelineChange[],
+  postings: InsertJobPosting[],
+  current: Map<string, JobPosting>,
+  now = new Date(),
+): ChangesetWrite {
+  const postingsById = new Map(postings.map(posting => [posting.jobId, posting]));
+  const write = emptyWrite();
+
+  for (const change of changes) {
+    if (!APPLICABLE.includes(change.status as ChangeStatus)) continue;
+
+    if (changedSincePlanned(change, current.get(change.jobId))) {
+      write.changes.push({ id: change.id, status: 'conflict' });
+      continue;
+    }
+
+    if (change.action === 'remove') {
+      const before = change.before ? JSON.parse(change.before) : {};
+      write.lifecycle.push({ jobId: change.jobId, status: 'removed', removedAt: now });
+      write.changes.push({
+        id: change.id,
+        status: 'applied',
+        after: JSON.stringify({ ...before, status: 'removed', isExpired: true, removedAt: now }),
+        appliedAt: now,
+      });
+      continue;
+    }
+
+    const posting = postingsById.get(change.jobId);
+    if (!posting) {
+      if (change.status !== 'skipped') {
+        write.changes.push({ id: change.id, status: 'skipped' });
+      }
+      continue;
+    }
+
+    write.upserts.push(posting);
+    write.savedCheckpoints.push(change.jobId);
+    write.changes.push({ id: change.id, status: 'applied', after: JSON.stringify(posting), appliedAt: now });
+  }
+
+  return write;
+}
+
+/**
+ * Plans the writes that undo a run's applied changes, newest first. A change
+ * is only undone while the posting still looks the way the run left it;
+ * anything a later run or an operator has changed since is marked as a
+ * conflict and left untouched.
+ */
+export function planChangesetRollback(changes: PipelineChange[], current: Map<string, JobPosting>, now = new Date()): ChangesetWrite {
+  const write = emptyWrite();
+
+  for (const change of changes.filter(change => change.status === 'applied').reverse()) {
+    const posting = current.get(change.jobId);
+    const after = change.after ? JSON.parse(change.after) : null;
+    const before = change.before ? JSON.parse(change.before) as JobPosting : null;
+    let status: ChangeStatus = 'conflict';
+
+    if (change.action === 'add') {
+      if (!posting) {
+        status = 'rolled_back'; // Already gone, e.g. purged
+      } else if (posting.contentHash === after?.contentHash) {
+        write.deletes.push(change.jobId);
+        status = 'rolled_back';
+      }
+    } else if (change.action === 'update') {
+      if (posting && before && posting.contentHash === after?.contentHash) {
+        write.upserts.push(toInsertJobPosting(before));
+        status = 'rolled_back';
+      }
+    } else if (posting?.status === 'removed') {
+      write.lifecycle.push({ jobId: change.jobId, status: 'active', removedAt: null });
+      status = 'rolled_back';
+    }
+
+    const update: PipelineChangeUpdate = { id: change.id, status };
+    if (status === 'rolled_back') {
+      update.rolledBackAt = now;
+    }
+    write.changes.push(update);
+  }
+
+  return write;
+}
+
+export function summarizeChangeset(changes: PipelineChange[]): ChangesetSummary {
+  const summary: ChangesetSummary = {
+    total: changes.length,
+    byAction: { add: 0, update: 0, remove: 0 },
+    byStatus: { planned: 0, applied: 0, skipped: 0, rolled_back: 0, conflict: 0 },
+  };
+  for (const change of changes) {
+    summary.byAction[change.action as ChangeAction]++;
+    summary.byStatus[change.status as ChangeStatus]++;
+  }
+  return summary;
+}
+
+// Posting fields shown in the changelog; hashes and bookkeeping columns are left out
+const CHANGELOG_FIELDS = [
+  'title', 'jobUrl', 'companyName', 'city', 'state', 'country', 'zipcode',
+  'latitude', 'longitude', 'lastDayToApply', 'description', 'status', 'removedAt',
+] as const;
+
+export interface ChangelogField {
+  field: string;
+  before: string | null;
+  after: string | null;
+}
+
+export interface ChangelogEntry {
+  id: number;
+  jobId: string;
+  action: ChangeAction;
+  status: ChangeStatus;
+  title: string | null;
+  companyName: string | null;
+  location: string | null;
+  appliedAt: Date | null;
+  rolledBackAt: Date | null;
+  fields: ChangelogField[]; // Only the fields that differ; empty until the change is applied
+}
+
+function fieldValue(value: unknown): string | null {
+  return value === undefined || value === null || value === '' ? null : String(value);
+}
+
+/**
+ * Describes one change for people reading what a run did: the job it
+ * touched and each field whose value differs between the before and after
+ * snapshots.
+ */
+export function toChangelogEntry(change: PipelineChange): ChangelogEntry {
+  const before = change.before ? JSON.parse(change.before) : {};
+  const after = change.after ? JSON.parse(change.after) : null;
+  const posting = after ?? before;
+
+  const fields: ChangelogField[] = [];
+  if (after) {
+    for (const field of CHANGELOG_FIELDS) {
+      const from = fieldValue(before[field]);
+      const to = fieldValue(after[field]);
+      if (from !== to) {
+        fields.push({ field, before: from, after: to });
+      }
+    }
+  }
+
+  return {
+    id: change.id,
+    jobId: change.jobId,
+    action: change.action as ChangeAction,
+    status: change.status as ChangeStatus,
+    title: fieldValue(posting.title),
+    companyName: fieldValue(posting.companyName),
+    location: [posting.city, posting.state, posting.country].filter(Boolean).join(', ') || null,
+    appliedAt: change.appliedAt,
+    rolledBackAt: change.rolledBackAt,
+    fields,
+  };
+}
+
+function csvCell(value: unknown): string {
+  let text = value instanceof Date ? value.toISOString() : fieldValue(value) ?? '';
+  // A leading quote keeps spreadsheets from running scraped text as a formula
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One row per job, with the changed fields summarized in the last column
+export function changelogToCsv(entries: ChangelogEntry[]): string {
+  const header = ['Action', 'Status', 'Job ID', 'Title', 'Company', 'Location', 'Applied At', 'Rolled Back At', 'Changes'];
+  const rows = entries.map(entry => [
+    entry.action,
+    entry.status,
+    entry.jobId,
+    entry.title,
+    entry.companyName,
+    entry.location,
+    entry.appliedAt,
+    entry.rolledBackAt,
+    entry.action === 'update'
+      ? entry.fields.map(({ field, before, after }) => `${field}: ${before ?? '(empty)'} -> ${after ?? '(empty)'}`).join('; ')
+      : '',
+  ]);
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
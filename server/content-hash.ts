@@ -0,0 +1,11 @@
+import { createHash } from 'crypto';
+
+/**
+ * Stable SHA-256 over an ordered list of field values. Missing values hash the
+ * same as empty strings, and surrounding whitespace is ignored, so cosmetic
+ * differences in the source don't register as changes.
+ */
+export function hashValues(values: Array<string | number | null | undefined>): string {
+  const normalized = values.map(value => (value === null || value === undefined ? '' : String(value).trim()));
+  return createHash('sha256').update(JSON.stringify(normalized)).digest('hex');
+}
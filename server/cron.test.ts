@@ -0,0 +1,52 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseCron, nextCronRun, countCronRuns, CronExpressionError } from './cron';
+
+describe('cron expressions', () => {
+  it('expands ranges, steps, lists and names', () => {
+    const schedule = parseCron('*/15 9-17/4 1,15 JAN-mar MON-FRI');
+    assert.deepEqual(schedule.minutes, [0, 15, 30, 45]);
+    assert.deepEqual(schedule.hours, [9, 13, 17]);
+    assert.deepEqual(Array.from(schedule.daysOfMonth), [1, 15]);
+    assert.deepEqual(Array.from(schedule.months), [1, 2, 3]);
+    assert.deepEqual(Array.from(schedule.daysOfWeek), [1, 2, 3, 4, 5]);
+    assert.deepEqual(Array.from(parseCron('0 0 * * 7').daysOfWeek), [0]);
+    assert.deepEqual(parseCron('@daily'), parseCron('0 0 * * *'));
+  });
+
+  it('rejects malformed expressions', () => {
+    for (const expression of ['* * * *', '60 * * * *', '*/0 * * * *', '5-1 * * * *', '0 0 * FOO *', '0 0 30 2 *', '0 0 1/ * *']) {
+      assert.throws(() => parseCron(expression), CronExpressionError, expression);
+    }
+  });
+
+  it('finds the next run in the schedule zone', () => {
+    const cases: [string, string, string, string][] = [
+      // Weekdays only: Friday evening moves to Monday
+      ['0 9 * * 1-5', 'America/New_York', '2026-07-03T14:00:00Z', '2026-07-06T13:00:00.000Z'],
+      ['0 9 * * 1-5', 'America/New_York', '2026-07-06T12:59:00Z', '2026-07-06T13:00:00.000Z'],
+      // Every 6 hours
+      ['0 */6 * * *', 'UTC', '2026-07-01T06:00:00Z', '2026-07-01T12:00:00.000Z'],
+      ['0 */6 * * *', 'UTC', '2026-07-01T23:59:59Z', '2026-07-02T00:00:00.000Z'],
+      // Day of month or day of week when both are given: the 1st, or any Monday
+      ['0 0 1 * MON', 'UTC', '2026-07-02T00:00:00Z', '2026-07-06T00:00:00.000Z'],
+      // Skips months without a 31st, and waits for a leap year
+      ['0 0 31 * *', 'UTC', '2026-04-01T00:00:00Z', '2026-05-31T00:00:00.000Z'],
+      ['0 0 29 2 *', 'UTC', '2026-03-01T00:00:00Z', '2028-02-29T00:00:00.000Z'],
+      // A time skipped by spring forward runs at the shifted time, and a repeated one runs once
+      ['30 2 * * *', 'America/New_York', '2026-03-08T05:00:00Z', '2026-03-08T07:30:00.000Z'],
+      ['30 1 * * *', 'America/New_York', '2026-11-01T05:30:00Z', '2026-11-02T06:30:00.000Z'],
+      ['@hourly', 'Asia/Kolkata', '2026-07-01T00:10:00Z', '2026-07-01T00:30:00.000Z'],
+    ];
+    for (const [expression, timeZone, after, expected] of cases) {
+      assert.equal(nextCronRun(expression, timeZone, new Date(after)).toISOString(), expected, `${expression} ${timeZone} after ${after}`);
+    }
+  });
+
+  it('counts the runs in a window', () => {
+    const first = new Date('2026-07-01T00:00:00Z');
+    assert.equal(countCronRuns('0 */6 * * *', 'UTC', first, new Date('2026-07-01T23:59:00Z'), 100), 4);
+    assert.equal(countCronRuns('0 */6 * * *', 'UTC', first, new Date('2026-07-02T00:00:00Z'), 100), 5);
+    assert.equal(countCronRuns('* * * * *', 'UTC', first, new Date('2026-07-02T00:00:00Z'), 25), 25);
+  });
+});
@@ -0,0 +1,199 @@
+import { zonedCalendarDate, zonedTimeToUtc, type CalendarDate } from './schedule-time';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SEARCH_DAYS = 8 * 366; // Long enough to reach the next 29 February
+const MAX_TRANSITION_MINUTES = 180; // No zone moves its clocks by more than this
+
+export class CronExpressionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CronExpressionError';
+  }
+}
+
+export interface CronSchedule {
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>; // 0 is Sunday
+  // When both day fields are restricted a day matching either one fires, as in Vixie cron
+  daysOfMonthRestricted: boolean;
+  daysOfWeekRestricted: boolean;
+}
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+const DAYS_IN_MONTH = [31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31]; // Leap years, so 29 February is reachable
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+  namesStart?: number; // Value of the first name
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES, namesStart: 1 },
+  { name: 'day of week', min: 0, max: 7, names: DAY_NAMES, namesStart: 0 }, // 7 is also Sunday
+];
+
+function parseValue(value: string, field: FieldSpec): number {
+  const nameIndex = field.names?.indexOf(value.toUpperCase()) ?? -1;
+  if (nameIndex >= 0) {
+    return nameIndex + (field.namesStart ?? 0);
+  }
+  if (!/^\d+$/.test(value)) {
+    throw new CronExpressionError(`Invalid ${field.name} "${value}"`);
+  }
+  const number = Number(value);
+  if (number < field.min || number > field.max) {
+    throw new CronExpressionError(`${field.name} ${number} is outside ${field.min}-${field.max}`);
+  }
+  return number;
+}
+
+// Expands a field such as "*/15", "1-5" or "MON,WED,FRI" into the values it matches
+function parseField(text: string, field: FieldSpec): number[] {
+  const values = new Set<number>();
+  for (const part of text.split(',')) {
+    const [range, stepText, extra] = part.split('/');
+    if (extra !== undefined || range === '') {
+      throw new CronExpressionError(`Invalid ${field.name} "${part}"`);
+    }
+
+    let step = 1;
+    if (stepText !== undefined) {
+      if (!/^\d+$/.test(stepText) || Number(stepText) === 0) {
+        throw new CronExpressionError(`Invalid ${field.name} step "${stepText}"`);
+      }
+      step = Number(stepText);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = field.min;
+      end = field.max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseValue(from, field);
+      end = parseValue(to, field);
+      if (start > end) {
+        throw new CronExpressionError(`Invalid ${field.name} range "${range}"`);
+      }
+    } else {
+      start = parseValue(range, field);
+      // "5/15" means every 15th value from 5
+      end = stepText === undefined ? start : field.max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return Array.from(values).sort((a, b) => a - b);
+}
+
+/**
+ * Parses a standard five-field cron expression (minute, hour, day of month,
+ * month, day of week) or one of the @daily-style macros.
+ */
+export function parseCron(expression: string): CronSchedule {
+  const text = expression.trim();
+  const fields = (MACROS[text.toLowerCase()] ?? text).split(/\s+/);
+  if (fields.length !== 5) {
+    throw new CronExpressionError(`Cron expression "${expression}" must have 5 fields`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) => parseField(field, FIELDS[index]));
+  const schedule: CronSchedule = {
+    minutes,
+    hours,
+    daysOfMonth: new Set(daysOfMonth),
+    months: new Set(months),
+    daysOfWeek: new Set(daysOfWeek.map(day => day % 7)),
+    daysOfMonthRestricted: !fields[2].startsWith('*'),
+    daysOfWeekRestricted: !fields[4].startsWith('*'),
+  };
+
+  if (schedule.daysOfMonthRestricted && !schedule.daysOfWeekRestricted &&
+      !months.some(month => daysOfMonth.some(day => day <= DAYS_IN_MONTH[month - 1]))) {
+    throw new CronExpressionError(`Cron expression "${expression}" never matches a real date`);
+  }
+  return schedule;
+}
+
+function matchesDay(schedule: CronSchedule, date: CalendarDate): boolean {
+  if (!schedule.months.has(date.month)) {
+    return false;
+  }
+  const dayOfMonth = schedule.daysOfMonth.has(date.day);
+  const dayOfWeek = schedule.daysOfWeek.has(new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay());
+  if (schedule.daysOfMonthRestricted && schedule.daysOfWeekRestricted) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * The first time after `after` that the expression fires, reading its fields
+ * as wall-clock time in the given zone. Times skipped by a spring-forward
+ * transition fire at the shifted time and repeated times fire once, as with
+ * zonedTimeToUtc.
+ */
+export function nextCronRun(expression: string | CronSchedule, timeZone: string, after = new Date()): Date {
+  const schedule = typeof expression === 'string' ? parseCron(expression) : expression;
+  const start = zonedCalendarDate(after, timeZone);
+  const startDay = Date.UTC(start.year, start.month - 1, start.day);
+  const afterMinutes = Math.floor((after.getTime() - zonedTimeToUtc(start, 0, 0, timeZone).getTime()) / 60000);
+
+  for (let offset = 0; offset < SEARCH_DAYS; offset++) {
+    const day = new Date(startDay + offset * DAY_MS);
+    const date = { year: day.getUTCFullYear(), month: day.getUTCMonth() + 1, day: day.getUTCDate() };
+    if (!matchesDay(schedule, date)) {
+      continue;
+    }
+
+    for (const hour of schedule.hours) {
+      for (const minute of schedule.minutes) {
+        // Times well before `after` on its own day can't come after it
+        if (offset === 0 && hour * 60 + minute < afterMinutes - MAX_TRANSITION_MINUTES) {
+          continue;
+        }
+        const run = zonedTimeToUtc(date, hour, minute, timeZone);
+        if (run > after) {
+          return run;
+        }
+      }
+    }
+  }
+  throw new CronExpressionError('Cron expression has no upcoming run');
+}
+
+/**
+ * Counts the runs from `first` up to and including `until`, stopping at
+ * `limit`. `first` is taken to be a run itself.
+ */
+export function countCronRuns(expression: string | CronSchedule, timeZone: string, first: Date, until: Date, limit: number): number {
+  const schedule = typeof expression === 'string' ? parseCron(expression) : expression;
+  let count = 0;
+  for (let run = first; run <= until && count < limit; run = nextCronRun(schedule, timeZone, run)) {
+    count++;
+  }
+  return count;
+}
@@ -0,0 +1,69 @@
+import { type JobSource, type NormalizedJob, type FeedSourceConfig, mapFields, getPath } from './job-source';
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/^<!\[CDATA\[([\s\S]*)\]\]>$/, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&')
+    .trim();
+}
+
+/**
+ * Minimal RSS reader: turns each <item> into an object keyed by its child
+ * element names (e.g. title, link, guid, or namespaced job:location).
+ * Nested elements and attributes are not needed for job feeds.
+ */
+export function parseRssItems(xml: string): Array<Record<string, string>> {
+  const items: Array<Record<string, string>> = [];
+  for (const [, body] of Array.from(xml.matchAll(/<item\b[^>]*>([\s\S]*?)<\/item>/g))) {
+    const item: Record<string, string> = {};
+    for (const [, tag, value] of Array.from(body.matchAll(/<([\w:.-]+)\b[^>]*>([\s\S]*?)<\/\1>/g))) {
+      if (!(tag in item)) {
+        item[tag] = decodeXml(value);
+      }
+    }
+    items.push(item);
+  }
+  return items;
+}
+
+export class FeedJobSource implements JobSource {
+  readonly type = 'feed';
+
+  constructor(private config: FeedSourceConfig) {}
+
+  get name() {
+    return this.config.name;
+  }
+
+  async fetchJobs(): Promise<NormalizedJob[]> {
+    const response = await fetch(this.config.url);
+    if (!response.ok) {
+      throw new Error(`${this.config.url} returned ${response.status} ${response.statusText}`);
+    }
+
+    let items: any[];
+    if (this.config.format === 'rss') {
+      items = parseRssItems(await response.text());
+    } else {
+      const body = await response.json();
+      items = this.config.itemsPath ? getPath(body, this.config.itemsPath) : body;
+      if (!Array.isArray(items)) {
+        throw new Error(`Feed ${this.config.url} has no job array at "${this.config.itemsPath || '(root)'}"`);
+      }
+    }
+    console.log(`📄 [${this.name}] Fetched ${items.length} jobs from ${this.config.format.toUpperCase()} feed`);
+
+    const defaults = {
+      companyName: this.config.companyName || null,
+      country: this.config.defaultCountry || null,
+    };
+    return items
+      .map(item => mapFields(this.config, item, this.config.fieldMap, defaults))
+      .filter((job): job is NormalizedJob => job !== null);
+  }
+}
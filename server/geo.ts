@@ -0,0 +1,22 @@
+import type { GeoBounds } from './storage';
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+
+// Great-circle distance between two coordinates in kilometres
+export function haversineKm(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+// Whether a coordinate falls inside a map viewport, including one that crosses the antimeridian
+export function isWithinBounds(latitude: number, longitude: number, bounds: GeoBounds): boolean {
+  if (latitude < bounds.south || latitude > bounds.north) return false;
+  return bounds.west <= bounds.east
+    ? longitude >= bounds.west && longitude <= bounds.east
+    : longitude >= bounds.west || longitude <= bounds.east;
+}
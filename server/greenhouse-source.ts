@@ -0,0 +1,37 @@
+import { type JobSource, type NormalizedJob, type GreenhouseSourceConfig, makeJobId, splitLocation, fetchJson } from './job-source';
+
+interface GreenhouseJob {
+  id: number;
+  title: string;
+  absolute_url: string;
+  location?: { name?: string };
+  departments?: Array<{ name: string }>;
+}
+
+// Public job board API: https://developers.greenhouse.io/job-board.html
+export class GreenhouseJobSource implements JobSource {
+  readonly type = 'greenhouse';
+
+  constructor(private config: GreenhouseSourceConfig) {}
+
+  get name() {
+    return this.config.name;
+  }
+
+  async fetchJobs(): Promise<NormalizedJob[]> {
+    const url = `https://boards-api.greenhouse.io/v1/boards/${encodeURIComponent(this.config.boardToken)}/jobs`;
+    const data = await fetchJson(url) as { jobs: GreenhouseJob[] };
+    console.log(`📄 [${this.name}] Fetched ${data.jobs.length} jobs from Greenhouse board ${this.config.boardToken}`);
+
+    return data.jobs.map(job => ({
+      jobId: makeJobId(this.config, job.id),
+      source: this.name,
+      title: job.title,
+      url: job.absolute_url,
+      ...splitLocation(job.location?.name, this.config.defaultCountry || null),
+      description: job.departments?.map(department => department.name).join(', ') || null,
+      companyName: this.config.companyName || null,
+      lastDayToApply: null,
+    }));
+  }
+}
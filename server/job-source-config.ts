@@ -0,0 +1,106 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { JobSource, JobSourceConfig, AlgoliaSourceConfig } from './job-source';
+import type { AlgoliaQueryProfile } from '@shared/schema';
+import { AlgoliaJobSource } from './algolia-source';
+import { loadAlgoliaProfiles, findAlgoliaProfile, DEFAULT_ALGOLIA_PROFILE, type AlgoliaProfilesConfig } from './algolia-profiles';
+import { GreenhouseJobSource } from './greenhouse-source';
+import { LeverJobSource } from './lever-source';
+import { FeedJobSource } from './feed-source';
+
+const JOB_SOURCES_FILE = path.join(process.cwd(), 'job-sources.json');
+
+// Used when job-sources.json doesn't exist; queries the default Algolia profile
+export const DEFAULT_JOB_SOURCES: JobSourceConfig[] = [
+  {
+    type: 'algolia',
+    name: 'algolia',
+    idPrefix: '', // Existing postings were stored with bare Algolia job IDs
+  },
+];
+
+export interface JobSourceOptions {
+  algoliaProfile?: string; // Runs every Algolia source against this profile instead of its configured one
+  sources?: string[]; // Only these sources, by name; every enabled source when omitted or empty
+}
+
+export class UnknownJobSourceError extends Error {
+  constructor(public sourceNames: string[]) {
+    super(`Unknown job sources: ${sourceNames.join(', ')}`);
+    this.name = 'UnknownJobSourceError';
+  }
+}
+
+export async function loadJobSourceConfigs(): Promise<JobSourceConfig[]> {
+  let configs: JobSourceConfig[];
+  try {
+    const data = await fs.readFile(JOB_SOURCES_FILE, 'utf8');
+    const parsed = JSON.parse(data);
+    configs = Array.isArray(parsed) ? parsed : parsed.sources;
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return DEFAULT_JOB_SOURCES;
+    }
+    throw new Error(`Failed to load job-sources.json: ${error.message}`);
+  }
+
+  if (!Array.isArray(configs) || configs.length === 0) {
+    throw new Error('job-sources.json must list at least one source');
+  }
+  const names = new Set<string>();
+  for (const config of configs) {
+    if (!config.name || names.has(config.name)) {
+      throw new Error(`Job source names must be present and unique (got "${config.name}")`);
+    }
+    names.add(config.name);
+  }
+  return configs;
+}
+
+function resolveAlgoliaProfile(config: AlgoliaSourceConfig, profiles: AlgoliaProfilesConfig): AlgoliaQueryProfile {
+  if (config.profile || !config.index) {
+    return findAlgoliaProfile(profiles, config.profile);
+  }
+  return {
+    ...DEFAULT_ALGOLIA_PROFILE,
+    name: config.name,
+    index: config.index,
+    filters: config.filters || '',
+    countries: [],
+    hitsPerPage: config.hitsPerPage || 1000,
+    splitBy: [],
+  };
+}
+
+export function createJobSource(config: JobSourceConfig, profiles: AlgoliaProfilesConfig, options: JobSourceOptions = {}): JobSource {
+  switch (config.type) {
+    case 'algolia': {
+      const configured = resolveAlgoliaProfile(config, profiles);
+      const profile = options.algoliaProfile ? findAlgoliaProfile(profiles, options.algoliaProfile) : configured;
+      return new AlgoliaJobSource(config, profile, profile.name !== configured.name);
+    }
+    case 'greenhouse':
+      return new GreenhouseJobSource(config);
+    case 'lever':
+      return new LeverJobSource(config);
+    case 'feed':
+      return new FeedJobSource(config);
+    default:
+      throw new Error(`Unknown job source type: ${(config as any).type}`);
+  }
+}
+
+export async function getJobSources(options: JobSourceOptions = {}): Promise<JobSource[]> {
+  const configs = await loadJobSourceConfigs();
+  const profiles = await loadAlgoliaProfiles();
+  const selected = options.sources?.length ? new Set(options.sources) : null;
+  if (selected) {
+    const unknown = Array.from(selected).filter(name => !configs.some(config => config.name === name));
+    if (unknown.length > 0) {
+      throw new UnknownJobSourceError(unknown);
+    }
+  }
+  return configs
+    .filter(config => config.enabled !== false && (!selected || selected.has(config.name)))
+    .map(config => createJobSource(config, profiles, options));
+}
@@ -0,0 +1,201 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { GreenhouseJobSource } from './greenhouse-source';
+import { LeverJobSource } from './lever-source';
+import { FeedJobSource, parseRssItems } from './feed-source';
+
+// Answers every request with the given body and records the requested URLs
+function serve(body: unknown, init: ResponseInit = { status: 200 }) {
+  const urls: string[] = [];
+  mock.method(globalThis, 'fetch', async (url: string) => {
+    urls.push(url);
+    return new Response(typeof body === 'string' ? body : JSON.stringify(body), init);
+  });
+  return urls;
+}
+
+beforeEach(() => {
+  mock.method(console, 'log', () => {});
+});
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+describe('Greenhouse job source', () => {
+  it('normalizes board jobs', async () => {
+    const urls = serve({
+      jobs: [
+        {
+          id: 101,
+          title: 'Data Engineer',
+          absolute_url: 'https://boards.greenhouse.io/acme/jobs/101',
+          location: { name: 'Leeds, West Yorkshire, United Kingdom' },
+          departments: [{ name: 'Data' }, { name: 'Platform' }],
+        },
+        { id: 102, title: 'Recruiter', absolute_url: 'https://boards.greenhouse.io/acme/jobs/102' },
+      ],
+    });
+    const source = new GreenhouseJobSource({
+      name: 'acme', type: 'greenhouse', boardToken: 'acme co', companyName: 'Acme', defaultCountry: 'United States',
+    });
+
+    const jobs = await source.fetchJobs();
+    assert.deepEqual(urls, ['https://boards-api.greenhouse.io/v1/boards/acme%20co/jobs']);
+    assert.deepEqual(jobs, [
+      {
+        jobId: 'acme:101',
+        source: 'acme',
+        title: 'Data Engineer',
+        url: 'https://boards.greenhouse.io/acme/jobs/101',
+        city: 'Leeds',
+        state: 'West Yorkshire',
+        country: 'United Kingdom',
+        description: 'Data, Platform',
+        companyName: 'Acme',
+        lastDayToApply: null,
+      },
+      {
+        jobId: 'acme:102',
+        source: 'acme',
+        title: 'Recruiter',
+        url: 'https://boards.greenhouse.io/acme/jobs/102',
+        city: null,
+        state: null,
+        country: 'United States',
+        description: null,
+        companyName: 'Acme',
+        lastDayToApply: null,
+      },
+    ]);
+  });
+
+  it('fails on an error response', async () => {
+    serve({ message: 'not found' }, { status: 404, statusText: 'Not Found' });
+    const source = new GreenhouseJobSource({ name: 'acme', type: 'greenhouse', boardToken: 'missing' });
+
+    await assert.rejects(source.fetchJobs(), /returned 404 Not Found/);
+  });
+});
+
+describe('Lever job source', () => {
+  it('normalizes postings, falling back to the posting country', async () => {
+    const urls = serve([
+      {
+        id: 'abc-123',
+        text: 'Site Reliability Engineer',
+        hostedUrl: 'https://jobs.lever.co/acme/abc-123',
+        categories: { location: 'Austin, TX', team: 'Infrastructure', department: 'Engineering' },
+        country: 'US',
+      },
+      {
+        id: 'def-456',
+        text: 'Account Executive',
+        hostedUrl: 'https://jobs.lever.co/acme/def-456',
+        categories: { department: 'Sales' },
+      },
+    ]);
+    const source = new LeverJobSource({ name: 'acme', type: 'lever', site: 'acme', idPrefix: 'lever-' });
+
+    const jobs = await source.fetchJobs();
+    assert.deepEqual(urls, ['https://api.lever.co/v0/postings/acme?mode=json']);
+    assert.equal(jobs.length, 2);
+    assert.deepEqual(jobs[0], {
+      jobId: 'lever-abc-123',
+      source: 'acme',
+      title: 'Site Reliability Engineer',
+      url: 'https://jobs.lever.co/acme/abc-123',
+      city: 'Austin',
+      state: 'TX',
+      country: 'US',
+      description: 'Infrastructure',
+      companyName: null,
+      lastDayToApply: null,
+    });
+    assert.equal(jobs[1].description, 'Sales');
+    assert.equal(jobs[1].country, null);
+  });
+});
+
+describe('feed job source', () => {
+  it('maps a JSON feed through its field map and drops incomplete items', async () => {
+    serve({
+      data: {
+        results: [
+          { ref: 'J1', name: 'Welder', link: 'https://example.com/j1', place: { city: 'Tulsa' }, closes: '2026-11-01' },
+          { ref: 'J2', name: 'No link' },
+        ],
+      },
+    });
+    const source = new FeedJobSource({
+      name: 'board',
+      type: 'feed',
+      url: 'https://example.com/jobs.json',
+      format: 'json',
+      itemsPath: 'data.results',
+      fieldMap: { id: 'ref', title: 'name', url: 'link', city: 'place.city', lastDayToApply: 'closes' },
+      companyName: 'Board Co',
+      defaultCountry: 'United States',
+    });
+
+    const jobs = await source.fetchJobs();
+    assert.deepEqual(jobs, [{
+      jobId: 'board:J1',
+      source: 'board',
+      title: 'Welder',
+      url: 'https://example.com/j1',
+      city: 'Tulsa',
+      state: null,
+      country: 'United States',
+      description: null,
+      companyName: 'Board Co',
+      lastDayToApply: '2026-11-01',
+    }]);
+  });
+
+  it('rejects a JSON feed without a job array at itemsPath', async () => {
+    serve({ data: {} });
+    const source = new FeedJobSource({
+      name: 'board',
+      type: 'feed',
+      url: 'https://example.com/jobs.json',
+      format: 'json',
+      itemsPath: 'data.results',
+      fieldMap: { id: 'ref', title: 'name', url: 'link' },
+    });
+
+    await assert.rejects(source.fetchJobs(), /has no job array at "data.results"/);
+  });
+
+  it('reads RSS items', async () => {
+    serve(`<?xml version="1.0"?>
+      <rss><channel>
+        <title>Jobs</title>
+        <item>
+          <guid>rss-1</guid>
+          <title><![CDATA[Pipe Fitter & Welder]]></title>
+          <link>https://example.com/rss-1?a=1&amp;b=2</link>
+          <job:location>Calgary</job:location>
+        </item>
+      </channel></rss>`);
+    const source = new FeedJobSource({
+      name: 'rss',
+      type: 'feed',
+      url: 'https://example.com/jobs.rss',
+      format: 'rss',
+      fieldMap: { id: 'guid', title: 'title', url: 'link', city: 'job:location' },
+    });
+
+    const jobs = await source.fetchJobs();
+    assert.equal(jobs.length, 1);
+    assert.equal(jobs[0].jobId, 'rss:rss-1');
+    assert.equal(jobs[0].title, 'Pipe Fitter & Welder');
+    assert.equal(jobs[0].url, 'https://example.com/rss-1?a=1&b=2');
+    assert.equal(jobs[0].city, 'Calgary');
+  });
+
+  it('keeps the first of repeated RSS elements', () => {
+    const items = parseRssItems('<item><category>One</category><category>Two</category></item><item/>');
+    assert.deepEqual(items, [{ category: 'One' }]);
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Source-agnostic job record produced by every JobSource adapter. The pipeline
+ * only works with this shape, so adding a source never touches enrichment.
+ */
+export interface NormalizedJob {
+  jobId: string; // Unique across sources; becomes job_posting_listings.job_id
+  source: string; // Name of the source config the job came from
+  title: string;
+  url: string;
+  city: string | null;
+  state: string | null;
+  country: string | null;
+  description: string | null;
+  companyName: string | null;
+  lastDayToApply: string | null;
+}
+
+export interface JobSource {
+  readonly name: string;
+  readonly type: string;
+  // Set after fetchJobs() when the result may not be the source's full listing, so missing jobs must not be removed
+  readonly partial?: boolean;
+  fetchJobs(): Promise<NormalizedJob[]>;
+}
+
+// A path like "data.city", or a list of paths where the first non-empty value wins
+export type FieldPath = string | string[];
+
+export interface FieldMap {
+  id: FieldPath;
+  title: FieldPath;
+  url: FieldPath;
+  city?: FieldPath;
+  state?: FieldPath;
+  country?: FieldPath;
+  description?: FieldPath;
+  companyName?: FieldPath;
+  lastDayToApply?: FieldPath;
+}
+
+interface BaseSourceConfig {
+  name: string;
+  idPrefix?: string; // Prepended to the source's own job id; defaults to "<name>:"
+  enabled?: boolean;
+}
+
+export interface AlgoliaSourceConfig extends BaseSourceConfig {
+  type: 'algolia';
+  applicationId?: string; // Defaults to ALGOLIA_APPLICATION_ID
+  apiKey?: string; // Defaults to ALGOLIA_API_KEY
+  profile?: string; // Name of a query profile in algolia-profiles.json; the default profile when omitted
+  index?: string; // Inline query used instead of a profile when set
+  filters?: string;
+  hitsPerPage?: number;
+  fieldMap?: Partial<FieldMap>;
+}
+
+export interface GreenhouseSourceConfig extends BaseSourceConfig {
+  type: 'greenhouse';
+  boardToken: string;
+  companyName?: string;
+  defaultCountry?: string;
+}
+
+export interface LeverSourceConfig extends BaseSourceConfig {
+  type: 'lever';
+  site: string;
+  companyName?: string;
+  defaultCountry?: string;
+}
+
+export interface FeedSourceConfig extends BaseSourceConfig {
+  type: 'feed';
+  url: string;
+  format: 'json' | 'rss';
+  itemsPath?: string; // For JSON feeds, the path to the array of jobs; the root when omitted
+  fieldMap: FieldMap; // For RSS feeds, paths are child element names of <item>
+  companyName?: string;
+  defaultCountry?: string;
+}
+
+export type JobSourceConfig = AlgoliaSourceConfig | GreenhouseSourceConfig | LeverSourceConfig | FeedSourceConfig;
+
+export function getPath(value: any, path: string): any {
+  return path.split('.').reduce((current, key) => (current == null ? undefined : current[key]), value);
+}
+
+export function readField(value: any, path: FieldPath | undefined): string | null {
+  if (!path) return null;
+  for (const candidate of Array.isArray(path) ? path : [path]) {
+    const field = getPath(value, candidate);
+    if (field !== undefined && field !== null && String(field).trim() !== '') {
+      return String(field);
+    }
+  }
+  return null;
+}
+
+export function makeJobId(config: BaseSourceConfig, externalId: string | number): string {
+  return `${config.idPrefix ?? `${config.name}:`}${externalId}`;
+}
+
+/**
+ * Splits a free-text location such as "Houston, TX" or "Leeds, West Yorkshire,
+ * United Kingdom" into parts. Enrichment standardizes the result later.
+ */
+export function splitLocation(location: string | null | undefined, defaultCountry: string | null = null) {
+  const parts = (location || '').split(',').map(part => part.trim()).filter(Boolean);
+  return {
+    city: parts[0] || null,
+    state: parts.length > 1 ? parts[1] : null,
+    country: parts.length > 2 ? parts[parts.length - 1] : defaultCountry,
+  };
+}
+
+export function mapFields(config: BaseSourceConfig, item: any, fieldMap: FieldMap, defaults: Partial<NormalizedJob> = {}): NormalizedJob | null {
+  const externalId = readField(item, fieldMap.id);
+  const title = readField(item, fieldMap.title);
+  const url = readField(item, fieldMap.url);
+  if (!externalId || !title || !url) {
+    return null;
+  }
+
+  return {
+    jobId: makeJobId(config, externalId),
+    source: config.name,
+    title,
+    url,
+    city: readField(item, fieldMap.city) ?? defaults.city ?? null,
+    state: readField(item, fieldMap.state) ?? defaults.state ?? null,
+    country: readField(item, fieldMap.country) ?? defaults.country ?? null,
+    description: readField(item, fieldMap.description) ?? defaults.description ?? null,
+    companyName: readField(item, fieldMap.companyName) ?? defaults.companyName ?? null,
+    lastDayToApply: readField(item, fieldMap.lastDayToApply) ?? defaults.lastDayToApply ?? null,
+  };
+}
+
+export async function fetchJson(url: string, init?: RequestInit): Promise<any> {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    throw new Error(`${url} returned ${response.status} ${response.statusText}`);
+  }
+  return response.json();
+}
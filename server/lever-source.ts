@@ -0,0 +1,45 @@
+import { type JobSource, type NormalizedJob, type LeverSourceConfig, makeJobId, splitLocation, fetchJson } from './job-source';
+
+interface LeverPosting {
+  id: string;
+  text: string;
+  hostedUrl: string;
+  categories?: {
+    location?: string;
+    team?: string;
+    department?: string;
+  };
+  country?: string;
+}
+
+// Public postings API: https://github.com/lever/postings-api
+export class LeverJobSource implements JobSource {
+  readonly type = 'lever';
+
+  constructor(private config: LeverSourceConfig) {}
+
+  get name() {
+    return this.config.name;
+  }
+
+  async fetchJobs(): Promise<NormalizedJob[]> {
+    const url = `https://api.lever.co/v0/postings/${encodeURIComponent(this.config.site)}?mode=json`;
+    const postings = await fetchJson(url) as LeverPosting[];
+    console.log(`📄 [${this.name}] Fetched ${postings.length} jobs from Lever site ${this.config.site}`);
+
+    return postings.map(posting => {
+      const location = splitLocation(posting.categories?.location, this.config.defaultCountry || null);
+      return {
+        jobId: makeJobId(this.config, posting.id),
+        source: this.name,
+        title: posting.text,
+        url: posting.hostedUrl,
+        ...location,
+        country: location.country || posting.country || null,
+        description: posting.categories?.team || posting.categories?.department || null,
+        companyName: this.config.companyName || null,
+        lastDayToApply: null,
+      };
+    });
+  }
+}
@@ -0,0 +1,634 @@
+import path from 'path';
+import pg from 'pg';
+import { drizzle, type NodePgDatabase } from 'drizzle-orm/node-postgres';
+import { migrate } from 'drizzle-orm/node-postgres/migrator';
+import type { AnyPgColumn } from 'drizzle-orm/pg-core';
+import { and, asc, count, desc, eq, gt, gte, ilike, lt, ne, or, sql, type SQL } from 'drizzle-orm';
+import {
+  jobPostingListings,
+  pipelineExecutions,
+  activityLogs,
+  pipelineJobCheckpoints,
+  pipelineRunLocks,
+  pendingJobRemovals,
+  pipelineChanges,
+  pipelineSchedules,
+  usZipcodes,
+  type JobPosting,
+  type InsertJobPosting,
+  type PipelineExecution,
+  type InsertPipelineExecution,
+  type ActivityLog,
+  type InsertActivityLog,
+  type PipelineJobCheckpoint,
+  type InsertPipelineJobCheckpoint,
+  type PipelineRunLock,
+  type PendingJobRemoval,
+  type InsertPendingJobRemoval,
+  type PendingRemovalStatus,
+  type PipelineChange,
+  type InsertPipelineChange,
+  type PipelineSchedule,
+  type InsertPipelineSchedule,
+} from '@shared/schema';
+import { chunkUpsertBatch, groupLifecycleUpdates, cityFacetLabel, decodeJobCursor, escapeLikePattern, toJobPostingPage, toPipelineSchedule, toPipelineScheduleRow, ScheduleVersionConflictError, type IStorage, type JobPostingHashes, type JobPostingListOptions, type RunLockAcquisition, type NearestJobOptions, type JobPostingWithDistance, type JobPostingUpsertResult, type ChangesetWrite, type PipelineExecutionListOptions, type PipelineExecutionPage, type JobPostingFilters, type JobPostingQuery, type JobPostingPage, type JobPostingFacets, type JobPostingFacetOptions, type GeoBounds, type GeoPoint } from './storage';
+
+const MIGRATIONS_FOLDER = path.join(process.cwd(), 'migrations');
+
+// Keeps each statement under Postgres' 65535 bind parameter limit
+const INSERT_CHUNK_SIZE = 1000;
+
+export function isPostgresUrl(url: string | undefined): boolean {
+  return !!url && /^postgres(ql)?:\/\//.test(url);
+}
+
+// Binds the IDs as one text[] parameter; a plain array would expand to one parameter per ID
+function anyJobId(jobIDs: string[]) {
+  return sql`${jobPostingListings.jobId} = ANY(${sql.param(jobIDs)}::text[])`;
+}
+
+function toLocationPoint(latitude: string | null | undefined, longitude: string | null | undefined): string | null {
+  return latitude && longitude ? `POINT(${longitude} ${latitude})` : null;
+}
+
+// Content columns an upsert writes; every other column is lifecycle state the storage manages
+const UPSERT_COLUMNS = [
+  'jobUrl', 'title', 'city', 'state', 'country', 'zipcode', 'latitude', 'longitude', 'locationPoint',
+  'description', 'companyName', 'source', 'lastDayToApply', 'contentHash', 'locationHash',
+] as const;
+
+/**
+ * IStorage backed by PostgreSQL through Drizzle and the shared schema. The
+ * schema is brought up to date from ./migrations on first use, which also
+ * enables the earthdistance extension used for nearest-job queries.
+ */
+export class PostgresStorage implements IStorage {
+  private pool: pg.Pool;
+  private db: NodePgDatabase;
+  private migrated: Promise<void> | null = null;
+
+  constructor(connectionString = process.env.DATABASE_URL) {
+    this.pool = new pg.Pool({ connectionString });
+    this.db = drizzle(this.pool);
+  }
+
+  private async getDb(): Promise<NodePgDatabase> {
+    if (!this.migrated) {
+      this.migrated = migrate(this.db, { migrationsFolder: MIGRATIONS_FOLDER })
+        .then(() => console.log('✅ PostgreSQL schema is up to date'))
+        .catch((error) => {
+          this.migrated = null;
+          console.error('❌ PostgreSQL migration failed:', error);
+          throw error;
+        });
+    }
+    await this.migrated;
+    return this.db;
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+
+  async getAllJobPostings(options: JobPostingListOptions = {}): Promise<JobPosting[]> {
+    const db = await this.getDb();
+    return db.select().from(jobPostingListings)
+      .where(options.includeRemoved ? undefined : eq(jobPostingListings.status, 'active'))
+      .orderBy(desc(jobPostingListings.id));
+  }
+
+  // WHERE clause shared by job queries and facets
+  private jobFilterCondition(filters: JobPostingFilters) {
+    const contains = (column: AnyPgColumn, term?: string) =>
+      term ? ilike(column, `%${escapeLikePattern(term)}%`) : undefined;
+    const equalsIgnoringCase = (column: AnyPgColumn, term?: string) =>
+      term ? sql`lower(${column}) = lower(${term})` : undefined;
+    return and(
+      filters.includeRemoved ? undefined : eq(jobPostingListings.status, 'active'),
+      contains(jobPostingListings.title, filters.title),
+      contains(jobPostingListings.companyName, filters.company),
+      equalsIgnoringCase(jobPostingListings.city, filters.city),
+      equalsIgnoringCase(jobPostingListings.state, filters.state),
+      equalsIgnoringCase(jobPostingListings.country, filters.country),
+      filters.zipcode ? eq(jobPostingListings.zipcode, filters.zipcode) : undefined,
+      filters.source ? eq(jobPostingListings.source, filters.source) : undefined,
+      filters.createdAfter ? gte(jobPostingListings.createdAt, filters.createdAfter) : undefined,
+      filters.createdBefore ? lt(jobPostingListings.createdAt, filters.createdBefore) : undefined,
+    );
+  }
+
+  async queryJobPostings(query: JobPostingQuery): Promise<JobPostingPage> {
+    const db = await this.getDb();
+    const where = this.jobFilterCondition(query);
+    const [{ total }] = await db.select({ total: count() }).from(jobPostingListings).where(where);
+
+    // Timestamps are truncated to the milliseconds a cursor can carry, and text nulls sort as ''
+    const sort = query.sort ?? 'createdAt';
+    const sortKey: SQL = sort === 'createdAt'
+      ? sql`date_trunc('milliseconds', ${jobPostingListings.createdAt})`
+      : sql`coalesce(${jobPostingListings[sort]}, '')`;
+    const ascending = query.order === 'asc';
+    const after = ascending ? gt : lt;
+    let pageWhere = where;
+    if (query.cursor) {
+      const cursor = decodeJobCursor(query.cursor);
+      pageWhere = and(where, or(
+        after(sortKey, cursor.value),
+        and(eq(sortKey, cursor.value), after(jobPostingListings.id, cursor.id)),
+      ));
+    }
+    const order = ascending ? asc : desc;
+    const rows = await db.select().from(jobPostingListings)
+      .where(pageWhere)
+      .orderBy(order(sortKey), order(jobPostingListings.id))
+      .limit((query.limit ?? 50) + 1)
+      .offset(query.cursor ? 0 : query.offset ?? 0);
+    return toJobPostingPage(rows, total, query);
+  }
+
+  async getJobPostingFacets(filters: JobPostingFilters, options: JobPostingFacetOptions = {}): Promise<JobPostingFacets> {
+    const db = await this.getDb();
+    const where = this.jobFilterCondition(filters);
+    const limit = options.top ?? 10;
+    const jobCount = count().as('count');
+    const top = (column: AnyPgColumn) => db.select({ value: sql<string>`${column}`, count: jobCount })
+      .from(jobPostingListings)
+      .where(and(where, ne(column, '')))
+      .groupBy(column)
+      .orderBy(desc(jobCount), column)
+      .limit(limit);
+
+    // date_trunc('week') starts weeks on Monday, like the other backends. The
+    // unit and format are inlined rather than bound, so GROUP BY repeats the
+    // exact expression the select list uses
+    const bucket = sql<string>`to_char(date_trunc('${sql.raw(options.bucket ?? 'day')}', ${jobPostingListings.createdAt}), '${sql.raw(options.bucket === 'month' ? 'YYYY-MM' : 'YYYY-MM-DD')}')`;
+    const [[{ total }], state, cities, company, country, source, created] = await Promise.all([
+      db.select({ total: count() }).from(jobPostingListings).where(where),
+      top(jobPostingListings.state),
+      db.select({ city: sql<string>`${jobPostingListings.city}`, state: jobPostingListings.state, count: jobCount })
+        .from(jobPostingListings)
+        .where(and(where, ne(jobPostingListings.city, '')))
+        .groupBy(jobPostingListings.city, jobPostingListings.state)
+        .orderBy(desc(jobCount), jobPostingListings.city, jobPostingListings.state)
+        .limit(limit),
+      top(jobPostingListings.companyName),
+      top(jobPostingListings.country),
+      top(jobPostingListings.source),
+      db.select({ value: bucket, count: count() })
+        .from(jobPostingListings)
+        .where(and(where, sql`${jobPostingListings.createdAt} IS NOT NULL`))
+        .groupBy(bucket)
+        .orderBy(bucket),
+    ]);
+
+    return {
+      total,
+      state,
+      city: cities.map(({ city, state, count }) => ({ value: cityFacetLabel(city, state), count })),
+      company,
+      country,
+      source,
+      created,
+    };
+  }
+
+  async getJobPostingByJobID(jobID: string): Promise<JobPosting | undefined> {
+    const db = await this.getDb();
+    const [job] = await db.select().from(jobPostingListings).where(eq(jobPostingListings.jobId, jobID));
+    return job;
+  }
+
+  async createJobPosting(job: InsertJobPosting): Promise<JobPosting> {
+    const db = await this.getDb();
+    const [created] = await db.insert(jobPostingListings).values({
+      ...job,
+      locationPoint: toLocationPoint(job.latitude, job.longitude),
+    }).returning();
+    return created;
+  }
+
+  async updateJobPosting(jobID: string, updates: Partial<InsertJobPosting>): Promise<JobPosting> {
+    const db = await this.getDb();
+    const values: Partial<JobPosting> = { ...updates, updatedAt: new Date() };
+    if (updates.latitude !== undefined || updates.longitude !== undefined) {
+      values.locationPoint = toLocationPoint(updates.latitude, updates.longitude);
+    }
+
+    const [updated] = await db.update(jobPostingListings)
+      .set(values)
+      .where(eq(jobPostingListings.jobId, jobID))
+      .returning();
+    if (!updated) {
+      throw new Error(`Job posting ${jobID} not found`);
+    }
+    return updated;
+  }
+
+  async upsertJobPostings(jobs: InsertJobPosting[]): Promise<JobPostingUpsertResult[]> {
+    const db = await this.getDb();
+    const results: JobPostingUpsertResult[] = [];
+
+    for (const chunk of chunkUpsertBatch(jobs, INSERT_CHUNK_SIZE)) {
+      try {
+        results.push(...await this.upsertChunk(db, chunk));
+      } catch {
+        // Retry the chunk row by row so one bad row only fails itself
+        for (const job of chunk) {
+          try {
+            results.push(...await this.upsertChunk(db, [job]));
+          } catch (error: any) {
+            results.push({ jobId: job.jobId, outcome: 'failed', error: error.message });
+          }
+        }
+      }
+    }
+    return results;
+  }
+
+  // Also used inside commitChangeset's transaction, which has the same insert API
+  private async upsertChunk(db: Pick<NodePgDatabase, 'insert'>, chunk: InsertJobPosting[]): Promise<JobPostingUpsertResult[]> {
+    const rows = await db.insert(jobPostingListings)
+      .values(chunk.map(job => ({
+        ...Object.fromEntries(UPSERT_COLUMNS.map(column => [column, job[column as keyof InsertJobPosting] ?? null])),
+        jobId: job.jobId,
+        jobUrl: job.jobUrl,
+        title: job.title,
+        source: job.source || 'algolia',
+        locationPoint: toLocationPoint(job.latitude, job.longitude),
+      })))
+      .onConflictDoUpdate({
+        target: jobPostingListings.jobId,
+        set: {
+          ...Object.fromEntries(UPSERT_COLUMNS.map(column => [column, sql.raw(`excluded.${jobPostingListings[column].name}`)])),
+          updatedAt: new Date(),
+        },
+      })
+      // xmax is 0 only for freshly inserted rows
+      .returning({ jobId: jobPostingListings.jobId, inserted: sql<boolean>`(xmax = 0)` });
+
+    const inserted = new Map(rows.map(row => [row.jobId, row.inserted]));
+    return chunk.map(job => ({ jobId: job.jobId, outcome: inserted.get(job.jobId) ? 'inserted' : 'updated' }));
+  }
+
+  async deleteJobPosting(jobID: string): Promise<void> {
+    const db = await this.getDb();
+    await db.delete(jobPostingListings).where(eq(jobPostingListings.jobId, jobID));
+  }
+
+  async deleteJobPostingsByJobIDs(jobIDs: string[]): Promise<void> {
+    if (jobIDs.length === 0) return;
+    const db = await this.getDb();
+    await db.delete(jobPostingListings).where(anyJobId(jobIDs));
+  }
+
+  async markJobPostingsSeen(jobIDs: string[]): Promise<number> {
+    if (jobIDs.length === 0) return 0;
+    const db = await this.getDb();
+
+    return db.transaction(async (tx) => {
+      const reactivated = await tx.update(jobPostingListings)
+        .set({ status: 'active', isExpired: false, removedAt: null })
+        .where(and(eq(jobPostingListings.status, 'removed'), anyJobId(jobIDs)))
+        .returning({ id: jobPostingListings.id });
+
+      await tx.update(jobPostingListings)
+        .set({ lastSeen: new Date() })
+        .where(anyJobId(jobIDs));
+      return reactivated.length;
+    });
+  }
+
+  async markJobPostingsRemoved(jobIDs: string[]): Promise<void> {
+    if (jobIDs.length === 0) return;
+    const db = await this.getDb();
+    await db.update(jobPostingListings)
+      .set({ status: 'removed', isExpired: true, removedAt: new Date() })
+      .where(and(ne(jobPostingListings.status, 'removed'), anyJobId(jobIDs)));
+  }
+
+  async backfillJobPostingHashes(hashes: JobPostingHashes[]): Promise<void> {
+    if (hashes.length === 0) return;
+    const db = await this.getDb();
+    await db.execute(sql`
+      UPDATE ${jobPostingListings}
+      SET content_hash = h."contentHash", location_hash = COALESCE(${jobPostingListings.locationHash}, h."locationHash")
+      FROM json_to_recordset(${JSON.stringify(hashes)}::json) AS h("jobId" text, "contentHash" text, "locationHash" text)
+      WHERE ${jobPostingListings.jobId} = h."jobId" AND ${jobPostingListings.contentHash} IS NULL
+    `);
+  }
+
+  async purgeRemovedJobPostings(removedBefore: Date): Promise<number> {
+    const db = await this.getDb();
+    const purged = await db.delete(jobPostingListings)
+      .where(and(eq(jobPostingListings.status, 'removed'), lt(jobPostingListings.removedAt, removedBefore)))
+      .returning({ id: jobPostingListings.id });
+    return purged.length;
+  }
+
+  /**
+   * Orders postings by great-circle distance using the earthdistance
+   * extension. The earth_box filter is answered by the GiST index on
+   * ll_to_earth(latitude, longitude) before exact distances are computed.
+   */
+  async findNearestJobPostings(latitude: number, longitude: number, options: NearestJobOptions = {}): Promise<JobPostingWithDistance[]> {
+    const db = await this.getDb();
+    const origin = sql`ll_to_earth(${latitude}, ${longitude})`;
+    const location = sql`ll_to_earth(${jobPostingListings.latitude}::float8, ${jobPostingListings.longitude}::float8)`;
+    const distanceKm = sql<number>`earth_distance(${origin}, ${location}) / 1000`.mapWith(Number);
+
+    const rows = await db.select({ job: jobPostingListings, distanceKm })
+      .from(jobPostingListings)
+      .where(and(
+        eq(jobPostingListings.status, 'active'),
+        sql`${jobPostingListings.latitude} IS NOT NULL AND ${jobPostingListings.longitude} IS NOT NULL`,
+        options.radiusKm !== undefined
+          ? sql`earth_box(${origin}, ${options.radiusKm * 1000}) @> ${location} AND earth_distance(${origin}, ${location}) <= ${options.radiusKm * 1000}`
+          : undefined,
+      ))
+      .orderBy(sql`earth_distance(${origin}, ${location})`)
+      .limit(options.limit ?? 20);
+
+    return rows.map(({ job, distanceKm }) => ({ ...job, distanceKm }));
+  }
+
+  async findJobPostingsInBounds(bounds: GeoBounds, limit = 500): Promise<JobPosting[]> {
+    const db = await this.getDb();
+    const latitude = sql`${jobPostingListings.latitude}::float8`;
+    const longitude = sql`${jobPostingListings.longitude}::float8`;
+    return db.select().from(jobPostingListings)
+      .where(and(
+        eq(jobPostingListings.status, 'active'),
+        sql`${latitude} BETWEEN ${bounds.south} AND ${bounds.north}`,
+        bounds.west <= bounds.east
+          ? sql`${longitude} BETWEEN ${bounds.west} AND ${bounds.east}`
+          : sql`(${longitude} >= ${bounds.west} OR ${longitude} <= ${bounds.east})`,
+      ))
+      .orderBy(desc(jobPostingListings.id))
+      .limit(limit);
+  }
+
+  async getZipcodeLocation(zipcode: string): Promise<GeoPoint | undefined> {
+    const db = await this.getDb();
+    const [row] = await db.select({ latitude: usZipcodes.latitude, longitude: usZipcodes.longitude })
+      .from(usZipcodes)
+      .where(eq(usZipcodes.postalCode, zipcode));
+    return row && { latitude: Number(row.latitude), longitude: Number(row.longitude) };
+  }
+
+  async createPendingRemovals(removals: InsertPendingJobRemoval[]): Promise<void> {
+    if (removals.length === 0) return;
+    const db = await this.getDb();
+    for (let i = 0; i < removals.length; i += INSERT_CHUNK_SIZE) {
+      await db.insert(pendingJobRemovals).values(removals.slice(i, i + INSERT_CHUNK_SIZE));
+    }
+  }
+
+  async getPendingRemovals(): Promise<PendingJobRemoval[]> {
+    const db = await this.getDb();
+    return db.select().from(pendingJobRemovals)
+      .where(eq(pendingJobRemovals.status, 'pending'))
+      .orderBy(pendingJobRemovals.id);
+  }
+
+  async resolvePendingRemovals(status: Exclude<PendingRemovalStatus, 'pending'>, executionId?: number): Promise<PendingJobRemoval[]> {
+    const db = await this.getDb();
+    return db.update(pendingJobRemovals)
+      .set({ status, resolvedAt: new Date() })
+      .where(and(
+        eq(pendingJobRemovals.status, 'pending'),
+        executionId !== undefined ? eq(pendingJobRemovals.executionId, executionId) : undefined,
+      ))
+      .returning();
+  }
+
+  async createPipelineExecution(execution: InsertPipelineExecution): Promise<PipelineExecution> {
+    const db = await this.getDb();
+    const [created] = await db.insert(pipelineExecutions).values(execution).returning();
+    return created;
+  }
+
+  async updatePipelineExecution(id: number, updates: Partial<PipelineExecution>): Promise<PipelineExecution> {
+    const db = await this.getDb();
+    const { id: _id, ...values } = updates;
+    const [updated] = Object.keys(values).length > 0
+      ? await db.update(pipelineExecutions).set(values).where(eq(pipelineExecutions.id, id)).returning()
+      : await db.select().from(pipelineExecutions).where(eq(pipelineExecutions.id, id));
+    if (!updated) {
+      throw new Error(`Pipeline execution with id ${id} not found`);
+    }
+    return updated;
+  }
+
+  async getLatestPipelineExecution(): Promise<PipelineExecution | undefined> {
+    const db = await this.getDb();
+    const [execution] = await db.select().from(pipelineExecutions).orderBy(desc(pipelineExecutions.id)).limit(1);
+    return execution;
+  }
+
+  async getPipelineExecution(id: number): Promise<PipelineExecution | undefined> {
+    const db = await this.getDb();
+    const [execution] = await db.select().from(pipelineExecutions).where(eq(pipelineExecutions.id, id));
+    return execution;
+  }
+
+  async listPipelineExecutions(options: PipelineExecutionListOptions = {}): Promise<PipelineExecutionPage> {
+    const db = await this.getDb();
+    const where = and(
+      options.status ? eq(pipelineExecutions.status, options.status) : undefined,
+      options.startedAfter ? gte(pipelineExecutions.startTime, options.startedAfter) : undefined,
+      options.startedBefore ? lt(pipelineExecutions.startTime, options.startedBefore) : undefined,
+    );
+
+    const [{ total }] = await db.select({ total: count() }).from(pipelineExecutions).where(where);
+    const executions = await db.select().from(pipelineExecutions)
+      .where(where)
+      .orderBy(desc(pipelineExecutions.id))
+      .limit(options.limit ?? 20)
+      .offset(options.offset ?? 0);
+    return { executions, total };
+  }
+
+  async createJobCheckpoints(checkpoints: InsertPipelineJobCheckpoint[]): Promise<void> {
+    if (checkpoints.length === 0) return;
+    const db = await this.getDb();
+    for (let i = 0; i < checkpoints.length; i += INSERT_CHUNK_SIZE) {
+      await db.insert(pipelineJobCheckpoints).values(checkpoints.slice(i, i + INSERT_CHUNK_SIZE));
+    }
+  }
+
+  async updateJobCheckpoint(executionId: number, jobId: string, updates: Partial<InsertPipelineJobCheckpoint>): Promise<void> {
+    const db = await this.getDb();
+    await db.update(pipelineJobCheckpoints)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(pipelineJobCheckpoints.executionId, executionId), eq(pipelineJobCheckpoints.jobId, jobId)));
+  }
+
+  async getJobCheckpoints(executionId: number): Promise<PipelineJobCheckpoint[]> {
+    const db = await this.getDb();
+    return db.select().from(pipelineJobCheckpoints)
+      .where(eq(pipelineJobCheckpoints.executionId, executionId))
+      .orderBy(pipelineJobCheckpoints.id);
+  }
+
+  async createPipelineChanges(changes: InsertPipelineChange[]): Promise<void> {
+    if (changes.length === 0) return;
+    const db = await this.getDb();
+    for (let i = 0; i < changes.length; i += INSERT_CHUNK_SIZE) {
+      await db.insert(pipelineChanges).values(changes.slice(i, i + INSERT_CHUNK_SIZE));
+    }
+  }
+
+  async getPipelineChanges(executionId: number): Promise<PipelineChange[]> {
+    const db = await this.getDb();
+    return db.select().from(pipelineChanges)
+      .where(eq(pipelineChanges.executionId, executionId))
+      .orderBy(pipelineChanges.id);
+  }
+
+  async commitChangeset(executionId: number, write: ChangesetWrite): Promise<void> {
+    const db = await this.getDb();
+    await db.transaction(async (tx) => {
+      if (write.deletes.length > 0) {
+        await tx.delete(jobPostingListings).where(anyJobId(write.deletes));
+      }
+      for (const chunk of chunkUpsertBatch(write.upserts, INSERT_CHUNK_SIZE)) {
+        await this.upsertChunk(tx, chunk);
+      }
+      for (const { status, removedAt, jobIds } of groupLifecycleUpdates(write.lifecycle)) {
+        await tx.update(jobPostingListings)
+          .set({ status, isExpired: status === 'removed', removedAt })
+          .where(anyJobId(jobIds));
+      }
+      for (const { id, ...updates } of write.changes) {
+        await tx.update(pipelineChanges).set(updates).where(eq(pipelineChanges.id, id));
+      }
+      if (write.savedCheckpoints.length > 0) {
+        await tx.update(pipelineJobCheckpoints)
+          .set({ stage: 'saved', updatedAt: new Date() })
+          .where(and(
+            eq(pipelineJobCheckpoints.executionId, executionId),
+            sql`${pipelineJobCheckpoints.jobId} = ANY(${sql.param(write.savedCheckpoints)}::text[])`,
+          ));
+      }
+    });
+  }
+
+  async acquireRunLock(name: string, ownerId: string, leaseMs: number): Promise<RunLockAcquisition> {
+    const db = await this.getDb();
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + leaseMs);
+
+    // Take the lock if it is free, expired or already ours; the upsert is atomic per row
+    await db.insert(pipelineRunLocks)
+      .values({ name, ownerId, executionId: null, acquiredAt: now, heartbeatAt: now, expiresAt })
+      .onConflictDoUpdate({
+        target: pipelineRunLocks.name,
+        set: { ownerId, executionId: null, acquiredAt: now, heartbeatAt: now, expiresAt },
+        setWhere: sql`${pipelineRunLocks.expiresAt} < ${now} OR ${pipelineRunLocks.ownerId} = ${ownerId}`,
+      });
+
+    const [lock] = await db.select().from(pipelineRunLocks).where(eq(pipelineRunLocks.name, name));
+    return { acquired: lock.ownerId === ownerId, lock };
+  }
+
+  async heartbeatRunLock(name: string, ownerId: string, leaseMs: number, executionId?: number): Promise<boolean> {
+    const db = await this.getDb();
+    const now = new Date();
+    const renewed = await db.update(pipelineRunLocks)
+      .set({
+        heartbeatAt: now,
+        expiresAt: new Date(now.getTime() + leaseMs),
+        ...(executionId !== undefined ? { executionId } : {}),
+      })
+      .where(and(eq(pipelineRunLocks.name, name), eq(pipelineRunLocks.ownerId, ownerId)))
+      .returning({ name: pipelineRunLocks.name });
+    return renewed.length > 0;
+  }
+
+  async releaseRunLock(name: string, ownerId: string): Promise<void> {
+    const db = await this.getDb();
+    await db.delete(pipelineRunLocks)
+      .where(and(eq(pipelineRunLocks.name, name), eq(pipelineRunLocks.ownerId, ownerId)));
+  }
+
+  async getRunLock(name: string): Promise<PipelineRunLock | undefined> {
+    const db = await this.getDb();
+    const [lock] = await db.select().from(pipelineRunLocks).where(eq(pipelineRunLocks.name, name));
+    return lock;
+  }
+
+  async createActivityLog(log: InsertActivityLog): Promise<ActivityLog> {
+    const db = await this.getDb();
+    const [created] = await db.insert(activityLogs)
+      .values({ ...log, executionId: log.executionId || null })
+      .returning();
+    return created;
+  }
+
+  async getRecentActivityLogs(limit = 20, executionId?: number): Promise<ActivityLog[]> {
+    const db = await this.getDb();
+    return db.select().from(activityLogs)
+      .where(executionId !== undefined ? eq(activityLogs.executionId, executionId) : undefined)
+      .orderBy(desc(activityLogs.id))
+      .limit(limit);
+  }
+
+  async clearActivityLogs(): Promise<void> {
+    const db = await this.getDb();
+    await db.delete(activityLogs);
+  }
+
+  async getPipelineSchedules(): Promise<PipelineSchedule[]> {
+    const db = await this.getDb();
+    const rows = await db.select().from(pipelineSchedules).orderBy(asc(pipelineSchedules.id));
+    return rows.map(row => toPipelineSchedule(row));
+  }
+
+  async getPipelineSchedule(id: number): Promise<PipelineSchedule | undefined> {
+    const db = await this.getDb();
+    const [row] = await db.select().from(pipelineSchedules).where(eq(pipelineSchedules.id, id));
+    return row ? toPipelineSchedule(row) : undefined;
+  }
+
+  async createPipelineSchedule(schedule: InsertPipelineSchedule): Promise<PipelineSchedule> {
+    const db = await this.getDb();
+    const [created] = await db.insert(pipelineSchedules)
+      .values(toPipelineScheduleRow(schedule) as typeof pipelineSchedules.$inferInsert)
+      .returning();
+    return toPipelineSchedule(created);
+  }
+
+  async updatePipelineSchedule(id: number, updates: Partial<InsertPipelineSchedule>, expectedVersion?: number): Promise<PipelineSchedule | undefined> {
+    const db = await this.getDb();
+    const [updated] = await db.update(pipelineSchedules)
+      .set({
+        ...toPipelineScheduleRow(updates),
+        version: sql`${pipelineSchedules.version} + 1`,
+        updatedAt: new Date(),
+      })
+      .where(and(
+        eq(pipelineSchedules.id, id),
+        expectedVersion !== undefined ? eq(pipelineSchedules.version, expectedVersion) : undefined,
+      ))
+      .returning();
+    if (updated) {
+      return toPipelineSchedule(updated);
+    }
+
+    const [current] = await db.select({ version: pipelineSchedules.version })
+      .from(pipelineSchedules)
+      .where(eq(pipelineSchedules.id, id));
+    if (current) {
+      throw new ScheduleVersionConflictError(id, current.version);
+    }
+    return undefined;
+  }
+
+  async deletePipelineSchedule(id: number): Promise<boolean> {
+    const db = await this.getDb();
+    const deleted = await db.delete(pipelineSchedules)
+      .where(eq(pipelineSchedules.id, id))
+      .returning({ id: pipelineSchedules.id });
+    return deleted.length > 0;
+  }
+}
@@ -0,0 +1,164 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { TokenBucket, RateLimitedProvider } from './rate-limit';
+
+// Lets promises woken by a timer run
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+// Records when a promise resolves, so a test can check it without awaiting it
+function tracked<T>(promise: Promise<T>) {
+  const state = { done: false, value: undefined as T | undefined };
+  promise.then(value => {
+    state.done = true;
+    state.value = value;
+  });
+  return state;
+}
+
+function response(status: number, headers: Record<string, string> = {}): Response {
+  return new Response(null, { status, headers });
+}
+
+beforeEach(() => {
+  mock.timers.enable({ apis: ['setTimeout', 'Date'], now: new Date('2026-07-01T00:00:00Z') });
+  // Backoff messages are expected here, and output written under a mocked Date upsets the test runner
+  mock.method(console, 'warn', () => {});
+});
+
+afterEach(() => {
+  mock.timers.reset();
+  mock.restoreAll();
+});
+
+describe('token bucket', () => {
+  it('allows a burst, then refills at the set rate', async () => {
+    const bucket = new TokenBucket(2, 4);
+    await bucket.take();
+    await bucket.take();
+
+    const third = tracked(bucket.take());
+    await settle();
+    mock.timers.tick(249);
+    await settle();
+    assert.equal(third.done, false);
+
+    mock.timers.tick(1);
+    await settle();
+    assert.equal(third.done, true);
+  });
+
+  it('never holds more than its capacity', async () => {
+    const bucket = new TokenBucket(2, 4);
+    mock.timers.tick(10_000);
+    await bucket.take();
+    await bucket.take();
+
+    const third = tracked(bucket.take());
+    await settle();
+    assert.equal(third.done, false);
+    mock.timers.tick(250);
+    await settle();
+    assert.equal(third.done, true);
+  });
+});
+
+describe('rate-limited provider', () => {
+  it('waits out a Retry-After in seconds before retrying', async () => {
+    const fetch = mock.method(globalThis, 'fetch', async () =>
+      fetch.mock.callCount() === 0 ? response(429, { 'Retry-After': '2' }) : response(200));
+    const provider = new RateLimitedProvider('test', { concurrency: 1, requestsPerSecond: 100 });
+
+    const result = tracked(provider.fetch('https://api.example.com'));
+    await settle();
+    mock.timers.tick(1999);
+    await settle();
+    assert.equal(fetch.mock.callCount(), 1);
+
+    mock.timers.tick(1);
+    await settle();
+    assert.equal(fetch.mock.callCount(), 2);
+    assert.equal(result.value?.status, 200);
+  });
+
+  it('reads a Retry-After date', async () => {
+    const retryAt = new Date(Date.now() + 5000).toUTCString();
+    const fetch = mock.method(globalThis, 'fetch', async () =>
+      fetch.mock.callCount() === 0 ? response(503, { 'Retry-After': retryAt }) : response(200));
+    const provider = new RateLimitedProvider('test', { concurrency: 1, requestsPerSecond: 100 });
+
+    const result = tracked(provider.fetch('https://api.example.com'));
+    await settle();
+    mock.timers.tick(4999);
+    await settle();
+    assert.equal(fetch.mock.callCount(), 1);
+
+    mock.timers.tick(1);
+    await settle();
+    assert.equal(result.value?.status, 200);
+  });
+
+  it('pauses every caller after a Retry-After', async () => {
+    const fetch = mock.method(globalThis, 'fetch', async () =>
+      fetch.mock.callCount() === 0 ? response(429, { 'Retry-After': '3' }) : response(200));
+    const provider = new RateLimitedProvider('test', { concurrency: 2, requestsPerSecond: 100 });
+
+    const first = tracked(provider.fetch('https://api.example.com/1'));
+    await settle();
+    const second = tracked(provider.fetch('https://api.example.com/2'));
+    await settle();
+    mock.timers.tick(2999);
+    await settle();
+    assert.equal(fetch.mock.callCount(), 1);
+
+    mock.timers.tick(1);
+    await settle();
+    assert.equal(fetch.mock.callCount(), 3);
+    assert.equal(first.value?.status, 200);
+    assert.equal(second.value?.status, 200);
+  });
+
+  it('backs off exponentially without a Retry-After and gives up after maxRetries', async () => {
+    mock.method(Math, 'random', () => 0);
+    const fetch = mock.method(globalThis, 'fetch', async () => response(503));
+    const provider = new RateLimitedProvider('test', { concurrency: 1, requestsPerSecond: 100, maxRetries: 2 });
+
+    const result = tracked(provider.fetch('https://api.example.com'));
+    await settle();
+    assert.equal(fetch.mock.callCount(), 1);
+    mock.timers.tick(1000);
+    await settle();
+    assert.equal(fetch.mock.callCount(), 2);
+    mock.timers.tick(1999);
+    await settle();
+    assert.equal(fetch.mock.callCount(), 2);
+    mock.timers.tick(1);
+    await settle();
+
+    // The last attempt's response is returned as is
+    assert.equal(fetch.mock.callCount(), 3);
+    assert.equal(result.value?.status, 503);
+  });
+
+  it('keeps at most `concurrency` requests in flight', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const pending: Array<() => void> = [];
+    mock.method(globalThis, 'fetch', () => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      return new Promise<Response>(resolve => pending.push(() => {
+        inFlight--;
+        resolve(response(200));
+      }));
+    });
+    const provider = new RateLimitedProvider('test', { concurrency: 2, requestsPerSecond: 100, burst: 10 });
+
+    const results = Array.from({ length: 5 }, (_, index) => tracked(provider.fetch(`https://api.example.com/${index}`)));
+    for (let round = 0; round < 20 && results.some(result => !result.done); round++) {
+      await settle();
+      pending.shift()?.();
+    }
+    assert.ok(results.every(result => result.done));
+    assert.equal(maxInFlight, 2);
+  });
+});
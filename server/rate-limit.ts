@@ -0,0 +1,156 @@
+interface ProviderLimits {
+  concurrency: number;
+  requestsPerSecond: number;
+  burst?: number;
+  maxRetries?: number;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Classic token bucket: holds up to `capacity` tokens and refills at
+ * `refillPerSecond`. take() waits until a token is available.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+
+  constructor(private capacity: number, private refillPerSecond: number) {
+    this.tokens = capacity;
+  }
+
+  async take(): Promise<void> {
+    while (true) {
+      this.refill();
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      const waitMs = Math.ceil(((1 - this.tokens) / this.refillPerSecond) * 1000);
+      await sleep(waitMs);
+    }
+  }
+
+  private refill() {
+    const now = Date.now();
+    const elapsedSeconds = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.capacity, this.tokens + elapsedSeconds * this.refillPerSecond);
+    this.lastRefill = now;
+  }
+}
+
+/**
+ * Wraps fetch for one external provider with a concurrency cap, a token bucket
+ * and backoff on 429/503. A Retry-After from the provider pauses every caller,
+ * not just the request that received it.
+ */
+export class RateLimitedProvider {
+  private bucket: TokenBucket;
+  private active = 0;
+  private waiting: Array<() => void> = [];
+  private pausedUntil = 0;
+  private maxRetries: number;
+
+  constructor(private name: string, private limits: ProviderLimits) {
+    this.bucket = new TokenBucket(limits.burst ?? limits.concurrency, limits.requestsPerSecond);
+    this.maxRetries = limits.maxRetries ?? 5;
+  }
+
+  async fetch(url: string, init?: RequestInit): Promise<Response> {
+    await this.acquireSlot();
+    try {
+      for (let attempt = 0; ; attempt++) {
+        await this.waitForPause();
+        await this.bucket.take();
+
+        const response = await fetch(url, init);
+        if ((response.status !== 429 && response.status !== 503) || attempt >= this.maxRetries) {
+          return response;
+        }
+
+        const delayMs = this.getRetryDelay(response, attempt);
+        this.pausedUntil = Math.max(this.pausedUntil, Date.now() + delayMs);
+        console.warn(`⏳ ${this.name} returned ${response.status}, backing off ${Math.round(delayMs / 1000)}s (attempt ${attempt + 1}/${this.maxRetries})`);
+      }
+    } finally {
+      this.releaseSlot();
+    }
+  }
+
+  private getRetryDelay(response: Response, attempt: number): number {
+    const retryAfter = response.headers.get('retry-after');
+    if (retryAfter) {
+      const seconds = Number(retryAfter);
+      if (!isNaN(seconds)) {
+        return seconds * 1000;
+      }
+      const date = Date.parse(retryAfter);
+      if (!isNaN(date)) {
+        return Math.max(0, date - Date.now());
+      }
+    }
+    // Exponential backoff with jitter, capped at one minute
+    return Math.min(60000, 1000 * 2 ** attempt) + Math.random() * 250;
+  }
+
+  private async waitForPause(): Promise<void> {
+    const remaining = this.pausedUntil - Date.now();
+    if (remaining > 0) {
+      await sleep(remaining);
+    }
+  }
+
+  private acquireSlot(): Promise<void> {
+    if (this.active < this.limits.concurrency) {
+      this.active++;
+      return Promise.resolve();
+    }
+    return new Promise(resolve => {
+      this.waiting.push(() => {
+        this.active++;
+        resolve();
+      });
+    });
+  }
+
+  private releaseSlot() {
+    this.active--;
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    }
+  }
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return value > 0 ? value : fallback;
+}
+
+// Lazy initialization so limits are read after environment variables are loaded
+let _aiProvider: RateLimitedProvider | null = null;
+let _geocodingProvider: RateLimitedProvider | null = null;
+
+export function getAiProvider(): RateLimitedProvider {
+  if (!_aiProvider) {
+    _aiProvider = new RateLimitedProvider('Azure OpenAI', {
+      concurrency: envNumber('AZURE_OPENAI_CONCURRENCY', 4),
+      requestsPerSecond: envNumber('AZURE_OPENAI_REQUESTS_PER_MINUTE', 120) / 60,
+    });
+  }
+  return _aiProvider;
+}
+
+export function getGeocodingProvider(): RateLimitedProvider {
+  if (!_geocodingProvider) {
+    _geocodingProvider = new RateLimitedProvider('Google Geocoding', {
+      concurrency: envNumber('GEOCODING_CONCURRENCY', 8),
+      requestsPerSecond: envNumber('GEOCODING_REQUESTS_PER_SECOND', 40),
+    });
+  }
+  return _geocodingProvider;
+}
+
+export function getEnrichmentConcurrency(): number {
+  return envNumber('ENRICHMENT_CONCURRENCY', 8);
+}
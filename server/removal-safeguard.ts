@@ -0,0 +1,47 @@
+export type RemovalSafeguardMode = 'hold' | 'abort';
+
+export interface RemovalPolicy {
+  maxPercent: number; // Largest share of active postings a single run may remove
+  maxCount: number; // Largest number of postings a single run may remove
+  mode: RemovalSafeguardMode; // 'hold' queues the removals for approval, 'abort' fails the run
+}
+
+export class RemovalSafeguardError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RemovalSafeguardError';
+  }
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && value >= 0 ? value : fallback;
+}
+
+// Read on every run so thresholds can be changed without a restart
+export function getRemovalPolicy(): RemovalPolicy {
+  return {
+    maxPercent: envNumber('MAX_REMOVAL_PERCENT', 20),
+    maxCount: envNumber('MAX_REMOVAL_COUNT', 500),
+    mode: process.env.REMOVAL_SAFEGUARD_MODE === 'abort' ? 'abort' : 'hold',
+  };
+}
+
+/**
+ * Returns why the removals exceed the policy, or null when they may be applied.
+ * An empty or truncated Algolia response shows up here as a removal spike.
+ */
+export function checkRemovalPolicy(policy: RemovalPolicy, activeJobs: number, removals: number): string | null {
+  if (removals === 0) return null;
+
+  if (removals > policy.maxCount) {
+    return `${removals} removals exceed the limit of ${policy.maxCount} per run`;
+  }
+
+  const percent = activeJobs > 0 ? (removals / activeJobs) * 100 : 100;
+  if (percent > policy.maxPercent) {
+    return `${removals} removals (${percent.toFixed(1)}% of ${activeJobs} active jobs) exceed the limit of ${policy.maxPercent}% per run`;
+  }
+
+  return null;
+}
@@ -1,35 +1,47 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { WebSocketServer } from "ws";
-import { storage } from "./storage";
+import { storage, InvalidCursorError, ScheduleVersionConflictError } from "./storage";
 import { azurePipelineService } from "./azure-pipeline";
-import { scheduler } from "./scheduler";
-
-function isDaylightSavingTime(): boolean {
-  const now = new Date();
-  const january = new Date(now.getFullYear(), 0, 1);
-  const july = new Date(now.getFullYear(), 6, 1);
-  const stdOffset = Math.max(january.getTimezoneOffset(), july.getTimezoneOffset());
-  return now.getTimezoneOffset() < stdOffset;
+import { pipelineRunLock, PipelineBusyError, PIPELINE_LOCK_NAME } from "./run-lock";
+import { getRemovalPolicy } from "./removal-safeguard";
+import { summarizeChangeset, toChangelogEntry, changelogToCsv } from "./changeset";
+import { loadAlgoliaProfiles, saveAlgoliaProfile, deleteAlgoliaProfile, ProfileNotFoundError } from "./algolia-profiles";
+import { getAzureSqlPool } from "./azure-sql-storage";
+import { getMigrationStatus, migrateUp, migrateDown } from "./azure-migrations";
+import { loadJobSourceConfigs } from "./job-source-config";
+import { loadSchedules, getSchedule, createSchedule, updateSchedule, deleteSchedule, ScheduleNotFoundError, InvalidScheduleError } from "./schedules";
+import { ZodError } from "zod";
+import { idSchema, pipelineStartSchema, changelogQuerySchema, executionListQuerySchema, jobQuerySchema, jobFacetsQuerySchema, nearbyJobsQuerySchema, jobBoundsQuerySchema, type PipelineExecution, type PipelineStart } from "@shared/schema";
+
+const EXECUTION_LOG_LIMIT = 500; // Activity logs returned with a single execution
+
+function wantsQueueIfBusy(req: Request): boolean {
+  return req.body?.queueIfBusy === true || req.query.queue === 'true';
 }
 
-function calculateNextRun(time: string, timezone: string): string {
-  const [hours, minutes] = time.split(':').map(Number);
-  const now = new Date();
-  const nextRun = new Date();
-  
-  // Convert Eastern to UTC (add 4 hours for EDT, 5 for EST)
-  const isDST = isDaylightSavingTime();
-  const utcHours = hours + (isDST ? 4 : 5);
-  
-  nextRun.setUTCHours(utcHours, minutes, 0, 0);
-  
-  // If already past the scheduled time today, schedule for tomorrow
-  if (nextRun <= now) {
-    nextRun.setUTCDate(nextRun.getUTCDate() + 1);
-  }
-  
-  return nextRun.toISOString();
+// Running executions report their duration so far
+function withDuration(execution: PipelineExecution) {
+  const end = execution.endTime ?? (execution.status === 'running' ? new Date() : null);
+  return { ...execution, durationMs: end ? end.getTime() - new Date(execution.startTime).getTime() : null };
+}
+
+// Parses the options of a run, rejecting sources that job-sources.json does not configure
+async function parsePipelineStart(body: unknown): Promise<PipelineStart> {
+  const known = new Set((await loadJobSourceConfigs()).map(config => config.name));
+  return pipelineStartSchema
+    .refine(start => start.sources.every(source => known.has(source)), start => ({
+      message: `Unknown job sources: ${start.sources.filter(source => !known.has(source)).join(', ')}`,
+      path: ['sources'],
+    }))
+    .parse(body ?? {});
+}
+
+function sendPipelineBusy(res: Response, error: PipelineBusyError) {
+  res.status(409).json({
+    message: error.message,
+    activeExecutionId: error.activeExecutionId,
+  });
 }
 
 export async function registerRoutes(app: Express): Promise<Server> {
@@ -50,23 +62,268 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   });
 
+  // Ids are checked here once, so a bad one is a 400 rather than NaN reaching storage
+  for (const name of ['id', 'executionId']) {
+    app.param(name, (req, res, next, value) => {
+      if (!idSchema.safeParse(value).success) {
+        return res.status(400).json({ message: `Invalid ${name}: ${value}` });
+      }
+      next();
+    });
+  }
+
   // API Routes
   app.post('/api/pipeline/start', async (req, res) => {
     try {
-      const { batchSize = 100 } = req.body;
+      const { batchSize = 100, profile, sources } = await parsePipelineStart(req.body);
       
       // Start pipeline execution asynchronously with batch size
-      azurePipelineService.executePipeline(batchSize).catch(error => {
+      const run = await azurePipelineService.startPipeline(batchSize, {
+        queueIfBusy: wantsQueueIfBusy(req),
+        profile,
+        sources,
+      });
+      if (run.status === 'queued') {
+        return res.status(202).json({ message: 'Pipeline run queued', batchSize, profile, sources, activeExecutionId: run.activeExecutionId });
+      }
+
+      run.completion.catch(error => {
         console.error('Pipeline execution failed:', error);
       });
 
-      res.json({ message: 'Pipeline started successfully', batchSize });
+      res.json({ message: 'Pipeline started successfully', batchSize, profile, sources, executionId: run.executionId });
     } catch (error: any) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: 'Invalid pipeline options', errors: error.errors });
+      }
+      if (error instanceof PipelineBusyError) {
+        return sendPipelineBusy(res, error);
+      }
+      if (error instanceof ProfileNotFoundError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error('Failed to start pipeline:', error);
       res.status(500).json({ message: 'Failed to start pipeline', error: error.message });
     }
   });
 
+  app.post('/api/pipeline/:id/resume', async (req, res) => {
+    try {
+      const executionId = Number(req.params.id);
+      const execution = await storage.getPipelineExecution(executionId);
+      if (!execution) {
+        return res.status(404).json({ message: `Pipeline execution ${executionId} not found` });
+      }
+      if (execution.status === 'completed') {
+        return res.status(400).json({ message: `Pipeline execution ${executionId} has already completed` });
+      }
+
+      // Resume pipeline execution asynchronously from its checkpoints
+      const run = await azurePipelineService.resumePipeline(executionId);
+      if (run.status === 'started') {
+        run.completion.catch(error => {
+          console.error('Pipeline resume failed:', error);
+        });
+      }
+
+      res.json({ message: 'Pipeline resume started', executionId });
+    } catch (error: any) {
+      if (error instanceof PipelineBusyError) {
+        return sendPipelineBusy(res, error);
+      }
+      console.error('Failed to resume pipeline:', error);
+      res.status(500).json({ message: 'Failed to resume pipeline', error: error.message });
+    }
+  });
+
+  app.post('/api/pipeline/:id/cancel', async (req, res) => {
+    try {
+      const executionId = Number(req.params.id);
+      const execution = await storage.getPipelineExecution(executionId);
+      if (!execution) {
+        return res.status(404).json({ message: `Pipeline execution ${executionId} not found` });
+      }
+      if (execution.status !== 'running') {
+        return res.status(400).json({ message: `Pipeline execution ${executionId} is not running` });
+      }
+
+      const result = await azurePipelineService.cancelPipeline(executionId);
+
+      res.json({
+        message: result === 'requested'
+          ? 'Cancellation requested, pipeline will stop after the current job'
+          : 'Pipeline execution cancelled',
+        executionId,
+        status: result,
+      });
+    } catch (error: any) {
+      console.error('Failed to cancel pipeline:', error);
+      res.status(500).json({ message: 'Failed to cancel pipeline', error: error.message });
+    }
+  });
+
+  app.get('/api/pipeline/:id/checkpoints', async (req, res) => {
+    try {
+      const executionId = Number(req.params.id);
+      const checkpoints = await storage.getJobCheckpoints(executionId);
+      const summary = { fetched: 0, enriched: 0, saved: 0, failed: 0 };
+      for (const checkpoint of checkpoints) {
+        summary[checkpoint.stage as keyof typeof summary]++;
+      }
+
+      res.json({
+        executionId,
+        total: checkpoints.length,
+        unfinished: checkpoints.length - summary.saved,
+        ...summary,
+      });
+    } catch (error: any) {
+      console.error('Failed to get pipeline checkpoints:', error);
+      res.status(500).json({ message: 'Failed to get pipeline checkpoints', error: error.message });
+    }
+  });
+
+  app.get('/api/pipeline/lock', async (req, res) => {
+    try {
+      const lock = await storage.getRunLock(PIPELINE_LOCK_NAME);
+      const active = !!lock && new Date(lock.expiresAt) > new Date();
+
+      res.json({
+        locked: active,
+        heldByThisProcess: pipelineRunLock.isHeld(),
+        lock: lock || null,
+        queuedRun: azurePipelineService.getQueuedRun(),
+      });
+    } catch (error: any) {
+      console.error('Failed to get pipeline lock:', error);
+      res.status(500).json({ message: 'Failed to get pipeline lock', error: error.message });
+    }
+  });
+
+  app.get('/api/removals/pending', async (req, res) => {
+    try {
+      const removals = await storage.getPendingRemovals();
+      res.json({
+        total: removals.length,
+        executionId: removals[0]?.executionId ?? null,
+        policy: getRemovalPolicy(),
+        removals,
+      });
+    } catch (error: any) {
+      console.error('Failed to get pending removals:', error);
+      res.status(500).json({ message: 'Failed to get pending removals', error: error.message });
+    }
+  });
+
+  app.post('/api/removals/:executionId/approve', async (req, res) => {
+    try {
+      const executionId = Number(req.params.executionId);
+      const result = await azurePipelineService.approvePendingRemovals(executionId);
+      if (!result) {
+        return res.status(404).json({ message: `No pending removals for execution ${executionId}` });
+      }
+
+      res.json({
+        message: `Removed ${result.removed} jobs` + (result.skipped > 0 ? `, skipped ${result.skipped} listed again` : ''),
+        ...result,
+      });
+    } catch (error: any) {
+      if (error instanceof PipelineBusyError) {
+        return sendPipelineBusy(res, error);
+      }
+      console.error('Failed to approve pending removals:', error);
+      res.status(500).json({ message: 'Failed to approve pending removals', error: error.message });
+    }
+  });
+
+  app.post('/api/removals/:executionId/reject', async (req, res) => {
+    try {
+      const executionId = Number(req.params.executionId);
+      const rejected = await azurePipelineService.rejectPendingRemovals(executionId);
+      if (rejected === null) {
+        return res.status(404).json({ message: `No pending removals for execution ${executionId}` });
+      }
+
+      res.json({ message: `Kept ${rejected} jobs`, rejected });
+    } catch (error: any) {
+      console.error('Failed to reject pending removals:', error);
+      res.status(500).json({ message: 'Failed to reject pending removals', error: error.message });
+    }
+  });
+
+  app.get('/api/pipeline/:id/changeset', async (req, res) => {
+    try {
+      const executionId = Number(req.params.id);
+      const changes = await storage.getPipelineChanges(executionId);
+      res.json({ executionId, summary: summarizeChangeset(changes), changes });
+    } catch (error: any) {
+      console.error('Failed to get changeset:', error);
+      res.status(500).json({ message: 'Failed to get changeset', error: error.message });
+    }
+  });
+
+  app.post('/api/pipeline/:id/changeset/rollback', async (req, res) => {
+    try {
+      const executionId = Number(req.params.id);
+      const result = await azurePipelineService.rollbackChangeset(executionId);
+      if (!result) {
+        return res.status(404).json({ message: `No applied changes for execution ${executionId}` });
+      }
+
+      res.json({
+        message: `Rolled back ${result.rolledBack} changes` + (result.conflicts > 0 ? `, ${result.conflicts} conflicts left as they are` : ''),
+        ...result,
+      });
+    } catch (error: any) {
+      if (error instanceof PipelineBusyError) {
+        return sendPipelineBusy(res, error);
+      }
+      console.error('Failed to roll back changeset:', error);
+      res.status(500).json({ message: 'Failed to roll back changeset', error: error.message });
+    }
+  });
+
+  app.get('/api/algolia-profiles', async (req, res) => {
+    try {
+      res.json(await loadAlgoliaProfiles());
+    } catch (error: any) {
+      console.error('Failed to load Algolia profiles:', error);
+      res.status(500).json({ message: 'Failed to load Algolia profiles', error: error.message });
+    }
+  });
+
+  app.put('/api/algolia-profiles/:name', async (req, res) => {
+    try {
+      const { makeDefault = false, ...profile } = req.body;
+      const saved = await saveAlgoliaProfile({ ...profile, name: req.params.name }, makeDefault === true);
+      res.json({ message: `Saved Algolia profile "${saved.name}"`, profile: saved });
+    } catch (error: any) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: 'Invalid Algolia profile', errors: error.errors });
+      }
+      console.error('Failed to save Algolia profile:', error);
+      res.status(500).json({ message: 'Failed to save Algolia profile', error: error.message });
+    }
+  });
+
+  app.delete('/api/algolia-profiles/:name', async (req, res) => {
+    try {
+      const config = await loadAlgoliaProfiles();
+      if (config.defaultProfile === req.params.name) {
+        return res.status(400).json({ message: `Profile "${req.params.name}" is the default; choose another default before deleting it` });
+      }
+
+      await deleteAlgoliaProfile(req.params.name);
+      res.json({ message: `Deleted Algolia profile "${req.params.name}"` });
+    } catch (error: any) {
+      if (error instanceof ProfileNotFoundError) {
+        return res.status(404).json({ message: error.message });
+      }
+      console.error('Failed to delete Algolia profile:', error);
+      res.status(500).json({ message: 'Failed to delete Algolia profile', error: error.message });
+    }
+  });
+
   app.get('/api/pipeline/status', async (req, res) => {
     try {
       const latestExecution = await storage.getLatestPipelineExecution();
@@ -77,11 +334,91 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get('/api/pipeline/executions', async (req, res) => {
+    try {
+      const query = executionListQuerySchema.parse(req.query);
+      const page = await storage.listPipelineExecutions({
+        status: query.status,
+        startedAfter: query.from,
+        startedBefore: query.to,
+        limit: query.limit,
+        offset: query.offset,
+      });
+      res.json({
+        executions: page.executions.map(withDuration),
+        total: page.total,
+        limit: query.limit,
+        offset: query.offset,
+      });
+    } catch (error: any) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: 'Invalid execution filters', errors: error.errors });
+      }
+      console.error('Failed to list pipeline executions:', error);
+      res.status(500).json({ message: 'Failed to list pipeline executions', error: error.message });
+    }
+  });
+
+  app.get('/api/pipeline/executions/:id', async (req, res) => {
+    try {
+      const executionId = Number(req.params.id);
+      const execution = await storage.getPipelineExecution(executionId);
+      if (!execution) {
+        return res.status(404).json({ message: `Pipeline execution ${executionId} not found` });
+      }
+
+      const [logs, changes] = await Promise.all([
+        storage.getRecentActivityLogs(EXECUTION_LOG_LIMIT, executionId),
+        storage.getPipelineChanges(executionId),
+      ]);
+      res.json({
+        execution: withDuration(execution),
+        logs,
+        changeset: summarizeChangeset(changes),
+      });
+    } catch (error: any) {
+      console.error('Failed to get pipeline execution:', error);
+      res.status(500).json({ message: 'Failed to get pipeline execution', error: error.message });
+    }
+  });
+
+  app.get('/api/pipeline/executions/:id/changelog', async (req, res) => {
+    try {
+      const executionId = Number(req.params.id);
+      const { action, format } = changelogQuerySchema.parse(req.query);
+      if (!(await storage.getPipelineExecution(executionId))) {
+        return res.status(404).json({ message: `Pipeline execution ${executionId} not found` });
+      }
+
+      const changes = await storage.getPipelineChanges(executionId);
+      const entries = changes
+        .filter(change => !action || change.action === action)
+        .map(toChangelogEntry);
+
+      if (format === 'csv') {
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="changelog-execution-${executionId}.csv"`);
+        return res.send(changelogToCsv(entries));
+      }
+      res.json({ executionId, summary: summarizeChangeset(changes), entries });
+    } catch (error: any) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: 'Invalid changelog filters', errors: error.errors });
+      }
+      console.error('Failed to get changelog:', error);
+      res.status(500).json({ message: 'Failed to get changelog', error: error.message });
+    }
+  });
+
   app.get('/api/activity-logs', async (req, res) => {
     try {
-      const logs = await storage.getRecentActivityLogs(20);
+      const executionId = req.query.executionId ? idSchema.parse(req.query.executionId) : undefined;
+      const logs = await storage.getRecentActivityLogs(20, executionId);
       res.json(logs);
     } catch (error: any) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: 'Invalid executionId', errors: error.errors });
+      }
       console.error('Failed to get activity logs:', error);
       res.status(500).json({ message: 'Failed to get activity logs', error: error.message });
     }
@@ -99,9 +436,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get('/api/pipeline/processed-jobs', async (req, res) => {
     try {
-      const processedJobs = azurePipelineService.getProcessedJobs();
+      const executionId = req.query.executionId ? idSchema.parse(req.query.executionId) : undefined;
+      const processedJobs = await azurePipelineService.getProcessedJobs(executionId);
       res.json(processedJobs);
     } catch (error: any) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: 'Invalid executionId', errors: error.errors });
+      }
       console.error('Failed to get processed jobs:', error);
       res.status(500).json({ message: 'Failed to get processed jobs', error: error.message });
     }
@@ -109,10 +450,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get('/api/jobs', async (req, res) => {
     try {
-      console.log('🔍 Testing database connection and retrieving jobs...');
-      const jobs = await storage.getAllJobPostings();
-      console.log('📊 Retrieved jobs count:', jobs.length);
-      console.log('Sample job:', jobs[0] ? JSON.stringify(jobs[0], null, 2) : 'No jobs found');
+      const jobs = await storage.getAllJobPostings({ includeRemoved: req.query.includeRemoved === 'true' });
       res.json(jobs);
     } catch (error: any) {
       console.error('❌ Failed to get jobs:', error);
@@ -120,9 +458,80 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get('/api/jobs/search', async (req, res) => {
+    try {
+      const { createdFrom, createdTo, ...query } = jobQuerySchema.parse(req.query);
+      const page = await storage.queryJobPostings({ ...query, createdAfter: createdFrom, createdBefore: createdTo });
+      res.json({ ...page, limit: query.limit, offset: query.cursor ? null : query.offset });
+    } catch (error: any) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: 'Invalid job search', errors: error.errors });
+      }
+      if (error instanceof InvalidCursorError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error('Failed to search jobs:', error);
+      res.status(500).json({ message: 'Failed to search jobs', error: error.message });
+    }
+  });
+
+  app.get('/api/jobs/facets', async (req, res) => {
+    try {
+      const { createdFrom, createdTo, top, bucket, ...filters } = jobFacetsQuerySchema.parse(req.query);
+      const facets = await storage.getJobPostingFacets(
+        { ...filters, createdAfter: createdFrom, createdBefore: createdTo },
+        { top, bucket },
+      );
+      res.json({ ...facets, bucket });
+    } catch (error: any) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: 'Invalid job facet filters', errors: error.errors });
+      }
+      console.error('Failed to get job facets:', error);
+      res.status(500).json({ message: 'Failed to get job facets', error: error.message });
+    }
+  });
+
+  app.get('/api/jobs/near', async (req, res) => {
+    try {
+      const query = nearbyJobsQuerySchema.parse(req.query);
+      const origin = query.zip
+        ? await storage.getZipcodeLocation(query.zip)
+        : { latitude: query.lat!, longitude: query.lng! };
+      if (!origin) {
+        return res.status(404).json({ message: `Zipcode ${query.zip} not found` });
+      }
+      const jobs = await storage.findNearestJobPostings(origin.latitude, origin.longitude, {
+        radiusKm: query.radius,
+        limit: query.limit,
+      });
+      res.json({ origin: { ...origin, zipcode: query.zip ?? null }, radiusKm: query.radius, jobs });
+    } catch (error: any) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: 'Invalid nearby job search', errors: error.errors });
+      }
+      console.error('Failed to find nearby jobs:', error);
+      res.status(500).json({ message: 'Failed to find nearby jobs', error: error.message });
+    }
+  });
+
+  app.get('/api/jobs/bounds', async (req, res) => {
+    try {
+      const { limit, ...bounds } = jobBoundsQuerySchema.parse(req.query);
+      const jobs = await storage.findJobPostingsInBounds(bounds, limit);
+      res.json({ bounds, jobs, truncated: jobs.length === limit });
+    } catch (error: any) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: 'Invalid map bounds', errors: error.errors });
+      }
+      console.error('Failed to find jobs in bounds:', error);
+      res.status(500).json({ message: 'Failed to find jobs in bounds', error: error.message });
+    }
+  });
+
   app.get('/api/job-postings', async (req, res) => {
     try {
-      const jobPostings = await storage.getAllJobPostings();
+      const jobPostings = await storage.getAllJobPostings({ includeRemoved: req.query.includeRemoved === 'true' });
       res.json(jobPostings);
     } catch (error: any) {
       console.error('Failed to get job postings:', error);
@@ -133,7 +542,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.delete('/api/jobs/clear', async (req, res) => {
     try {
       console.log('🧹 Clearing all job postings...');
-      const jobs = await storage.getAllJobPostings();
+      const jobs = await storage.getAllJobPostings({ includeRemoved: true });
       for (const job of jobs) {
         await storage.deleteJobPosting(job.jobId);
       }
@@ -145,180 +554,195 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Azure SQL schema: /initialize applies every pending migration from migrations/azure-sql
   app.post('/api/database/initialize', async (req, res) => {
     try {
-      console.log('Creating database tables...');
-      
-      // Get database connection
-      const { AzureSQLStorage } = await import('./azure-sql-storage');
-      const sqlStorage = new AzureSQLStorage();
-      const pool = await (sqlStorage as any).getPool();
-      
-      // Create tables
-      const createJobPostingsTable = `
-        IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='job_postings' and xtype='U')
-        CREATE TABLE job_postings (
-          id INT IDENTITY(1,1) PRIMARY KEY,
-          jobID NVARCHAR(50) UNIQUE,
-          title NVARCHAR(500),
-          description NVARCHAR(MAX),
-          full_text NVARCHAR(MAX),
-          url NVARCHAR(500),
-          company_name NVARCHAR(200),
-          brand NVARCHAR(200),
-          functional_area NVARCHAR(200),
-          work_type NVARCHAR(100),
-          location_city NVARCHAR(200),
-          location_state NVARCHAR(200),
-          state_abbrev NVARCHAR(10),
-          zip_code NVARCHAR(20),
-          country NVARCHAR(100),
-          latitude NVARCHAR(50),
-          longitude NVARCHAR(50),
-          location_point NVARCHAR(100),
-          job_details_json NVARCHAR(MAX),
-          status NVARCHAR(50),
-          is_expired BIT,
-          record_created_on DATETIME2 DEFAULT GETDATE(),
-          created_at DATETIME2 DEFAULT GETDATE(),
-          last_seen DATETIME2 DEFAULT GETDATE(),
-          lastDayToApply DATETIME2,
-          businessArea NVARCHAR(200)
-        )
-      `;
-      
-      const createPipelineExecutionsTable = `
-        IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='pipeline_executions' and xtype='U')
-        CREATE TABLE pipeline_executions (
-          id INT IDENTITY(1,1) PRIMARY KEY,
-          status NVARCHAR(50),
-          startTime DATETIME2 DEFAULT GETDATE(),
-          endTime DATETIME2,
-          totalJobs INT DEFAULT 0,
-          processedJobs INT DEFAULT 0,
-          newJobs INT DEFAULT 0,
-          removedJobs INT DEFAULT 0,
-          currentStep NVARCHAR(500),
-          errorMessage NVARCHAR(MAX)
-        )
-      `;
-      
-      const createActivityLogsTable = `
-        IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='activity_logs' and xtype='U')
-        CREATE TABLE activity_logs (
-          id INT IDENTITY(1,1) PRIMARY KEY,
-          message NVARCHAR(1000),
-          level NVARCHAR(50),
-          timestamp DATETIME2 DEFAULT GETDATE(),
-          executionId INT
-        )
-      `;
-      
-      await pool.request().query(createJobPostingsTable);
-      console.log('✅ Created job_postings table');
-      
-      await pool.request().query(createPipelineExecutionsTable);
-      console.log('✅ Created pipeline_executions table');
-      
-      await pool.request().query(createActivityLogsTable);
-      console.log('✅ Created activity_logs table');
-      
-      res.json({ message: 'Database tables created successfully' });
+      const applied = await migrateUp(await getAzureSqlPool());
+      res.json({
+        message: applied.length > 0 ? `Applied ${applied.length} migration(s)` : 'Database schema is already up to date',
+        applied: applied.map(migration => ({ version: migration.version, name: migration.name })),
+      });
+    } catch (error: any) {
+      console.error('Failed to initialize database schema:', error);
+      res.status(500).json({ message: 'Failed to initialize database schema', error: error.message });
+    }
+  });
+
+  app.get('/api/database/migrations', async (req, res) => {
+    try {
+      res.json(await getMigrationStatus(await getAzureSqlPool()));
+    } catch (error: any) {
+      console.error('Failed to get migration status:', error);
+      res.status(500).json({ message: 'Failed to get migration status', error: error.message });
+    }
+  });
+
+  app.post('/api/database/migrations/up', async (req, res) => {
+    const { version } = req.body || {};
+    if (version !== undefined && (!Number.isInteger(version) || version < 0)) {
+      return res.status(400).json({ message: 'version must be a non-negative integer' });
+    }
+
+    try {
+      const pool = await getAzureSqlPool();
+      const applied = await migrateUp(pool, version);
+      res.json({
+        applied: applied.map(migration => ({ version: migration.version, name: migration.name })),
+        status: await getMigrationStatus(pool),
+      });
     } catch (error: any) {
-      console.error('Failed to create database tables:', error);
-      res.status(500).json({ message: 'Failed to create database tables', error: error.message });
+      console.error('Failed to apply migrations:', error);
+      res.status(500).json({ message: 'Failed to apply migrations', error: error.message });
+    }
+  });
+
+  app.post('/api/database/migrations/down', async (req, res) => {
+    const { version } = req.body || {};
+    if (!Number.isInteger(version) || version < 0) {
+      return res.status(400).json({ message: 'version is required; use 0 to revert every migration' });
+    }
+
+    try {
+      const pool = await getAzureSqlPool();
+      const reverted = await migrateDown(pool, version);
+      res.json({
+        reverted: reverted.map(migration => ({ version: migration.version, name: migration.name })),
+        status: await getMigrationStatus(pool),
+      });
+    } catch (error: any) {
+      console.error('Failed to revert migrations:', error);
+      res.status(500).json({ message: 'Failed to revert migrations', error: error.message });
     }
   });
 
   // Scheduling endpoints
-  app.post('/api/schedule/activate', async (req, res) => {
+  app.get('/api/schedules', async (req, res) => {
     try {
-      const { enabled = true, time = "02:00", date, timezone = "America/New_York", oneTime = false } = req.body;
-      
-      let nextRun;
-      if (oneTime && date) {
-        // For one-time execution, use the specific date and time
-        const [hours, minutes] = time.split(':').map(Number);
-        const scheduledDate = new Date(date);
-        scheduledDate.setHours(hours, minutes, 0, 0);
-        nextRun = scheduledDate.toISOString();
-      } else {
-        // For recurring execution, calculate next daily run
-        nextRun = calculateNextRun(time, timezone);
+      res.json(await loadSchedules());
+    } catch (error: any) {
+      console.error('Failed to load schedules:', error);
+      res.status(500).json({ message: 'Failed to load schedules', error: error.message });
+    }
+  });
+
+  app.get('/api/schedules/:id', async (req, res) => {
+    try {
+      res.json(await getSchedule(Number(req.params.id)));
+    } catch (error: any) {
+      if (error instanceof ScheduleNotFoundError) {
+        return res.status(404).json({ message: error.message });
       }
-      
-      const scheduleConfig = {
-        enabled,
-        time,
-        timezone,
-        nextRun,
-        activated: new Date().toISOString(),
-        oneTime: oneTime || false,
-        date: date || null
-      };
-      
-      // Save configuration through scheduler service
-      await scheduler.saveScheduleConfig(scheduleConfig);
-      
+      console.error('Failed to load schedule:', error);
+      res.status(500).json({ message: 'Failed to load schedule', error: error.message });
+    }
+  });
+
+  app.post('/api/schedules', async (req, res) => {
+    try {
+      const schedule = await createSchedule(req.body);
+
       await storage.createActivityLog({
-        message: oneTime 
-          ? `One-time schedule activated for ${new Date(nextRun).toLocaleString()}`
-          : `Daily schedule ${enabled ? 'activated' : 'deactivated'} for ${time} ${timezone}`,
+        message: `Schedule "${schedule.name}" created (${schedule.cron} ${schedule.timezone})`,
         level: 'success'
       });
-      
-      res.json({ 
-        success: true, 
-        message: oneTime ? 'One-time schedule activated successfully' : `Schedule ${enabled ? 'activated' : 'deactivated'} successfully`,
-        config: scheduleConfig
+      res.status(201).json({ message: `Created schedule "${schedule.name}"`, schedule });
+    } catch (error: any) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: 'Invalid schedule', errors: error.errors });
+      }
+      if (error instanceof InvalidScheduleError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error('Failed to create schedule:', error);
+      res.status(500).json({ message: 'Failed to create schedule', error: error.message });
+    }
+  });
+
+  app.put('/api/schedules/:id', async (req, res) => {
+    try {
+      const schedule = await updateSchedule(Number(req.params.id), req.body);
+
+      await storage.createActivityLog({
+        message: `Schedule "${schedule.name}" ${schedule.enabled ? 'updated' : 'disabled'} (${schedule.cron} ${schedule.timezone})`,
+        level: 'success'
       });
-    } catch (error) {
-      console.error('Schedule activation error:', error);
-      res.status(500).json({ error: 'Failed to update schedule configuration' });
+      res.json({ message: `Saved schedule "${schedule.name}"`, schedule });
+    } catch (error: any) {
+      if (error instanceof ScheduleNotFoundError) {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: 'Invalid schedule', errors: error.errors });
+      }
+      if (error instanceof InvalidScheduleError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof ScheduleVersionConflictError) {
+        return res.status(409).json({ message: error.message, version: error.currentVersion });
+      }
+      console.error('Failed to update schedule:', error);
+      res.status(500).json({ message: 'Failed to update schedule', error: error.message });
     }
   });
 
-  app.get('/api/schedule/status', async (req, res) => {
+  app.delete('/api/schedules/:id', async (req, res) => {
     try {
-      const config = scheduler.getScheduleConfig();
-      
-      if (!config) {
-        res.json({
-          enabled: false,
-          time: "02:00",
-          timezone: "America/New_York",
-          nextRun: calculateNextRun("02:00", "America/New_York"),
-          status: "inactive"
-        });
-      } else {
-        res.json({
-          ...config,
-          status: config.enabled ? "active" : "inactive"
-        });
+      const schedule = await getSchedule(Number(req.params.id));
+      await deleteSchedule(schedule.id);
+
+      await storage.createActivityLog({
+        message: `Schedule "${schedule.name}" deleted`,
+        level: 'info'
+      });
+      res.json({ message: `Deleted schedule "${schedule.name}"` });
+    } catch (error: any) {
+      if (error instanceof ScheduleNotFoundError) {
+        return res.status(404).json({ message: error.message });
       }
-    } catch (error) {
-      console.error('Schedule status error:', error);
-      res.status(500).json({ error: 'Failed to get schedule status' });
+      console.error('Failed to delete schedule:', error);
+      res.status(500).json({ message: 'Failed to delete schedule', error: error.message });
     }
   });
 
   app.post('/api/schedule/test', async (req, res) => {
     try {
+      // Start the pipeline in the background with 1000 batch size by default
+      const { batchSize = 1000, profile, sources } = await parsePipelineStart(req.body);
+      const run = await azurePipelineService.startPipeline(batchSize, { queueIfBusy: wantsQueueIfBusy(req), trigger: 'test', profile, sources });
+
       await storage.createActivityLog({
-        message: 'Test schedule execution started',
-        level: 'info'
+        message: run.status === 'queued' ? 'Test schedule execution queued' : 'Test schedule execution started',
+        level: 'info',
+        executionId: run.status === 'started' ? run.executionId : null,
       });
 
-      // Start the pipeline in the background with 1000 batch size
-      azurePipelineService.executePipeline(1000).catch(error => {
+      if (run.status === 'queued') {
+        return res.status(202).json({
+          success: true,
+          message: 'Test execution queued',
+          activeExecutionId: run.activeExecutionId,
+        });
+      }
+
+      run.completion.catch(error => {
         console.error('Test execution error:', error);
       });
 
       res.json({ 
         success: true, 
-        message: 'Test execution started'
+        message: 'Test execution started',
+        executionId: run.executionId,
       });
     } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: 'Invalid pipeline options', errors: error.errors });
+      }
+      if (error instanceof PipelineBusyError) {
+        return sendPipelineBusy(res, error);
+      }
+      if (error instanceof ProfileNotFoundError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error('Test execution error:', error);
       res.status(500).json({ error: 'Failed to start test execution' });
     }
@@ -327,25 +751,53 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Webhook endpoint for external pipeline triggering
   app.post('/api/webhook/trigger-pipeline', async (req, res) => {
     try {
-      console.log('🔗 Webhook received: Triggering pipeline execution with 1000 batch size');
+      const { batchSize = 1000, profile, sources } = await parsePipelineStart(req.body);
+      console.log(`🔗 Webhook received: Triggering pipeline execution with ${batchSize} batch size`);
       
+      // Start pipeline execution asynchronously
+      const run = await azurePipelineService.startPipeline(batchSize, { queueIfBusy: wantsQueueIfBusy(req), trigger: 'webhook', profile, sources });
+
       await storage.createActivityLog({
-        message: 'Pipeline triggered via webhook endpoint',
-        level: 'info'
+        message: run.status === 'queued'
+          ? 'Pipeline run queued via webhook endpoint'
+          : 'Pipeline triggered via webhook endpoint',
+        level: 'info',
+        executionId: run.status === 'started' ? run.executionId : null,
       });
 
-      // Start pipeline execution asynchronously with 1000 batch size
-      azurePipelineService.executePipeline(1000).catch(error => {
+      if (run.status === 'queued') {
+        return res.status(202).json({
+          success: true,
+          message: 'Pipeline execution queued via webhook',
+          batchSize,
+          sources,
+          activeExecutionId: run.activeExecutionId,
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      run.completion.catch(error => {
         console.error('Webhook pipeline execution failed:', error);
       });
 
       res.json({ 
         success: true,
         message: 'Pipeline execution started via webhook',
-        batchSize: 1000,
+        batchSize,
+        sources,
+        executionId: run.executionId,
         timestamp: new Date().toISOString()
       });
     } catch (error: any) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ success: false, message: 'Invalid pipeline options', errors: error.errors });
+      }
+      if (error instanceof PipelineBusyError) {
+        return sendPipelineBusy(res, error);
+      }
+      if (error instanceof ProfileNotFoundError) {
+        return res.status(400).json({ success: false, message: error.message });
+      }
       console.error('Webhook pipeline trigger failed:', error);
       res.status(500).json({ 
         success: false,
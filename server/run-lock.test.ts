@@ -0,0 +1,121 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemStorage } from './storage';
+import { RunLock, PipelineBusyError } from './run-lock';
+
+const LEASE_MS = 2 * 60 * 1000;
+const HEARTBEAT_MS = 30 * 1000;
+
+// Lets the storage calls a heartbeat started finish
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+describe('pipeline run lock', () => {
+  let storage: MemStorage;
+
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['setInterval', 'Date'], now: new Date('2026-07-01T00:00:00Z') });
+    storage = new MemStorage();
+    // Lock messages are expected here, and output written under a mocked Date upsets the test runner
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'error', () => {});
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+    mock.restoreAll();
+  });
+
+  it('blocks a second acquirer while the lease is held', async () => {
+    const first = new RunLock('pipeline', storage);
+    const second = new RunLock('pipeline', storage);
+    await first.acquire();
+    await first.attachExecution(7);
+
+    await assert.rejects(second.acquire(), (error: unknown) =>
+      error instanceof PipelineBusyError && error.activeExecutionId === 7);
+    await assert.rejects(first.acquire(), PipelineBusyError);
+    assert.equal(second.isHeld(), false);
+
+    await first.release();
+  });
+
+  it('takes over an expired lease and returns the previous holder', async () => {
+    // A process that crashed holding the lock: no heartbeats after this
+    await storage.acquireRunLock('pipeline', 'crashed-process', LEASE_MS);
+    await storage.heartbeatRunLock('pipeline', 'crashed-process', LEASE_MS, 3);
+    const lock = new RunLock('pipeline', storage);
+
+    await assert.rejects(lock.acquire(), PipelineBusyError);
+
+    mock.timers.tick(LEASE_MS + 1);
+    const previous = await lock.acquire();
+    assert.equal(previous?.ownerId, 'crashed-process');
+    assert.equal(previous?.executionId, 3);
+    assert.notEqual((await storage.getRunLock('pipeline'))?.ownerId, 'crashed-process');
+
+    await lock.release();
+  });
+
+  it('extends the lease with each heartbeat', async () => {
+    const first = new RunLock('pipeline', storage);
+    await first.acquire();
+    await first.attachExecution(5);
+
+    // Well past the first lease, but heartbeats kept renewing it
+    for (let elapsed = 0; elapsed < 2 * LEASE_MS; elapsed += HEARTBEAT_MS) {
+      mock.timers.tick(HEARTBEAT_MS);
+      await settle();
+    }
+
+    const lock = await storage.getRunLock('pipeline');
+    assert.equal(lock?.expiresAt.getTime(), Date.now() + LEASE_MS);
+    assert.equal(lock?.executionId, 5);
+    await assert.rejects(new RunLock('pipeline', storage).acquire(), PipelineBusyError);
+
+    await first.release();
+    assert.equal(await storage.getRunLock('pipeline'), undefined);
+  });
+
+  it('ignores a release by anyone but the owner', async () => {
+    const owner = new RunLock('pipeline', storage);
+    const other = new RunLock('pipeline', storage);
+    await owner.acquire();
+    const ownerId = (await storage.getRunLock('pipeline'))?.ownerId;
+
+    await other.release();
+    await storage.releaseRunLock('pipeline', 'someone-else');
+    assert.equal((await storage.getRunLock('pipeline'))?.ownerId, ownerId);
+
+    await owner.release();
+    assert.equal(owner.isHeld(), false);
+  });
+
+  it('reports a lease lost to another process and stops renewing it', async () => {
+    const lost: (number | null)[] = [];
+    const stalled = new RunLock('pipeline', storage);
+    await stalled.acquire(executionId => lost.push(executionId));
+    await stalled.attachExecution(9);
+
+    // Storage refuses the heartbeats, so the lease runs out and another process takes it
+    const heartbeat = mock.method(storage, 'heartbeatRunLock', async () => {
+      throw new Error('connection reset');
+    });
+    mock.timers.tick(LEASE_MS + 1);
+    await settle();
+    heartbeat.mock.restore();
+    const takeover = new RunLock('pipeline', storage);
+    await takeover.acquire();
+
+    mock.timers.tick(HEARTBEAT_MS);
+    await settle();
+    assert.deepEqual(lost, [9]);
+    assert.equal(stalled.isHeld(), false);
+
+    // The old holder's release leaves the new lease alone
+    await stalled.release();
+    assert.equal(takeover.isHeld(), true);
+    assert.ok(await storage.getRunLock('pipeline'));
+
+    await takeover.release();
+  });
+});
@@ -0,0 +1,110 @@
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+import { storage, type IStorage } from './storage';
+import type { PipelineRunLock } from '@shared/schema';
+
+export const PIPELINE_LOCK_NAME = 'pipeline';
+
+const LEASE_MS = 2 * 60 * 1000; // A lock with no heartbeat for 2 minutes is considered abandoned
+const HEARTBEAT_MS = 30 * 1000;
+
+export class PipelineBusyError extends Error {
+  constructor(public activeExecutionId: number | null) {
+    super(activeExecutionId
+      ? `Pipeline execution ${activeExecutionId} is already running`
+      : 'A pipeline execution is already starting');
+    this.name = 'PipelineBusyError';
+  }
+}
+
+/**
+ * Storage-backed single-flight lock for pipeline runs. The lease is renewed by a
+ * heartbeat while a run is active, so a crashed process releases it on expiry.
+ */
+export class RunLock {
+  private ownerId: string | null = null;
+  private executionId: number | null = null;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private onLost: ((executionId: number | null) => void) | null = null;
+
+  constructor(private name: string, private store: IStorage = storage) {}
+
+  /**
+   * Acquires the lock or throws PipelineBusyError. Returns the previous holder
+   * when its lease had expired, so its execution can be marked as interrupted.
+   */
+  async acquire(onLost?: (executionId: number | null) => void): Promise<PipelineRunLock | undefined> {
+    if (this.ownerId) {
+      throw new PipelineBusyError(this.executionId);
+    }
+
+    const ownerId = `${hostname()}:${process.pid}:${randomUUID()}`;
+    const previous = await this.store.getRunLock(this.name);
+    const { acquired, lock } = await this.store.acquireRunLock(this.name, ownerId, LEASE_MS);
+    if (!acquired) {
+      throw new PipelineBusyError(lock.executionId);
+    }
+
+    this.ownerId = ownerId;
+    this.executionId = null;
+    this.onLost = onLost || null;
+    this.heartbeatTimer = setInterval(() => {
+      this.heartbeat();
+    }, HEARTBEAT_MS);
+
+    console.log(`🔒 Acquired pipeline run lock (${ownerId})`);
+    return previous && previous.ownerId !== ownerId ? previous : undefined;
+  }
+
+  async attachExecution(executionId: number): Promise<void> {
+    this.executionId = executionId;
+    await this.heartbeat();
+  }
+
+  async release(): Promise<void> {
+    if (!this.ownerId) return;
+
+    const ownerId = this.ownerId;
+    this.stopHeartbeat();
+    try {
+      await this.store.releaseRunLock(this.name, ownerId);
+      console.log(`🔓 Released pipeline run lock (${ownerId})`);
+    } catch (error) {
+      console.error('Failed to release pipeline run lock:', error);
+    }
+  }
+
+  isHeld(): boolean {
+    return this.ownerId !== null;
+  }
+
+  private async heartbeat(): Promise<void> {
+    if (!this.ownerId) return;
+
+    try {
+      const renewed = await this.store.heartbeatRunLock(this.name, this.ownerId, LEASE_MS, this.executionId ?? undefined);
+      if (!renewed) {
+        console.error('⚠️ Pipeline run lock was lost to another process');
+        const executionId = this.executionId;
+        const onLost = this.onLost;
+        this.stopHeartbeat();
+        onLost?.(executionId);
+      }
+    } catch (error) {
+      // Keep the run going; the lease only lapses if heartbeats keep failing
+      console.error('Failed to renew pipeline run lock:', error);
+    }
+  }
+
+  private stopHeartbeat() {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    this.ownerId = null;
+    this.executionId = null;
+    this.onLost = null;
+  }
+}
+
+export const pipelineRunLock = new RunLock(PIPELINE_LOCK_NAME);
@@ -0,0 +1,71 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { calculateNextRun, isValidTimeZone, zoneOffsetMinutes, zonedTimeToUtc } from './schedule-time';
+
+describe('schedule time zones', () => {
+  it('reads zone offsets on either side of DST transitions', () => {
+    const cases: [string, string, number][] = [
+      ['America/New_York', '2026-03-08T06:59:00Z', -300],
+      ['America/New_York', '2026-03-08T07:00:00Z', -240],
+      ['America/New_York', '2026-11-01T05:59:00Z', -240],
+      ['America/New_York', '2026-11-01T06:00:00Z', -300],
+      ['Europe/Berlin', '2026-03-29T00:59:00Z', 60],
+      ['Europe/Berlin', '2026-03-29T01:00:00Z', 120],
+      ['Australia/Sydney', '2026-04-04T15:59:00Z', 660],
+      ['Australia/Sydney', '2026-04-04T16:00:00Z', 600],
+      ['Asia/Kolkata', '2026-07-01T00:00:00Z', 330],
+      ['UTC', '2026-07-01T00:00:00Z', 0],
+    ];
+    for (const [timeZone, instant, offset] of cases) {
+      assert.equal(zoneOffsetMinutes(new Date(instant), timeZone), offset, `${timeZone} at ${instant}`);
+    }
+  });
+
+  it('converts wall-clock times, moving skipped times forward and taking the first of repeated ones', () => {
+    const cases: [string, [number, number, number], string, string][] = [
+      ['America/New_York', [2026, 3, 7], '02:30', '2026-03-07T07:30:00.000Z'],
+      ['America/New_York', [2026, 3, 8], '02:30', '2026-03-08T07:30:00.000Z'], // Skipped: runs at 03:30 EDT
+      ['America/New_York', [2026, 3, 8], '03:30', '2026-03-08T07:30:00.000Z'],
+      ['America/New_York', [2026, 11, 1], '01:30', '2026-11-01T05:30:00.000Z'], // Repeated: first is EDT
+      ['America/New_York', [2026, 11, 2], '01:30', '2026-11-02T06:30:00.000Z'],
+      ['Europe/Berlin', [2026, 3, 29], '02:30', '2026-03-29T01:30:00.000Z'], // Skipped: runs at 03:30 CEST
+      ['Europe/Berlin', [2026, 10, 25], '02:30', '2026-10-25T00:30:00.000Z'], // Repeated: first is CEST
+      ['Australia/Sydney', [2026, 10, 4], '02:30', '2026-10-03T16:30:00.000Z'], // Skipped: runs at 03:30 AEDT
+      ['Australia/Sydney', [2026, 4, 5], '02:30', '2026-04-04T15:30:00.000Z'], // Repeated: first is AEDT
+      ['Asia/Kolkata', [2026, 1, 1], '09:00', '2026-01-01T03:30:00.000Z'],
+    ];
+    for (const [timeZone, [year, month, day], time, expected] of cases) {
+      const [hours, minutes] = time.split(':').map(Number);
+      assert.equal(zonedTimeToUtc({ year, month, day }, hours, minutes, timeZone).toISOString(), expected, `${timeZone} ${year}-${month}-${day} ${time}`);
+    }
+  });
+
+  it('schedules the next daily run in the configured zone across transitions', () => {
+    const cases: [string, string, string, string][] = [
+      // Later today
+      ['America/New_York', '02:00', '2026-07-01T05:00:00Z', '2026-07-01T06:00:00.000Z'],
+      // Already past today, so tomorrow
+      ['America/New_York', '02:00', '2026-07-01T06:00:00Z', '2026-07-02T06:00:00.000Z'],
+      // The day before spring forward: tomorrow's 02:00 does not exist
+      ['America/New_York', '02:00', '2026-03-07T12:00:00Z', '2026-03-08T07:00:00.000Z'],
+      ['America/New_York', '09:00', '2026-03-07T15:00:00Z', '2026-03-08T13:00:00.000Z'],
+      // The day before fall back
+      ['America/New_York', '09:00', '2026-10-31T14:00:00Z', '2026-11-01T14:00:00.000Z'],
+      // Late evening in the zone is already the next UTC day
+      ['America/Los_Angeles', '23:30', '2026-01-15T07:00:00Z', '2026-01-15T07:30:00.000Z'],
+      ['Europe/Berlin', '02:00', '2026-10-24T12:00:00Z', '2026-10-25T00:00:00.000Z'],
+      ['Australia/Sydney', '06:00', '2026-04-04T12:00:00Z', '2026-04-04T20:00:00.000Z'],
+      // Across a month and year boundary
+      ['Asia/Tokyo', '08:00', '2026-12-31T00:00:00Z', '2026-12-31T23:00:00.000Z'],
+      ['UTC', '02:00', '2026-12-31T03:00:00Z', '2027-01-01T02:00:00.000Z'],
+    ];
+    for (const [timeZone, time, now, expected] of cases) {
+      assert.equal(calculateNextRun(time, timeZone, new Date(now)), expected, `${time} ${timeZone} after ${now}`);
+    }
+  });
+
+  it('recognises IANA zone names', () => {
+    assert.equal(isValidTimeZone('America/Chicago'), true);
+    assert.equal(isValidTimeZone('Eastern'), false);
+  });
+});
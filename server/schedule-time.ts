@@ -0,0 +1,100 @@
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface CalendarDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function zoneFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    zoneFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// What a wall clock in the zone reads at an instant
+function wallClock(instant: number, timeZone: string) {
+  const parts: Record<string, number> = {};
+  for (const { type, value } of zoneFormatter(timeZone).formatToParts(new Date(instant))) {
+    parts[type] = Number(value);
+  }
+  return parts as { year: number; month: number; day: number; hour: number; minute: number; second: number };
+}
+
+// Minutes the zone is ahead of UTC at an instant
+export function zoneOffsetMinutes(instant: Date | number, timeZone: string): number {
+  const time = Math.floor(new Date(instant).getTime() / 1000) * 1000;
+  const clock = wallClock(time, timeZone);
+  return (Date.UTC(clock.year, clock.month - 1, clock.day, clock.hour, clock.minute, clock.second) - time) / 60000;
+}
+
+export function zonedCalendarDate(instant: Date, timeZone: string): CalendarDate {
+  const { year, month, day } = wallClock(instant.getTime(), timeZone);
+  return { year, month, day };
+}
+
+/**
+ * The instant the zone's wall clock reads the given date and time. A time
+ * skipped by a spring-forward transition moves forward by the length of the
+ * gap (02:30 becomes 03:30); a time repeated by a fall-back transition
+ * resolves to its first occurrence.
+ */
+export function zonedTimeToUtc(date: CalendarDate, hours: number, minutes: number, timeZone: string): Date {
+  const wall = Date.UTC(date.year, date.month - 1, date.day, hours, minutes);
+  // Any transition near this date lies between the offsets a day either side
+  const before = zoneOffsetMinutes(wall - DAY_MS, timeZone);
+  const after = zoneOffsetMinutes(wall + DAY_MS, timeZone);
+
+  const matches = [before, after]
+    .map(offset => wall - offset * 60000)
+    .filter(instant => zoneOffsetMinutes(instant, timeZone) * 60000 === wall - instant);
+  if (matches.length > 0) {
+    return new Date(Math.min(...matches));
+  }
+  return new Date(wall - before * 60000);
+}
+
+/**
+ * The next time a daily schedule fires after `now`: today at `time` in the
+ * schedule's zone if that is still ahead, otherwise tomorrow.
+ */
+export function calculateNextRun(time: string, timeZone: string, now = new Date()): string {
+  const [hours, minutes] = time.split(':').map(Number);
+  const today = zonedCalendarDate(now, timeZone);
+
+  const nextRun = zonedTimeToUtc(today, hours, minutes, timeZone);
+  if (nextRun > now) {
+    return nextRun.toISOString();
+  }
+  // Date.UTC rolls the day over into the next month and year
+  const tomorrow = new Date(Date.UTC(today.year, today.month - 1, today.day + 1));
+  return zonedTimeToUtc(
+    { year: tomorrow.getUTCFullYear(), month: tomorrow.getUTCMonth() + 1, day: tomorrow.getUTCDate() },
+    hours,
+    minutes,
+    timeZone,
+  ).toISOString();
+}
@@ -0,0 +1,176 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import type { MisfirePolicy } from '@shared/schema';
+import type { PipelineStartResult } from './azure-pipeline';
+import { storage } from './storage';
+import { createSchedule, getSchedule, migrateLegacySchedules } from './schedules';
+import { Scheduler } from './scheduler';
+
+// Schedules are read through the shared storage, which must be the in-memory one here
+delete process.env.AZURE_SQL_URL;
+delete process.env.DATABASE_URL;
+
+const now = new Date('2026-07-01T12:30:00Z');
+
+async function hourlySchedule(name: string, misfirePolicy: MisfirePolicy, nextRun: string) {
+  const schedule = await createSchedule({ name, cron: '0 * * * *', timezone: 'UTC', batchSize: 50, misfirePolicy });
+  await storage.updatePipelineSchedule(schedule.id, { nextRun });
+  return schedule.id;
+}
+
+async function warnings(name: string) {
+  const logs = await storage.getRecentActivityLogs(200);
+  return logs
+    .filter(log => log.level === 'warning' && log.message.includes(`"${name}"`))
+    .map(log => log.message);
+}
+
+describe('scheduler misfire policies', () => {
+  let started: Array<{ batchSize: number; trigger?: string }>;
+  let result: () => PipelineStartResult;
+  let scheduler: Scheduler;
+
+  beforeEach(async () => {
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'error', () => {});
+    for (const schedule of await storage.getPipelineSchedules()) {
+      await storage.deletePipelineSchedule(schedule.id);
+    }
+
+    started = [];
+    result = () => ({ status: 'started', executionId: started.length, completion: Promise.resolve() });
+    scheduler = new Scheduler(async (batchSize, options) => {
+      started.push({ batchSize, trigger: options.trigger });
+      return result();
+    }, () => now);
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('fires a run that is due within the run window without a warning', async () => {
+    const id = await hourlySchedule('On time', 'skip', '2026-07-01T12:27:00.000Z');
+
+    await scheduler.checkSchedules();
+    assert.deepEqual(started, [{ batchSize: 50, trigger: 'scheduled' }]);
+    const schedule = await getSchedule(id);
+    assert.equal(schedule.lastRun, now.toISOString());
+    assert.equal(schedule.nextRun, '2026-07-01T13:00:00.000Z');
+    assert.deepEqual(await warnings('On time'), []);
+  });
+
+  it('runs once after downtime under run-once', async () => {
+    const id = await hourlySchedule('Run once', 'run-once', '2026-07-01T02:00:00.000Z');
+
+    await scheduler.checkSchedules();
+    assert.equal(started.length, 1);
+    assert.equal((await getSchedule(id)).nextRun, '2026-07-01T13:00:00.000Z');
+    assert.deepEqual(await warnings('Run once'), [
+      'Schedule "Run once" missed 11 runs since 2026-07-01T02:00:00.000Z; running it once now (misfire policy "run-once")',
+    ]);
+  });
+
+  it('moves on to the next run without running under skip', async () => {
+    const id = await hourlySchedule('Skip', 'skip', '2026-07-01T02:00:00.000Z');
+
+    await scheduler.checkSchedules();
+    assert.equal(started.length, 0);
+    const schedule = await getSchedule(id);
+    assert.equal(schedule.lastRun, null);
+    assert.equal(schedule.nextRun, '2026-07-01T13:00:00.000Z');
+    assert.deepEqual(await warnings('Skip'), [
+      'Schedule "Skip" missed 11 runs since 2026-07-01T02:00:00.000Z; skipping to 2026-07-01T13:00:00.000Z (misfire policy "skip")',
+    ]);
+  });
+
+  it('replays every missed run under run-all', async () => {
+    await hourlySchedule('Run all', 'run-all', '2026-07-01T02:00:00.000Z');
+
+    await scheduler.checkSchedules();
+    assert.equal(started.length, 11);
+    assert.deepEqual(await warnings('Run all'), [
+      'Schedule "Run all" missed 11 runs since 2026-07-01T02:00:00.000Z; running 11 times now (misfire policy "run-all")',
+    ]);
+  });
+
+  it('replays at most 24 runs after a long downtime', async () => {
+    await hourlySchedule('Long downtime', 'run-all', '2026-06-28T00:00:00.000Z');
+
+    await scheduler.checkSchedules();
+    assert.equal(started.length, 24);
+    assert.deepEqual(await warnings('Long downtime'), [
+      'Schedule "Long downtime" missed more than 24 runs since 2026-06-28T00:00:00.000Z; running 24 times now (misfire policy "run-all")',
+    ]);
+  });
+
+  it('drops the remaining runs once one is queued behind an active run', async () => {
+    await hourlySchedule('Busy', 'run-all', '2026-07-01T09:00:00.000Z');
+    result = () => ({ status: 'queued', activeExecutionId: 3 });
+
+    await scheduler.checkSchedules();
+    assert.equal(started.length, 1);
+    assert.deepEqual((await warnings('Busy')).reverse(), [
+      'Schedule "Busy" missed 4 runs since 2026-07-01T09:00:00.000Z; running 4 times now (misfire policy "run-all")',
+      'Dropped 3 missed runs of schedule "Busy" because a run is already queued',
+    ]);
+  });
+
+  it('gives a migrated schedule without a next run a fresh one instead of a missed run', async () => {
+    // As the Azure SQL migration leaves the schedule it copies from schedule_config
+    const id = await hourlySchedule('Migrated', 'run-once', '2026-07-01T02:00:00.000Z');
+    await storage.updatePipelineSchedule(id, { nextRun: null });
+
+    assert.equal(await migrateLegacySchedules(), 0);
+    const { nextRun } = await getSchedule(id);
+    assert.ok(nextRun && new Date(nextRun) > new Date());
+    await scheduler.checkSchedules();
+    assert.equal(started.length, 0);
+  });
+
+  it('skips checks that come due while a run it started is in progress', async () => {
+    await hourlySchedule('Slow', 'run-all', '2026-07-01T11:00:00.000Z');
+    let finish = () => {};
+    result = () => ({
+      status: 'started',
+      executionId: started.length,
+      completion: new Promise<void>(resolve => { finish = resolve; }),
+    });
+
+    const first = scheduler.checkSchedules();
+    await new Promise(resolve => setImmediate(resolve));
+    await scheduler.checkSchedules();
+    assert.equal(started.length, 1);
+
+    // Each catch-up run starts once the one before it finishes
+    finish();
+    await new Promise(resolve => setImmediate(resolve));
+    assert.equal(started.length, 2);
+    finish();
+    await first;
+    assert.deepEqual((await warnings('Slow')).filter(message => message.startsWith('Dropped')), []);
+  });
+
+  it('logs a one-time schedule as completed only once its run finishes', async () => {
+    const schedule = await createSchedule({ name: 'Once', cron: '0 13 1 7 *', timezone: 'UTC', oneTime: true });
+    await storage.updatePipelineSchedule(schedule.id, { nextRun: '2026-07-01T12:28:00.000Z' });
+    result = () => ({ status: 'started', executionId: 1, completion: Promise.reject(new Error('AI provider down')) });
+
+    await scheduler.checkSchedules();
+    const messages = (await storage.getRecentActivityLogs(200))
+      .filter(log => log.message.includes('"Once"'))
+      .map(log => log.message);
+    assert.ok(messages.some(message => message.includes('failed: Error: AI provider down')));
+    assert.ok(!messages.some(message => message.includes('completed and disabled')));
+    assert.equal((await getSchedule(schedule.id)).enabled, false);
+  });
+
+  it('leaves disabled schedules and future runs alone', async () => {
+    const disabled = await createSchedule({ name: 'Disabled', cron: '0 * * * *', timezone: 'UTC', enabled: false });
+    await hourlySchedule('Later', 'run-all', '2026-07-01T13:00:00.000Z');
+
+    await scheduler.checkSchedules();
+    assert.equal(started.length, 0);
+    assert.equal((await getSchedule(disabled.id)).nextRun, null);
+  });
+});
@@ -1,34 +1,46 @@
-import { azurePipelineService } from './azure-pipeline';
+import { azurePipelineService, type PipelineStartOptions, type PipelineStartResult } from './azure-pipeline';
 import { storage } from './storage';
-import { saveScheduleConfig as saveToFile, loadScheduleConfig as loadFromFile } from './schedule-persistence';
-
-interface ScheduleConfig {
-  enabled: boolean;
-  time: string;
-  timezone: string;
-  lastRun?: string;
-  nextRun: string;
-  activated: string;
-  oneTime?: boolean;
-  date?: string;
+import { loadSchedules, recordScheduleRun, skipScheduleRuns, migrateLegacySchedules } from './schedules';
+import { countCronRuns } from './cron';
+import type { PipelineSchedule } from '@shared/schema';
+
+const RUN_WINDOW_MS = 5 * 60 * 1000; // How late a run may still fire
+const MAX_CATCH_UP_RUNS = 24; // Most missed runs the run-all policy replays
+
+interface DueRun {
+  schedule: PipelineSchedule;
+  runs: number;
 }
 
-class Scheduler {
-  private scheduleConfig: ScheduleConfig | null = null;
+type StartPipeline = (batchSize: number, options: PipelineStartOptions) => Promise<PipelineStartResult>;
+
+export class Scheduler {
   private schedulerInterval: NodeJS.Timeout | null = null;
+  private checking = false;
+
+  constructor(
+    private startPipeline: StartPipeline = (batchSize, options) => azurePipelineService.startPipeline(batchSize, options),
+    private clock: () => Date = () => new Date(),
+  ) {}
 
   async start() {
     console.log('📅 Starting scheduler service...');
-    
-    // Load existing schedule config from storage
-    await this.loadScheduleConfig();
-    
+
+    try {
+      await migrateLegacySchedules();
+    } catch (error) {
+      console.error('❌ Failed to migrate legacy schedules:', error);
+    }
+
     // Start the scheduler check every minute
     this.schedulerInterval = setInterval(() => {
-      this.checkSchedule();
+      this.checkSchedules();
     }, 60000); // Check every minute
-    
+
     console.log('✅ Scheduler service started');
+
+    // Runs missed while the server was down are handled by each schedule's misfire policy
+    this.checkSchedules();
   }
 
   async stop() {
@@ -39,132 +51,155 @@ class Scheduler {
     console.log('⏹️ Scheduler service stopped');
   }
 
-  async saveScheduleConfig(config: ScheduleConfig) {
-    this.scheduleConfig = config;
-    
-    // Use reliable file-based storage
-    await saveToFile(config);
-    
-    // Also save to activity logs as backup
+  /**
+   * Fires or catches up every enabled schedule whose next run has come. A check
+   * waits for the runs it starts, so checks that come due meanwhile are skipped
+   * rather than competing with run-all catch-ups for the one queue slot.
+   */
+  async checkSchedules() {
+    if (this.checking) {
+      return;
+    }
+    this.checking = true;
     try {
-      await storage.createActivityLog({
-        message: `SCHEDULE_CONFIG:${JSON.stringify(config)}`,
-        level: 'info'
-      });
+      await this.checkDueSchedules();
     } catch (error) {
-      console.error('Failed to save to activity logs:', error);
+      console.error('❌ Failed to check schedules:', error);
+    } finally {
+      this.checking = false;
     }
   }
 
-  async loadScheduleConfig() {
+  private async checkDueSchedules() {
+    let schedules: PipelineSchedule[];
     try {
-      // Load from reliable file-based storage
-      this.scheduleConfig = await loadFromFile();
-      if (this.scheduleConfig) {
-        return;
+      schedules = await loadSchedules();
+    } catch (error) {
+      console.error('❌ Failed to load schedules:', error);
+      return;
+    }
+
+    // Advance every due schedule first, so one long run can't push the others out of their window
+    const now = this.clock();
+    const due: DueRun[] = [];
+    for (const schedule of schedules) {
+      if (!schedule.enabled || !schedule.nextRun || now < new Date(schedule.nextRun)) {
+        continue;
       }
-      
-      // Fallback to activity log loading
-      const logs = await storage.getRecentActivityLogs(100);
-      const scheduleLog = logs.find(log => log.message.startsWith('SCHEDULE_CONFIG:'));
-      
-      if (scheduleLog) {
-        const configJson = scheduleLog.message.replace('SCHEDULE_CONFIG:', '');
-        this.scheduleConfig = JSON.parse(configJson);
-        console.log('📋 Loaded schedule configuration from activity logs:', this.scheduleConfig);
-      } else {
-        console.log('📋 No existing schedule configuration found');
+      try {
+        // Within 5 minutes of its time a run fires as normal; later than that it was missed
+        let runs = 1;
+        if (now.getTime() - new Date(schedule.nextRun).getTime() < RUN_WINDOW_MS) {
+          await recordScheduleRun(schedule.id, now);
+        } else {
+          runs = await this.applyMisfirePolicy(schedule, now);
+        }
+        if (runs > 0) {
+          due.push({ schedule, runs });
+        }
+      } catch (error) {
+        console.error(`❌ Failed to advance schedule "${schedule.name}":`, error);
       }
-    } catch (error) {
-      console.error('❌ Failed to load schedule config:', error);
     }
-  }
 
-  getScheduleConfig(): ScheduleConfig | null {
-    return this.scheduleConfig;
+    for (const { schedule, runs } of due) {
+      try {
+        for (let run = 1; run <= runs; run++) {
+          const started = await this.runSchedule(schedule, now);
+          if (!started && run < runs) {
+            // Only one run can wait behind the active one
+            await storage.createActivityLog({
+              message: `Dropped ${runs - run} missed runs of schedule "${schedule.name}" because a run is already queued`,
+              level: 'warning'
+            });
+            break;
+          }
+        }
+      } catch (error) {
+        console.error(`❌ Failed to run schedule "${schedule.name}":`, error);
+      }
+    }
   }
 
-  private async checkSchedule() {
-    if (!this.scheduleConfig || !this.scheduleConfig.enabled) {
-      return;
+  /**
+   * Moves a schedule whose run was missed on to its next run, and returns how
+   * many runs to make now under its misfire policy.
+   */
+  private async applyMisfirePolicy(schedule: PipelineSchedule, now: Date): Promise<number> {
+    const missedSince = new Date(schedule.nextRun!);
+    const missed = schedule.oneTime
+      ? 1
+      : countCronRuns(schedule.cron, schedule.timezone, missedSince, now, MAX_CATCH_UP_RUNS + 1);
+    const runs = schedule.misfirePolicy === 'skip' ? 0
+      : schedule.misfirePolicy === 'run-all' ? Math.min(missed, MAX_CATCH_UP_RUNS)
+      : 1;
+
+    const advanced = runs > 0
+      ? await recordScheduleRun(schedule.id, now)
+      : await skipScheduleRuns(schedule.id, now);
+
+    let action: string;
+    if (runs === 0) {
+      action = advanced.nextRun ? `skipping to ${advanced.nextRun}` : 'disabling it';
+    } else if (runs === 1) {
+      action = 'running it once now';
+    } else {
+      action = `running ${runs} times now`;
     }
+    const missedCount = missed > MAX_CATCH_UP_RUNS ? `more than ${MAX_CATCH_UP_RUNS} runs` : missed === 1 ? '1 run' : `${missed} runs`;
+    console.log(`⏰ Schedule "${schedule.name}" missed ${missedCount}; ${action}`);
+    await storage.createActivityLog({
+      message: `Schedule "${schedule.name}" missed ${missedCount} since ${missedSince.toISOString()}; ` +
+        `${action} (misfire policy "${schedule.misfirePolicy}")`,
+      level: 'warning'
+    });
+    return runs;
+  }
 
-    const now = new Date();
-    const nextRun = new Date(this.scheduleConfig.nextRun);
+  // Returns false when the run had to be queued behind one already in progress
+  private async runSchedule(schedule: PipelineSchedule, now: Date): Promise<boolean> {
+    console.log(`⏰ Schedule "${schedule.name}" triggered pipeline execution`);
 
-    // Check if it's time to run (within 5 minute window for reliability)
-    if (now >= nextRun && now.getTime() - nextRun.getTime() < 300000) {
-      console.log('⏰ Scheduled pipeline execution triggered');
-      
-      await storage.createActivityLog({
-        message: `Automated pipeline execution started at ${now.toISOString()}`,
-        level: 'info'
-      });
+    await storage.createActivityLog({
+      message: `Automated pipeline execution started at ${now.toISOString()} by schedule "${schedule.name}"`,
+      level: 'info'
+    });
 
-      // Update last run
-      this.scheduleConfig.lastRun = now.toISOString();
-      
-      // Handle one-time vs recurring schedules
-      if (this.scheduleConfig.oneTime) {
-        // For one-time schedules, disable after execution
-        this.scheduleConfig.enabled = false;
-        await storage.createActivityLog({
-          message: `One-time schedule completed and disabled`,
-          level: 'info'
-        });
-      } else {
-        // For recurring schedules, calculate next daily run
-        this.scheduleConfig.nextRun = this.calculateNextRun(this.scheduleConfig.time, this.scheduleConfig.timezone);
+    // Queue behind any run already in progress
+    try {
+      const run = await this.startPipeline(schedule.batchSize, {
+        queueIfBusy: true,
+        trigger: 'scheduled',
+        profile: schedule.profile,
+        sources: schedule.sources,
+      });
+      if (run.status === 'queued') {
+        console.log(`⏳ Schedule "${schedule.name}" queued behind execution ${run.activeExecutionId}`);
+        return false;
       }
-      
-      // Save updated config
-      await this.saveScheduleConfig(this.scheduleConfig);
 
-      // Execute pipeline with 1000 batch size
-      try {
-        await azurePipelineService.executePipeline(1000);
-        
-        await storage.createActivityLog({
-          message: `Scheduled pipeline execution completed successfully`,
-          level: 'success'
-        });
-      } catch (error) {
-        console.error('❌ Scheduled pipeline execution failed:', error);
-        
+      await run.completion;
+
+      await storage.createActivityLog({
+        message: `Scheduled pipeline execution for "${schedule.name}" completed successfully`,
+        level: 'success'
+      });
+      if (schedule.oneTime) {
         await storage.createActivityLog({
-          message: `Scheduled pipeline execution failed: ${error}`,
-          level: 'error'
+          message: `One-time schedule "${schedule.name}" completed and disabled`,
+          level: 'info'
         });
       }
-    }
-  }
+    } catch (error) {
+      console.error(`❌ Scheduled pipeline execution for "${schedule.name}" failed:`, error);
 
-  private calculateNextRun(time: string, timezone: string): string {
-    const [hours, minutes] = time.split(':').map(Number);
-    const now = new Date();
-    const nextRun = new Date();
-    
-    // Convert Eastern to UTC (add 4 hours for EDT, 5 for EST)
-    const isDST = this.isDaylightSavingTime();
-    const utcHours = hours + (isDST ? 4 : 5);
-    
-    nextRun.setUTCHours(utcHours, minutes, 0, 0);
-    
-    // If already past the scheduled time today, schedule for tomorrow
-    if (nextRun <= now) {
-      nextRun.setUTCDate(nextRun.getUTCDate() + 1);
+      await storage.createActivityLog({
+        message: `Scheduled pipeline execution for "${schedule.name}" failed: ${error}`,
+        level: 'error'
+      });
     }
-    
-    return nextRun.toISOString();
-  }
-
-  private isDaylightSavingTime(): boolean {
-    const now = new Date();
-    const january = new Date(now.getFullYear(), 0, 1);
-    const july = new Date(now.getFullYear(), 6, 1);
-    const stdOffset = Math.max(january.getTimezoneOffset(), july.getTimezoneOffset());
-    return now.getTimezoneOffset() < stdOffset;
+    return true;
   }
 }
 
-export const scheduler = new Scheduler();
\ No newline at end of file
+export const scheduler = new Scheduler();
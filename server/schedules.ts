@@ -0,0 +1,284 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  pipelineScheduleInputSchema,
+  pipelineScheduleUpdateSchema,
+  insertPipelineScheduleSchema,
+  type PipelineSchedule,
+  type PipelineScheduleInput,
+  type InsertPipelineSchedule,
+} from '@shared/schema';
+import { parseCron, nextCronRun, CronExpressionError } from './cron';
+import { isValidTimeZone } from './schedule-time';
+import { loadJobSourceConfigs } from './job-source-config';
+import { getAlgoliaProfile, ProfileNotFoundError } from './algolia-profiles';
+import { storage, ScheduleVersionConflictError } from './storage';
+
+// Where schedules were kept before they moved into storage; read once by migrateLegacySchedules
+const SCHEDULES_FILE = path.join(process.cwd(), 'schedules.json');
+const LEGACY_SCHEDULE_FILE = path.join(process.cwd(), 'schedule-config.json');
+const LEGACY_LOG_PREFIX = 'SCHEDULE_CONFIG:';
+const MIGRATION_LOG_PREFIX = 'Migrated legacy schedules';
+const MAX_ADVANCE_ATTEMPTS = 3;
+
+export class ScheduleNotFoundError extends Error {
+  constructor(public scheduleId: number) {
+    super(`Schedule ${scheduleId} not found`);
+    this.name = 'ScheduleNotFoundError';
+  }
+}
+
+// A schedule that parses but can't run: bad cron, unknown zone, source or profile
+export class InvalidScheduleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidScheduleError';
+  }
+}
+
+interface LegacyScheduleConfig {
+  enabled: boolean;
+  time: string;
+  timezone: string;
+  nextRun: string;
+  oneTime?: boolean;
+  date?: string | null;
+  lastRun?: string;
+}
+
+function fromLegacyConfig(legacy: LegacyScheduleConfig, now: Date): InsertPipelineSchedule {
+  const [hours, minutes] = legacy.time.split(':').map(Number);
+  const [, month, day] = (legacy.date || '').split('-').map(Number);
+  const oneTime = Boolean(legacy.oneTime && month && day);
+  // A one-time run that already happened would otherwise fire again next year
+  const enabled = legacy.enabled && (!oneTime || new Date(legacy.nextRun) > now);
+  const cron = oneTime ? `${minutes} ${hours} ${day} ${month} *` : `${minutes} ${hours} * * *`;
+  const timezone = isValidTimeZone(legacy.timezone) ? legacy.timezone : 'America/New_York';
+
+  return {
+    name: oneTime ? 'One-time pipeline run' : 'Daily pipeline run',
+    cron,
+    timezone,
+    batchSize: 1000,
+    sources: [],
+    enabled,
+    oneTime,
+    misfirePolicy: 'run-once',
+    nextRun: enabled ? nextCronRun(cron, timezone, now).toISOString() : null,
+    lastRun: legacy.lastRun ?? null,
+  };
+}
+
+export async function loadSchedules(): Promise<PipelineSchedule[]> {
+  return storage.getPipelineSchedules();
+}
+
+export async function getSchedule(id: number): Promise<PipelineSchedule> {
+  const schedule = await storage.getPipelineSchedule(id);
+  if (!schedule) {
+    throw new ScheduleNotFoundError(id);
+  }
+  return schedule;
+}
+
+async function validateSchedule(input: PipelineScheduleInput): Promise<void> {
+  try {
+    parseCron(input.cron);
+  } catch (error) {
+    if (error instanceof CronExpressionError) {
+      throw new InvalidScheduleError(error.message);
+    }
+    throw error;
+  }
+  if (!isValidTimeZone(input.timezone)) {
+    throw new InvalidScheduleError(`Unknown timezone: ${input.timezone}`);
+  }
+
+  if (input.sources.length > 0) {
+    const known = new Set((await loadJobSourceConfigs()).map(config => config.name));
+    const unknown = input.sources.filter(source => !known.has(source));
+    if (unknown.length > 0) {
+      throw new InvalidScheduleError(`Unknown job sources: ${unknown.join(', ')}`);
+    }
+  }
+  if (input.profile) {
+    try {
+      await getAlgoliaProfile(input.profile);
+    } catch (error) {
+      if (error instanceof ProfileNotFoundError) {
+        throw new InvalidScheduleError(error.message);
+      }
+      throw error;
+    }
+  }
+}
+
+function scheduleNextRun(input: PipelineScheduleInput, now: Date): string | null {
+  return input.enabled ? nextCronRun(input.cron, input.timezone, now).toISOString() : null;
+}
+
+export async function createSchedule(body: unknown): Promise<PipelineSchedule> {
+  const input = pipelineScheduleInputSchema.parse(body);
+  await validateSchedule(input);
+
+  return storage.createPipelineSchedule({
+    ...input,
+    nextRun: scheduleNextRun(input, new Date()),
+    lastRun: null,
+  });
+}
+
+/**
+ * Applies the given fields to a schedule. The next run is recomputed from
+ * now, so re-enabling a schedule never fires a run it missed while disabled.
+ * When the body carries the version it was read at, a schedule changed since
+ * then is rejected with ScheduleVersionConflictError.
+ */
+export async function updateSchedule(id: number, body: unknown): Promise<PipelineSchedule> {
+  const { version, ...changes } = pipelineScheduleUpdateSchema.parse(body);
+  const { id: _id, nextRun: _nextRun, lastRun: _lastRun, version: current, createdAt: _createdAt, updatedAt: _updatedAt, ...fields } = await getSchedule(id);
+  if (version !== undefined && version !== current) {
+    throw new ScheduleVersionConflictError(id, current);
+  }
+
+  const input = pipelineScheduleInputSchema.parse({ ...fields, ...changes });
+  await validateSchedule(input);
+
+  const updated = await storage.updatePipelineSchedule(id, {
+    ...input,
+    nextRun: scheduleNextRun(input, new Date()),
+  }, current);
+  if (!updated) {
+    throw new ScheduleNotFoundError(id);
+  }
+  return updated;
+}
+
+export async function deleteSchedule(id: number): Promise<void> {
+  if (!await storage.deletePipelineSchedule(id)) {
+    throw new ScheduleNotFoundError(id);
+  }
+}
+
+/**
+ * Moves a schedule on to its first run after `after`, recording `ranAt` as its
+ * last run when it fired. One-time schedules are disabled instead. An edit
+ * saved in between is re-read rather than overwritten.
+ */
+async function advanceSchedule(id: number, after: Date, ranAt: Date | null): Promise<PipelineSchedule> {
+  for (let attempt = 1; ; attempt++) {
+    const schedule = await getSchedule(id);
+    const updates: Partial<InsertPipelineSchedule> = schedule.oneTime
+      ? { enabled: false, nextRun: null }
+      : { nextRun: nextCronRun(schedule.cron, schedule.timezone, after).toISOString() };
+    if (ranAt) {
+      updates.lastRun = ranAt.toISOString();
+    }
+
+    try {
+      const advanced = await storage.updatePipelineSchedule(id, updates, schedule.version);
+      if (!advanced) {
+        throw new ScheduleNotFoundError(id);
+      }
+      return advanced;
+    } catch (error) {
+      if (!(error instanceof ScheduleVersionConflictError) || attempt >= MAX_ADVANCE_ATTEMPTS) {
+        throw error;
+      }
+    }
+  }
+}
+
+export async function recordScheduleRun(id: number, ranAt: Date): Promise<PipelineSchedule> {
+  return advanceSchedule(id, ranAt, ranAt);
+}
+
+// Moves past missed runs without running them
+export async function skipScheduleRuns(id: number, now: Date): Promise<PipelineSchedule> {
+  return advanceSchedule(id, now, null);
+}
+
+interface LegacySchedules {
+  origin: string;
+  schedules: InsertPipelineSchedule[];
+  file?: string; // Renamed once its schedules are in storage
+}
+
+async function readJsonFile(file: string): Promise<any> {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf8'));
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return undefined;
+    }
+    throw new Error(`Failed to read ${path.basename(file)}: ${error.message}`);
+  }
+}
+
+// The newest legacy schedule found: schedules.json, then schedule-config.json, then the activity log
+async function findLegacySchedules(now: Date): Promise<LegacySchedules | null> {
+  const named = await readJsonFile(SCHEDULES_FILE);
+  if (named !== undefined) {
+    const schedules = (Array.isArray(named) ? named : named.schedules || [])
+      .map((schedule: unknown) => insertPipelineScheduleSchema.parse(schedule));
+    return { origin: 'schedules.json', schedules, file: SCHEDULES_FILE };
+  }
+
+  const legacy = await readJsonFile(LEGACY_SCHEDULE_FILE);
+  if (legacy !== undefined) {
+    return { origin: 'schedule-config.json', schedules: [fromLegacyConfig(legacy, now)], file: LEGACY_SCHEDULE_FILE };
+  }
+
+  // The scheduler also logged each saved config; logs from before an earlier migration are ignored
+  for (const log of await storage.getRecentActivityLogs(100)) {
+    if (log.message.startsWith(MIGRATION_LOG_PREFIX)) {
+      break;
+    }
+    if (log.message.startsWith(LEGACY_LOG_PREFIX)) {
+      const config = JSON.parse(log.message.slice(LEGACY_LOG_PREFIX.length));
+      return { origin: 'the activity log', schedules: [fromLegacyConfig(config, now)] };
+    }
+  }
+  return null;
+}
+
+/**
+ * Copies schedules saved in the old formats into storage. It runs only while
+ * storage holds no schedules, and renames the file it read to *.migrated, so
+ * it happens once. Returns how many schedules it migrated.
+ *
+ * The Azure SQL migration copies schedule_config without its stale nextRun,
+ * so an enabled schedule with no next run gets one computed from now.
+ */
+export async function migrateLegacySchedules(): Promise<number> {
+  const now = new Date();
+  const existing = await storage.getPipelineSchedules();
+  if (existing.length > 0) {
+    for (const schedule of existing) {
+      if (schedule.enabled && !schedule.nextRun) {
+        const nextRun = nextCronRun(schedule.cron, schedule.timezone, now).toISOString();
+        await storage.updatePipelineSchedule(schedule.id, { nextRun }, schedule.version);
+      }
+    }
+    return 0;
+  }
+  const legacy = await findLegacySchedules(now);
+  if (!legacy) {
+    return 0;
+  }
+
+  for (const schedule of legacy.schedules) {
+    await storage.createPipelineSchedule(schedule);
+  }
+  if (legacy.file) {
+    await fs.rename(legacy.file, `${legacy.file}.migrated`);
+  }
+
+  const names = legacy.schedules.map(schedule => `"${schedule.name}"`).join(', ');
+  console.log(`📋 Migrated schedules from ${legacy.origin}: ${names}`);
+  await storage.createActivityLog({
+    message: `${MIGRATION_LOG_PREFIX} from ${legacy.origin}: ${names}`,
+    level: 'info'
+  });
+  return legacy.schedules.length;
+}
@@ -0,0 +1,880 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import type {
+  JobPosting,
+  InsertJobPosting,
+  PipelineExecution,
+  InsertPipelineExecution,
+  ActivityLog,
+  InsertActivityLog,
+  PipelineJobCheckpoint,
+  InsertPipelineJobCheckpoint,
+  PipelineRunLock,
+  PendingJobRemoval,
+  InsertPendingJobRemoval,
+  PendingRemovalStatus,
+  PipelineChange,
+  InsertPipelineChange,
+  PipelineSchedule,
+  InsertPipelineSchedule,
+} from '@shared/schema';
+import type { IStorage, JobPostingHashes, JobPostingListOptions, RunLockAcquisition, NearestJobOptions, JobPostingWithDistance, JobPostingUpsertResult, ChangesetWrite, PipelineExecutionListOptions, PipelineExecutionPage, JobPostingFilters, JobPostingQuery, JobPostingPage, JobPostingFacets, JobPostingFacetOptions, FacetCount, GeoBounds, GeoPoint } from './storage';
+import { cityFacetLabel, decodeJobCursor, escapeLikePattern, toJobPostingPage, toPipelineSchedule, toPipelineScheduleRow, ScheduleVersionConflictError } from './storage';
+import { haversineKm } from './geo';
+
+export const DEFAULT_SQLITE_PATH = path.join(process.cwd(), 'data', 'jobs.db');
+
+export function isSqliteUrl(url: string | undefined): boolean {
+  return !!url && /^(sqlite|file):/.test(url);
+}
+
+// "sqlite:./data/jobs.db", "file:./data/jobs.db" and "sqlite::memory:" all name a database file
+export function sqlitePathFromUrl(url: string): string {
+  return url.replace(/^(sqlite|file):(\/\/)?/, '') || DEFAULT_SQLITE_PATH;
+}
+
+// Tables mirror shared/schema.ts column for column; dates are ISO strings and booleans are 0/1
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS job_posting_listings (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    job_id TEXT NOT NULL UNIQUE,
+    job_url TEXT NOT NULL,
+    title TEXT NOT NULL,
+    city TEXT,
+    state TEXT,
+    country TEXT,
+    zipcode TEXT,
+    latitude TEXT,
+    longitude TEXT,
+    location_point TEXT,
+    description TEXT,
+    company_name TEXT,
+    source TEXT NOT NULL DEFAULT 'algolia',
+    last_day_to_apply TEXT,
+    content_hash TEXT,
+    location_hash TEXT,
+    status TEXT NOT NULL DEFAULT 'active',
+    is_expired INTEGER NOT NULL DEFAULT 0,
+    first_seen TEXT,
+    last_seen TEXT,
+    removed_at TEXT,
+    created_at TEXT,
+    updated_at TEXT
+  );
+  CREATE INDEX IF NOT EXISTS job_posting_listings_status ON job_posting_listings(status, removed_at);
+  CREATE INDEX IF NOT EXISTS job_posting_listings_created ON job_posting_listings(created_at);
+
+  CREATE TABLE IF NOT EXISTS pipeline_executions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    status TEXT NOT NULL,
+    startTime TEXT NOT NULL,
+    endTime TEXT,
+    totalJobs INTEGER DEFAULT 0,
+    processedJobs INTEGER DEFAULT 0,
+    newJobs INTEGER DEFAULT 0,
+    updatedJobs INTEGER DEFAULT 0,
+    removedJobs INTEGER DEFAULT 0,
+    pendingRemovals INTEGER DEFAULT 0,
+    errorMessage TEXT,
+    currentStep TEXT,
+    triggerSource TEXT NOT NULL DEFAULT 'manual'
+  );
+  CREATE INDEX IF NOT EXISTS pipeline_executions_start ON pipeline_executions(startTime);
+
+  CREATE TABLE IF NOT EXISTS activity_logs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    message TEXT NOT NULL,
+    level TEXT NOT NULL,
+    timestamp TEXT NOT NULL,
+    executionId INTEGER REFERENCES pipeline_executions(id)
+  );
+  CREATE INDEX IF NOT EXISTS activity_logs_execution ON activity_logs(executionId, id);
+
+  CREATE TABLE IF NOT EXISTS pipeline_job_checkpoints (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    executionId INTEGER NOT NULL REFERENCES pipeline_executions(id),
+    jobId TEXT NOT NULL,
+    stage TEXT NOT NULL,
+    action TEXT NOT NULL DEFAULT 'create',
+    sourceData TEXT NOT NULL,
+    enrichedData TEXT,
+    errorMessage TEXT,
+    updatedAt TEXT NOT NULL,
+    UNIQUE (executionId, jobId)
+  );
+
+  CREATE TABLE IF NOT EXISTS us_zipcodes (
+    postal_code TEXT PRIMARY KEY,
+    city TEXT NOT NULL,
+    state TEXT NOT NULL,
+    state_abbrev TEXT NOT NULL,
+    latitude REAL NOT NULL,
+    longitude REAL NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS pipeline_run_locks (
+    name TEXT PRIMARY KEY,
+    ownerId TEXT NOT NULL,
+    executionId INTEGER,
+    acquiredAt TEXT NOT NULL,
+    heartbeatAt TEXT NOT NULL,
+    expiresAt TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS pending_job_removals (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    executionId INTEGER NOT NULL REFERENCES pipeline_executions(id),
+    jobId TEXT NOT NULL,
+    title TEXT,
+    status TEXT NOT NULL DEFAULT 'pending',
+    createdAt TEXT NOT NULL,
+    resolvedAt TEXT
+  );
+  CREATE INDEX IF NOT EXISTS pending_job_removals_status ON pending_job_removals(status, executionId);
+
+  CREATE TABLE IF NOT EXISTS pipeline_changes (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    executionId INTEGER NOT NULL REFERENCES pipeline_executions(id),
+    jobId TEXT NOT NULL,
+    action TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'planned',
+    "before" TEXT,
+    "after" TEXT,
+    appliedAt TEXT,
+    rolledBackAt TEXT,
+    UNIQUE (executionId, jobId)
+  );
+
+  CREATE TABLE IF NOT EXISTS pipeline_schedules (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,
+    cron TEXT NOT NULL,
+    timezone TEXT NOT NULL,
+    batchSize INTEGER NOT NULL,
+    sources TEXT NOT NULL DEFAULT '[]',
+    profile TEXT,
+    enabled INTEGER NOT NULL,
+    oneTime INTEGER NOT NULL DEFAULT 0,
+    misfirePolicy TEXT NOT NULL DEFAULT 'run-once',
+    nextRun TEXT,
+    lastRun TEXT,
+    version INTEGER NOT NULL DEFAULT 1,
+    createdAt TEXT NOT NULL,
+    updatedAt TEXT NOT NULL
+  );
+`;
+
+// Maps camelCase job posting fields to their snake_case columns
+const JOB_COLUMNS: Record<string, string> = {
+  jobId: 'job_id',
+  jobUrl: 'job_url',
+  title: 'title',
+  city: 'city',
+  state: 'state',
+  country: 'country',
+  zipcode: 'zipcode',
+  latitude: 'latitude',
+  longitude: 'longitude',
+  locationPoint: 'location_point',
+  description: 'description',
+  companyName: 'company_name',
+  source: 'source',
+  lastDayToApply: 'last_day_to_apply',
+  contentHash: 'content_hash',
+  locationHash: 'location_hash',
+};
+
+// Columns added after the first release; CREATE TABLE IF NOT EXISTS leaves older files without them
+const ADDED_COLUMNS: [table: string, column: string, definition: string][] = [
+  ['pipeline_executions', 'triggerSource', "TEXT NOT NULL DEFAULT 'manual'"],
+];
+
+const EXECUTION_COLUMNS = [
+  'status', 'startTime', 'endTime', 'totalJobs', 'processedJobs', 'newJobs',
+  'updatedJobs', 'removedJobs', 'pendingRemovals', 'errorMessage', 'currentStep', 'triggerSource',
+] as const;
+
+function toSqlValue(value: unknown): unknown {
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  return value ?? null;
+}
+
+function toDate(value: string | null): Date | null {
+  return value ? new Date(value) : null;
+}
+
+function toLocationPoint(latitude: string | null | undefined, longitude: string | null | undefined): string | null {
+  return latitude && longitude ? `POINT(${longitude} ${latitude})` : null;
+}
+
+/**
+ * File-backed IStorage for offline development and demos. It needs no
+ * server: the database file and tables are created on first use. Calls are
+ * synchronous under the hood, which is fine for a single local process.
+ */
+export class SQLiteStorage implements IStorage {
+  private db: Database.Database;
+
+  constructor(filename = DEFAULT_SQLITE_PATH) {
+    if (filename !== ':memory:') {
+      fs.mkdirSync(path.dirname(filename), { recursive: true });
+    }
+    this.db = new Database(filename);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('foreign_keys = ON');
+    this.db.function('distance_km', { deterministic: true }, (lat1: number, lng1: number, lat2: number, lng2: number) =>
+      haversineKm(lat1, lng1, lat2, lng2));
+    this.db.exec(SCHEMA);
+    for (const [table, column, definition] of ADDED_COLUMNS) {
+      const columns = this.db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+      if (!columns.some(existing => existing.name === column)) {
+        this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+      }
+    }
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private convertJobPosting(row: any): JobPosting {
+    return {
+      id: row.id,
+      jobId: row.job_id,
+      jobUrl: row.job_url,
+      title: row.title,
+      city: row.city,
+      state: row.state,
+      country: row.country,
+      zipcode: row.zipcode,
+      latitude: row.latitude,
+      longitude: row.longitude,
+      locationPoint: row.location_point,
+      description: row.description,
+      companyName: row.company_name,
+      source: row.source,
+      lastDayToApply: row.last_day_to_apply,
+      contentHash: row.content_hash,
+      locationHash: row.location_hash,
+      status: row.status,
+      isExpired: row.is_expired === 1,
+      firstSeen: toDate(row.first_seen),
+      lastSeen: toDate(row.last_seen),
+      removedAt: toDate(row.removed_at),
+      createdAt: toDate(row.created_at),
+      updatedAt: toDate(row.updated_at),
+    };
+  }
+
+  private convertPipelineExecution(row: any): PipelineExecution {
+    return {
+      ...row,
+      startTime: new Date(row.startTime),
+      endTime: toDate(row.endTime),
+    };
+  }
+
+  async getAllJobPostings(options: JobPostingListOptions = {}): Promise<JobPosting[]> {
+    const where = options.includeRemoved ? '' : "WHERE status = 'active'";
+    return this.db.prepare(`SELECT * FROM job_posting_listings ${where} ORDER BY id DESC`)
+      .all()
+      .map(row => this.convertJobPosting(row));
+  }
+
+  // WHERE conditions shared by job queries and facets, with their named parameters
+  private jobFilterConditions(filters: JobPostingFilters) {
+    const conditions: string[] = [];
+    const params: Record<string, unknown> = {};
+    if (!filters.includeRemoved) {
+      conditions.push("status = 'active'");
+    }
+    for (const [field, column] of [['title', 'title'], ['company', 'company_name']] as const) {
+      if (filters[field]) {
+        conditions.push(`${column} LIKE @${field} ESCAPE '\\'`); // LIKE ignores ASCII case
+        params[field] = `%${escapeLikePattern(filters[field]!)}%`;
+      }
+    }
+    for (const field of ['city', 'state', 'country'] as const) {
+      if (filters[field]) {
+        conditions.push(`${field} = @${field} COLLATE NOCASE`);
+        params[field] = filters[field];
+      }
+    }
+    for (const field of ['zipcode', 'source'] as const) {
+      if (filters[field]) {
+        conditions.push(`${field} = @${field}`);
+        params[field] = filters[field];
+      }
+    }
+    // created_at is stored as ISO 8601 in UTC, so string order is time order
+    if (filters.createdAfter) {
+      conditions.push('created_at >= @createdAfter');
+      params.createdAfter = filters.createdAfter.toISOString();
+    }
+    if (filters.createdBefore) {
+      conditions.push('created_at < @createdBefore');
+      params.createdBefore = filters.createdBefore.toISOString();
+    }
+    return { conditions, params };
+  }
+
+  async queryJobPostings(query: JobPostingQuery): Promise<JobPostingPage> {
+    const { conditions, params } = this.jobFilterConditions(query);
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const { total } = this.db.prepare(`SELECT COUNT(*) AS total FROM job_posting_listings ${where}`).get(params) as { total: number };
+
+    // Text columns sort nulls as ''; created_at is always set, so it can use its index
+    const sort = query.sort ?? 'createdAt';
+    const sortColumn = sort === 'createdAt' ? 'created_at' : `COALESCE(${JOB_COLUMNS[sort]}, '')`;
+    const direction = query.order === 'asc' ? 'ASC' : 'DESC';
+    const pageConditions = [...conditions];
+    if (query.cursor) {
+      const comparison = direction === 'ASC' ? '>' : '<';
+      pageConditions.push(`(${sortColumn} ${comparison} @cursorValue OR (${sortColumn} = @cursorValue AND id ${comparison} @cursorId))`);
+      const cursor = decodeJobCursor(query.cursor);
+      params.cursorValue = cursor.value;
+      params.cursorId = cursor.id;
+    }
+    params.limit = (query.limit ?? 50) + 1;
+    params.offset = query.cursor ? 0 : query.offset ?? 0;
+    const pageWhere = pageConditions.length > 0 ? `WHERE ${pageConditions.join(' AND ')}` : '';
+    const rows = this.db.prepare(`
+      SELECT * FROM job_posting_listings ${pageWhere}
+      ORDER BY ${sortColumn} ${direction}, id ${direction}
+      LIMIT @limit OFFSET @offset
+    `).all(params);
+    return toJobPostingPage(rows.map(row => this.convertJobPosting(row)), total, query);
+  }
+
+  async getJobPostingFacets(filters: JobPostingFilters, options: JobPostingFacetOptions = {}): Promise<JobPostingFacets> {
+    const { conditions, params } = this.jobFilterConditions(filters);
+    const where = (...extra: string[]) => {
+      const all = [...conditions, ...extra];
+      return all.length > 0 ? `WHERE ${all.join(' AND ')}` : '';
+    };
+    const top = (column: string) => this.db.prepare(`
+      SELECT ${column} AS value, COUNT(*) AS count FROM job_posting_listings
+      ${where(`${column} IS NOT NULL`, `${column} <> ''`)}
+      GROUP BY ${column}
+      ORDER BY count DESC, value
+      LIMIT @top
+    `).all({ ...params, top: options.top ?? 10 }) as FacetCount[];
+
+    const cities = this.db.prepare(`
+      SELECT city, state, COUNT(*) AS count FROM job_posting_listings
+      ${where('city IS NOT NULL', "city <> ''")}
+      GROUP BY city, state
+      ORDER BY count DESC, city, state
+      LIMIT @top
+    `).all({ ...params, top: options.top ?? 10 }) as { city: string; state: string | null; count: number }[];
+
+    // created_at is ISO 8601 in UTC; 'weekday 0', '-6 days' moves to the Monday on or before it
+    const bucket = {
+      day: 'substr(created_at, 1, 10)',
+      week: "date(created_at, 'weekday 0', '-6 days')",
+      month: 'substr(created_at, 1, 7)',
+    }[options.bucket ?? 'day'];
+    const created = this.db.prepare(`
+      SELECT ${bucket} AS value, COUNT(*) AS count FROM job_posting_listings
+      ${where('created_at IS NOT NULL')}
+      GROUP BY value
+      ORDER BY value
+    `).all(params) as FacetCount[];
+
+    const { total } = this.db.prepare(`SELECT COUNT(*) AS total FROM job_posting_listings ${where()}`).get(params) as { total: number };
+    return {
+      total,
+      state: top('state'),
+      city: cities.map(({ city, state, count }) => ({ value: cityFacetLabel(city, state), count })),
+      company: top('company_name'),
+      country: top('country'),
+      source: top('source'),
+      created,
+    };
+  }
+
+  async getJobPostingByJobID(jobID: string): Promise<JobPosting | undefined> {
+    const row = this.db.prepare('SELECT * FROM job_posting_listings WHERE job_id = ?').get(jobID);
+    return row ? this.convertJobPosting(row) : undefined;
+  }
+
+  async createJobPosting(job: InsertJobPosting): Promise<JobPosting> {
+    const values: Record<string, unknown> = { ...job, locationPoint: toLocationPoint(job.latitude, job.longitude) };
+    const fields = Object.keys(JOB_COLUMNS).filter(field => values[field] !== undefined);
+    const now = new Date().toISOString();
+
+    const row = this.db.prepare(`
+      INSERT INTO job_posting_listings (${fields.map(field => JOB_COLUMNS[field]).join(', ')}, first_seen, last_seen, created_at)
+      VALUES (${fields.map(field => `@${field}`).join(', ')}, @now, @now, @now)
+      RETURNING *
+    `).get({ ...Object.fromEntries(fields.map(field => [field, toSqlValue(values[field])])), now });
+    return this.convertJobPosting(row);
+  }
+
+  async updateJobPosting(jobID: string, updates: Partial<InsertJobPosting>): Promise<JobPosting> {
+    const values: Record<string, unknown> = { ...updates };
+    if (updates.latitude !== undefined || updates.longitude !== undefined) {
+      values.locationPoint = toLocationPoint(updates.latitude, updates.longitude);
+    }
+    const fields = Object.keys(JOB_COLUMNS).filter(field => values[field] !== undefined);
+
+    const row = this.db.prepare(`
+      UPDATE job_posting_listings
+      SET ${[...fields.map(field => `${JOB_COLUMNS[field]} = @${field}`), 'updated_at = @now'].join(', ')}
+      WHERE job_id = @jobID
+      RETURNING *
+    `).get({
+      ...Object.fromEntries(fields.map(field => [field, toSqlValue(values[field])])),
+      now: new Date().toISOString(),
+      jobID,
+    });
+
+    if (!row) {
+      throw new Error(`Job posting ${jobID} not found`);
+    }
+    return this.convertJobPosting(row);
+  }
+
+  async upsertJobPostings(jobs: InsertJobPosting[]): Promise<JobPostingUpsertResult[]> {
+    const upsert = this.prepareJobPostingUpsert();
+
+    // A failed statement only rolls back itself, so one bad row doesn't undo the rest of the batch
+    return this.db.transaction(() => jobs.map((job): JobPostingUpsertResult => {
+      try {
+        return { jobId: job.jobId, outcome: upsert(job) };
+      } catch (error: any) {
+        return { jobId: job.jobId, outcome: 'failed', error: error.message };
+      }
+    }))();
+  }
+
+  // Returns a function that writes one posting and reports whether it was new; it throws when the row is invalid
+  private prepareJobPostingUpsert(): (job: InsertJobPosting) => 'inserted' | 'updated' {
+    const fields = Object.keys(JOB_COLUMNS);
+    const exists = this.db.prepare('SELECT 1 FROM job_posting_listings WHERE job_id = ?').pluck();
+    const upsert = this.db.prepare(`
+      INSERT INTO job_posting_listings (${fields.map(field => JOB_COLUMNS[field]).join(', ')}, first_seen, last_seen, created_at)
+      VALUES (${fields.map(field => `@${field}`).join(', ')}, @now, @now, @now)
+      ON CONFLICT (job_id) DO UPDATE SET
+        ${[...fields.filter(field => field !== 'jobId').map(field => `${JOB_COLUMNS[field]} = excluded.${JOB_COLUMNS[field]}`), 'updated_at = @now'].join(', ')}
+    `);
+
+    return (job) => {
+      const values: Record<string, unknown> = {
+        ...job,
+        source: job.source || 'algolia',
+        locationPoint: toLocationPoint(job.latitude, job.longitude),
+      };
+      const outcome = exists.get(job.jobId) ? 'updated' : 'inserted';
+      upsert.run({
+        ...Object.fromEntries(fields.map(field => [field, toSqlValue(values[field])])),
+        now: new Date().toISOString(),
+      });
+      return outcome;
+    };
+  }
+
+  async deleteJobPosting(jobID: string): Promise<void> {
+    this.db.prepare('DELETE FROM job_posting_listings WHERE job_id = ?').run(jobID);
+  }
+
+  // Job IDs are passed as a JSON array so large lists don't hit SQLite's variable limit
+  async deleteJobPostingsByJobIDs(jobIDs: string[]): Promise<void> {
+    if (jobIDs.length === 0) return;
+    this.db.prepare('DELETE FROM job_posting_listings WHERE job_id IN (SELECT value FROM json_each(?))')
+      .run(JSON.stringify(jobIDs));
+  }
+
+  async markJobPostingsSeen(jobIDs: string[]): Promise<number> {
+    if (jobIDs.length === 0) return 0;
+    const ids = JSON.stringify(jobIDs);
+    const now = new Date().toISOString();
+
+    return this.db.transaction(() => {
+      const reactivated = this.db.prepare(`
+        UPDATE job_posting_listings
+        SET status = 'active', is_expired = 0, removed_at = NULL
+        WHERE status = 'removed' AND job_id IN (SELECT value FROM json_each(?))
+      `).run(ids).changes;
+
+      this.db.prepare('UPDATE job_posting_listings SET last_seen = ? WHERE job_id IN (SELECT value FROM json_each(?))')
+        .run(now, ids);
+      return reactivated;
+    })();
+  }
+
+  async markJobPostingsRemoved(jobIDs: string[]): Promise<void> {
+    if (jobIDs.length === 0) return;
+    this.db.prepare(`
+      UPDATE job_posting_listings
+      SET status = 'removed', is_expired = 1, removed_at = ?
+      WHERE status <> 'removed' AND job_id IN (SELECT value FROM json_each(?))
+    `).run(new Date().toISOString(), JSON.stringify(jobIDs));
+  }
+
+  async backfillJobPostingHashes(hashes: JobPostingHashes[]): Promise<void> {
+    const backfill = this.db.prepare(`
+      UPDATE job_posting_listings
+      SET content_hash = @contentHash, location_hash = COALESCE(location_hash, @locationHash)
+      WHERE job_id = @jobId AND content_hash IS NULL
+    `);
+    this.db.transaction(() => {
+      hashes.forEach(hash => backfill.run(hash));
+    })();
+  }
+
+  async purgeRemovedJobPostings(removedBefore: Date): Promise<number> {
+    return this.db.prepare("DELETE FROM job_posting_listings WHERE status = 'removed' AND removed_at < ?")
+      .run(removedBefore.toISOString()).changes;
+  }
+
+  // Full scan with a haversine UDF; fine for the few thousand postings a local database holds
+  async findNearestJobPostings(latitude: number, longitude: number, options: NearestJobOptions = {}): Promise<JobPostingWithDistance[]> {
+    const rows = this.db.prepare(`
+      SELECT * FROM (
+        SELECT *, distance_km(@latitude, @longitude, CAST(latitude AS REAL), CAST(longitude AS REAL)) AS distance_km
+        FROM job_posting_listings
+        WHERE status = 'active' AND latitude IS NOT NULL AND longitude IS NOT NULL
+      )
+      WHERE @radiusKm IS NULL OR distance_km <= @radiusKm
+      ORDER BY distance_km
+      LIMIT @limit
+    `).all({ latitude, longitude, radiusKm: options.radiusKm ?? null, limit: options.limit ?? 20 });
+
+    return rows.map((row: any) => ({ ...this.convertJobPosting(row), distanceKm: row.distance_km }));
+  }
+
+  async findJobPostingsInBounds(bounds: GeoBounds, limit = 500): Promise<JobPosting[]> {
+    const longitudeCondition = bounds.west <= bounds.east
+      ? 'CAST(longitude AS REAL) BETWEEN @west AND @east'
+      : '(CAST(longitude AS REAL) >= @west OR CAST(longitude AS REAL) <= @east)';
+    return this.db.prepare(`
+      SELECT * FROM job_posting_listings
+      WHERE status = 'active' AND latitude IS NOT NULL AND longitude IS NOT NULL
+        AND CAST(latitude AS REAL) BETWEEN @south AND @north AND ${longitudeCondition}
+      ORDER BY id DESC
+      LIMIT @limit
+    `).all({ ...bounds, limit }).map(row => this.convertJobPosting(row));
+  }
+
+  async getZipcodeLocation(zipcode: string): Promise<GeoPoint | undefined> {
+    return this.db.prepare('SELECT latitude, longitude FROM us_zipcodes WHERE postal_code = ?').get(zipcode) as GeoPoint | undefined;
+  }
+
+  async createPendingRemovals(removals: InsertPendingJobRemoval[]): Promise<void> {
+    const insert = this.db.prepare(`
+      INSERT INTO pending_job_removals (executionId, jobId, title, status, createdAt)
+      VALUES (?, ?, ?, 'pending', ?)
+    `);
+    const now = new Date().toISOString();
+    this.db.transaction(() => {
+      for (const removal of removals) {
+        insert.run(removal.executionId, removal.jobId, removal.title || null, now);
+      }
+    })();
+  }
+
+  async getPendingRemovals(): Promise<PendingJobRemoval[]> {
+    return this.db.prepare("SELECT * FROM pending_job_removals WHERE status = 'pending' ORDER BY id")
+      .all()
+      .map(this.convertPendingRemoval);
+  }
+
+  async resolvePendingRemovals(status: Exclude<PendingRemovalStatus, 'pending'>, executionId?: number): Promise<PendingJobRemoval[]> {
+    return this.db.prepare(`
+      UPDATE pending_job_removals
+      SET status = @status, resolvedAt = @now
+      WHERE status = 'pending' AND (@executionId IS NULL OR executionId = @executionId)
+      RETURNING *
+    `).all({ status, now: new Date().toISOString(), executionId: executionId ?? null })
+      .map(this.convertPendingRemoval);
+  }
+
+  private convertPendingRemoval(row: any): PendingJobRemoval {
+    return { ...row, createdAt: new Date(row.createdAt), resolvedAt: toDate(row.resolvedAt) };
+  }
+
+  async createPipelineExecution(execution: InsertPipelineExecution): Promise<PipelineExecution> {
+    const fields = EXECUTION_COLUMNS.filter(field => execution[field] !== undefined);
+    const row = this.db.prepare(`
+      INSERT INTO pipeline_executions (${fields.join(', ')})
+      VALUES (${fields.map(field => `@${field}`).join(', ')})
+      RETURNING *
+    `).get(Object.fromEntries(fields.map(field => [field, toSqlValue(execution[field])])));
+    return this.convertPipelineExecution(row);
+  }
+
+  async updatePipelineExecution(id: number, updates: Partial<PipelineExecution>): Promise<PipelineExecution> {
+    const fields = EXECUTION_COLUMNS.filter(field => updates[field] !== undefined);
+    const row = fields.length > 0
+      ? this.db.prepare(`
+          UPDATE pipeline_executions
+          SET ${fields.map(field => `${field} = @${field}`).join(', ')}
+          WHERE id = @id
+          RETURNING *
+        `).get({ ...Object.fromEntries(fields.map(field => [field, toSqlValue(updates[field])])), id })
+      : this.db.prepare('SELECT * FROM pipeline_executions WHERE id = ?').get(id);
+
+    if (!row) {
+      throw new Error(`Pipeline execution with id ${id} not found`);
+    }
+    return this.convertPipelineExecution(row);
+  }
+
+  async getLatestPipelineExecution(): Promise<PipelineExecution | undefined> {
+    const row = this.db.prepare('SELECT * FROM pipeline_executions ORDER BY id DESC LIMIT 1').get();
+    return row ? this.convertPipelineExecution(row) : undefined;
+  }
+
+  async getPipelineExecution(id: number): Promise<PipelineExecution | undefined> {
+    const row = this.db.prepare('SELECT * FROM pipeline_executions WHERE id = ?').get(id);
+    return row ? this.convertPipelineExecution(row) : undefined;
+  }
+
+  async listPipelineExecutions(options: PipelineExecutionListOptions = {}): Promise<PipelineExecutionPage> {
+    const conditions: string[] = [];
+    const params: Record<string, unknown> = { limit: options.limit ?? 20, offset: options.offset ?? 0 };
+    if (options.status) {
+      conditions.push('status = @status');
+      params.status = options.status;
+    }
+    // startTime is stored as ISO 8601 in UTC, so string order is time order
+    if (options.startedAfter) {
+      conditions.push('startTime >= @startedAfter');
+      params.startedAfter = options.startedAfter.toISOString();
+    }
+    if (options.startedBefore) {
+      conditions.push('startTime < @startedBefore');
+      params.startedBefore = options.startedBefore.toISOString();
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const { total } = this.db.prepare(`SELECT COUNT(*) AS total FROM pipeline_executions ${where}`).get(params) as { total: number };
+    const rows = this.db.prepare(`SELECT * FROM pipeline_executions ${where} ORDER BY id DESC LIMIT @limit OFFSET @offset`).all(params);
+    return { executions: rows.map(row => this.convertPipelineExecution(row)), total };
+  }
+
+  async createJobCheckpoints(checkpoints: InsertPipelineJobCheckpoint[]): Promise<void> {
+    const insert = this.db.prepare(`
+      INSERT INTO pipeline_job_checkpoints (executionId, jobId, stage, action, sourceData, enrichedData, errorMessage, updatedAt)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const now = new Date().toISOString();
+    this.db.transaction(() => {
+      for (const checkpoint of checkpoints) {
+        insert.run(
+          checkpoint.executionId,
+          checkpoint.jobId,
+          checkpoint.stage,
+          checkpoint.action || 'create',
+          checkpoint.sourceData,
+          checkpoint.enrichedData || null,
+          checkpoint.errorMessage || null,
+          now,
+        );
+      }
+    })();
+  }
+
+  async updateJobCheckpoint(executionId: number, jobId: string, updates: Partial<InsertPipelineJobCheckpoint>): Promise<void> {
+    const fields = (['stage', 'enrichedData', 'errorMessage'] as const).filter(field => updates[field] !== undefined);
+    this.db.prepare(`
+      UPDATE pipeline_job_checkpoints
+      SET ${[...fields.map(field => `${field} = @${field}`), 'updatedAt = @now'].join(', ')}
+      WHERE executionId = @executionId AND jobId = @jobId
+    `).run({
+      ...Object.fromEntries(fields.map(field => [field, updates[field] ?? null])),
+      now: new Date().toISOString(),
+      executionId,
+      jobId,
+    });
+  }
+
+  async getJobCheckpoints(executionId: number): Promise<PipelineJobCheckpoint[]> {
+    return this.db.prepare('SELECT * FROM pipeline_job_checkpoints WHERE executionId = ? ORDER BY id')
+      .all(executionId)
+      .map((row: any) => ({ ...row, updatedAt: new Date(row.updatedAt) }));
+  }
+
+  async createPipelineChanges(changes: InsertPipelineChange[]): Promise<void> {
+    const insert = this.db.prepare(`
+      INSERT INTO pipeline_changes (executionId, jobId, action, status, "before")
+      VALUES (?, ?, ?, 'planned', ?)
+    `);
+    this.db.transaction(() => {
+      for (const change of changes) {
+        insert.run(change.executionId, change.jobId, change.action, change.before ?? null);
+      }
+    })();
+  }
+
+  async getPipelineChanges(executionId: number): Promise<PipelineChange[]> {
+    return this.db.prepare('SELECT * FROM pipeline_changes WHERE executionId = ? ORDER BY id')
+      .all(executionId)
+      .map((row: any) => ({ ...row, appliedAt: toDate(row.appliedAt), rolledBackAt: toDate(row.rolledBackAt) }));
+  }
+
+  async commitChangeset(executionId: number, write: ChangesetWrite): Promise<void> {
+    const upsert = this.prepareJobPostingUpsert();
+    const deleteJob = this.db.prepare('DELETE FROM job_posting_listings WHERE job_id = ?');
+    const setLifecycle = this.db.prepare(`
+      UPDATE job_posting_listings SET status = @status, is_expired = @isExpired, removed_at = @removedAt WHERE job_id = @jobId
+    `);
+    const updateChange = this.db.prepare(`
+      UPDATE pipeline_changes
+      SET status = @status, "after" = COALESCE(@after, "after"), appliedAt = COALESCE(@appliedAt, appliedAt),
+          rolledBackAt = COALESCE(@rolledBackAt, rolledBackAt)
+      WHERE id = @id
+    `);
+    const saveCheckpoint = this.db.prepare(`
+      UPDATE pipeline_job_checkpoints SET stage = 'saved', updatedAt = ? WHERE executionId = ? AND jobId = ?
+    `);
+    const now = new Date().toISOString();
+
+    this.db.transaction(() => {
+      write.deletes.forEach(jobID => deleteJob.run(jobID));
+      write.upserts.forEach(job => upsert(job));
+      for (const { jobId, status, removedAt } of write.lifecycle) {
+        setLifecycle.run({ jobId, status, isExpired: status === 'removed' ? 1 : 0, removedAt: toSqlValue(removedAt) });
+      }
+      for (const change of write.changes) {
+        updateChange.run({
+          id: change.id,
+          status: change.status,
+          after: change.after ?? null,
+          appliedAt: toSqlValue(change.appliedAt),
+          rolledBackAt: toSqlValue(change.rolledBackAt),
+        });
+      }
+      write.savedCheckpoints.forEach(jobId => saveCheckpoint.run(now, executionId, jobId));
+    })();
+  }
+
+  private convertRunLock(row: any): PipelineRunLock {
+    return {
+      ...row,
+      acquiredAt: new Date(row.acquiredAt),
+      heartbeatAt: new Date(row.heartbeatAt),
+      expiresAt: new Date(row.expiresAt),
+    };
+  }
+
+  async acquireRunLock(name: string, ownerId: string, leaseMs: number): Promise<RunLockAcquisition> {
+    const now = new Date();
+    const params = {
+      name,
+      ownerId,
+      now: now.toISOString(),
+      expiresAt: new Date(now.getTime() + leaseMs).toISOString(),
+    };
+
+    // Take the lock if it is free, expired or already ours
+    this.db.prepare(`
+      INSERT INTO pipeline_run_locks (name, ownerId, executionId, acquiredAt, heartbeatAt, expiresAt)
+      VALUES (@name, @ownerId, NULL, @now, @now, @expiresAt)
+      ON CONFLICT (name) DO UPDATE
+      SET ownerId = @ownerId, executionId = NULL, acquiredAt = @now, heartbeatAt = @now, expiresAt = @expiresAt
+      WHERE pipeline_run_locks.expiresAt < @now OR pipeline_run_locks.ownerId = @ownerId
+    `).run(params);
+
+    const lock = this.convertRunLock(this.db.prepare('SELECT * FROM pipeline_run_locks WHERE name = ?').get(name));
+    return { acquired: lock.ownerId === ownerId, lock };
+  }
+
+  async heartbeatRunLock(name: string, ownerId: string, leaseMs: number, executionId?: number): Promise<boolean> {
+    const now = new Date();
+    const result = this.db.prepare(`
+      UPDATE pipeline_run_locks
+      SET heartbeatAt = @now, expiresAt = @expiresAt, executionId = COALESCE(@executionId, executionId)
+      WHERE name = @name AND ownerId = @ownerId
+    `).run({
+      name,
+      ownerId,
+      now: now.toISOString(),
+      expiresAt: new Date(now.getTime() + leaseMs).toISOString(),
+      executionId: executionId ?? null,
+    });
+    return result.changes > 0;
+  }
+
+  async releaseRunLock(name: string, ownerId: string): Promise<void> {
+    this.db.prepare('DELETE FROM pipeline_run_locks WHERE name = ? AND ownerId = ?').run(name, ownerId);
+  }
+
+  async getRunLock(name: string): Promise<PipelineRunLock | undefined> {
+    const row = this.db.prepare('SELECT * FROM pipeline_run_locks WHERE name = ?').get(name);
+    return row ? this.convertRunLock(row) : undefined;
+  }
+
+  async createActivityLog(log: InsertActivityLog): Promise<ActivityLog> {
+    const row: any = this.db.prepare(`
+      INSERT INTO activity_logs (message, level, timestamp, executionId)
+      VALUES (?, ?, ?, ?)
+      RETURNING *
+    `).get(log.message, log.level, new Date().toISOString(), log.executionId || null);
+    return { ...row, timestamp: new Date(row.timestamp) };
+  }
+
+  async getRecentActivityLogs(limit = 20, executionId?: number): Promise<ActivityLog[]> {
+    return this.db.prepare(`
+      SELECT * FROM activity_logs
+      WHERE @executionId IS NULL OR executionId = @executionId
+      ORDER BY id DESC
+      LIMIT @limit
+    `).all({ executionId: executionId ?? null, limit })
+      .map((row: any) => ({ ...row, timestamp: new Date(row.timestamp) }));
+  }
+
+  async clearActivityLogs(): Promise<void> {
+    this.db.prepare('DELETE FROM activity_logs').run();
+  }
+
+  async getPipelineSchedules(): Promise<PipelineSchedule[]> {
+    return this.db.prepare('SELECT * FROM pipeline_schedules ORDER BY id').all()
+      .map((row: any) => toPipelineSchedule(row));
+  }
+
+  async getPipelineSchedule(id: number): Promise<PipelineSchedule | undefined> {
+    const row = this.db.prepare('SELECT * FROM pipeline_schedules WHERE id = ?').get(id);
+    return row ? toPipelineSchedule(row) : undefined;
+  }
+
+  async createPipelineSchedule(schedule: InsertPipelineSchedule): Promise<PipelineSchedule> {
+    const now = new Date().toISOString();
+    const row = { ...toPipelineScheduleRow(schedule), createdAt: now, updatedAt: now };
+    const columns = Object.keys(row);
+    const params = Object.fromEntries(Object.entries(row).map(([column, value]) => [column, toSqlValue(value)]));
+    const created = this.db.prepare(`
+      INSERT INTO pipeline_schedules (${columns.join(', ')})
+      VALUES (${columns.map(column => `@${column}`).join(', ')})
+      RETURNING *
+    `).get(params);
+    return toPipelineSchedule(created as any);
+  }
+
+  async updatePipelineSchedule(id: number, updates: Partial<InsertPipelineSchedule>, expectedVersion?: number): Promise<PipelineSchedule | undefined> {
+    const row = { ...toPipelineScheduleRow(updates), updatedAt: new Date().toISOString() };
+    const params = Object.fromEntries(Object.entries(row).map(([column, value]) => [column, toSqlValue(value)]));
+    const updated = this.db.prepare(`
+      UPDATE pipeline_schedules
+      SET ${Object.keys(row).map(column => `${column} = @${column}`).join(', ')}, version = version + 1
+      WHERE id = @id AND (@expectedVersion IS NULL OR version = @expectedVersion)
+      RETURNING *
+    `).get({ ...params, id, expectedVersion: expectedVersion ?? null });
+    if (updated) {
+      return toPipelineSchedule(updated as any);
+    }
+
+    const current: any = this.db.prepare('SELECT version FROM pipeline_schedules WHERE id = ?').get(id);
+    if (current) {
+      throw new ScheduleVersionConflictError(id, current.version);
+    }
+    return undefined;
+  }
+
+  async deletePipelineSchedule(id: number): Promise<boolean> {
+    return this.db.prepare('DELETE FROM pipeline_schedules WHERE id = ?').run(id).changes > 0;
+  }
+}
@@ -0,0 +1,643 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import type { InsertJobPosting, InsertPipelineSchedule } from '@shared/schema';
+import type { IStorage } from './storage';
+
+/**
+ * How the conformance suite gets a backend. setup() runs before every test
+ * and must return a storage with no data in it.
+ */
+export interface StorageHarness {
+  name: string;
+  skip?: string | false; // Reason to skip the backend, e.g. no database configured
+  init?(): Promise<void>;
+  setup(): Promise<IStorage>;
+  restart?(): Promise<IStorage>; // A new storage on the same data, as after a server restart; omit when nothing is persisted
+  teardown?(): Promise<void>;
+}
+
+function job(jobId: string, overrides: Partial<InsertJobPosting> = {}): InsertJobPosting {
+  return {
+    jobId,
+    jobUrl: `https://jobs.example.com/${jobId}`,
+    title: `Job ${jobId}`,
+    city: 'Houston',
+    state: 'Texas',
+    country: 'United States',
+    ...overrides,
+  };
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Behavior every IStorage backend must share. Register a backend by calling
+ * this from server/storage.test.ts with a harness for it.
+ */
+export function describeStorageConformance(harness: StorageHarness) {
+  describe(`IStorage conformance: ${harness.name}`, { skip: harness.skip || false }, () => {
+    let storage: IStorage;
+
+    before(async () => {
+      await harness.init?.();
+    });
+
+    beforeEach(async () => {
+      storage = await harness.setup();
+    });
+
+    after(async () => {
+      await harness.teardown?.();
+    });
+
+    async function createExecution() {
+      return storage.createPipelineExecution({ status: 'running', startTime: new Date() });
+    }
+
+    describe('job postings', () => {
+      it('creates postings with lifecycle defaults', async () => {
+        const created = await storage.createJobPosting(job('a', { latitude: '29.76000000', longitude: '-95.37000000' }));
+
+        assert.equal(typeof created.id, 'number');
+        assert.equal(created.jobId, 'a');
+        assert.equal(created.title, 'Job a');
+        assert.equal(created.source, 'algolia');
+        assert.equal(created.status, 'active');
+        assert.equal(created.isExpired, false);
+        assert.equal(created.removedAt, null);
+        assert.ok(created.firstSeen instanceof Date);
+        assert.ok(created.createdAt instanceof Date);
+        assert.equal(created.locationPoint, 'POINT(-95.37000000 29.76000000)');
+      });
+
+      it('finds postings by job ID', async () => {
+        await storage.createJobPosting(job('a', { companyName: 'Acme' }));
+
+        const found = await storage.getJobPostingByJobID('a');
+        assert.equal(found?.companyName, 'Acme');
+        assert.equal(await storage.getJobPostingByJobID('missing'), undefined);
+      });
+
+      it('lists active postings newest first', async () => {
+        await storage.createJobPosting(job('a'));
+        await storage.createJobPosting(job('b'));
+        await storage.createJobPosting(job('c'));
+        await storage.markJobPostingsRemoved(['b']);
+
+        assert.deepEqual((await storage.getAllJobPostings()).map(posting => posting.jobId), ['c', 'a']);
+        assert.deepEqual(
+          (await storage.getAllJobPostings({ includeRemoved: true })).map(posting => posting.jobId),
+          ['c', 'b', 'a'],
+        );
+      });
+
+      it('queries postings with filters pushed into the backend', async () => {
+        await storage.createJobPosting(job('a', { title: 'Senior Welder', companyName: 'Acme Steel', zipcode: '77002' }));
+        await storage.createJobPosting(job('b', { title: 'Welder 100%', city: 'Dallas', source: 'indeed' }));
+        await storage.createJobPosting(job('c', { title: 'Electrician', companyName: 'Acme Power', country: 'Canada' }));
+        await storage.createJobPosting(job('d', { title: 'Welder Helper' }));
+        await storage.markJobPostingsRemoved(['d']);
+
+        const ids = async (query: Parameters<IStorage['queryJobPostings']>[0]) =>
+          (await storage.queryJobPostings({ sort: 'title', order: 'asc', ...query })).jobs.map(posting => posting.jobId);
+        assert.deepEqual(await ids({ title: 'welder' }), ['a', 'b']);
+        assert.deepEqual(await ids({ title: 'welder', includeRemoved: true }), ['a', 'b', 'd']);
+        assert.deepEqual(await ids({ title: '0%' }), ['b']);
+        assert.deepEqual(await ids({ title: '_' }), []);
+        assert.deepEqual(await ids({ company: 'ACME' }), ['c', 'a']);
+        assert.deepEqual(await ids({ city: 'houston', country: 'united states' }), ['a']);
+        assert.deepEqual(await ids({ state: 'texas', zipcode: '77002' }), ['a']);
+        assert.deepEqual(await ids({ source: 'indeed' }), ['b']);
+        assert.deepEqual(await ids({ createdAfter: new Date(Date.now() + 60_000) }), []);
+        assert.deepEqual(await ids({ createdBefore: new Date(Date.now() + 60_000) }), ['c', 'a', 'b']);
+      });
+
+      it('pages query results by offset and by cursor', async () => {
+        for (const [jobId, companyName] of [['a', 'Beta'], ['b', null], ['c', 'Alpha'], ['d', 'Beta'], ['e', 'Alpha']] as const) {
+          await storage.createJobPosting(job(jobId, { companyName }));
+        }
+
+        const first = await storage.queryJobPostings({ limit: 2 });
+        assert.equal(first.total, 5);
+        assert.deepEqual(first.jobs.map(posting => posting.jobId), ['e', 'd']);
+        const offset = await storage.queryJobPostings({ limit: 2, offset: 2 });
+        assert.deepEqual(offset.jobs.map(posting => posting.jobId), ['c', 'b']);
+
+        const seen: string[] = [];
+        let cursor: string | undefined;
+        do {
+          const page = await storage.queryJobPostings({ sort: 'companyName', order: 'asc', limit: 2, cursor });
+          assert.equal(page.total, 5);
+          seen.push(...page.jobs.map(posting => posting.jobId));
+          cursor = page.nextCursor ?? undefined;
+        } while (cursor);
+        assert.deepEqual(seen, ['b', 'c', 'e', 'a', 'd']);
+
+        await assert.rejects(storage.queryJobPostings({ cursor: 'not-a-cursor' }), { name: 'InvalidCursorError' });
+      });
+
+      it('counts postings by facet with the query filters', async () => {
+        await storage.createJobPosting(job('a', { companyName: 'Acme' }));
+        await storage.createJobPosting(job('b', { companyName: 'Acme', source: 'indeed' }));
+        await storage.createJobPosting(job('c', { city: 'Austin', companyName: 'Zenith' }));
+        await storage.createJobPosting(job('d', { city: 'Portland', state: 'Oregon', companyName: '' }));
+        await storage.createJobPosting(job('e', { city: 'Portland', state: 'Maine', title: 'Welder' }));
+        await storage.createJobPosting(job('f', { companyName: 'Acme' }));
+        await storage.markJobPostingsRemoved(['f']);
+
+        const facets = await storage.getJobPostingFacets({}, { top: 2 });
+        assert.equal(facets.total, 5);
+        assert.deepEqual(facets.state, [{ value: 'Texas', count: 3 }, { value: 'Maine', count: 1 }]);
+        assert.deepEqual(facets.city, [{ value: 'Houston, Texas', count: 2 }, { value: 'Austin, Texas', count: 1 }]);
+        assert.deepEqual(facets.company, [{ value: 'Acme', count: 2 }, { value: 'Zenith', count: 1 }]);
+        assert.deepEqual(facets.country, [{ value: 'United States', count: 5 }]);
+        assert.deepEqual(facets.source, [{ value: 'algolia', count: 4 }, { value: 'indeed', count: 1 }]);
+        const today = new Date().toISOString().slice(0, 10);
+        assert.deepEqual(facets.created, [{ value: today, count: 5 }]);
+        assert.deepEqual((await storage.getJobPostingFacets({}, { bucket: 'month' })).created, [{ value: today.slice(0, 7), count: 5 }]);
+
+        const filtered = await storage.getJobPostingFacets({ title: 'welder', includeRemoved: true });
+        assert.equal(filtered.total, 1);
+        assert.deepEqual(filtered.city, [{ value: 'Portland, Maine', count: 1 }]);
+      });
+
+      it('updates fields and stamps updatedAt', async () => {
+        await storage.createJobPosting(job('a'));
+
+        const updated = await storage.updateJobPosting('a', { title: 'Renamed', contentHash: 'x'.repeat(64) });
+        assert.equal(updated.title, 'Renamed');
+        assert.equal(updated.city, 'Houston');
+        assert.equal(updated.contentHash, 'x'.repeat(64));
+        assert.ok(updated.updatedAt instanceof Date);
+        assert.equal((await storage.getJobPostingByJobID('a'))?.title, 'Renamed');
+      });
+
+      it('rejects updates to unknown postings', async () => {
+        await assert.rejects(storage.updateJobPosting('missing', { title: 'Nope' }));
+      });
+
+      it('deletes single and bulk postings', async () => {
+        for (const id of ['a', 'b', 'c', 'd']) {
+          await storage.createJobPosting(job(id));
+        }
+
+        await storage.deleteJobPosting('a');
+        await storage.deleteJobPostingsByJobIDs(['b', 'c', 'missing']);
+        await storage.deleteJobPostingsByJobIDs([]);
+
+        assert.deepEqual((await storage.getAllJobPostings()).map(posting => posting.jobId), ['d']);
+      });
+
+      it('upserts batches and reports each row in input order', async () => {
+        await storage.createJobPosting(job('a', { companyName: 'Acme', zipcode: '77002' }));
+        await storage.markJobPostingsRemoved(['a']);
+
+        const results = await storage.upsertJobPostings([
+          job('b', { latitude: '29.76000000', longitude: '-95.37000000' }),
+          job('a', { title: 'Renamed' }),
+          job('bad', { title: null as any }),
+          job('b', { title: 'Second write' }),
+        ]);
+        assert.deepEqual(results.map(result => [result.jobId, result.outcome]), [
+          ['b', 'inserted'],
+          ['a', 'updated'],
+          ['bad', 'failed'],
+          ['b', 'updated'],
+        ]);
+        assert.ok(results[2].error);
+
+        const updated = await storage.getJobPostingByJobID('a');
+        assert.equal(updated?.title, 'Renamed');
+        assert.equal(updated?.companyName, null);
+        assert.equal(updated?.zipcode, null);
+        assert.equal(updated?.status, 'removed');
+        assert.ok(updated?.updatedAt instanceof Date);
+
+        const inserted = await storage.getJobPostingByJobID('b');
+        assert.equal(inserted?.title, 'Second write');
+        assert.equal(inserted?.status, 'active');
+        assert.equal(inserted?.locationPoint, null);
+        assert.equal(await storage.getJobPostingByJobID('bad'), undefined);
+        assert.deepEqual(await storage.upsertJobPostings([]), []);
+      });
+
+      it('soft-removes postings and reactivates them when seen again', async () => {
+        await storage.createJobPosting(job('a'));
+        await storage.createJobPosting(job('b'));
+
+        await storage.markJobPostingsRemoved(['a']);
+        const removed = await storage.getJobPostingByJobID('a');
+        assert.equal(removed?.status, 'removed');
+        assert.equal(removed?.isExpired, true);
+        assert.ok(removed?.removedAt instanceof Date);
+
+        assert.equal(await storage.markJobPostingsSeen(['a', 'b', 'missing']), 1);
+        const reactivated = await storage.getJobPostingByJobID('a');
+        assert.equal(reactivated?.status, 'active');
+        assert.equal(reactivated?.isExpired, false);
+        assert.equal(reactivated?.removedAt, null);
+        assert.equal(await storage.markJobPostingsSeen([]), 0);
+      });
+
+      it('purges only postings removed before the cutoff', async () => {
+        await storage.createJobPosting(job('a'));
+        await storage.createJobPosting(job('b'));
+        await storage.markJobPostingsRemoved(['a']);
+
+        assert.equal(await storage.purgeRemovedJobPostings(new Date(Date.now() - 60_000)), 0);
+        assert.equal(await storage.purgeRemovedJobPostings(new Date(Date.now() + 60_000)), 1);
+        assert.deepEqual((await storage.getAllJobPostings({ includeRemoved: true })).map(posting => posting.jobId), ['b']);
+      });
+
+      it('backfills hashes only for postings without a content hash', async () => {
+        const hash = (char: string) => char.repeat(64);
+        await storage.createJobPosting(job('old'));
+        await storage.createJobPosting(job('hashed', { contentHash: hash('a'), locationHash: hash('b') }));
+        const before = await storage.getJobPostingByJobID('old');
+
+        await storage.backfillJobPostingHashes([
+          { jobId: 'old', contentHash: hash('c'), locationHash: hash('d') },
+          { jobId: 'hashed', contentHash: hash('e'), locationHash: hash('f') },
+          { jobId: 'missing', contentHash: hash('g'), locationHash: hash('h') },
+        ]);
+        await storage.backfillJobPostingHashes([]);
+
+        const old = await storage.getJobPostingByJobID('old');
+        assert.equal(old?.contentHash, hash('c'));
+        assert.equal(old?.locationHash, hash('d'));
+        assert.equal(old?.updatedAt?.getTime(), before?.updatedAt?.getTime());
+        const hashed = await storage.getJobPostingByJobID('hashed');
+        assert.equal(hashed?.contentHash, hash('a'));
+        assert.equal(hashed?.locationHash, hash('b'));
+        assert.equal(await storage.getJobPostingByJobID('missing'), undefined);
+      });
+
+      it('orders nearby postings by distance', async () => {
+        await storage.createJobPosting(job('houston', { latitude: '29.76000000', longitude: '-95.37000000' }));
+        await storage.createJobPosting(job('dallas', { latitude: '32.78000000', longitude: '-96.80000000' }));
+        await storage.createJobPosting(job('nowhere'));
+
+        const nearest = await storage.findNearestJobPostings(29.70, -95.40);
+        assert.deepEqual(nearest.map(posting => posting.jobId), ['houston', 'dallas']);
+        assert.ok(nearest[0].distanceKm > 5 && nearest[0].distanceKm < 10);
+
+        const withinRadius = await storage.findNearestJobPostings(29.70, -95.40, { radiusKm: 100 });
+        assert.deepEqual(withinRadius.map(posting => posting.jobId), ['houston']);
+      });
+
+      it('finds postings inside map bounds', async () => {
+        await storage.createJobPosting(job('houston', { latitude: '29.76000000', longitude: '-95.37000000' }));
+        await storage.createJobPosting(job('dallas', { latitude: '32.78000000', longitude: '-96.80000000' }));
+        await storage.createJobPosting(job('fiji', { latitude: '-17.71000000', longitude: '178.07000000' }));
+        await storage.createJobPosting(job('nowhere'));
+
+        const texas = await storage.findJobPostingsInBounds({ north: 34, south: 29, east: -94, west: -98 });
+        assert.deepEqual(texas.map(posting => posting.jobId), ['dallas', 'houston']);
+        const houston = await storage.findJobPostingsInBounds({ north: 30, south: 29, east: -95, west: -96 });
+        assert.deepEqual(houston.map(posting => posting.jobId), ['houston']);
+        const pacific = await storage.findJobPostingsInBounds({ north: 0, south: -30, east: -170, west: 170 });
+        assert.deepEqual(pacific.map(posting => posting.jobId), ['fiji']);
+        assert.equal((await storage.findJobPostingsInBounds({ north: 34, south: 29, east: -94, west: -98 }, 1)).length, 1);
+      });
+
+      it('returns no location for unknown zipcodes', async () => {
+        assert.equal(await storage.getZipcodeLocation('00000'), undefined);
+      });
+    });
+
+    describe('pending removals', () => {
+      it('holds removals until they are resolved per execution', async () => {
+        const first = await createExecution();
+        const second = await createExecution();
+        await storage.createPendingRemovals([
+          { executionId: first.id, jobId: 'a', title: 'Job a' },
+          { executionId: second.id, jobId: 'b' },
+        ]);
+
+        assert.deepEqual((await storage.getPendingRemovals()).map(removal => removal.jobId), ['a', 'b']);
+
+        const resolved = await storage.resolvePendingRemovals('approved', first.id);
+        assert.deepEqual(resolved.map(removal => [removal.jobId, removal.status]), [['a', 'approved']]);
+        assert.ok(resolved[0].resolvedAt instanceof Date);
+
+        assert.equal((await storage.resolvePendingRemovals('superseded')).length, 1);
+        assert.deepEqual(await storage.getPendingRemovals(), []);
+      });
+    });
+
+    describe('pipeline executions', () => {
+      it('creates executions with zeroed counters', async () => {
+        const execution = await createExecution();
+
+        assert.equal(execution.status, 'running');
+        assert.ok(execution.startTime instanceof Date);
+        assert.equal(execution.endTime, null);
+        assert.equal(execution.totalJobs, 0);
+        assert.equal(execution.newJobs, 0);
+        assert.equal(execution.removedJobs, 0);
+        assert.equal(execution.triggerSource, 'manual');
+      });
+
+      it('applies partial updates', async () => {
+        const execution = await createExecution();
+        const endTime = new Date();
+
+        const updated = await storage.updatePipelineExecution(execution.id, {
+          status: 'completed',
+          endTime,
+          newJobs: 5,
+          currentStep: 'Done',
+        });
+        assert.equal(updated.status, 'completed');
+        assert.equal(updated.newJobs, 5);
+        assert.equal(updated.totalJobs, 0);
+        assert.equal(updated.endTime?.getTime(), endTime.getTime());
+
+        const reloaded = await storage.getPipelineExecution(execution.id);
+        assert.equal(reloaded?.currentStep, 'Done');
+      });
+
+      it('rejects updates to unknown executions', async () => {
+        await assert.rejects(storage.updatePipelineExecution(999_999, { status: 'failed' }));
+      });
+
+      it('returns the most recent execution', async () => {
+        assert.equal(await storage.getLatestPipelineExecution(), undefined);
+        await createExecution();
+        const latest = await createExecution();
+
+        assert.equal((await storage.getLatestPipelineExecution())?.id, latest.id);
+        assert.equal(await storage.getPipelineExecution(999_999), undefined);
+      });
+      it('lists executions newest first with filters and paging', async () => {
+        const day = (date: number) => new Date(Date.UTC(2026, 0, date));
+        const first = await storage.createPipelineExecution({ status: 'completed', startTime: day(1), triggerSource: 'scheduled' });
+        const second = await storage.createPipelineExecution({ status: 'failed', startTime: day(2) });
+        const third = await storage.createPipelineExecution({ status: 'completed', startTime: day(3) });
+
+        const all = await storage.listPipelineExecutions();
+        assert.equal(all.total, 3);
+        assert.deepEqual(all.executions.map(execution => execution.id), [third.id, second.id, first.id]);
+        assert.equal(all.executions[2].triggerSource, 'scheduled');
+
+        const completed = await storage.listPipelineExecutions({ status: 'completed', limit: 1, offset: 1 });
+        assert.equal(completed.total, 2);
+        assert.deepEqual(completed.executions.map(execution => execution.id), [first.id]);
+
+        const window = await storage.listPipelineExecutions({ startedAfter: day(2), startedBefore: day(3) });
+        assert.deepEqual(window.executions.map(execution => execution.id), [second.id]);
+        assert.equal(window.total, 1);
+      });
+    });
+
+    describe('job checkpoints', () => {
+      it('tracks per-job stages in creation order', async () => {
+        const execution = await createExecution();
+        await storage.createJobCheckpoints([
+          { executionId: execution.id, jobId: 'a', stage: 'fetched', sourceData: '{"id":"a"}' },
+          { executionId: execution.id, jobId: 'b', stage: 'fetched', action: 'update', sourceData: '{"id":"b"}' },
+        ]);
+        await storage.updateJobCheckpoint(execution.id, 'a', { stage: 'enriched', enrichedData: '{}' });
+
+        const checkpoints = await storage.getJobCheckpoints(execution.id);
+        assert.deepEqual(
+          checkpoints.map(checkpoint => [checkpoint.jobId, checkpoint.stage, checkpoint.action]),
+          [['a', 'enriched', 'create'], ['b', 'fetched', 'update']],
+        );
+        assert.equal(checkpoints[0].enrichedData, '{}');
+        assert.deepEqual(await storage.getJobCheckpoints(999_999), []);
+      });
+
+      it('keeps an interrupted execution resumable after a restart', async (t) => {
+        if (!harness.restart) {
+          t.skip('backend keeps nothing across restarts');
+          return;
+        }
+        const execution = await createExecution();
+        await storage.createJobCheckpoints([
+          { executionId: execution.id, jobId: 'a', stage: 'saved', sourceData: '{"id":"a"}' },
+          { executionId: execution.id, jobId: 'b', stage: 'enriched', sourceData: '{"id":"b"}' },
+        ]);
+
+        storage = await harness.restart();
+        assert.equal((await storage.getPipelineExecution(execution.id))?.status, 'running');
+        assert.deepEqual(
+          (await storage.getJobCheckpoints(execution.id)).map(checkpoint => [checkpoint.jobId, checkpoint.stage]),
+          [['a', 'saved'], ['b', 'enriched']],
+        );
+      });
+    });
+
+    describe('changesets', () => {
+      it('stores planned changes in planning order', async () => {
+        const execution = await createExecution();
+        await storage.createPipelineChanges([
+          { executionId: execution.id, jobId: 'b', action: 'add', before: null },
+          { executionId: execution.id, jobId: 'a', action: 'remove', before: '{"jobId":"a"}' },
+        ]);
+
+        const changes = await storage.getPipelineChanges(execution.id);
+        assert.deepEqual(
+          changes.map(change => [change.jobId, change.action, change.status, change.before]),
+          [['b', 'add', 'planned', null], ['a', 'remove', 'planned', '{"jobId":"a"}']],
+        );
+        assert.equal(changes[0].appliedAt, null);
+        assert.deepEqual(await storage.getPipelineChanges(999_999), []);
+      });
+
+      it('commits postings, lifecycle, changes and checkpoints together', async () => {
+        const execution = await createExecution();
+        await storage.createJobPosting(job('gone'));
+        await storage.createJobPosting(job('stale'));
+        await storage.createJobPosting(job('changed'));
+        await storage.createJobCheckpoints([
+          { executionId: execution.id, jobId: 'new', stage: 'enriched', sourceData: '{}' },
+        ]);
+        await storage.createPipelineChanges([
+          { executionId: execution.id, jobId: 'new', action: 'add', before: null },
+          { executionId: execution.id, jobId: 'stale', action: 'remove', before: null },
+        ]);
+        const [add, remove] = await storage.getPipelineChanges(execution.id);
+        const appliedAt = new Date('2026-01-02T03:04:05Z');
+
+        await storage.commitChangeset(execution.id, {
+          deletes: ['gone'],
+          upserts: [job('new'), job('changed', { title: 'Changed title' })],
+          lifecycle: [{ jobId: 'stale', status: 'removed', removedAt: appliedAt }],
+          changes: [
+            { id: add.id, status: 'applied', after: '{"jobId":"new"}', appliedAt },
+            { id: remove.id, status: 'skipped' },
+          ],
+          savedCheckpoints: ['new'],
+        });
+
+        assert.equal(await storage.getJobPostingByJobID('gone'), undefined);
+        assert.equal((await storage.getJobPostingByJobID('new'))?.status, 'active');
+        assert.equal((await storage.getJobPostingByJobID('changed'))?.title, 'Changed title');
+        const stale = await storage.getJobPostingByJobID('stale');
+        assert.equal(stale?.status, 'removed');
+        assert.equal(stale?.isExpired, true);
+        assert.equal(stale?.removedAt?.getTime(), appliedAt.getTime());
+
+        const changes = await storage.getPipelineChanges(execution.id);
+        assert.deepEqual(changes.map(change => change.status), ['applied', 'skipped']);
+        assert.equal(changes[0].after, '{"jobId":"new"}');
+        assert.equal(changes[0].appliedAt?.getTime(), appliedAt.getTime());
+        assert.equal(changes[1].appliedAt, null);
+        assert.equal((await storage.getJobCheckpoints(execution.id))[0].stage, 'saved');
+      });
+
+      it('writes nothing when any part of the changeset fails', async () => {
+        const execution = await createExecution();
+        await storage.createJobPosting(job('kept'));
+        await storage.createPipelineChanges([{ executionId: execution.id, jobId: 'new', action: 'add', before: null }]);
+        const [change] = await storage.getPipelineChanges(execution.id);
+
+        await assert.rejects(storage.commitChangeset(execution.id, {
+          deletes: ['kept'],
+          upserts: [job('new'), job('broken', { title: null as any })],
+          lifecycle: [],
+          changes: [{ id: change.id, status: 'applied', after: '{}', appliedAt: new Date() }],
+          savedCheckpoints: [],
+        }));
+
+        assert.ok(await storage.getJobPostingByJobID('kept'));
+        assert.equal(await storage.getJobPostingByJobID('new'), undefined);
+        assert.equal((await storage.getPipelineChanges(execution.id))[0].status, 'planned');
+      });
+    });
+
+    describe('run locks', () => {
+      it('grants the lock to one owner at a time', async () => {
+        const first = await storage.acquireRunLock('pipeline', 'owner-1', 60_000);
+        assert.equal(first.acquired, true);
+
+        const second = await storage.acquireRunLock('pipeline', 'owner-2', 60_000);
+        assert.equal(second.acquired, false);
+        assert.equal(second.lock.ownerId, 'owner-1');
+
+        assert.equal((await storage.acquireRunLock('pipeline', 'owner-1', 60_000)).acquired, true);
+      });
+
+      it('renews leases and records the execution', async () => {
+        const execution = await createExecution();
+        await storage.acquireRunLock('pipeline', 'owner-1', 60_000);
+
+        assert.equal(await storage.heartbeatRunLock('pipeline', 'owner-1', 60_000, execution.id), true);
+        assert.equal(await storage.heartbeatRunLock('pipeline', 'owner-2', 60_000), false);
+        assert.equal((await storage.getRunLock('pipeline'))?.executionId, execution.id);
+      });
+
+      it('lets another owner take an expired lock', async () => {
+        await storage.acquireRunLock('pipeline', 'owner-1', 1);
+        await sleep(20);
+
+        const takeover = await storage.acquireRunLock('pipeline', 'owner-2', 60_000);
+        assert.equal(takeover.acquired, true);
+        assert.equal(takeover.lock.ownerId, 'owner-2');
+      });
+
+      it('only releases the lock for its owner', async () => {
+        await storage.acquireRunLock('pipeline', 'owner-1', 60_000);
+
+        await storage.releaseRunLock('pipeline', 'owner-2');
+        assert.equal((await storage.getRunLock('pipeline'))?.ownerId, 'owner-1');
+
+        await storage.releaseRunLock('pipeline', 'owner-1');
+        assert.equal(await storage.getRunLock('pipeline'), undefined);
+      });
+    });
+
+    describe('activity logs', () => {
+      it('returns the newest 20 logs by default', async () => {
+        for (let i = 1; i <= 25; i++) {
+          await storage.createActivityLog({ message: `log ${i}`, level: 'info' });
+        }
+
+        const logs = await storage.getRecentActivityLogs();
+        assert.equal(logs.length, 20);
+        assert.equal(logs[0].message, 'log 25');
+        assert.equal(logs[19].message, 'log 6');
+        assert.ok(logs[0].timestamp instanceof Date);
+        assert.deepEqual((await storage.getRecentActivityLogs(2)).map(log => log.message), ['log 25', 'log 24']);
+      });
+
+      it('filters logs by execution', async () => {
+        const execution = await createExecution();
+        await storage.createActivityLog({ message: 'run started', level: 'info', executionId: execution.id });
+        await storage.createActivityLog({ message: 'unrelated', level: 'warning' });
+        await storage.createActivityLog({ message: 'run finished', level: 'success', executionId: execution.id });
+
+        const logs = await storage.getRecentActivityLogs(20, execution.id);
+        assert.deepEqual(logs.map(log => log.message), ['run finished', 'run started']);
+        assert.equal(logs[0].executionId, execution.id);
+      });
+
+      it('clears all logs', async () => {
+        await storage.createActivityLog({ message: 'a', level: 'info' });
+        await storage.clearActivityLogs();
+        assert.deepEqual(await storage.getRecentActivityLogs(), []);
+      });
+    });
+
+    describe('pipeline schedules', () => {
+      const schedule: InsertPipelineSchedule = {
+        name: 'Nightly',
+        cron: '0 2 * * *',
+        timezone: 'America/New_York',
+        batchSize: 500,
+        sources: ['algolia', 'greenhouse'],
+        profile: 'us-only',
+        enabled: true,
+        oneTime: false,
+        misfirePolicy: 'skip',
+        nextRun: '2026-10-20T06:00:00.000Z',
+        lastRun: null,
+      };
+
+      it('creates, lists and deletes schedules', async () => {
+        const created = await storage.createPipelineSchedule(schedule);
+        assert.equal(created.version, 1);
+        assert.deepEqual({ ...created, id: 0, version: 0, createdAt: '', updatedAt: '' },
+          { ...schedule, id: 0, version: 0, createdAt: '', updatedAt: '' });
+        const second = await storage.createPipelineSchedule({ ...schedule, name: 'Weekly', profile: undefined });
+        assert.equal(second.profile, undefined);
+
+        assert.deepEqual((await storage.getPipelineSchedules()).map(s => s.name), ['Nightly', 'Weekly']);
+        assert.deepEqual(await storage.getPipelineSchedule(created.id), created);
+
+        assert.equal(await storage.deletePipelineSchedule(created.id), true);
+        assert.equal(await storage.deletePipelineSchedule(created.id), false);
+        assert.equal(await storage.getPipelineSchedule(created.id), undefined);
+      });
+
+      it('bumps the version on every update', async () => {
+        const created = await storage.createPipelineSchedule(schedule);
+        const updated = await storage.updatePipelineSchedule(created.id, {
+          enabled: false,
+          nextRun: null,
+          lastRun: '2026-10-20T06:00:00.000Z',
+          profile: undefined,
+        });
+        assert.equal(updated?.version, 2);
+        assert.equal(updated?.enabled, false);
+        assert.equal(updated?.nextRun, null);
+        assert.equal(updated?.lastRun, '2026-10-20T06:00:00.000Z');
+        assert.equal(updated?.profile, undefined);
+        assert.equal(updated?.name, 'Nightly');
+        assert.equal(await storage.updatePipelineSchedule(999_999, { enabled: false }), undefined);
+      });
+
+      it('rejects an update made from a stale version', async () => {
+        const created = await storage.createPipelineSchedule(schedule);
+        await storage.updatePipelineSchedule(created.id, { name: 'Renamed' }, 1);
+
+        await assert.rejects(
+          storage.updatePipelineSchedule(created.id, { name: 'Stale' }, 1),
+          { name: 'ScheduleVersionConflictError', currentVersion: 2 }
+        );
+        assert.equal((await storage.getPipelineSchedule(created.id))?.name, 'Renamed');
+      });
+    });
+  });
+}
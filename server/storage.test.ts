@@ -0,0 +1,122 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import pg from 'pg';
+import { PGlite } from '@electric-sql/pglite';
+import { cube } from '@electric-sql/pglite/contrib/cube';
+import { earthdistance } from '@electric-sql/pglite/contrib/earthdistance';
+import { PGLiteSocketServer } from '@electric-sql/pglite-socket';
+import { MemStorage } from './storage';
+import { SQLiteStorage } from './sqlite-storage';
+import { PostgresStorage } from './postgres-storage';
+import { AzureSQLStorage, getAzureSqlPool } from './azure-sql-storage';
+import { describeStorageConformance } from './storage-conformance';
+
+// Child tables first so foreign keys never block the cleanup
+const TABLES = [
+  'pipeline_changes',
+  'pending_job_removals',
+  'pipeline_job_checkpoints',
+  'activity_logs',
+  'pipeline_run_locks',
+  'pipeline_executions',
+  'job_posting_listings',
+  'pipeline_schedules',
+];
+
+describeStorageConformance({
+  name: 'MemStorage',
+  async setup() {
+    return new MemStorage();
+  },
+});
+
+let sqliteStorage: SQLiteStorage | null = null;
+const sqliteDir = fs.mkdtempSync(path.join(os.tmpdir(), 'storage-test-'));
+const sqliteFile = path.join(sqliteDir, 'jobs.db');
+
+describeStorageConformance({
+  name: 'SQLiteStorage',
+  async setup() {
+    sqliteStorage?.close();
+    fs.rmSync(sqliteFile, { force: true });
+    sqliteStorage = new SQLiteStorage(sqliteFile);
+    return sqliteStorage;
+  },
+  async restart() {
+    sqliteStorage?.close();
+    sqliteStorage = new SQLiteStorage(sqliteFile);
+    return sqliteStorage;
+  },
+  async teardown() {
+    sqliteStorage?.close();
+    fs.rmSync(sqliteDir, { recursive: true, force: true });
+  },
+});
+
+/**
+ * Runs against TEST_POSTGRES_URL when set. Otherwise an in-process PGlite
+ * server stands in for the Postgres container, so the suite needs no setup.
+ */
+let postgresStorage: PostgresStorage;
+let postgresUrl: string;
+let postgresCleanup: pg.Pool;
+let pgliteServer: PGLiteSocketServer | null = null;
+let pglite: PGlite | null = null;
+
+describeStorageConformance({
+  name: 'PostgresStorage',
+  async init() {
+    let connectionString = process.env.TEST_POSTGRES_URL;
+    if (!connectionString) {
+      pglite = await PGlite.create({ extensions: { cube, earthdistance } });
+      pgliteServer = new PGLiteSocketServer({ db: pglite, port: 0, maxConnections: 20 });
+      await pgliteServer.start();
+      connectionString = `postgres://postgres@${pgliteServer.getServerConn()}/postgres?sslmode=disable`;
+    }
+    postgresUrl = connectionString;
+    postgresStorage = new PostgresStorage(connectionString);
+    postgresCleanup = new pg.Pool({ connectionString, max: 1 });
+    await postgresStorage.getAllJobPostings(); // Applies migrations before the first cleanup
+  },
+  async setup() {
+    await postgresCleanup.query(`TRUNCATE ${TABLES.join(', ')} RESTART IDENTITY CASCADE`);
+    return postgresStorage;
+  },
+  async restart() {
+    await postgresStorage.close();
+    postgresStorage = new PostgresStorage(postgresUrl);
+    return postgresStorage;
+  },
+  async teardown() {
+    await postgresStorage.close();
+    await postgresCleanup.end();
+    await pgliteServer?.stop();
+    await pglite?.close();
+  },
+});
+
+// Azure SQL needs a real database, so it only runs when one is configured
+let azureStorage: AzureSQLStorage;
+
+describeStorageConformance({
+  name: 'AzureSQLStorage',
+  skip: !process.env.TEST_AZURE_SQL_URL && 'TEST_AZURE_SQL_URL is not set',
+  async init() {
+    process.env.AZURE_SQL_URL = process.env.TEST_AZURE_SQL_URL;
+    azureStorage = new AzureSQLStorage();
+    await azureStorage.getAllJobPostings(); // Applies migrations before the first cleanup
+  },
+  async setup() {
+    const pool = await getAzureSqlPool();
+    await pool.request().query(TABLES.map(table => `DELETE FROM ${table};`).join('\n'));
+    return azureStorage;
+  },
+  async restart() {
+    azureStorage = new AzureSQLStorage();
+    return azureStorage;
+  },
+  async teardown() {
+    await (await getAzureSqlPool()).close();
+  },
+});
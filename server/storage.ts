@@ -1,98 +1,624 @@
-import { type JobPosting, type InsertJobPosting, type PipelineExecution, type InsertPipelineExecution, type ActivityLog, type InsertActivityLog } from "@shared/schema";
+import { type JobPosting, type InsertJobPosting, type PipelineExecution, type InsertPipelineExecution, type ActivityLog, type InsertActivityLog, type PipelineJobCheckpoint, type InsertPipelineJobCheckpoint, type PipelineRunLock, type PendingJobRemoval, type InsertPendingJobRemoval, type PendingRemovalStatus, type PipelineChange, type InsertPipelineChange, type ChangeStatus, type JobStatus, type ExecutionStatus, type JobSortField, type PipelineSchedule, type InsertPipelineSchedule, pipelineScheduleSchema } from "@shared/schema";
 import { AzureSQLStorage } from './azure-sql-storage';
+import { PostgresStorage, isPostgresUrl } from './postgres-storage';
+import { SQLiteStorage, isSqliteUrl, sqlitePathFromUrl, DEFAULT_SQLITE_PATH } from './sqlite-storage';
+import { haversineKm, isWithinBounds } from './geo';
+
+export interface RunLockAcquisition {
+  acquired: boolean;
+  lock: PipelineRunLock; // The current holder, which is the caller when acquired
+}
+
+export interface JobPostingListOptions {
+  includeRemoved?: boolean; // Removed postings are kept until purged, but hidden by default
+}
+
+export interface PipelineExecutionListOptions {
+  status?: ExecutionStatus;
+  startedAfter?: Date; // Inclusive
+  startedBefore?: Date; // Exclusive
+  limit?: number; // Defaults to 20
+  offset?: number;
+}
+
+export interface PipelineExecutionPage {
+  executions: PipelineExecution[]; // Newest first
+  total: number; // Executions matching the filters across all pages
+}
+
+export interface JobPostingFilters {
+  title?: string; // Substring of the title, ignoring case
+  company?: string; // Substring of the company name, ignoring case
+  city?: string; // city, state and country match whole values, ignoring case
+  state?: string;
+  country?: string;
+  zipcode?: string;
+  source?: string;
+  createdAfter?: Date; // Inclusive
+  createdBefore?: Date; // Exclusive
+  includeRemoved?: boolean;
+}
+
+export interface JobPostingQuery extends JobPostingFilters {
+  sort?: JobSortField; // Defaults to createdAt; ties are broken by id
+  order?: 'asc' | 'desc'; // Defaults to desc
+  limit?: number; // Defaults to 50
+  offset?: number; // Ignored when a cursor is given
+  cursor?: string;
+}
+
+export interface JobPostingPage {
+  jobs: JobPosting[];
+  total: number; // Postings matching the filters across all pages
+  nextCursor: string | null; // Null on the last page
+}
+
+export type FacetBucket = 'day' | 'week' | 'month';
+
+export interface JobPostingFacetOptions {
+  top?: number; // Values kept per facet, most common first; defaults to 10
+  bucket?: FacetBucket; // Created-date bucket size, defaults to day; weeks start on Monday
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+/**
+ * Posting counts grouped several ways. Postings without a value for a facet
+ * are left out of it; cities are labelled with their state, so two towns
+ * with the same name stay apart.
+ */
+export interface JobPostingFacets {
+  total: number;
+  state: FacetCount[];
+  city: FacetCount[];
+  company: FacetCount[];
+  country: FacetCount[];
+  source: FacetCount[];
+  created: FacetCount[]; // Bucket start dates (YYYY-MM-DD, or YYYY-MM for months) in UTC, oldest first
+}
+
+export function cityFacetLabel(city: string, state: string | null): string {
+  return state ? `${city}, ${state}` : city;
+}
+
+// The UTC start of the bucket a creation time falls in, formatted like the SQL backends format it
+function createdBucket(createdAt: Date, bucket: FacetBucket): string {
+  const day = new Date(Date.UTC(createdAt.getUTCFullYear(), createdAt.getUTCMonth(), createdAt.getUTCDate()));
+  if (bucket === 'month') return day.toISOString().slice(0, 7);
+  if (bucket === 'week') day.setUTCDate(day.getUTCDate() - (day.getUTCDay() + 6) % 7);
+  return day.toISOString().slice(0, 10);
+}
+
+export class InvalidCursorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidCursorError';
+  }
+}
+
+export class ScheduleVersionConflictError extends Error {
+  constructor(public scheduleId: number, public currentVersion: number) {
+    super(`Schedule ${scheduleId} was changed by someone else (now at version ${currentVersion})`);
+    this.name = 'ScheduleVersionConflictError';
+  }
+}
+
+/**
+ * Validates a schedule row read from any backend. SQL backends store sources
+ * as a JSON array and return timestamps as dates.
+ */
+export function toPipelineSchedule(row: Record<string, any>): PipelineSchedule {
+  const toIso = (value: Date | string | null) => value === null ? null : new Date(value).toISOString();
+  return pipelineScheduleSchema.parse({
+    ...row,
+    sources: typeof row.sources === 'string' ? JSON.parse(row.sources) : row.sources,
+    profile: row.profile ?? undefined,
+    enabled: Boolean(row.enabled),
+    oneTime: Boolean(row.oneTime),
+    nextRun: toIso(row.nextRun ?? null),
+    lastRun: toIso(row.lastRun ?? null),
+    createdAt: toIso(row.createdAt),
+    updatedAt: toIso(row.updatedAt),
+  });
+}
+
+/**
+ * Column values for a schedule write in the SQL backends. A profile given as
+ * undefined is cleared; other undefined fields are left as they are.
+ */
+export function toPipelineScheduleRow(schedule: Partial<InsertPipelineSchedule>): Record<string, unknown> {
+  const row: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(schedule)) {
+    if (field === 'profile') {
+      row.profile = value ?? null;
+    } else if (field === 'sources' && value !== undefined) {
+      row.sources = JSON.stringify(value);
+    } else if ((field === 'nextRun' || field === 'lastRun') && value !== undefined) {
+      row[field] = value === null ? null : new Date(value as string);
+    } else if (value !== undefined) {
+      row[field] = value;
+    }
+  }
+  return row;
+}
+
+// Where a page ended: the last row's sort value and id
+export interface JobCursor {
+  value: string; // ISO timestamp for createdAt, otherwise the text value with null as ''
+  id: number;
+}
+
+function jobSortValue(job: JobPosting, sort: JobSortField): string {
+  return sort === 'createdAt' ? (job.createdAt ? new Date(job.createdAt).toISOString() : '') : job[sort] ?? '';
+}
+
+export function decodeJobCursor(cursor: string): JobCursor {
+  try {
+    const [value, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (typeof value === 'string' && Number.isInteger(id)) {
+      return { value, id };
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new InvalidCursorError('Invalid cursor');
+}
+
+/**
+ * Builds a page from rows fetched with a limit one larger than requested,
+ * so the extra row tells us whether there is a next page without a second
+ * query.
+ */
+export function toJobPostingPage(rows: JobPosting[], total: number, query: JobPostingQuery): JobPostingPage {
+  const limit = query.limit ?? 50;
+  const jobs = rows.slice(0, limit);
+  const last = jobs[jobs.length - 1];
+  const nextCursor = rows.length > limit && last
+    ? Buffer.from(JSON.stringify([jobSortValue(last, query.sort ?? 'createdAt'), last.id])).toString('base64url')
+    : null;
+  return { jobs, total, nextCursor };
+}
+
+// Escapes LIKE wildcards, including SQL Server's [, so filters match literally; pair with ESCAPE '\'
+export function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_[]/g, match => `\\${match}`);
+}
+
+export interface NearestJobOptions {
+  limit?: number; // Defaults to 20
+  radiusKm?: number; // No distance cap when omitted
+}
+
+export type JobPostingWithDistance = JobPosting & { distanceKm: number };
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+// A map viewport in degrees. west > east means the box crosses the antimeridian
+export interface GeoBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+export interface JobPostingUpsertResult {
+  jobId: string;
+  outcome: 'inserted' | 'updated' | 'failed';
+  error?: string; // Why the row was not saved, when it failed
+}
+
+// Change-detection hashes for a posting saved before they were recorded
+export interface JobPostingHashes {
+  jobId: string;
+  contentHash: string;
+  locationHash: string;
+}
+
+export interface PipelineChangeUpdate {
+  id: number;
+  status: ChangeStatus;
+  after?: string | null;
+  appliedAt?: Date;
+  rolledBackAt?: Date;
+}
+
+export interface JobLifecycleUpdate {
+  jobId: string;
+  status: JobStatus; // isExpired follows the status
+  removedAt: Date | null;
+}
+
+/**
+ * Every write a changeset apply or rollback makes, planned by changeset.ts.
+ * commitChangeset performs them in one transaction, so a run's postings
+ * change all at once or not at all.
+ */
+export interface ChangesetWrite {
+  deletes: string[]; // Job IDs to delete outright
+  upserts: InsertJobPosting[];
+  lifecycle: JobLifecycleUpdate[];
+  changes: PipelineChangeUpdate[];
+  savedCheckpoints: string[]; // Job IDs whose checkpoints move to 'saved'
+}
+
+// Groups lifecycle updates that set the same values, so each group is one UPDATE
+export function groupLifecycleUpdates(updates: JobLifecycleUpdate[]) {
+  const groups = new Map<string, { status: JobStatus; removedAt: Date | null; jobIds: string[] }>();
+  for (const { jobId, status, removedAt } of updates) {
+    const key = `${status}:${removedAt?.getTime() ?? ''}`;
+    const group = groups.get(key) ?? { status, removedAt, jobIds: [] };
+    group.jobIds.push(jobId);
+    groups.set(key, group);
+  }
+  return Array.from(groups.values());
+}
+
+/**
+ * Splits an upsert batch into chunks of at most `size` rows, in input order.
+ * A job ID never repeats within a chunk, because a single MERGE or ON CONFLICT
+ * statement cannot write the same row twice.
+ */
+export function chunkUpsertBatch<T extends { jobId: string }>(jobs: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  let chunk: T[] = [];
+  let jobIDs = new Set<string>();
+  for (const job of jobs) {
+    if (chunk.length >= size || jobIDs.has(job.jobId)) {
+      chunks.push(chunk);
+      chunk = [];
+      jobIDs = new Set();
+    }
+    chunk.push(job);
+    jobIDs.add(job.jobId);
+  }
+  if (chunk.length > 0) chunks.push(chunk);
+  return chunks;
+}
 
 export interface IStorage {
   // Job postings
-  getAllJobPostings(): Promise<JobPosting[]>;
+  getAllJobPostings(options?: JobPostingListOptions): Promise<JobPosting[]>;
+  queryJobPostings(query: JobPostingQuery): Promise<JobPostingPage>; // Filters, sorts and pages in the database
+  getJobPostingFacets(filters: JobPostingFilters, options?: JobPostingFacetOptions): Promise<JobPostingFacets>; // Aggregated in the database
   getJobPostingByJobID(jobID: string): Promise<JobPosting | undefined>;
   createJobPosting(job: InsertJobPosting): Promise<JobPosting>;
+  updateJobPosting(jobID: string, updates: Partial<InsertJobPosting>): Promise<JobPosting>;
   deleteJobPosting(jobID: string): Promise<void>;
   deleteJobPostingsByJobIDs(jobIDs: string[]): Promise<void>;
+  // Inserts new postings and replaces the content of existing ones; lifecycle fields are left alone. Results follow input order
+  upsertJobPostings(jobs: InsertJobPosting[]): Promise<JobPostingUpsertResult[]>;
+  
+  // Job posting lifecycle
+  markJobPostingsSeen(jobIDs: string[]): Promise<number>; // Returns how many removed postings were reactivated
+  markJobPostingsRemoved(jobIDs: string[]): Promise<void>;
+  purgeRemovedJobPostings(removedBefore: Date): Promise<number>;
+  // Fills in hashes for postings that have no content hash yet; updatedAt is left alone
+  backfillJobPostingHashes(hashes: JobPostingHashes[]): Promise<void>;
+  
+  // Geo search over active postings with coordinates
+  findNearestJobPostings(latitude: number, longitude: number, options?: NearestJobOptions): Promise<JobPostingWithDistance[]>; // Nearest first
+  findJobPostingsInBounds(bounds: GeoBounds, limit?: number): Promise<JobPosting[]>; // Newest first, at most 500 by default
+  getZipcodeLocation(zipcode: string): Promise<GeoPoint | undefined>; // From us_zipcodes; undefined when the zipcode is unknown
+  
+  // Removals held by the mass-removal safeguard
+  createPendingRemovals(removals: InsertPendingJobRemoval[]): Promise<void>;
+  getPendingRemovals(): Promise<PendingJobRemoval[]>;
+  resolvePendingRemovals(status: Exclude<PendingRemovalStatus, 'pending'>, executionId?: number): Promise<PendingJobRemoval[]>; // Resolves every pending removal when executionId is omitted
   
   // Pipeline executions
   createPipelineExecution(execution: InsertPipelineExecution): Promise<PipelineExecution>;
   updatePipelineExecution(id: number, updates: Partial<PipelineExecution>): Promise<PipelineExecution>;
   getLatestPipelineExecution(): Promise<PipelineExecution | undefined>;
+  getPipelineExecution(id: number): Promise<PipelineExecution | undefined>;
+  listPipelineExecutions(options?: PipelineExecutionListOptions): Promise<PipelineExecutionPage>;
+  
+  // Per-job checkpoints for resumable executions
+  createJobCheckpoints(checkpoints: InsertPipelineJobCheckpoint[]): Promise<void>;
+  updateJobCheckpoint(executionId: number, jobId: string, updates: Partial<InsertPipelineJobCheckpoint>): Promise<void>;
+  getJobCheckpoints(executionId: number): Promise<PipelineJobCheckpoint[]>;
+  
+  // Changesets: the adds, updates and removals a run plans, committed together at the end
+  createPipelineChanges(changes: InsertPipelineChange[]): Promise<void>;
+  getPipelineChanges(executionId: number): Promise<PipelineChange[]>; // In planning order
+  commitChangeset(executionId: number, write: ChangesetWrite): Promise<void>; // Writes nothing if any part fails
+  
+  // Run lock leases
+  acquireRunLock(name: string, ownerId: string, leaseMs: number): Promise<RunLockAcquisition>;
+  heartbeatRunLock(name: string, ownerId: string, leaseMs: number, executionId?: number): Promise<boolean>;
+  releaseRunLock(name: string, ownerId: string): Promise<void>;
+  getRunLock(name: string): Promise<PipelineRunLock | undefined>;
   
   // Activity logs
   createActivityLog(log: InsertActivityLog): Promise<ActivityLog>;
-  getRecentActivityLogs(limit?: number): Promise<ActivityLog[]>;
+  getRecentActivityLogs(limit?: number, executionId?: number): Promise<ActivityLog[]>; // Newest first, optionally for one execution
   clearActivityLogs(): Promise<void>;
   
-  // Schedule configuration
-  saveScheduleConfig?(config: any): Promise<void>;
-  loadScheduleConfig?(): Promise<any>;
-  getScheduleConfig?(): any;
+  // Pipeline schedules
+  getPipelineSchedules(): Promise<PipelineSchedule[]>; // Oldest first
+  getPipelineSchedule(id: number): Promise<PipelineSchedule | undefined>;
+  createPipelineSchedule(schedule: InsertPipelineSchedule): Promise<PipelineSchedule>; // Starts at version 1
+  // Bumps the version. Throws ScheduleVersionConflictError when expectedVersion is given and no longer current
+  updatePipelineSchedule(id: number, updates: Partial<InsertPipelineSchedule>, expectedVersion?: number): Promise<PipelineSchedule | undefined>;
+  deletePipelineSchedule(id: number): Promise<boolean>; // False when there was no such schedule
 }
 
 export class MemStorage implements IStorage {
   private jobPostings: Map<string, JobPosting> = new Map();
   private pipelineExecutions: Map<number, PipelineExecution> = new Map();
   private activityLogs: ActivityLog[] = [];
+  private jobCheckpoints: Map<string, PipelineJobCheckpoint> = new Map();
+  private runLocks: Map<string, PipelineRunLock> = new Map();
+  private pendingRemovals: PendingJobRemoval[] = [];
+  private pipelineChanges: PipelineChange[] = [];
+  private pipelineSchedules: Map<number, PipelineSchedule> = new Map();
   private currentJobId = 1;
   private currentExecutionId = 1;
   private currentLogId = 1;
+  private currentCheckpointId = 1;
+  private currentPendingRemovalId = 1;
+  private currentChangeId = 1;
+  private currentScheduleId = 1;
+
+  async getAllJobPostings(options: JobPostingListOptions = {}): Promise<JobPosting[]> {
+    return Array.from(this.jobPostings.values())
+      .filter(job => options.includeRemoved || job.status === 'active')
+      .sort((a, b) => b.id - a.id);
+  }
 
-  async getAllJobPostings(): Promise<JobPosting[]> {
-    return Array.from(this.jobPostings.values());
+  private filterJobPostings(filters: JobPostingFilters): JobPosting[] {
+    const contains = (value: string | null, term?: string) => !term || (value ?? '').toLowerCase().includes(term.toLowerCase());
+    const equals = (value: string | null, term?: string) => !term || (value ?? '').toLowerCase() === term.toLowerCase();
+    return Array.from(this.jobPostings.values())
+      .filter(job => filters.includeRemoved || job.status === 'active')
+      .filter(job => contains(job.title, filters.title) && contains(job.companyName, filters.company))
+      .filter(job => equals(job.city, filters.city) && equals(job.state, filters.state) && equals(job.country, filters.country))
+      .filter(job => (!filters.zipcode || job.zipcode === filters.zipcode) && (!filters.source || job.source === filters.source))
+      .filter(job => !filters.createdAfter || (job.createdAt !== null && job.createdAt >= filters.createdAfter))
+      .filter(job => !filters.createdBefore || (job.createdAt !== null && job.createdAt < filters.createdBefore));
+  }
+
+  async queryJobPostings(query: JobPostingQuery): Promise<JobPostingPage> {
+    const sort = query.sort ?? 'createdAt';
+    const direction = query.order === 'asc' ? 1 : -1;
+    const matching = this.filterJobPostings(query).sort((a, b) =>
+      direction * (jobSortValue(a, sort).localeCompare(jobSortValue(b, sort)) || a.id - b.id));
+
+    const limit = query.limit ?? 50;
+    let start = query.offset ?? 0;
+    if (query.cursor) {
+      const cursor = decodeJobCursor(query.cursor);
+      const index = matching.findIndex(job =>
+        direction * (jobSortValue(job, sort).localeCompare(cursor.value) || job.id - cursor.id) > 0);
+      start = index === -1 ? matching.length : index;
+    }
+    return toJobPostingPage(matching.slice(start, start + limit + 1), matching.length, query);
+  }
+
+  async getJobPostingFacets(filters: JobPostingFilters, options: JobPostingFacetOptions = {}): Promise<JobPostingFacets> {
+    const matching = this.filterJobPostings(filters);
+    const count = (valueOf: (job: JobPosting) => string | null) => {
+      const counts = new Map<string, number>();
+      for (const job of matching) {
+        const value = valueOf(job);
+        if (value) counts.set(value, (counts.get(value) ?? 0) + 1);
+      }
+      return Array.from(counts, ([value, count]) => ({ value, count }));
+    };
+    const top = (valueOf: (job: JobPosting) => string | null) => count(valueOf)
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+      .slice(0, options.top ?? 10);
+
+    return {
+      total: matching.length,
+      state: top(job => job.state),
+      city: top(job => job.city && cityFacetLabel(job.city, job.state)),
+      company: top(job => job.companyName),
+      country: top(job => job.country),
+      source: top(job => job.source),
+      created: count(job => job.createdAt && createdBucket(job.createdAt, options.bucket ?? 'day'))
+        .sort((a, b) => a.value.localeCompare(b.value)),
+    };
   }
 
   async getJobPostingByJobID(jobID: string): Promise<JobPosting | undefined> {
     return this.jobPostings.get(jobID);
   }
 
-  async createJobPosting(job: InsertJobPosting): Promise<JobPosting> {
-    const newJob: JobPosting = {
-      id: this.currentJobId++,
+  // Fields written from an InsertJobPosting, as opposed to lifecycle fields the storage manages
+  private toJobPostingContent(job: InsertJobPosting) {
+    return {
+      jobId: job.jobId,
+      jobUrl: job.jobUrl,
       title: job.title,
-      description: job.description || null,
-      full_text: job.full_text || null,
-      url: job.url || null,
-      company_name: job.company_name || null,
-      brand: job.brand || null,
-      functional_area: job.functional_area || null,
-      work_type: job.work_type || null,
-      location_city: job.location_city || null,
-      location_state: job.location_state || null,
-      state_abbrev: job.state_abbrev || null,
-      zip_code: job.zip_code || null,
+      city: job.city || null,
+      state: job.state || null,
       country: job.country || null,
+      zipcode: job.zipcode || null,
       latitude: job.latitude || null,
       longitude: job.longitude || null,
-      location_point: job.location_point || null,
-      job_details_json: job.job_details_json || null,
-      status: job.status || "Active",
-      is_expired: job.is_expired || false,
-      record_created_on: new Date(),
-      created_at: new Date(),
-      last_seen: new Date(),
-      jobID: job.jobID || null,
+      locationPoint: job.latitude && job.longitude ? `POINT(${job.longitude} ${job.latitude})` : null,
+      description: job.description || null,
+      companyName: job.companyName || null,
+      source: job.source || 'algolia',
       lastDayToApply: job.lastDayToApply || null,
-      businessArea: job.businessArea || null,
+      contentHash: job.contentHash || null,
+      locationHash: job.locationHash || null,
     };
-    this.jobPostings.set(job.jobID || String(newJob.id), newJob);
+  }
+
+  async createJobPosting(job: InsertJobPosting): Promise<JobPosting> {
+    const now = new Date();
+    const newJob: JobPosting = {
+      id: this.currentJobId++,
+      ...this.toJobPostingContent(job),
+      status: 'active',
+      isExpired: false,
+      firstSeen: now,
+      lastSeen: now,
+      removedAt: null,
+      createdAt: now,
+      updatedAt: null,
+    };
+    this.jobPostings.set(newJob.jobId, newJob);
     return newJob;
   }
 
+  async updateJobPosting(jobID: string, updates: Partial<InsertJobPosting>): Promise<JobPosting> {
+    const existing = this.jobPostings.get(jobID);
+    if (!existing) {
+      throw new Error(`Job posting ${jobID} not found`);
+    }
+    const updated = { ...existing, ...updates, updatedAt: new Date() };
+    this.jobPostings.set(jobID, updated);
+    return updated;
+  }
+
   async deleteJobPosting(jobID: string): Promise<void> {
     this.jobPostings.delete(jobID);
   }
 
+  async upsertJobPostings(jobs: InsertJobPosting[]): Promise<JobPostingUpsertResult[]> {
+    const results: JobPostingUpsertResult[] = [];
+    for (const job of jobs) {
+      const existing = this.jobPostings.get(job.jobId);
+      if (!job.jobId || !job.jobUrl || !job.title) {
+        results.push({ jobId: job.jobId, outcome: 'failed', error: 'Missing required fields: jobId, jobUrl, or title' });
+      } else if (existing) {
+        this.jobPostings.set(job.jobId, { ...existing, ...this.toJobPostingContent(job), updatedAt: new Date() });
+        results.push({ jobId: job.jobId, outcome: 'updated' });
+      } else {
+        await this.createJobPosting(job);
+        results.push({ jobId: job.jobId, outcome: 'inserted' });
+      }
+    }
+    return results;
+  }
+
   async deleteJobPostingsByJobIDs(jobIDs: string[]): Promise<void> {
     jobIDs.forEach(jobID => this.jobPostings.delete(jobID));
   }
 
+  async markJobPostingsSeen(jobIDs: string[]): Promise<number> {
+    const now = new Date();
+    let reactivated = 0;
+    for (const jobID of jobIDs) {
+      const existing = this.jobPostings.get(jobID);
+      if (!existing) continue;
+      if (existing.status === 'removed') reactivated++;
+      this.jobPostings.set(jobID, { ...existing, status: 'active', isExpired: false, removedAt: null, lastSeen: now });
+    }
+    return reactivated;
+  }
+
+  async markJobPostingsRemoved(jobIDs: string[]): Promise<void> {
+    const now = new Date();
+    for (const jobID of jobIDs) {
+      const existing = this.jobPostings.get(jobID);
+      if (existing && existing.status !== 'removed') {
+        this.jobPostings.set(jobID, { ...existing, status: 'removed', isExpired: true, removedAt: now });
+      }
+    }
+  }
+
+  async backfillJobPostingHashes(hashes: JobPostingHashes[]): Promise<void> {
+    for (const { jobId, contentHash, locationHash } of hashes) {
+      const existing = this.jobPostings.get(jobId);
+      if (existing && !existing.contentHash) {
+        this.jobPostings.set(jobId, { ...existing, contentHash, locationHash: existing.locationHash ?? locationHash });
+      }
+    }
+  }
+
+  async purgeRemovedJobPostings(removedBefore: Date): Promise<number> {
+    let purged = 0;
+    for (const [jobID, job] of Array.from(this.jobPostings.entries())) {
+      if (job.status === 'removed' && job.removedAt && job.removedAt < removedBefore) {
+        this.jobPostings.delete(jobID);
+        purged++;
+      }
+    }
+    return purged;
+  }
+
+  // Postings with coordinates; latitude and longitude are stored as decimal strings
+  private locatedJobPostings() {
+    return Array.from(this.jobPostings.values())
+      .filter(job => job.status === 'active' && job.latitude && job.longitude)
+      .map(job => ({ job, latitude: Number(job.latitude), longitude: Number(job.longitude) }));
+  }
+
+  async findNearestJobPostings(latitude: number, longitude: number, options: NearestJobOptions = {}): Promise<JobPostingWithDistance[]> {
+    return this.locatedJobPostings()
+      .map(({ job, ...location }) => ({ ...job, distanceKm: haversineKm(latitude, longitude, location.latitude, location.longitude) }))
+      .filter(job => options.radiusKm === undefined || job.distanceKm <= options.radiusKm)
+      .sort((a, b) => a.distanceKm - b.distanceKm)
+      .slice(0, options.limit ?? 20);
+  }
+
+  async findJobPostingsInBounds(bounds: GeoBounds, limit = 500): Promise<JobPosting[]> {
+    return this.locatedJobPostings()
+      .filter(({ latitude, longitude }) => isWithinBounds(latitude, longitude, bounds))
+      .map(({ job }) => job)
+      .sort((a, b) => b.id - a.id)
+      .slice(0, limit);
+  }
+
+  // There is no zipcode table in memory
+  async getZipcodeLocation(_zipcode: string): Promise<GeoPoint | undefined> {
+    return undefined;
+  }
+
+  async createPendingRemovals(removals: InsertPendingJobRemoval[]): Promise<void> {
+    for (const removal of removals) {
+      this.pendingRemovals.push({
+        ...removal,
+        id: this.currentPendingRemovalId++,
+        title: removal.title || null,
+        status: 'pending',
+        createdAt: new Date(),
+        resolvedAt: null,
+      });
+    }
+  }
+
+  async getPendingRemovals(): Promise<PendingJobRemoval[]> {
+    return this.pendingRemovals.filter(removal => removal.status === 'pending');
+  }
+
+  async resolvePendingRemovals(status: Exclude<PendingRemovalStatus, 'pending'>, executionId?: number): Promise<PendingJobRemoval[]> {
+    const resolved: PendingJobRemoval[] = [];
+    const now = new Date();
+    this.pendingRemovals = this.pendingRemovals.map(removal => {
+      if (removal.status !== 'pending' || (executionId !== undefined && removal.executionId !== executionId)) {
+        return removal;
+      }
+      const updated = { ...removal, status, resolvedAt: now };
+      resolved.push(updated);
+      return updated;
+    });
+    return resolved;
+  }
+
   async createPipelineExecution(execution: InsertPipelineExecution): Promise<PipelineExecution> {
     const newExecution: PipelineExecution = {
       ...execution,
       id: this.currentExecutionId++,
       endTime: execution.endTime || null,
-      totalJobs: execution.totalJobs || null,
-      processedJobs: execution.processedJobs || null,
-      newJobs: execution.newJobs || null,
-      removedJobs: execution.removedJobs || null,
+      totalJobs: execution.totalJobs ?? 0,
+      processedJobs: execution.processedJobs ?? 0,
+      newJobs: execution.newJobs ?? 0,
+      updatedJobs: execution.updatedJobs ?? 0,
+      removedJobs: execution.removedJobs ?? 0,
+      pendingRemovals: execution.pendingRemovals ?? 0,
       errorMessage: execution.errorMessage || null,
       currentStep: execution.currentStep || null,
+      triggerSource: execution.triggerSource || 'manual',
     };
     this.pipelineExecutions.set(newExecution.id, newExecution);
     return newExecution;
@@ -113,6 +639,143 @@ export class MemStorage implements IStorage {
     return executions.sort((a, b) => b.id - a.id)[0];
   }
 
+  async getPipelineExecution(id: number): Promise<PipelineExecution | undefined> {
+    return this.pipelineExecutions.get(id);
+  }
+
+  async listPipelineExecutions(options: PipelineExecutionListOptions = {}): Promise<PipelineExecutionPage> {
+    const matching = Array.from(this.pipelineExecutions.values())
+      .filter(execution => !options.status || execution.status === options.status)
+      .filter(execution => !options.startedAfter || execution.startTime >= options.startedAfter)
+      .filter(execution => !options.startedBefore || execution.startTime < options.startedBefore)
+      .sort((a, b) => b.id - a.id);
+    const offset = options.offset ?? 0;
+    return { executions: matching.slice(offset, offset + (options.limit ?? 20)), total: matching.length };
+  }
+
+  async createJobCheckpoints(checkpoints: InsertPipelineJobCheckpoint[]): Promise<void> {
+    for (const checkpoint of checkpoints) {
+      const newCheckpoint: PipelineJobCheckpoint = {
+        ...checkpoint,
+        id: this.currentCheckpointId++,
+        action: checkpoint.action || 'create',
+        enrichedData: checkpoint.enrichedData || null,
+        errorMessage: checkpoint.errorMessage || null,
+        updatedAt: new Date(),
+      };
+      this.jobCheckpoints.set(`${checkpoint.executionId}:${checkpoint.jobId}`, newCheckpoint);
+    }
+  }
+
+  async updateJobCheckpoint(executionId: number, jobId: string, updates: Partial<InsertPipelineJobCheckpoint>): Promise<void> {
+    const key = `${executionId}:${jobId}`;
+    const existing = this.jobCheckpoints.get(key);
+    if (!existing) {
+      throw new Error(`Checkpoint for job ${jobId} in execution ${executionId} not found`);
+    }
+    this.jobCheckpoints.set(key, { ...existing, ...updates, updatedAt: new Date() });
+  }
+
+  async getJobCheckpoints(executionId: number): Promise<PipelineJobCheckpoint[]> {
+    return Array.from(this.jobCheckpoints.values())
+      .filter(checkpoint => checkpoint.executionId === executionId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async createPipelineChanges(changes: InsertPipelineChange[]): Promise<void> {
+    for (const change of changes) {
+      this.pipelineChanges.push({
+        id: this.currentChangeId++,
+        executionId: change.executionId,
+        jobId: change.jobId,
+        action: change.action,
+        status: 'planned',
+        before: change.before ?? null,
+        after: null,
+        appliedAt: null,
+        rolledBackAt: null,
+      });
+    }
+  }
+
+  async getPipelineChanges(executionId: number): Promise<PipelineChange[]> {
+    return this.pipelineChanges.filter(change => change.executionId === executionId);
+  }
+
+  async commitChangeset(executionId: number, write: ChangesetWrite): Promise<void> {
+    // Check everything up front so a bad row leaves the store untouched
+    const invalid = write.upserts.find(job => !job.jobId || !job.jobUrl || !job.title);
+    if (invalid) {
+      throw new Error(`Job posting ${invalid.jobId} is missing required fields: jobId, jobUrl, or title`);
+    }
+
+    write.deletes.forEach(jobID => this.jobPostings.delete(jobID));
+    await this.upsertJobPostings(write.upserts);
+    for (const { jobId, status, removedAt } of write.lifecycle) {
+      const existing = this.jobPostings.get(jobId);
+      if (existing) {
+        this.jobPostings.set(jobId, { ...existing, status, isExpired: status === 'removed', removedAt });
+      }
+    }
+    for (const { id, ...updates } of write.changes) {
+      const index = this.pipelineChanges.findIndex(change => change.id === id);
+      if (index >= 0) {
+        this.pipelineChanges[index] = { ...this.pipelineChanges[index], ...updates };
+      }
+    }
+    for (const jobId of write.savedCheckpoints) {
+      const key = `${executionId}:${jobId}`;
+      const checkpoint = this.jobCheckpoints.get(key);
+      if (checkpoint) {
+        this.jobCheckpoints.set(key, { ...checkpoint, stage: 'saved', updatedAt: new Date() });
+      }
+    }
+  }
+
+  async acquireRunLock(name: string, ownerId: string, leaseMs: number): Promise<RunLockAcquisition> {
+    const now = new Date();
+    const existing = this.runLocks.get(name);
+    if (existing && existing.ownerId !== ownerId && existing.expiresAt > now) {
+      return { acquired: false, lock: existing };
+    }
+
+    const lock: PipelineRunLock = {
+      name,
+      ownerId,
+      executionId: null,
+      acquiredAt: now,
+      heartbeatAt: now,
+      expiresAt: new Date(now.getTime() + leaseMs),
+    };
+    this.runLocks.set(name, lock);
+    return { acquired: true, lock };
+  }
+
+  async heartbeatRunLock(name: string, ownerId: string, leaseMs: number, executionId?: number): Promise<boolean> {
+    const existing = this.runLocks.get(name);
+    if (!existing || existing.ownerId !== ownerId) {
+      return false;
+    }
+    const now = new Date();
+    this.runLocks.set(name, {
+      ...existing,
+      executionId: executionId ?? existing.executionId,
+      heartbeatAt: now,
+      expiresAt: new Date(now.getTime() + leaseMs),
+    });
+    return true;
+  }
+
+  async releaseRunLock(name: string, ownerId: string): Promise<void> {
+    if (this.runLocks.get(name)?.ownerId === ownerId) {
+      this.runLocks.delete(name);
+    }
+  }
+
+  async getRunLock(name: string): Promise<PipelineRunLock | undefined> {
+    return this.runLocks.get(name);
+  }
+
   async createActivityLog(log: InsertActivityLog): Promise<ActivityLog> {
     const newLog: ActivityLog = {
       ...log,
@@ -128,20 +791,82 @@ export class MemStorage implements IStorage {
     return newLog;
   }
 
-  async getRecentActivityLogs(limit = 10): Promise<ActivityLog[]> {
-    return this.activityLogs.slice(0, limit);
+  async getRecentActivityLogs(limit = 20, executionId?: number): Promise<ActivityLog[]> {
+    return this.activityLogs
+      .filter(log => executionId === undefined || log.executionId === executionId)
+      .slice(0, limit);
   }
 
   async clearActivityLogs(): Promise<void> {
     this.activityLogs = [];
   }
+
+  async getPipelineSchedules(): Promise<PipelineSchedule[]> {
+    return Array.from(this.pipelineSchedules.values())
+      .sort((a, b) => a.id - b.id)
+      .map(schedule => ({ ...schedule, sources: [...schedule.sources] }));
+  }
+
+  async getPipelineSchedule(id: number): Promise<PipelineSchedule | undefined> {
+    const schedule = this.pipelineSchedules.get(id);
+    return schedule && { ...schedule, sources: [...schedule.sources] };
+  }
+
+  async createPipelineSchedule(schedule: InsertPipelineSchedule): Promise<PipelineSchedule> {
+    const now = new Date().toISOString();
+    const created = toPipelineSchedule({
+      ...schedule,
+      id: this.currentScheduleId++,
+      version: 1,
+      createdAt: now,
+      updatedAt: now,
+    });
+    this.pipelineSchedules.set(created.id, created);
+    return { ...created, sources: [...created.sources] };
+  }
+
+  async updatePipelineSchedule(id: number, updates: Partial<InsertPipelineSchedule>, expectedVersion?: number): Promise<PipelineSchedule | undefined> {
+    const existing = this.pipelineSchedules.get(id);
+    if (!existing) return undefined;
+    if (expectedVersion !== undefined && existing.version !== expectedVersion) {
+      throw new ScheduleVersionConflictError(id, existing.version);
+    }
+
+    const updated = toPipelineSchedule({
+      ...existing,
+      ...updates,
+      version: existing.version + 1,
+      updatedAt: new Date().toISOString(),
+    });
+    this.pipelineSchedules.set(id, updated);
+    return { ...updated, sources: [...updated.sources] };
+  }
+
+  async deletePipelineSchedule(id: number): Promise<boolean> {
+    return this.pipelineSchedules.delete(id);
+  }
 }
 
-import { SQLStorage } from "./sql-storage";
 
 // Lazy initialization to ensure environment variables are loaded
 let _storage: IStorage | null = null;
 
+// Hides the password in a connection string before it is logged
+function redactDatabaseUrl(url: string): string {
+  // SQL Server JDBC strings carry it as a password= property
+  const redacted = url.replace(/((?:password|pwd)=)[^;&]*/gi, '$1***');
+  try {
+    const parsed = new URL(redacted);
+    if (parsed.password) {
+      parsed.password = '***';
+      return parsed.toString();
+    }
+  } catch {
+    // Not a URL, such as a bare SQLite path
+  }
+  return redacted;
+}
+
 export function getStorage(): IStorage {
   if (!_storage) {
     console.log('🔍 Storage initialization check:');
@@ -150,12 +875,21 @@ export function getStorage(): IStorage {
     const azureUrl = process.env.AZURE_SQL_URL?.replace(/['"]/g, ''); // Remove quotes
     const dbUrl = process.env.DATABASE_URL?.replace(/['"]/g, ''); // Remove quotes
     console.log('AZURE_SQL_URL:', azureUrl ? 'Present' : 'Missing');
-    console.log('DATABASE_URL (cleaned):', dbUrl);
+    console.log('DATABASE_URL (cleaned):', dbUrl && redactDatabaseUrl(dbUrl));
     console.log('Using Azure SQL:', !!azureUrl);
 
     if (azureUrl || dbUrl?.includes('jdbc:sqlserver:')) {
       console.log('Initializing AzureSQLStorage...');
       _storage = new AzureSQLStorage();
+    } else if (isPostgresUrl(dbUrl)) {
+      console.log('Initializing PostgresStorage...');
+      _storage = new PostgresStorage(dbUrl);
+    } else if (isSqliteUrl(dbUrl)) {
+      console.log('Initializing SQLiteStorage...');
+      _storage = new SQLiteStorage(sqlitePathFromUrl(dbUrl!));
+    } else if (process.env.STORAGE === 'sqlite') {
+      console.log(`Initializing SQLiteStorage at ${DEFAULT_SQLITE_PATH} (STORAGE=sqlite)`);
+      _storage = new SQLiteStorage();
     } else {
       console.log('Falling back to MemStorage');
       _storage = new MemStorage();
@@ -168,6 +902,9 @@ export function getStorage(): IStorage {
 // Backward compatibility export
 export const storage = new Proxy({} as IStorage, {
   get(target, prop) {
-    return getStorage()[prop as keyof IStorage];
+    const instance = getStorage();
+    const value = instance[prop as keyof IStorage];
+    // Bind methods so instance state (id counters, caches) is updated on the real storage
+    return typeof value === 'function' ? value.bind(instance) : value;
   }
 });
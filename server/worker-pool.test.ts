@@ -0,0 +1,57 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { runWithConcurrency } from './worker-pool';
+
+const tick = () => new Promise(resolve => setImmediate(resolve));
+
+describe('runWithConcurrency', () => {
+  it('runs every item with at most `limit` in flight', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const done: number[] = [];
+
+    await runWithConcurrency([1, 2, 3, 4, 5, 6, 7], 3, async (item) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await tick();
+      inFlight--;
+      done.push(item);
+    });
+
+    assert.equal(maxInFlight, 3);
+    assert.deepEqual(done.sort(), [1, 2, 3, 4, 5, 6, 7]);
+  });
+
+  it('starts nothing new after the first error and rethrows it', async () => {
+    const started: number[] = [];
+    const finished: number[] = [];
+
+    await assert.rejects(
+      runWithConcurrency([1, 2, 3, 4, 5], 2, async (item) => {
+        started.push(item);
+        if (item === 2) {
+          throw new Error('item 2 failed');
+        }
+        await tick();
+        finished.push(item);
+      }),
+      { message: 'item 2 failed' },
+    );
+
+    // Item 1 was in flight when item 2 failed, so it finishes; 3 and later never start
+    assert.deepEqual(started, [1, 2]);
+    assert.deepEqual(finished, [1]);
+  });
+
+  it('handles no items and limits below one', async () => {
+    await runWithConcurrency([], 4, async () => {
+      assert.fail('worker should not run');
+    });
+
+    const seen: string[] = [];
+    await runWithConcurrency(['a', 'b'], 0, async (item) => {
+      seen.push(item);
+    });
+    assert.deepEqual(seen, ['a', 'b']);
+  });
+});
@@ -0,0 +1,33 @@
+/**
+ * Runs `worker` over `items` with at most `limit` in flight. After the first
+ * failure no new items are started; in-flight items finish and the first error
+ * is rethrown.
+ */
+export async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<void>,
+): Promise<void> {
+  let nextIndex = 0;
+  let failed = false;
+  let firstError: unknown;
+
+  const runners = Array.from({ length: Math.min(Math.max(1, limit), items.length) }, async () => {
+    while (!failed && nextIndex < items.length) {
+      const item = items[nextIndex++];
+      try {
+        await worker(item);
+      } catch (error) {
+        if (!failed) {
+          failed = true;
+          firstError = error;
+        }
+      }
+    }
+  });
+
+  await Promise.all(runners);
+  if (failed) {
+    throw firstError;
+  }
+}
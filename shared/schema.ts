@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, timestamp, decimal } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, timestamp, decimal, boolean, uniqueIndex, index } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -17,21 +17,39 @@ export const jobPostingListings = pgTable("job_posting_listings", {
   locationPoint: text("location_point"), // For geospatial data
   description: text("description"),
   companyName: text("company_name"),
+  source: text("source").notNull().default("algolia"), // Name of the job source config the posting came from
+  lastDayToApply: text("last_day_to_apply"),
+  contentHash: text("content_hash"), // Hash of the source fields, used to detect updated postings
+  locationHash: text("location_hash"), // Hash of the location inputs, used to decide on re-enrichment
+  status: text("status").notNull().default("active"), // 'active', 'removed'
+  isExpired: boolean("is_expired").notNull().default(false),
+  firstSeen: timestamp("first_seen").defaultNow(),
+  lastSeen: timestamp("last_seen").defaultNow(),
+  removedAt: timestamp("removed_at"), // Set when the posting disappears from the source; purged after the retention period
   createdAt: timestamp("created_at").defaultNow(),
-});
+  updatedAt: timestamp("updated_at"),
+}, (table) => [
+  index("job_posting_listings_status").on(table.status, table.removedAt),
+  index("job_posting_listings_created").on(table.createdAt),
+]);
 
 export const pipelineExecutions = pgTable("pipeline_executions", {
   id: serial("id").primaryKey(),
-  status: text("status").notNull(), // 'running', 'completed', 'failed'
+  status: text("status").notNull(), // 'running', 'completed', 'failed', 'cancelled'
   startTime: timestamp("startTime").notNull(),
   endTime: timestamp("endTime"),
   totalJobs: integer("totalJobs").default(0),
   processedJobs: integer("processedJobs").default(0),
   newJobs: integer("newJobs").default(0),
+  updatedJobs: integer("updatedJobs").default(0),
   removedJobs: integer("removedJobs").default(0),
+  pendingRemovals: integer("pendingRemovals").default(0), // Removals held for approval by the mass-removal safeguard
   errorMessage: text("errorMessage"),
   currentStep: text("currentStep"),
-});
+  triggerSource: text("triggerSource").notNull().default("manual"), // 'manual', 'scheduled', 'webhook', 'test'
+}, (table) => [
+  index("pipeline_executions_start").on(table.startTime),
+]);
 
 export const activityLogs = pgTable("activity_logs", {
   id: serial("id").primaryKey(),
@@ -39,11 +57,102 @@ export const activityLogs = pgTable("activity_logs", {
   level: text("level").notNull(), // 'info', 'warning', 'error', 'success'
   timestamp: timestamp("timestamp").defaultNow().notNull(),
   executionId: integer("executionId").references(() => pipelineExecutions.id),
+}, (table) => [
+  index("activity_logs_execution").on(table.executionId, table.id),
+]);
+
+// Durable per-job progress for a pipeline execution, used to resume interrupted runs
+export const pipelineJobCheckpoints = pgTable("pipeline_job_checkpoints", {
+  id: serial("id").primaryKey(),
+  executionId: integer("executionId").references(() => pipelineExecutions.id).notNull(),
+  jobId: text("jobId").notNull(),
+  stage: text("stage").notNull(), // 'fetched', 'enriched', 'saved', 'failed'
+  action: text("action").notNull().default("create"), // 'create' or 'update'
+  sourceData: text("sourceData").notNull(), // Raw Algolia hit as JSON
+  enrichedData: text("enrichedData"), // Enriched job posting as JSON
+  errorMessage: text("errorMessage"),
+  updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("pipeline_job_checkpoints_execution_job").on(table.executionId, table.jobId),
+]);
+
+// Single-flight lease held by whichever process is running the pipeline
+export const pipelineRunLocks = pgTable("pipeline_run_locks", {
+  name: text("name").primaryKey(),
+  ownerId: text("ownerId").notNull(),
+  executionId: integer("executionId"),
+  acquiredAt: timestamp("acquiredAt").notNull(),
+  heartbeatAt: timestamp("heartbeatAt").notNull(),
+  expiresAt: timestamp("expiresAt").notNull(),
+});
+
+// Removals held back by the mass-removal safeguard until an operator approves or rejects them
+export const pendingJobRemovals = pgTable("pending_job_removals", {
+  id: serial("id").primaryKey(),
+  executionId: integer("executionId").references(() => pipelineExecutions.id).notNull(),
+  jobId: text("jobId").notNull(),
+  title: text("title"),
+  status: text("status").notNull().default("pending"), // 'pending', 'approved', 'rejected', 'superseded'
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  resolvedAt: timestamp("resolvedAt"),
+}, (table) => [
+  index("pending_job_removals_status").on(table.status, table.executionId),
+]);
+
+// A run's planned adds, updates and removals. They are applied together once
+// enrichment finishes, and the before/after snapshots let them be rolled back.
+export const pipelineChanges = pgTable("pipeline_changes", {
+  id: serial("id").primaryKey(),
+  executionId: integer("executionId").references(() => pipelineExecutions.id).notNull(),
+  jobId: text("jobId").notNull(),
+  action: text("action").notNull(), // 'add', 'update', 'remove'
+  status: text("status").notNull().default("planned"), // 'planned', 'applied', 'skipped', 'rolled_back', 'conflict'
+  before: text("before"), // Posting as stored when the change was planned, as JSON; null for adds
+  after: text("after"), // Posting as written when the change was applied, as JSON; null for removals
+  appliedAt: timestamp("appliedAt"),
+  rolledBackAt: timestamp("rolledBackAt"),
+}, (table) => [
+  uniqueIndex("pipeline_changes_execution_job").on(table.executionId, table.jobId),
+]);
+
+// US postal codes with their centroids, loaded by hand; resolves ?zip= on nearby job searches
+export const usZipcodes = pgTable("us_zipcodes", {
+  postalCode: text("postal_code").primaryKey(),
+  city: text("city").notNull(),
+  state: text("state").notNull(),
+  stateAbbrev: text("state_abbrev").notNull(),
+  latitude: decimal("latitude", { precision: 10, scale: 8 }).notNull(),
+  longitude: decimal("longitude", { precision: 11, scale: 8 }).notNull(),
+});
+
+// Named pipeline schedules; pipelineScheduleSchema below is the validated shape the API and scheduler use
+export const pipelineSchedules = pgTable("pipeline_schedules", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  cron: text("cron").notNull(),
+  timezone: text("timezone").notNull(),
+  batchSize: integer("batchSize").notNull(),
+  sources: text("sources").notNull().default("[]"), // Job source names as a JSON array
+  profile: text("profile"),
+  enabled: boolean("enabled").notNull(),
+  oneTime: boolean("oneTime").notNull().default(false),
+  misfirePolicy: text("misfirePolicy").notNull().default("run-once"),
+  nextRun: timestamp("nextRun"),
+  lastRun: timestamp("lastRun"),
+  version: integer("version").notNull().default(1), // Bumped on every write, for optimistic concurrency
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().notNull(),
 });
 
 export const insertJobPostingListingSchema = createInsertSchema(jobPostingListings).omit({
   id: true,
+  status: true,
+  isExpired: true,
+  firstSeen: true,
+  lastSeen: true,
+  removedAt: true,
   createdAt: true,
+  updatedAt: true,
 });
 
 export const insertPipelineExecutionSchema = createInsertSchema(pipelineExecutions).omit({
@@ -55,13 +164,207 @@ export const insertActivityLogSchema = createInsertSchema(activityLogs).omit({
   timestamp: true,
 });
 
+export const insertPipelineJobCheckpointSchema = createInsertSchema(pipelineJobCheckpoints).omit({
+  id: true,
+  updatedAt: true,
+});
+
+export const insertPendingJobRemovalSchema = createInsertSchema(pendingJobRemovals).omit({
+  id: true,
+  status: true,
+  createdAt: true,
+  resolvedAt: true,
+});
+
+export const insertPipelineChangeSchema = createInsertSchema(pipelineChanges).omit({
+  id: true,
+  status: true,
+  after: true,
+  appliedAt: true,
+  rolledBackAt: true,
+});
+
 export type JobPostingListing = typeof jobPostingListings.$inferSelect;
 export type InsertJobPostingListing = z.infer<typeof insertJobPostingListingSchema>;
 export type PipelineExecution = typeof pipelineExecutions.$inferSelect;
 export type InsertPipelineExecution = z.infer<typeof insertPipelineExecutionSchema>;
 export type ActivityLog = typeof activityLogs.$inferSelect;
 export type InsertActivityLog = z.infer<typeof insertActivityLogSchema>;
+export type PipelineJobCheckpoint = typeof pipelineJobCheckpoints.$inferSelect;
+export type InsertPipelineJobCheckpoint = z.infer<typeof insertPipelineJobCheckpointSchema>;
+export type PipelineRunLock = typeof pipelineRunLocks.$inferSelect;
+export type PendingJobRemoval = typeof pendingJobRemovals.$inferSelect;
+export type InsertPendingJobRemoval = z.infer<typeof insertPendingJobRemovalSchema>;
+export type PipelineChange = typeof pipelineChanges.$inferSelect;
+export type InsertPipelineChange = z.infer<typeof insertPipelineChangeSchema>;
+export type UsZipcode = typeof usZipcodes.$inferSelect;
+export type PendingRemovalStatus = 'pending' | 'approved' | 'rejected' | 'superseded';
+export type CheckpointStage = 'fetched' | 'enriched' | 'saved' | 'failed';
+export type CheckpointAction = 'create' | 'update';
+export type JobStatus = 'active' | 'removed';
+export type TriggerSource = 'manual' | 'scheduled' | 'webhook' | 'test';
+export type ExecutionStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+export type ChangeAction = 'add' | 'update' | 'remove';
+export type ChangeStatus = 'planned' | 'applied' | 'skipped' | 'rolled_back' | 'conflict';
 
 // Legacy types for backward compatibility
 export type JobPosting = JobPostingListing;
 export type InsertJobPosting = InsertJobPostingListing;
+
+// Named Algolia query profiles, stored in algolia-profiles.json and editable in the control center
+export const algoliaSplitSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("facet"), attribute: z.string().min(1) }), // e.g. data.city
+  z.object({ type: z.literal("range"), attribute: z.string().min(1) }), // Numeric attribute such as a Unix timestamp
+]);
+
+export const algoliaQueryProfileSchema = z.object({
+  name: z.string().regex(/^[\w-]+$/, "Use letters, numbers, dashes and underscores"),
+  index: z.string().min(1),
+  filters: z.string().default(""),
+  countries: z.array(z.string().min(1)).default([]),
+  countryAttribute: z.string().min(1).default("data.country"),
+  attributesToRetrieve: z.array(z.string().min(1)).default([]),
+  hitsPerPage: z.number().int().min(1).max(1000).default(1000),
+  splitBy: z.array(algoliaSplitSchema).default([]), // Applied in order when a query exceeds Algolia's 1000-hit limit
+});
+
+export type AlgoliaSplit = z.infer<typeof algoliaSplitSchema>;
+export type AlgoliaQueryProfile = z.infer<typeof algoliaQueryProfileSchema>;
+
+// What the scheduler does with runs missed while the server was down: run once
+// now, skip to the next run, or run every missed run back to back
+export const MISFIRE_POLICIES = ["run-once", "skip", "run-all"] as const;
+export type MisfirePolicy = typeof MISFIRE_POLICIES[number];
+
+// Schedule fields set through POST and PUT /api/schedules
+export const pipelineScheduleInputSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  cron: z.string().trim().min(1), // Five-field cron expression such as "0 9 * * 1-5", or a macro such as @daily
+  timezone: z.string().min(1).default("America/New_York"), // IANA zone the cron fields are read in
+  batchSize: z.number().int().min(1).max(10000).default(1000),
+  sources: z.array(z.string().min(1)).default([]), // Job source names to fetch; every enabled source when empty
+  // Algolia query profile; each source's configured profile when omitted or null
+  profile: z.string().min(1).nullish().transform(profile => profile ?? undefined),
+  enabled: z.boolean().default(true),
+  oneTime: z.boolean().default(false), // Disabled after its next run
+  misfirePolicy: z.enum(MISFIRE_POLICIES).default("run-once"),
+});
+
+// PUT /api/schedules/:id changes only the fields given. A stale version is rejected
+export const pipelineScheduleUpdateSchema = pipelineScheduleInputSchema.partial().extend({
+  version: z.number().int().positive().optional(),
+});
+
+// A stored schedule, as every IStorage backend returns it
+export const pipelineScheduleSchema = pipelineScheduleInputSchema.extend({
+  id: z.number().int().positive(),
+  nextRun: z.string().datetime().nullable(), // Null while disabled
+  lastRun: z.string().datetime().nullable(),
+  version: z.number().int().positive(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+});
+
+export const insertPipelineScheduleSchema = pipelineScheduleSchema.omit({
+  id: true,
+  version: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type PipelineScheduleInput = z.infer<typeof pipelineScheduleInputSchema>;
+export type PipelineScheduleUpdate = z.infer<typeof pipelineScheduleUpdateSchema>;
+export type PipelineSchedule = z.infer<typeof pipelineScheduleSchema>;
+export type InsertPipelineSchedule = z.infer<typeof insertPipelineScheduleSchema>;
+
+// Body of POST /api/pipeline/start and the webhook and test routes that start a run
+export const pipelineStartSchema = z.object({
+  batchSize: z.number().int().min(1).max(10000).optional(), // Each route has its own default
+  profile: z.string().min(1).nullish().transform(profile => profile ?? undefined),
+  sources: z.array(z.string().min(1)).default([]), // Job source names to fetch; every enabled source when empty
+});
+
+export type PipelineStart = z.infer<typeof pipelineStartSchema>;
+
+// An execution or schedule id in a route path or query string
+export const idSchema = z.coerce.number().int().positive();
+
+// Query string for GET /api/pipeline/executions/:id/changelog
+export const changelogQuerySchema = z.object({
+  action: z.enum(["add", "update", "remove"]).optional(),
+  format: z.enum(["json", "csv"]).default("json"),
+});
+
+// Query string for GET /api/pipeline/executions
+export const executionListQuerySchema = z.object({
+  status: z.enum(["running", "completed", "failed", "cancelled"]).optional(),
+  from: z.coerce.date().optional(), // Runs started at or after this time
+  to: z.coerce.date().optional(), // Runs started before this time
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export type ExecutionListQuery = z.infer<typeof executionListQuerySchema>;
+
+export const JOB_SORT_FIELDS = ["createdAt", "title", "companyName", "city", "state"] as const;
+export type JobSortField = typeof JOB_SORT_FIELDS[number];
+
+// Filters shared by GET /api/jobs/search and GET /api/jobs/facets
+export const jobFilterSchema = z.object({
+  title: z.string().trim().min(1).optional(), // Matches anywhere in the title, ignoring case
+  company: z.string().trim().min(1).optional(), // Matches anywhere in the company name, ignoring case
+  city: z.string().trim().min(1).optional(),
+  state: z.string().trim().min(1).optional(),
+  country: z.string().trim().min(1).optional(),
+  zipcode: z.string().trim().min(1).optional(),
+  source: z.string().trim().min(1).optional(),
+  createdFrom: z.coerce.date().optional(), // Postings created at or after this time
+  createdTo: z.coerce.date().optional(), // Postings created before this time
+  includeRemoved: z.enum(["true", "false"]).transform(value => value === "true").default("false"),
+});
+
+// Query string for GET /api/jobs/search
+export const jobQuerySchema = jobFilterSchema.extend({
+  sort: z.enum(JOB_SORT_FIELDS).default("createdAt"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+  cursor: z.string().min(1).optional(), // nextCursor from the previous page; takes precedence over offset
+});
+
+export type JobQuery = z.infer<typeof jobQuerySchema>;
+
+// Query string for GET /api/jobs/facets
+export const jobFacetsQuerySchema = jobFilterSchema.extend({
+  top: z.coerce.number().int().min(1).max(100).default(10), // Values kept per facet
+  bucket: z.enum(["day", "week", "month"]).default("day"), // Created-date bucket size
+});
+
+export type JobFacetsQuery = z.infer<typeof jobFacetsQuerySchema>;
+
+const latitude = z.coerce.number().min(-90).max(90);
+const longitude = z.coerce.number().min(-180).max(180);
+
+// Query string for GET /api/jobs/near. The origin is lat/lng or a US zipcode
+export const nearbyJobsQuerySchema = z.object({
+  lat: latitude.optional(),
+  lng: longitude.optional(),
+  zip: z.string().trim().regex(/^\d{5}$/, "zip must be a 5-digit US zipcode").optional(),
+  radius: z.coerce.number().positive().max(5000).default(50), // Kilometres
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+}).refine(query => query.zip !== undefined || (query.lat !== undefined && query.lng !== undefined), {
+  message: "Pass lat and lng, or zip",
+});
+
+export type NearbyJobsQuery = z.infer<typeof nearbyJobsQuerySchema>;
+
+// Query string for GET /api/jobs/bounds. west > east means the box crosses the antimeridian
+export const jobBoundsQuerySchema = z.object({
+  north: latitude,
+  south: latitude,
+  east: longitude,
+  west: longitude,
+  limit: z.coerce.number().int().min(1).max(2000).default(500),
+}).refine(bounds => bounds.south <= bounds.north, { message: "south must not be above north", path: ["south"] });
+
+export type JobBoundsQuery = z.infer<typeof jobBoundsQuerySchema>;